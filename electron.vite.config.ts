@@ -17,8 +17,18 @@ export default defineConfig({
     build: {
       outDir: "dist/main",
       rollupOptions: {
+        // Worker threads are loaded by URL at runtime, so they need their own
+        // entries next to index.js rather than being bundled into it.
+        input: {
+          index: join(rootDir, "src/main/index.ts"),
+          "media/heicWorker": join(rootDir, "src/main/media/heicWorker.ts"),
+          "media/thumbnailWorker": join(
+            rootDir,
+            "src/main/media/thumbnailWorker.ts",
+          ),
+        },
         output: {
-          entryFileNames: "index.js",
+          entryFileNames: "[name].js",
         },
       },
     },
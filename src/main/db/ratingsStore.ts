@@ -1,14 +1,83 @@
 import { existsSync, mkdirSync } from "node:fs";
 import { dirname, join } from "node:path";
+import { isColorLabel } from "@shared/colorLabels";
+import { normalizeKeyword } from "@shared/keywords";
+import { isPhotoFlag } from "@shared/photoFlags";
+import type {
+  CacheKind,
+  ColorLabel,
+  MetadataMode,
+  PhotoCaptureInfo,
+  PhotoFlag,
+} from "@shared/types";
 import Database from "better-sqlite3";
 import { app } from "electron";
+import type { FileFingerprint } from "../library/fingerprint";
+import type { PhotoMetadataValues } from "../metadata/ratingMetadata";
 
 let db: Database.Database | null = null;
 
+export interface CacheIndexEntry {
+  path: string;
+  kind: CacheKind;
+  sourcePath: string;
+  size: number;
+  lastAccessedAt: number;
+}
+
+export interface CaptureInfoEntry {
+  path: string;
+  sourceModifiedAt: number;
+  capture: PhotoCaptureInfo;
+}
+
 export interface RatingCacheEntry {
   rating: number;
   updatedAt: number;
   sourceModifiedAt: number | null;
+  fingerprint: FileFingerprint | null;
+  label: ColorLabel | null;
+  flag: PhotoFlag | null;
+  keywords: string[];
+}
+
+interface RatingRow {
+  rating: number;
+  updated_at: number;
+  source_modified_at: number | null;
+  file_size: number | null;
+  content_hash: string | null;
+  fingerprint_modified_at: number | null;
+  label: string | null;
+  flag: string | null;
+}
+
+const RATING_COLUMNS =
+  "rating, updated_at, source_modified_at, file_size, content_hash, fingerprint_modified_at, label, flag";
+
+function toRatingCacheEntry(
+  row: RatingRow,
+  keywords: string[] = [],
+): RatingCacheEntry {
+  return {
+    rating: row.rating,
+    updatedAt: row.updated_at,
+    sourceModifiedAt:
+      typeof row.source_modified_at === "number"
+        ? row.source_modified_at
+        : null,
+    fingerprint:
+      typeof row.file_size === "number" && row.content_hash
+        ? {
+            size: row.file_size,
+            hash: row.content_hash,
+            modifiedAt: row.fingerprint_modified_at ?? 0,
+          }
+        : null,
+    label: isColorLabel(row.label) ? row.label : null,
+    flag: isPhotoFlag(row.flag) ? row.flag : null,
+    keywords,
+  };
 }
 
 function getDatabasePath(): string {
@@ -44,7 +113,84 @@ export function initRatingsStore(): void {
     )`,
   );
 
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS library_settings (
+      directory TEXT PRIMARY KEY,
+      metadata_mode TEXT NOT NULL,
+      updated_at INTEGER NOT NULL
+    )`,
+  );
+
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS app_settings (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      updated_at INTEGER NOT NULL
+    )`,
+  );
+
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS cache_entries (
+      path TEXT PRIMARY KEY,
+      kind TEXT NOT NULL,
+      source_path TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      last_accessed_at INTEGER NOT NULL
+    )`,
+  );
+
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS rating_relocations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      from_id TEXT NOT NULL,
+      to_id TEXT NOT NULL,
+      content_hash TEXT NOT NULL,
+      relocated_at INTEGER NOT NULL
+    )`,
+  );
+
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS keywords (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      created_at INTEGER NOT NULL
+    )`,
+  );
+
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS photo_keywords (
+      photo_id TEXT NOT NULL,
+      keyword_id INTEGER NOT NULL REFERENCES keywords (id) ON DELETE CASCADE,
+      PRIMARY KEY (photo_id, keyword_id)
+    )`,
+  );
+
+  // Keyed by path and mtime; a stale row is simply read again.
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS capture_info (
+      path TEXT PRIMARY KEY,
+      source_modified_at INTEGER NOT NULL,
+      captured_at INTEGER,
+      camera TEXT,
+      body_serial TEXT,
+      lens TEXT,
+      focal_length REAL,
+      iso INTEGER
+    )`,
+  );
+
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS perceptual_hashes (
+      path TEXT PRIMARY KEY,
+      source_modified_at INTEGER NOT NULL,
+      hash TEXT NOT NULL
+    )`,
+  );
+
   ensureSourceModifiedColumn(db);
+  ensureFingerprintColumns(db);
+  ensureLabelColumn(db);
+  ensureFlagColumn(db);
 }
 
 function ensureDb(): Database.Database {
@@ -68,30 +214,211 @@ function ensureSourceModifiedColumn(database: Database.Database): void {
   }
 }
 
+// Content fingerprints let a rating follow its photo when the path changes
+// outside PickShot (moved folder, renamed drive, remounted share).
+function ensureFingerprintColumns(database: Database.Database): void {
+  const columns = database
+    .prepare("PRAGMA table_info(ratings)")
+    .all() as Array<{ name: string }>;
+  const names = new Set(columns.map((column) => column.name));
+  if (!names.has("file_size")) {
+    database.exec("ALTER TABLE ratings ADD COLUMN file_size INTEGER");
+  }
+  if (!names.has("content_hash")) {
+    database.exec("ALTER TABLE ratings ADD COLUMN content_hash TEXT");
+  }
+  if (!names.has("fingerprint_modified_at")) {
+    database.exec(
+      "ALTER TABLE ratings ADD COLUMN fingerprint_modified_at INTEGER",
+    );
+  }
+  database.exec(
+    "CREATE INDEX IF NOT EXISTS ratings_fingerprint ON ratings (file_size, content_hash)",
+  );
+}
+
+function ensureLabelColumn(database: Database.Database): void {
+  const columns = database
+    .prepare("PRAGMA table_info(ratings)")
+    .all() as Array<{ name: string }>;
+  if (!columns.some((column) => column.name === "label")) {
+    database.exec("ALTER TABLE ratings ADD COLUMN label TEXT");
+  }
+}
+
+function ensureFlagColumn(database: Database.Database): void {
+  const columns = database
+    .prepare("PRAGMA table_info(ratings)")
+    .all() as Array<{ name: string }>;
+  if (!columns.some((column) => column.name === "flag")) {
+    database.exec("ALTER TABLE ratings ADD COLUMN flag TEXT");
+  }
+}
+
+// Links are rewritten as a whole, so rowid order is the order the keywords
+// were given in, matching how they read back from the file.
+const PHOTO_KEYWORDS_QUERY = `SELECT photo_keywords.photo_id AS id, keywords.name AS name
+   FROM photo_keywords
+   JOIN keywords ON keywords.id = photo_keywords.keyword_id`;
+
+function getKeywordMap(
+  database: Database.Database,
+  id?: string,
+): Record<string, string[]> {
+  const rows = (
+    id === undefined
+      ? database
+          .prepare(`${PHOTO_KEYWORDS_QUERY} ORDER BY photo_keywords.rowid`)
+          .all()
+      : database
+          .prepare(
+            `${PHOTO_KEYWORDS_QUERY} WHERE photo_keywords.photo_id = ? ORDER BY photo_keywords.rowid`,
+          )
+          .all(id)
+  ) as Array<{ id: string; name: string }>;
+  const map: Record<string, string[]> = {};
+  for (const row of rows) {
+    const keywords = map[row.id];
+    if (keywords) {
+      keywords.push(row.name);
+    } else {
+      map[row.id] = [row.name];
+    }
+  }
+  return map;
+}
+
 export function getAllRatings(): Record<string, RatingCacheEntry> {
   const database = ensureDb();
   const rows = database
-    .prepare("SELECT id, rating, updated_at, source_modified_at FROM ratings")
-    .all() as Array<{
-    id: string;
-    rating: number;
-    updated_at: number;
-    source_modified_at: number | null;
-  }>;
+    .prepare(`SELECT id, ${RATING_COLUMNS} FROM ratings`)
+    .all() as Array<RatingRow & { id: string }>;
+  const keywordMap = getKeywordMap(database);
   const map: Record<string, RatingCacheEntry> = {};
   for (const row of rows) {
-    map[row.id] = {
-      rating: row.rating,
-      updatedAt: row.updated_at,
-      sourceModifiedAt:
-        typeof row.source_modified_at === "number"
-          ? row.source_modified_at
-          : null,
-    };
+    map[row.id] = toRatingCacheEntry(row, keywordMap[row.id]);
   }
   return map;
 }
 
+export function getRating(id: string): RatingCacheEntry | null {
+  const database = ensureDb();
+  const row = database
+    .prepare(`SELECT ${RATING_COLUMNS} FROM ratings WHERE id = ?`)
+    .get(id) as RatingRow | undefined;
+  if (!row) {
+    return null;
+  }
+  return toRatingCacheEntry(row, getKeywordMap(database, id)[id]);
+}
+
+// Every keyword ever used, for autocomplete.
+export function listKeywords(): string[] {
+  const database = ensureDb();
+  const rows = database
+    .prepare("SELECT name FROM keywords ORDER BY name COLLATE NOCASE")
+    .all() as Array<{ name: string }>;
+  return rows.map((row) => row.name);
+}
+
+function replacePhotoKeywords(
+  database: Database.Database,
+  id: string,
+  keywords: string[],
+): void {
+  database.prepare("DELETE FROM photo_keywords WHERE photo_id = ?").run(id);
+  const insertKeyword = database.prepare(
+    "INSERT INTO keywords (name, created_at) VALUES (?, ?) ON CONFLICT (name) DO NOTHING",
+  );
+  const link = database.prepare(
+    `INSERT OR IGNORE INTO photo_keywords (photo_id, keyword_id)
+     SELECT ?, id FROM keywords WHERE name = ?`,
+  );
+  for (const value of keywords) {
+    const keyword = normalizeKeyword(value);
+    if (!keyword) {
+      continue;
+    }
+    insertKeyword.run(keyword, Date.now());
+    link.run(id, keyword);
+  }
+}
+
+// Pass `null` for sourceModifiedAt when the keywords still have to be written
+// to the file, mirroring upsertRating.
+export function setPhotoKeywords(
+  id: string,
+  keywords: string[],
+  sourceModifiedAt: number | null,
+): void {
+  const database = ensureDb();
+  const run = database.transaction(() => {
+    database
+      .prepare(
+        `INSERT INTO ratings (id, rating, updated_at, source_modified_at)
+         VALUES (@id, 0, @updated_at, @source_modified_at)
+         ON CONFLICT (id) DO UPDATE SET
+           updated_at = excluded.updated_at,
+           source_modified_at = excluded.source_modified_at`,
+      )
+      .run({
+        id,
+        updated_at: Date.now(),
+        source_modified_at: sourceModifiedAt,
+      });
+    replacePhotoKeywords(database, id, keywords);
+  });
+  run();
+}
+
+export function setRatingFingerprint(
+  id: string,
+  fingerprint: FileFingerprint,
+): void {
+  const database = ensureDb();
+  database
+    .prepare(
+      `UPDATE ratings SET
+         file_size = @file_size,
+         content_hash = @content_hash,
+         fingerprint_modified_at = @fingerprint_modified_at
+       WHERE id = @id`,
+    )
+    .run({
+      id,
+      file_size: fingerprint.size,
+      content_hash: fingerprint.hash,
+      fingerprint_modified_at: fingerprint.modifiedAt,
+    });
+}
+
+// Moves a rating to the photo's new path and keeps a record of the move.
+export function relocateRating(
+  fromId: string,
+  toId: string,
+  fingerprint: FileFingerprint,
+): void {
+  const database = ensureDb();
+  const run = database.transaction(() => {
+    database.prepare("DELETE FROM ratings WHERE id = ?").run(toId);
+    database.prepare("DELETE FROM photo_keywords WHERE photo_id = ?").run(toId);
+    database
+      .prepare("UPDATE ratings SET id = ? WHERE id = ?")
+      .run(toId, fromId);
+    database
+      .prepare("UPDATE photo_keywords SET photo_id = ? WHERE photo_id = ?")
+      .run(toId, fromId);
+    database
+      .prepare(
+        `INSERT INTO rating_relocations (from_id, to_id, content_hash, relocated_at)
+         VALUES (?, ?, ?, ?)`,
+      )
+      .run(fromId, toId, fingerprint.hash, Date.now());
+  });
+  run();
+  setRatingFingerprint(toId, fingerprint);
+}
+
 export function upsertRating(
   id: string,
   rating: number,
@@ -116,9 +443,90 @@ export function upsertRating(
     });
 }
 
+// Pass `null` for sourceModifiedAt when the label still has to be written to
+// the file, mirroring upsertRating.
+export function setPhotoLabel(
+  id: string,
+  label: ColorLabel | null,
+  sourceModifiedAt: number | null,
+): void {
+  const database = ensureDb();
+  database
+    .prepare(
+      `INSERT INTO ratings (id, rating, updated_at, source_modified_at, label)
+       VALUES (@id, 0, @updated_at, @source_modified_at, @label)
+       ON CONFLICT (id) DO UPDATE SET
+         label = excluded.label,
+         updated_at = excluded.updated_at,
+         source_modified_at = excluded.source_modified_at`,
+    )
+    .run({
+      id,
+      label,
+      updated_at: Date.now(),
+      source_modified_at: sourceModifiedAt,
+    });
+}
+
+export function setPhotoFlag(
+  id: string,
+  flag: PhotoFlag | null,
+  sourceModifiedAt: number | null,
+): void {
+  const database = ensureDb();
+  database
+    .prepare(
+      `INSERT INTO ratings (id, rating, updated_at, source_modified_at, flag)
+       VALUES (@id, 0, @updated_at, @source_modified_at, @flag)
+       ON CONFLICT (id) DO UPDATE SET
+         flag = excluded.flag,
+         updated_at = excluded.updated_at,
+         source_modified_at = excluded.source_modified_at`,
+    )
+    .run({
+      id,
+      flag,
+      updated_at: Date.now(),
+      source_modified_at: sourceModifiedAt,
+    });
+}
+
+// Records everything read from or written to the file in one statement.
+export function savePhotoMetadata(
+  id: string,
+  values: PhotoMetadataValues,
+  sourceModifiedAt: number | null,
+): void {
+  const database = ensureDb();
+  const run = database.transaction(() => {
+    database
+      .prepare(
+        `INSERT INTO ratings (id, rating, updated_at, source_modified_at, label, flag)
+         VALUES (@id, @rating, @updated_at, @source_modified_at, @label, @flag)
+         ON CONFLICT (id) DO UPDATE SET
+           rating = excluded.rating,
+           label = excluded.label,
+           flag = excluded.flag,
+           updated_at = excluded.updated_at,
+           source_modified_at = excluded.source_modified_at`,
+      )
+      .run({
+        id,
+        rating: values.rating,
+        label: values.label,
+        flag: values.flag,
+        updated_at: Date.now(),
+        source_modified_at: sourceModifiedAt,
+      });
+    replacePhotoKeywords(database, id, values.keywords);
+  });
+  run();
+}
+
 export function deleteRating(id: string): void {
   const database = ensureDb();
   database.prepare("DELETE FROM ratings WHERE id = ?").run(id);
+  database.prepare("DELETE FROM photo_keywords WHERE photo_id = ?").run(id);
 }
 
 export function deleteRatings(ids: string[]): void {
@@ -128,9 +536,238 @@ export function deleteRatings(ids: string[]): void {
   database
     .prepare(`DELETE FROM ratings WHERE id IN (${placeholders})`)
     .run(...ids);
+  database
+    .prepare(`DELETE FROM photo_keywords WHERE photo_id IN (${placeholders})`)
+    .run(...ids);
 }
 
 export function renameRating(oldId: string, newId: string): void {
   const database = ensureDb();
   database.prepare("UPDATE ratings SET id = ? WHERE id = ?").run(newId, oldId);
+  database
+    .prepare("UPDATE photo_keywords SET photo_id = ? WHERE photo_id = ?")
+    .run(newId, oldId);
+}
+
+export function getLibraryMetadataModes(): Record<string, MetadataMode> {
+  const database = ensureDb();
+  const rows = database
+    .prepare("SELECT directory, metadata_mode FROM library_settings")
+    .all() as Array<{ directory: string; metadata_mode: string }>;
+  const map: Record<string, MetadataMode> = {};
+  for (const row of rows) {
+    map[row.directory] =
+      row.metadata_mode === "sidecar" ? "sidecar" : "embedded";
+  }
+  return map;
+}
+
+export function setLibraryMetadataMode(
+  directory: string,
+  mode: MetadataMode,
+): void {
+  const database = ensureDb();
+  database
+    .prepare(
+      `INSERT INTO library_settings (directory, metadata_mode, updated_at)
+       VALUES (@directory, @metadata_mode, @updated_at)
+       ON CONFLICT (directory) DO UPDATE SET
+         metadata_mode = excluded.metadata_mode,
+         updated_at = excluded.updated_at`,
+    )
+    .run({
+      directory,
+      metadata_mode: mode,
+      updated_at: Date.now(),
+    });
+}
+
+export function getAppSetting(key: string): string | null {
+  const database = ensureDb();
+  const row = database
+    .prepare("SELECT value FROM app_settings WHERE key = ?")
+    .get(key) as { value: string } | undefined;
+  return row ? row.value : null;
+}
+
+export function setAppSetting(key: string, value: string | null): void {
+  const database = ensureDb();
+  if (value == null) {
+    database.prepare("DELETE FROM app_settings WHERE key = ?").run(key);
+    return;
+  }
+  database
+    .prepare(
+      `INSERT INTO app_settings (key, value, updated_at)
+       VALUES (@key, @value, @updated_at)
+       ON CONFLICT (key) DO UPDATE SET
+         value = excluded.value,
+         updated_at = excluded.updated_at`,
+    )
+    .run({
+      key,
+      value,
+      updated_at: Date.now(),
+    });
+}
+
+export function getCacheEntries(): CacheIndexEntry[] {
+  const database = ensureDb();
+  const rows = database
+    .prepare(
+      "SELECT path, kind, source_path, size, last_accessed_at FROM cache_entries",
+    )
+    .all() as Array<{
+    path: string;
+    kind: string;
+    source_path: string;
+    size: number;
+    last_accessed_at: number;
+  }>;
+  return rows.map((row) => ({
+    path: row.path,
+    kind: row.kind === "media" ? "media" : "thumbnail",
+    sourcePath: row.source_path,
+    size: row.size,
+    lastAccessedAt: row.last_accessed_at,
+  }));
+}
+
+export function upsertCacheEntries(entries: CacheIndexEntry[]): void {
+  if (entries.length === 0) return;
+  const database = ensureDb();
+  const statement = database.prepare(
+    `INSERT INTO cache_entries (path, kind, source_path, size, last_accessed_at)
+     VALUES (@path, @kind, @source_path, @size, @last_accessed_at)
+     ON CONFLICT (path) DO UPDATE SET
+       kind = excluded.kind,
+       source_path = excluded.source_path,
+       size = excluded.size,
+       last_accessed_at = excluded.last_accessed_at`,
+  );
+  const run = database.transaction((rows: CacheIndexEntry[]) => {
+    for (const entry of rows) {
+      statement.run({
+        path: entry.path,
+        kind: entry.kind,
+        source_path: entry.sourcePath,
+        size: entry.size,
+        last_accessed_at: entry.lastAccessedAt,
+      });
+    }
+  });
+  run(entries);
+}
+
+export function deleteCacheEntries(paths: string[]): void {
+  if (paths.length === 0) return;
+  const database = ensureDb();
+  const statement = database.prepare(
+    "DELETE FROM cache_entries WHERE path = ?",
+  );
+  const run = database.transaction((rows: string[]) => {
+    for (const path of rows) {
+      statement.run(path);
+    }
+  });
+  run(paths);
+}
+
+export function clearCacheEntries(): void {
+  const database = ensureDb();
+  database.prepare("DELETE FROM cache_entries").run();
+}
+
+export function getCaptureInfo(
+  path: string,
+  sourceModifiedAt: number,
+): PhotoCaptureInfo | null {
+  const database = ensureDb();
+  const row = database
+    .prepare(
+      "SELECT captured_at, camera, body_serial, lens, focal_length, iso FROM capture_info WHERE path = ? AND source_modified_at = ?",
+    )
+    .get(path, sourceModifiedAt) as
+    | {
+        captured_at: number | null;
+        camera: string | null;
+        body_serial: string | null;
+        lens: string | null;
+        focal_length: number | null;
+        iso: number | null;
+      }
+    | undefined;
+  return row
+    ? {
+        capturedAt: row.captured_at,
+        camera: row.camera,
+        bodySerial: row.body_serial,
+        lens: row.lens,
+        focalLength: row.focal_length,
+        iso: row.iso,
+      }
+    : null;
+}
+
+export function upsertCaptureInfo(entries: CaptureInfoEntry[]): void {
+  if (entries.length === 0) return;
+  const database = ensureDb();
+  const statement = database.prepare(
+    `INSERT INTO capture_info (path, source_modified_at, captured_at, camera, body_serial, lens, focal_length, iso)
+     VALUES (@path, @source_modified_at, @captured_at, @camera, @body_serial, @lens, @focal_length, @iso)
+     ON CONFLICT (path) DO UPDATE SET
+       source_modified_at = excluded.source_modified_at,
+       captured_at = excluded.captured_at,
+       camera = excluded.camera,
+       body_serial = excluded.body_serial,
+       lens = excluded.lens,
+       focal_length = excluded.focal_length,
+       iso = excluded.iso`,
+  );
+  const run = database.transaction((rows: CaptureInfoEntry[]) => {
+    for (const entry of rows) {
+      statement.run({
+        path: entry.path,
+        source_modified_at: entry.sourceModifiedAt,
+        captured_at: entry.capture.capturedAt,
+        camera: entry.capture.camera,
+        body_serial: entry.capture.bodySerial,
+        lens: entry.capture.lens,
+        focal_length: entry.capture.focalLength,
+        iso: entry.capture.iso,
+      });
+    }
+  });
+  run(entries);
+}
+
+// Returns null when the file changed since it was hashed.
+export function getPerceptualHash(
+  path: string,
+  sourceModifiedAt: number,
+): string | null {
+  const database = ensureDb();
+  const row = database
+    .prepare(
+      "SELECT hash FROM perceptual_hashes WHERE path = ? AND source_modified_at = ?",
+    )
+    .get(path, sourceModifiedAt) as { hash: string } | undefined;
+  return row ? row.hash : null;
+}
+
+export function setPerceptualHash(
+  path: string,
+  sourceModifiedAt: number,
+  hash: string,
+): void {
+  const database = ensureDb();
+  database
+    .prepare(
+      `INSERT INTO perceptual_hashes (path, source_modified_at, hash)
+       VALUES (@path, @source_modified_at, @hash)
+       ON CONFLICT (path) DO UPDATE SET
+         source_modified_at = excluded.source_modified_at,
+         hash = excluded.hash`,
+    )
+    .run({ path, source_modified_at: sourceModifiedAt, hash });
 }
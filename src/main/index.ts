@@ -1,10 +1,17 @@
 import { createHash } from "node:crypto";
 import { createReadStream, existsSync } from "node:fs";
-import type { Dirent } from "node:fs";
+import type { Dirent, Stats } from "node:fs";
 import { mkdir, readdir, rename, stat, unlink } from "node:fs/promises";
-import { basename, dirname, extname, join } from "node:path";
+import { basename, dirname, extname, join, relative, sep } from "node:path";
 import { pathToFileURL } from "node:url";
 import { Worker } from "node:worker_threads";
+import { isColorLabel } from "@shared/colorLabels";
+import {
+  EXPORT_EXTENSIONS,
+  formatExportFileName,
+} from "@shared/exportTemplate";
+import { mergeKeywords, removeKeywords, sameKeywords } from "@shared/keywords";
+import { isPhotoFlag } from "@shared/photoFlags";
 import {
   type Locale,
   defaultLocale,
@@ -13,15 +20,57 @@ import {
   translate,
 } from "@shared/i18n";
 import type {
+  AppSettings,
+  AppSettingsPayload,
+  AppSettingsUpdateResult,
+  CacheClearResult,
+  CacheUsage,
+  CaptureInfoPayload,
   DeletePhotoResult,
+  ExportOptions,
+  ExportPhoto,
+  ExportProgressPayload,
+  ExportRequest,
+  ExportStartResult,
+  FlagUpdatePayload,
+  FlagUpdateResult,
+  KeywordUpdatePayload,
+  KeywordUpdateResult,
+  LabelUpdatePayload,
+  LabelUpdateResult,
+  MetadataMode,
+  MetadataModeUpdatePayload,
+  MetadataModeUpdateResult,
+  MetadataSyncStatusPayload,
   OpenDirectoryResult,
+  PerceptualHashPayload,
+  PerceptualHashResult,
+  PhotoCaptureInfo,
   PhotoCollectionPayload,
+  PhotoExifInfo,
   PhotoMeta,
+  PhotoMetadataRequest,
+  PhotoMetadataResult,
+  PhotosAddedPayload,
+  PhotosChangedPayload,
+  PhotosRemovedPayload,
   RatingUpdatePayload,
   RatingUpdateResult,
+  RatingsSyncPayload,
+  RecentFolder,
   RenamePhotoPayload,
   RenamePhotoResult,
+  RestorePhotoResult,
   RevealPhotoResult,
+  ScanProgressPayload,
+  SessionState,
+  ThumbnailPriorityPayload,
+  ThumbnailStats,
+  TransferMode,
+  TransferOptions,
+  TransferPayload,
+  TransferProgressPayload,
+  TransferResult,
 } from "@shared/types";
 import {
   BrowserWindow,
@@ -38,17 +87,91 @@ import type { JpegOptions } from "sharp";
 import {
   deleteRating,
   getAllRatings,
+  getAppSetting,
+  getCaptureInfo,
+  getPerceptualHash,
+  getLibraryMetadataModes,
+  getRating,
   initRatingsStore,
+  listKeywords,
+  relocateRating,
   renameRating,
+  setAppSetting,
+  savePhotoMetadata,
+  setLibraryMetadataMode,
+  setPerceptualHash,
+  setPhotoFlag,
+  setPhotoKeywords,
+  setPhotoLabel,
+  setRatingFingerprint,
+  upsertCaptureInfo,
   upsertRating,
 } from "./db/ratingsStore";
-import type { RatingCacheEntry } from "./db/ratingsStore";
+import type { CaptureInfoEntry, RatingCacheEntry } from "./db/ratingsStore";
 import {
   clampRating,
+  copyMetadataTags,
+  extractEmbeddedPreview,
   isMetadataEnabled,
-  readRatingFromMetadata,
-  writeRatingToMetadata,
+  readCaptureInfo,
+  readExifInfo,
+  readPhotoDetails,
+  writePhotoMetadata,
 } from "./metadata/ratingMetadata";
+import type { PhotoMetadataValues } from "./metadata/ratingMetadata";
+import {
+  cancelRatingWrite,
+  queueRatingWrite,
+  reassignRatingWrite,
+  setRatingWriteStatusListener,
+} from "./metadata/ratingWriteQueue";
+import { computeFingerprint } from "./library/fingerprint";
+import { type FolderWatcher, watchFolder } from "./library/folderWatcher";
+import { findFreeStem, transferFile, transferFiles } from "./library/transfer";
+import {
+  type TrashedFile,
+  canRestoreFromTrash,
+  moveToTrash,
+  restoreFromTrash,
+} from "./library/trash";
+import {
+  RAW_EXTENSIONS,
+  getFileStem,
+  getPairKey,
+  groupPhotoPairs,
+  toMemberFile,
+} from "./media/pairing";
+import { renderExport } from "./media/exportPipeline";
+import {
+  DEFAULT_CACHE_SIZE_LIMIT_MB,
+  clearMediaCache,
+  flushCacheIndex,
+  getCacheUsage,
+  initMediaCache,
+  registerCacheFile,
+  removeCacheEntriesForSources,
+  setCacheSizeLimit,
+  setPinnedCacheSources,
+  sweepOrphanedCacheEntries,
+  touchCacheFile,
+} from "./media/cacheManager";
+import {
+  type ThumbnailTaskRequest,
+  type ThumbnailTaskResult,
+  getDefaultThumbnailPoolSize,
+  getMaxThumbnailPoolSize,
+  getThumbnailPoolSize,
+  getThumbnailPoolStats,
+  runThumbnailTask,
+  setThumbnailPoolSize,
+  shutdownThumbnailPool,
+} from "./media/thumbnailPool";
+import {
+  buildRenamedSidecarPath,
+  findExistingSidecars,
+  isSidecarFileName,
+  isStemSidecar,
+} from "./metadata/sidecar";
 
 protocol.registerSchemesAsPrivileged([
   {
@@ -87,6 +210,7 @@ const IMAGE_EXTENSIONS = new Set([
   "avif",
   "heic",
   "heif",
+  ...RAW_EXTENSIONS,
 ]);
 
 const MIME_TYPE_BY_EXT: Record<string, string> = {
@@ -108,13 +232,14 @@ const THUMBNAIL_SCHEME = "photo-thumb";
 const THUMBNAIL_BASE_WIDTH = 320;
 const THUMBNAIL_RETINA_WIDTH = 480;
 const THUMBNAIL_QUALITY = 80;
-const THUMBNAIL_JOB_CONCURRENCY = 2;
+const SCAN_BATCH_SIZE = 200;
 
 let cachedThumbnailDir: string | null = null;
 let cachedMediaCacheDir: string | null = null;
 
 interface MediaTranscodeRule {
   preferSharp: boolean;
+  source?: "embedded-preview";
   fallback?: "heic-convert";
   format: "jpeg";
   mime: string;
@@ -122,6 +247,18 @@ interface MediaTranscodeRule {
   options?: JpegOptions;
 }
 
+const EMBEDDED_PREVIEW_RULE: MediaTranscodeRule = {
+  preferSharp: false,
+  source: "embedded-preview",
+  format: "jpeg",
+  mime: "image/jpeg",
+  extension: "jpg",
+  options: {
+    quality: 90,
+    mozjpeg: true,
+  },
+};
+
 const MEDIA_TRANSCODE_RULES: Record<string, MediaTranscodeRule> = {
   heic: {
     preferSharp: true,
@@ -145,6 +282,14 @@ const MEDIA_TRANSCODE_RULES: Record<string, MediaTranscodeRule> = {
       mozjpeg: true,
     },
   },
+  cr2: EMBEDDED_PREVIEW_RULE,
+  cr3: EMBEDDED_PREVIEW_RULE,
+  nef: EMBEDDED_PREVIEW_RULE,
+  arw: EMBEDDED_PREVIEW_RULE,
+  raf: EMBEDDED_PREVIEW_RULE,
+  orf: EMBEDDED_PREVIEW_RULE,
+  rw2: EMBEDDED_PREVIEW_RULE,
+  dng: EMBEDDED_PREVIEW_RULE,
 };
 
 const mediaTranscodeTasks = new Map<string, Promise<string>>();
@@ -270,6 +415,53 @@ async function transcodeHeicWithWorker(
   });
 }
 
+// Maps an EXIF orientation (1-8) onto explicit sharp operations. sharp
+// always flips/flops before rotating, whatever order the calls are chained
+// in, so the transpose/transverse cases pair the flop with the opposite turn.
+function applyExifOrientation(
+  pipeline: sharp.Sharp,
+  orientation: number | null,
+): sharp.Sharp {
+  switch (orientation) {
+    case 2:
+      return pipeline.flop();
+    case 3:
+      return pipeline.rotate(180);
+    case 4:
+      return pipeline.flip();
+    case 5:
+      return pipeline.rotate(270).flop();
+    case 6:
+      return pipeline.rotate(90);
+    case 7:
+      return pipeline.rotate(90).flop();
+    case 8:
+      return pipeline.rotate(270);
+    default:
+      return pipeline;
+  }
+}
+
+async function transcodeEmbeddedPreview(
+  filePath: string,
+  targetPath: string,
+  rule: MediaTranscodeRule,
+): Promise<void> {
+  const preview = await extractEmbeddedPreview(filePath);
+  if (!preview) {
+    throw new Error(`No embedded preview found in ${filePath}`);
+  }
+
+  // Some previews carry their own EXIF orientation; most only inherit the
+  // RAW container's, so fall back to that when the preview has none.
+  const previewInfo = await sharp(preview.data).metadata();
+  const pipeline = previewInfo.orientation
+    ? sharp(preview.data).rotate()
+    : applyExifOrientation(sharp(preview.data), preview.orientation);
+
+  await pipeline.jpeg(rule.options ?? {}).toFile(targetPath);
+}
+
 async function ensureTranscodedMediaAsset(
   filePath: string,
   sourceModifiedAt: number,
@@ -278,8 +470,10 @@ async function ensureTranscodedMediaAsset(
   const directory = await ensureMediaCacheDir();
   const hash = createHash("sha1").update(filePath).digest("hex");
   const targetPath = join(directory, `${hash}.${rule.extension}`);
+  const cacheSource = { kind: "media" as const, sourcePath: filePath };
 
   if (await isCacheEntryFresh(targetPath, sourceModifiedAt)) {
+    touchCacheFile(targetPath, cacheSource);
     return targetPath;
   }
 
@@ -291,12 +485,18 @@ async function ensureTranscodedMediaAsset(
       // Ignore task failure here; a new attempt will run below
     }
     if (await isCacheEntryFresh(targetPath, sourceModifiedAt)) {
+      touchCacheFile(targetPath, cacheSource);
       return targetPath;
     }
   }
 
   const conversionTask = (async () => {
     try {
+      if (rule.source === "embedded-preview") {
+        await transcodeEmbeddedPreview(filePath, targetPath, rule);
+        return targetPath;
+      }
+
       let preferSharp = rule.preferSharp;
       if (
         preferSharp &&
@@ -370,6 +570,7 @@ async function ensureTranscodedMediaAsset(
     throw new Error(`Failed to prepare media cache for ${filePath}`);
   }
 
+  await registerCacheFile(targetPath, "media", filePath);
   return targetPath;
 }
 
@@ -385,8 +586,14 @@ interface ThumbnailJob {
 }
 
 const thumbnailQueue: ThumbnailJob[] = [];
+// Photo id -> mtime at which hashing failed; not retried until it changes.
+const failedPerceptualHashes = new Map<string, number>();
 const enqueuedThumbnailTargets = new Set<string>();
 let activeThumbnailJobs = 0;
+// Photo id -> rank reported by the renderer (visible first, then nearby).
+let thumbnailPriority = new Map<string, number>();
+// Jobs outside the workspace roots are dropped instead of generated.
+let thumbnailRoots: string[] = [];
 
 const windows = new Set<BrowserWindow>();
 
@@ -426,8 +633,158 @@ function detectInitialLocale(): Locale {
 
 let currentLocale: Locale = detectInitialLocale();
 
-function broadcastRatingsRefreshed(updates: Record<string, number>): void {
-  if (!updates || Object.keys(updates).length === 0) {
+let libraryMetadataModes: Record<string, MetadataMode> = {};
+
+// Primary file path -> every file of a RAW+JPEG pair, primary first.
+const photoGroups = new Map<string, string[]>();
+
+function getPhotoFiles(filePath: string): string[] {
+  return photoGroups.get(filePath) ?? [filePath];
+}
+
+interface TrashedPhoto {
+  files: TrashedFile[];
+  sidecars: TrashedFile[];
+  entry: RatingCacheEntry | null;
+}
+
+// Photos moved to the trash this session that can be put back by undo.
+const trashedPhotos = new Map<string, TrashedPhoto>();
+
+function registerPhotoGroups(directory: string, photos: PhotoMeta[]): void {
+  for (const key of [...photoGroups.keys()]) {
+    if (isPathWithin(key, directory)) {
+      photoGroups.delete(key);
+    }
+  }
+  for (const photo of photos) {
+    if (photo.members && photo.members.length > 1) {
+      photoGroups.set(
+        photo.id,
+        photo.members.map((member) => member.filePath),
+      );
+    }
+  }
+}
+
+function isPathWithin(filePath: string, directory: string): boolean {
+  if (filePath === directory) {
+    return true;
+  }
+  const prefix = directory.endsWith(sep) ? directory : `${directory}${sep}`;
+  return filePath.startsWith(prefix);
+}
+
+// The most specific library folder containing the file decides its mode.
+function resolveMetadataMode(filePath: string): MetadataMode {
+  let match: string | null = null;
+  for (const directory of Object.keys(libraryMetadataModes)) {
+    if (
+      isPathWithin(filePath, directory) &&
+      (!match || directory.length > match.length)
+    ) {
+      match = directory;
+    }
+  }
+  return match ? libraryMetadataModes[match] : "embedded";
+}
+
+function isImageFileName(name: string): boolean {
+  const ext = extname(name).slice(1).toLowerCase();
+  return Boolean(ext) && IMAGE_EXTENSIONS.has(ext);
+}
+
+// `IMG_0001.xmp` may belong to IMG_0001.CR3 and IMG_0001.JPG at once; only
+// treat a stem-style sidecar as ours when no other image shares the stem.
+// Companions are files handled together with this one (pair members), so
+// sharing with them does not count.
+async function listOwnedSidecars(
+  filePath: string,
+  companions: string[] = [],
+): Promise<string[]> {
+  const sidecars = findExistingSidecars(filePath);
+  if (!sidecars.some((sidecar) => isStemSidecar(sidecar, filePath))) {
+    return sidecars;
+  }
+
+  const name = basename(filePath);
+  const stem = name.slice(0, name.length - extname(name).length);
+  const companionNames = new Set(companions.map((entry) => basename(entry)));
+  let siblings: string[] = [];
+  try {
+    siblings = await readdir(dirname(filePath));
+  } catch (error) {
+    return sidecars.filter((sidecar) => !isStemSidecar(sidecar, filePath));
+  }
+  const isShared = siblings.some(
+    (sibling) =>
+      sibling !== name &&
+      !companionNames.has(sibling) &&
+      isImageFileName(sibling) &&
+      sibling.slice(0, sibling.length - extname(sibling).length) === stem,
+  );
+  return isShared
+    ? sidecars.filter((sidecar) => !isStemSidecar(sidecar, filePath))
+    : sidecars;
+}
+
+// Renames every member of a photo or none of them: when a later member
+// fails, the ones already renamed are put back so a pair never splits.
+async function renamePhotoFiles(
+  renames: Array<{ from: string; to: string }>,
+): Promise<void> {
+  const done: Array<{ from: string; to: string }> = [];
+  try {
+    for (const entry of renames) {
+      if (entry.to !== entry.from) {
+        await rename(entry.from, entry.to);
+        done.push(entry);
+      }
+    }
+  } catch (error) {
+    for (const { from, to } of done.reverse()) {
+      await rename(to, from).catch((rollbackError) => {
+        console.error("Failed to undo rename", to, rollbackError);
+      });
+    }
+    throw error;
+  }
+}
+
+// Same all-or-nothing rule for the trash. Members trashed where they cannot
+// be found again (Windows, other volumes) cannot be put back.
+async function trashPhotoFiles(
+  files: string[],
+): Promise<Array<TrashedFile | null>> {
+  const trashed: Array<TrashedFile | null> = [];
+  try {
+    for (const file of files) {
+      trashed.push(await moveToTrash(file));
+    }
+  } catch (error) {
+    for (const [index, entry] of [...trashed.entries()].reverse()) {
+      if (!entry) {
+        console.error("Cannot restore trashed pair member", files[index]);
+        continue;
+      }
+      await restoreFromTrash(entry).catch((rollbackError) => {
+        console.error(
+          "Failed to undo trash",
+          entry.originalPath,
+          rollbackError,
+        );
+      });
+    }
+    throw error;
+  }
+  return trashed;
+}
+
+function broadcastRatingsRefreshed(payload: RatingsSyncPayload): void {
+  const isEmpty = [payload.ratings, payload.labels, payload.flags].every(
+    (updates) => !updates || Object.keys(updates).length === 0,
+  );
+  if (isEmpty) {
     return;
   }
 
@@ -435,7 +792,69 @@ function broadcastRatingsRefreshed(updates: Record<string, number>): void {
     if (win.isDestroyed()) {
       continue;
     }
-    win.webContents.send("ratings:refreshed", { ratings: updates });
+    win.webContents.send("ratings:refreshed", payload);
+  }
+}
+
+// Tells the renderer which of a photo's values changed after a metadata sync.
+function broadcastPhotoValuesChanged(
+  id: string,
+  previous: PhotoMetadataValues,
+  next: PhotoMetadataValues,
+): void {
+  broadcastRatingsRefreshed({
+    ratings: previous.rating !== next.rating ? { [id]: next.rating } : {},
+    labels: previous.label !== next.label ? { [id]: next.label } : {},
+    flags: previous.flag !== next.flag ? { [id]: next.flag } : {},
+    keywords: sameKeywords(previous.keywords, next.keywords)
+      ? {}
+      : { [id]: next.keywords },
+  });
+}
+
+type PhotoValueMaps = Pick<PhotoCollectionPayload, "ratings"> &
+  Required<Pick<PhotoCollectionPayload, "labels" | "flags" | "keywords">>;
+
+function createPhotoValueMaps(): PhotoValueMaps {
+  return { ratings: {}, labels: {}, flags: {}, keywords: {} };
+}
+
+function hasPhotoValues(entry: RatingCacheEntry): boolean {
+  return (
+    entry.rating > 0 ||
+    entry.label !== null ||
+    entry.flag !== null ||
+    entry.keywords.length > 0
+  );
+}
+
+// Only non-default values are sent; the renderer treats missing entries as
+// unrated, unlabeled and unflagged.
+function addPhotoValues(
+  maps: PhotoValueMaps,
+  id: string,
+  entry: RatingCacheEntry,
+): void {
+  if (entry.rating > 0) {
+    maps.ratings[id] = entry.rating;
+  }
+  if (entry.label) {
+    maps.labels[id] = entry.label;
+  }
+  if (entry.flag) {
+    maps.flags[id] = entry.flag;
+  }
+  if (entry.keywords.length > 0) {
+    maps.keywords[id] = entry.keywords;
+  }
+}
+
+function broadcastMetadataSyncStatus(payload: MetadataSyncStatusPayload): void {
+  for (const win of windows) {
+    if (win.isDestroyed()) {
+      continue;
+    }
+    win.webContents.send("ratings:sync-status", payload);
   }
 }
 
@@ -466,9 +885,16 @@ async function ensureMediaCacheDir(): Promise<string> {
   return directory;
 }
 
-function buildProtocolUrl(scheme: string, filePath: string): string {
+// `version` only busts renderer caches when a file is regenerated in place;
+// protocol handlers resolve files from the pathname alone.
+function buildProtocolUrl(
+  scheme: string,
+  filePath: string,
+  version?: number,
+): string {
   const fileUrl = pathToFileURL(filePath);
-  return `${scheme}://local${fileUrl.pathname}`;
+  const url = `${scheme}://local${fileUrl.pathname}`;
+  return version == null ? url : `${url}?v=${Math.trunc(version)}`;
 }
 
 process.on("unhandledRejection", (reason) => {
@@ -564,6 +990,7 @@ async function ensureThumbnailProtocol() {
         filePath = filePath.slice(1);
       }
 
+      touchCacheFile(filePath);
       const stream = createReadStream(filePath);
       stream.on("error", (error) => {
         console.error(
@@ -630,6 +1057,14 @@ async function resolveThumbnailState(
     isThumbnailFresh(retinaPath, sourceModifiedAt),
   ]);
 
+  const cacheSource = { kind: "thumbnail" as const, sourcePath: filePath };
+  if (baseFresh) {
+    touchCacheFile(basePath, cacheSource);
+  }
+  if (retinaFresh) {
+    touchCacheFile(retinaPath, cacheSource);
+  }
+
   return { basePath, retinaPath, baseFresh, retinaFresh };
 }
 
@@ -638,19 +1073,287 @@ function scheduleThumbnailGeneration(job: ThumbnailJob): void {
     return;
   }
   enqueuedThumbnailTargets.add(job.basePath);
-  thumbnailQueue.push(job);
+  if (thumbnailPriority.has(job.filePath)) {
+    thumbnailQueue.unshift(job);
+  } else {
+    thumbnailQueue.push(job);
+  }
+  processThumbnailQueue();
+}
+
+// Moves jobs for on-screen photos to the front in the order they appear,
+// followed by nearby ones; everything else keeps its FIFO position.
+function prioritizeThumbnailJobs(
+  visibleIds: string[],
+  nearbyIds: string[],
+): void {
+  const ranks = new Map<string, number>();
+  for (const id of [...visibleIds, ...nearbyIds]) {
+    if (!ranks.has(id)) {
+      ranks.set(id, ranks.size);
+    }
+  }
+  thumbnailPriority = ranks;
+  setPinnedCacheSources(ranks.keys());
+
+  const prioritized: ThumbnailJob[] = [];
+  const rest: ThumbnailJob[] = [];
+  for (const job of thumbnailQueue) {
+    if (ranks.has(job.filePath)) {
+      prioritized.push(job);
+    } else {
+      rest.push(job);
+    }
+  }
+  if (prioritized.length === 0) {
+    return;
+  }
+  prioritized.sort(
+    (a, b) => (ranks.get(a.filePath) ?? 0) - (ranks.get(b.filePath) ?? 0),
+  );
+  thumbnailQueue.length = 0;
+  for (const job of prioritized) {
+    thumbnailQueue.push(job);
+  }
+  for (const job of rest) {
+    thumbnailQueue.push(job);
+  }
+}
+
+function setThumbnailRoots(directories: string[]): void {
+  thumbnailRoots = directories;
+  thumbnailPriority = new Map();
+  const kept = thumbnailQueue.filter((job) => isThumbnailJobInRoot(job));
+  for (const job of thumbnailQueue) {
+    if (!isThumbnailJobInRoot(job)) {
+      enqueuedThumbnailTargets.delete(job.basePath);
+    }
+  }
+  thumbnailQueue.length = 0;
+  for (const job of kept) {
+    thumbnailQueue.push(job);
+  }
+}
+
+function isThumbnailJobInRoot(job: ThumbnailJob): boolean {
+  return thumbnailRoots.some((root) => isPathWithin(job.filePath, root));
+}
+
+const THUMBNAIL_WORKER_COUNT_SETTING = "thumbnailWorkerCount";
+const CACHE_SIZE_LIMIT_SETTING = "cacheSizeLimitMb";
+const MIN_CACHE_SIZE_LIMIT_MB = 128;
+const BURST_GAP_SETTING = "burstGapSeconds";
+const DEFAULT_BURST_GAP_SECONDS = 1;
+const MAX_BURST_GAP_SECONDS = 60;
+const RECENT_FOLDERS_SETTING = "recentFolders";
+const MAX_RECENT_FOLDERS = 10;
+const SESSION_SETTING = "session";
+// Give the first folder load a head start before stat-ing every cache source
+const ORPHAN_SWEEP_DELAY_MS = 30_000;
+
+let appSettings: AppSettings = {
+  thumbnailWorkerCount: null,
+  cacheSizeLimitMb: DEFAULT_CACHE_SIZE_LIMIT_MB,
+  burstGapSeconds: DEFAULT_BURST_GAP_SECONDS,
+};
+
+function normalizeThumbnailWorkerCount(value: unknown): number | null {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return null;
+  }
+  return Math.min(getMaxThumbnailPoolSize(), Math.max(1, Math.round(value)));
+}
+
+function normalizeCacheSizeLimit(value: unknown): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return DEFAULT_CACHE_SIZE_LIMIT_MB;
+  }
+  return Math.max(MIN_CACHE_SIZE_LIMIT_MB, Math.round(value));
+}
+
+// Stored as "off" when stacking is disabled, so a missing value still means
+// the default.
+function normalizeBurstGap(value: unknown): number | null {
+  if (value === null || value === "off") {
+    return null;
+  }
+  const seconds = typeof value === "string" ? Number(value) : value;
+  if (
+    typeof seconds !== "number" ||
+    !Number.isFinite(seconds) ||
+    seconds <= 0
+  ) {
+    return DEFAULT_BURST_GAP_SECONDS;
+  }
+  return Math.min(MAX_BURST_GAP_SECONDS, seconds);
+}
+
+function applyThumbnailWorkerCount(count: number | null): void {
+  setThumbnailPoolSize(count ?? getDefaultThumbnailPoolSize());
   processThumbnailQueue();
 }
 
+function loadAppSettings(): void {
+  const storedCount = getAppSetting(THUMBNAIL_WORKER_COUNT_SETTING);
+  const storedCacheLimit = getAppSetting(CACHE_SIZE_LIMIT_SETTING);
+  const storedBurstGap = getAppSetting(BURST_GAP_SETTING);
+  appSettings = {
+    thumbnailWorkerCount: normalizeThumbnailWorkerCount(
+      storedCount == null ? null : Number(storedCount),
+    ),
+    cacheSizeLimitMb: normalizeCacheSizeLimit(
+      storedCacheLimit == null ? null : Number(storedCacheLimit),
+    ),
+    burstGapSeconds:
+      storedBurstGap == null
+        ? DEFAULT_BURST_GAP_SECONDS
+        : normalizeBurstGap(storedBurstGap),
+  };
+  applyThumbnailWorkerCount(appSettings.thumbnailWorkerCount);
+}
+
+type StoredRecentFolder = Omit<RecentFolder, "exists">;
+
+function readRecentFolders(): StoredRecentFolder[] {
+  const stored = getAppSetting(RECENT_FOLDERS_SETTING);
+  if (stored == null) {
+    return [];
+  }
+  try {
+    const parsed: unknown = JSON.parse(stored);
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed.filter(
+      (entry): entry is StoredRecentFolder =>
+        typeof entry?.path === "string" && typeof entry?.openedAt === "number",
+    );
+  } catch (error) {
+    console.warn("Failed to read recent folders", error);
+    return [];
+  }
+}
+
+// Missing folders stay listed so a drive that is plugged back in picks up
+// where it left off; the user removes them explicitly.
+function listRecentFolders(): RecentFolder[] {
+  return readRecentFolders().map((entry) => ({
+    ...entry,
+    exists: existsSync(entry.path),
+  }));
+}
+
+function recordRecentFolder(directory: string): void {
+  try {
+    const entries = readRecentFolders().filter(
+      (entry) => entry.path !== directory,
+    );
+    entries.unshift({ path: directory, openedAt: Date.now() });
+    setAppSetting(
+      RECENT_FOLDERS_SETTING,
+      JSON.stringify(entries.slice(0, MAX_RECENT_FOLDERS)),
+    );
+  } catch (error) {
+    console.warn("Failed to record recent folder", directory, error);
+  }
+}
+
+function forgetRecentFolder(directory: string): void {
+  const entries = readRecentFolders().filter(
+    (entry) => entry.path !== directory,
+  );
+  setAppSetting(
+    RECENT_FOLDERS_SETTING,
+    entries.length > 0 ? JSON.stringify(entries) : null,
+  );
+}
+
+function normalizeSessionState(value: unknown): SessionState | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const session = value as Record<string, unknown>;
+  const toStrings = (list: unknown): string[] =>
+    Array.isArray(list)
+      ? list.filter((item): item is string => typeof item === "string")
+      : [];
+  const toNumber = (number: unknown): number =>
+    typeof number === "number" && Number.isFinite(number) ? number : 0;
+  return {
+    directories: toStrings(session.directories).filter(Boolean),
+    filterMode:
+      typeof session.filterMode === "string" ? session.filterMode : "",
+    ratingFilter: Array.isArray(session.ratingFilter)
+      ? session.ratingFilter.filter(
+          (rating): rating is number =>
+            Number.isInteger(rating) && rating >= 0 && rating <= 5,
+        )
+      : [],
+    sortKey: typeof session.sortKey === "string" ? session.sortKey : "",
+    selectedIds: toStrings(session.selectedIds),
+    focusId: typeof session.focusId === "string" ? session.focusId : null,
+    scrollTop: Math.max(0, toNumber(session.scrollTop)),
+    previewPanelWidth: toNumber(session.previewPanelWidth),
+  };
+}
+
+function readSessionState(): SessionState | null {
+  const stored = getAppSetting(SESSION_SETTING);
+  if (stored == null) {
+    return null;
+  }
+  try {
+    return normalizeSessionState(JSON.parse(stored));
+  } catch (error) {
+    console.warn("Failed to read session", error);
+    return null;
+  }
+}
+
+// Brings thumbnails back for the open folder after the cache was cleared, so
+// cards that scroll back into view do not point at deleted files.
+async function regenerateLoadedThumbnails(): Promise<void> {
+  for (const photo of watchedPhotos.values()) {
+    const { basePath, retinaPath, baseFresh, retinaFresh } =
+      await resolveThumbnailState(photo.filePath, photo.modifiedAt);
+    if (!baseFresh || !retinaFresh) {
+      scheduleThumbnailGeneration({
+        filePath: photo.filePath,
+        basePath,
+        retinaPath,
+        sourceModifiedAt: photo.modifiedAt,
+      });
+    }
+  }
+}
+
+function getThumbnailStats(): ThumbnailStats {
+  const poolStats = getThumbnailPoolStats();
+  return {
+    workerCount: poolStats.workerCount,
+    activeJobs: activeThumbnailJobs,
+    queuedJobs: thumbnailQueue.length + poolStats.pendingTasks,
+    completedJobs: poolStats.completedTasks,
+    failedJobs: poolStats.failedTasks,
+    restartedWorkers: poolStats.restartedWorkers,
+    throughputPerSecond: poolStats.throughputPerSecond,
+  };
+}
+
 function processThumbnailQueue(): void {
   while (
-    activeThumbnailJobs < THUMBNAIL_JOB_CONCURRENCY &&
+    activeThumbnailJobs < getThumbnailPoolSize() &&
     thumbnailQueue.length > 0
   ) {
     const job = thumbnailQueue.shift();
     if (!job) {
       break;
     }
+    if (!isThumbnailJobInRoot(job)) {
+      // Stragglers from a folder that has since been closed or replaced
+      enqueuedThumbnailTargets.delete(job.basePath);
+      continue;
+    }
     activeThumbnailJobs += 1;
     runThumbnailJob(job)
       .catch((error) => {
@@ -664,7 +1367,27 @@ function processThumbnailQueue(): void {
   }
 }
 
+// The worker has the decoded pixels anyway, so the duplicate finder's hash
+// comes along with the thumbnails at little extra cost. Any failure, including
+// extracting a RAW preview or transcoding HEIC, marks the hash as failed so the
+// duplicate finder stops waiting for it.
 async function runThumbnailJob(job: ThumbnailJob): Promise<void> {
+  const hashModifiedAt = normalizeTimestamp(job.sourceModifiedAt);
+  const needsHash = getPerceptualHash(job.filePath, hashModifiedAt) == null;
+  try {
+    await generateThumbnails(job, needsHash);
+  } catch (error) {
+    if (needsHash) {
+      failedPerceptualHashes.set(job.filePath, hashModifiedAt);
+    }
+    throw error;
+  }
+}
+
+async function generateThumbnails(
+  job: ThumbnailJob,
+  needsHash: boolean,
+): Promise<void> {
   const { filePath, basePath, retinaPath, sourceModifiedAt } = job;
 
   const [baseFresh, retinaFresh] = await Promise.all([
@@ -677,7 +1400,15 @@ async function runThumbnailJob(job: ThumbnailJob): Promise<void> {
 
   let pipelineSourcePath = filePath;
 
-  if (transcodeRule && transcodeRule.fallback === "heic-convert") {
+  if (transcodeRule?.source === "embedded-preview") {
+    // Decoding the full RAW is slow and often unsupported; thumbnails are
+    // resized from the cached preview instead.
+    pipelineSourcePath = await ensureTranscodedMediaAsset(
+      filePath,
+      sourceModifiedAt,
+      transcodeRule,
+    );
+  } else if (transcodeRule && transcodeRule.fallback === "heic-convert") {
     if (heicSharpDecodeAvailable === null) {
       try {
         await sharp(filePath).metadata();
@@ -700,44 +1431,22 @@ async function runThumbnailJob(job: ThumbnailJob): Promise<void> {
     }
   }
 
-  const tasks: Array<Promise<sharp.OutputInfo>> = [];
-  let pipeline = sharp(pipelineSourcePath).rotate();
-
+  const targets: ThumbnailTaskRequest["targets"] = [];
   if (!baseFresh) {
-    tasks.push(
-      pipeline
-        .clone()
-        .resize({
-          width: THUMBNAIL_BASE_WIDTH,
-          withoutEnlargement: true,
-        })
-        .webp({
-          quality: THUMBNAIL_QUALITY,
-          effort: 4,
-        })
-        .toFile(basePath),
-    );
+    targets.push({ path: basePath, width: THUMBNAIL_BASE_WIDTH });
   }
-
   if (!retinaFresh) {
-    tasks.push(
-      pipeline
-        .clone()
-        .resize({
-          width: THUMBNAIL_RETINA_WIDTH,
-          withoutEnlargement: true,
-        })
-        .webp({
-          quality: THUMBNAIL_QUALITY,
-          effort: 4,
-        })
-        .toFile(retinaPath),
-    );
+    targets.push({ path: retinaPath, width: THUMBNAIL_RETINA_WIDTH });
   }
-
-  if (tasks.length > 0) {
+  if (targets.length > 0 || needsHash) {
+    let result: ThumbnailTaskResult;
     try {
-      await Promise.all(tasks);
+      result = await runThumbnailTask({
+        sourcePath: pipelineSourcePath,
+        targets,
+        quality: THUMBNAIL_QUALITY,
+        perceptualHash: needsHash,
+      });
     } catch (error) {
       if (
         transcodeRule?.fallback === "heic-convert" &&
@@ -750,46 +1459,23 @@ async function runThumbnailJob(job: ThumbnailJob): Promise<void> {
           sourceModifiedAt,
           transcodeRule,
         );
-        pipeline = sharp(pipelineSourcePath).rotate();
-        tasks.length = 0;
-        if (!baseFresh) {
-          tasks.push(
-            pipeline
-              .clone()
-              .resize({
-                width: THUMBNAIL_BASE_WIDTH,
-                withoutEnlargement: true,
-              })
-              .webp({
-                quality: THUMBNAIL_QUALITY,
-                effort: 4,
-              })
-              .toFile(basePath),
-          );
-        }
-        if (!retinaFresh) {
-          tasks.push(
-            pipeline
-              .clone()
-              .resize({
-                width: THUMBNAIL_RETINA_WIDTH,
-                withoutEnlargement: true,
-              })
-              .webp({
-                quality: THUMBNAIL_QUALITY,
-                effort: 4,
-              })
-              .toFile(retinaPath),
-          );
-        }
-
-        if (tasks.length > 0) {
-          await Promise.all(tasks);
-        }
+        result = await runThumbnailTask({
+          sourcePath: pipelineSourcePath,
+          targets,
+          quality: THUMBNAIL_QUALITY,
+          perceptualHash: needsHash,
+        });
       } else {
         throw error;
       }
     }
+    if (result.perceptualHash) {
+      setPerceptualHash(
+        filePath,
+        normalizeTimestamp(sourceModifiedAt),
+        result.perceptualHash,
+      );
+    }
   }
 
   const [baseReady, retinaReady] = await Promise.all([
@@ -797,13 +1483,22 @@ async function runThumbnailJob(job: ThumbnailJob): Promise<void> {
     isThumbnailFresh(retinaPath, sourceModifiedAt),
   ]);
 
-  if (!baseReady) {
+  for (const target of targets) {
+    await registerCacheFile(target.path, "thumbnail", filePath);
+  }
+
+  // Hash-only jobs leave the cards as they are.
+  if (!baseReady || targets.length === 0) {
     return;
   }
 
-  const thumbnailUrl = buildProtocolUrl(THUMBNAIL_SCHEME, basePath);
+  const thumbnailUrl = buildProtocolUrl(
+    THUMBNAIL_SCHEME,
+    basePath,
+    sourceModifiedAt,
+  );
   const retinaUrl = retinaReady
-    ? buildProtocolUrl(THUMBNAIL_SCHEME, retinaPath)
+    ? buildProtocolUrl(THUMBNAIL_SCHEME, retinaPath, sourceModifiedAt)
     : thumbnailUrl;
 
   for (const win of windows) {
@@ -818,85 +1513,302 @@ async function runThumbnailJob(job: ThumbnailJob): Promise<void> {
   }
 }
 
-async function collectPhotos(root: string): Promise<PhotoMeta[]> {
-  const stack: string[] = [root];
-  const items: PhotoMeta[] = [];
-
-  while (stack.length > 0) {
-    const current = stack.pop();
-    if (!current) continue;
-
-    let entries: Dirent[];
-    try {
-      entries = await readdir(current, { withFileTypes: true });
-    } catch (error) {
-      // Skip directories we cannot read
-      continue;
+// Capture time and camera drive burst stacking in the grid. Unchanged files
+// are answered from the database; the rest are returned for exiftool.
+function attachCachedCaptureInfo(photos: PhotoMeta[]): PhotoMeta[] {
+  const missing: PhotoMeta[] = [];
+  for (const photo of photos) {
+    const cached = getCaptureInfo(
+      photo.filePath,
+      normalizeTimestamp(photo.modifiedAt),
+    );
+    if (cached) {
+      photo.capture = cached;
+    } else {
+      missing.push(photo);
     }
+  }
+  return missing;
+}
 
-    for (const entry of entries) {
-      if (entry.name.startsWith(".")) {
-        // Skip hidden files/directories to avoid noise
-        continue;
+async function attachCaptureInfo(photos: PhotoMeta[]): Promise<void> {
+  const fresh: CaptureInfoEntry[] = [];
+  await Promise.all(
+    attachCachedCaptureInfo(photos).map(async (photo) => {
+      const capture = await readCaptureInfo(photo.filePath);
+      if (capture) {
+        photo.capture = capture;
+        fresh.push({
+          path: photo.filePath,
+          sourceModifiedAt: normalizeTimestamp(photo.modifiedAt),
+          capture,
+        });
       }
+    }),
+  );
+  upsertCaptureInfo(fresh);
+}
 
-      const fullPath = join(current, entry.name);
+const EXIF_INFO_CACHE_LIMIT = 500;
 
-      if (entry.isDirectory()) {
-        stack.push(fullPath);
-        continue;
-      }
+// Most recently viewed last. Holding the pending read lets a quick
+// back-and-forth with the arrow keys share one exiftool call.
+const exifInfoCache = new Map<
+  string,
+  { modifiedAt: number; info: Promise<PhotoExifInfo | null> }
+>();
 
-      if (!entry.isFile()) continue;
+function loadExifInfo(
+  filePath: string,
+  modifiedAt: number,
+): Promise<PhotoExifInfo | null> {
+  const cached = exifInfoCache.get(filePath);
+  exifInfoCache.delete(filePath);
+  if (cached && cached.modifiedAt === modifiedAt) {
+    exifInfoCache.set(filePath, cached);
+    return cached.info;
+  }
+
+  const info = readExifInfo(filePath).then((result) => {
+    // Failed reads are retried the next time the photo is shown.
+    if (!result && exifInfoCache.get(filePath)?.info === info) {
+      exifInfoCache.delete(filePath);
+    }
+    return result;
+  });
+  exifInfoCache.set(filePath, { modifiedAt, info });
+  for (const key of exifInfoCache.keys()) {
+    if (exifInfoCache.size <= EXIF_INFO_CACHE_LIMIT) {
+      break;
+    }
+    exifInfoCache.delete(key);
+  }
+  return info;
+}
+
+// Card for a photo that is already registered in photoGroups, with its pair
+// members attached.
+async function buildGroupedPhotoMeta(filePath: string): Promise<PhotoMeta> {
+  const photo = await buildPhotoMeta(filePath, await stat(filePath));
+  const files = getPhotoFiles(filePath);
+  if (files.length > 1) {
+    photo.members = await Promise.all(
+      files.map(async (file) =>
+        toMemberFile({
+          filePath: file,
+          name: basename(file),
+          size: (await stat(file)).size,
+        }),
+      ),
+    );
+  }
+  await attachCaptureInfo([photo]);
+  return photo;
+}
+
+async function buildPhotoMeta(
+  filePath: string,
+  info: Stats,
+): Promise<PhotoMeta> {
+  const fileUrl = pathToFileURL(filePath);
+  const fileUrlString = `photo://local${fileUrl.pathname}`;
+  const { basePath, retinaPath, baseFresh, retinaFresh } =
+    await resolveThumbnailState(filePath, info.mtimeMs);
+
+  if (!baseFresh || !retinaFresh) {
+    scheduleThumbnailGeneration({
+      filePath,
+      basePath,
+      retinaPath,
+      sourceModifiedAt: info.mtimeMs,
+    });
+  }
+
+  const thumbnailUrl = baseFresh
+    ? buildProtocolUrl(THUMBNAIL_SCHEME, basePath, info.mtimeMs)
+    : fileUrlString;
+  const thumbnailRetinaUrl = retinaFresh
+    ? buildProtocolUrl(THUMBNAIL_SCHEME, retinaPath, info.mtimeMs)
+    : thumbnailUrl;
+  return {
+    id: filePath,
+    name: basename(filePath),
+    filePath,
+    fileUrl: fileUrlString,
+    thumbnailUrl,
+    thumbnailRetinaUrl,
+    size: info.size,
+    modifiedAt: info.mtimeMs,
+  };
+}
+
+interface PhotoScanBatch {
+  currentDirectory: string;
+  photos: PhotoMeta[];
+  scannedDirectories: number;
+  scannedFiles: number;
+}
+
+interface CollectPhotosOptions {
+  signal?: AbortSignal;
+  onBatch?: (batch: PhotoScanBatch) => void;
+}
+
+// Walks the tree depth-first and reports every directory (in chunks of at
+// most SCAN_BATCH_SIZE photos) as soon as it has been read, so the grid can
+// fill in while large shares are still being scanned.
+async function collectPhotos(
+  root: string,
+  options: CollectPhotosOptions = {},
+): Promise<PhotoMeta[]> {
+  const { signal, onBatch } = options;
+  const stack: string[] = [root];
+  const items: PhotoMeta[] = [];
+  let scannedDirectories = 0;
+  let scannedFiles = 0;
+
+  while (stack.length > 0) {
+    if (signal?.aborted) break;
+    const current = stack.pop();
+    if (!current) continue;
+
+    let entries: Dirent[];
+    try {
+      entries = await readdir(current, { withFileTypes: true });
+    } catch (error) {
+      // Skip directories we cannot read
+      continue;
+    }
+    scannedDirectories += 1;
+
+    // Bucket by pair key first so a RAW+JPEG pair never straddles two batches
+    const buckets = new Map<string, string[]>();
+    for (const entry of entries) {
+      if (entry.name.startsWith(".")) {
+        // Skip hidden files/directories to avoid noise
+        continue;
+      }
+
+      const fullPath = join(current, entry.name);
+
+      if (entry.isDirectory()) {
+        stack.push(fullPath);
+        continue;
+      }
+
+      if (!entry.isFile()) continue;
+
+      // XMP sidecars travel with their image and never show up as photos
+      if (isSidecarFileName(entry.name)) {
+        continue;
+      }
 
       const ext = entry.name.split(".").pop();
       if (!ext || !IMAGE_EXTENSIONS.has(ext.toLowerCase())) {
         continue;
       }
 
-      try {
-        const info = await stat(fullPath);
-        const fileUrl = pathToFileURL(fullPath);
-        const fileUrlString = `photo://local${fileUrl.pathname}`;
-        const { basePath, retinaPath, baseFresh, retinaFresh } =
-          await resolveThumbnailState(fullPath, info.mtimeMs);
-
-        if (!baseFresh || !retinaFresh) {
-          scheduleThumbnailGeneration({
-            filePath: fullPath,
-            basePath,
-            retinaPath,
-            sourceModifiedAt: info.mtimeMs,
-          });
-        }
+      const key = getPairKey(fullPath);
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket.push(fullPath);
+      } else {
+        buckets.set(key, [fullPath]);
+      }
+    }
 
-        const thumbnailUrl = baseFresh
-          ? buildProtocolUrl(THUMBNAIL_SCHEME, basePath)
-          : fileUrlString;
-        const thumbnailRetinaUrl = retinaFresh
-          ? buildProtocolUrl(THUMBNAIL_SCHEME, retinaPath)
-          : thumbnailUrl;
-        items.push({
-          id: fullPath,
-          name: entry.name,
-          filePath: fullPath,
-          fileUrl: fileUrlString,
-          thumbnailUrl,
-          thumbnailRetinaUrl,
-          size: info.size,
-          modifiedAt: info.mtimeMs,
-        });
-      } catch (error) {
-        // Ignore unreadable files
+    let batch: PhotoMeta[] = [];
+    const flush = async () => {
+      const grouped = groupPhotoPairs(batch);
+      batch = [];
+      // Files without cached capture info are read after the scan, so the
+      // grid fills at directory-listing speed.
+      attachCachedCaptureInfo(grouped);
+      items.push(...grouped);
+      onBatch?.({
+        currentDirectory: current,
+        photos: grouped,
+        scannedDirectories,
+        scannedFiles,
+      });
+    };
+
+    for (const paths of buckets.values()) {
+      if (signal?.aborted) break;
+      for (const fullPath of paths) {
+        scannedFiles += 1;
+        try {
+          const info = await stat(fullPath);
+          batch.push(await buildPhotoMeta(fullPath, info));
+        } catch (error) {
+          // Ignore unreadable files
+        }
+      }
+      if (batch.length >= SCAN_BATCH_SIZE) {
+        await flush();
       }
     }
+    await flush();
   }
 
   return items;
 }
 
+// Root folders shown together in one grid, in the order they were added.
+let workspaceRoots: string[] = [];
+// Roots scan independently; adding one does not interrupt another.
+const activeScans = new Map<
+  string,
+  { id: number; controller: AbortController }
+>();
+// Newest scan started per root. A scan that is no longer listed here was
+// replaced, or its root was removed, and must not claim the root when it ends.
+const latestScanIds = new Map<string, number>();
+let scanSequence = 0;
+
+function setWorkspaceRoots(directories: string[]): void {
+  workspaceRoots = directories;
+  setThumbnailRoots(directories);
+}
+
+// Cancels the scan of one root, or of every root when none is given.
+function cancelActiveScan(directory?: string): void {
+  for (const [root, scan] of activeScans) {
+    if (directory === undefined || root === directory) {
+      scan.controller.abort();
+      activeScans.delete(root);
+    }
+  }
+}
+
+function removeWorkspaceRoot(directory: string): void {
+  cancelActiveScan(directory);
+  latestScanIds.delete(directory);
+  stopWatchingFolder(directory);
+  setWorkspaceRoots(workspaceRoots.filter((root) => root !== directory));
+}
+
+function closeWorkspace(): void {
+  cancelActiveScan();
+  latestScanIds.clear();
+  stopWatchingFolder();
+  setWorkspaceRoots([]);
+}
+
+function broadcastScanProgress(payload: ScanProgressPayload): void {
+  for (const win of windows) {
+    if (win.isDestroyed()) {
+      continue;
+    }
+    win.webContents.send("photos:scan-progress", payload);
+  }
+}
+
+// Replaces the workspace with `directory`, or adds it as another root when
+// appending. Rescanning a root that is already loaded refreshes just that one.
 async function loadPhotoCollectionFromDirectory(
   directory: string,
+  { append = false }: { append?: boolean } = {},
 ): Promise<PhotoCollectionPayload> {
   if (!directory) {
     return {
@@ -923,194 +1835,1607 @@ async function loadPhotoCollectionFromDirectory(
     };
   }
 
-  const photos = await collectPhotos(directory);
+  if (
+    append &&
+    workspaceRoots.some(
+      (root) =>
+        root !== directory &&
+        (isPathWithin(directory, root) || isPathWithin(root, directory)),
+    )
+  ) {
+    // Nested roots would list the same photos twice
+    return {
+      directory: null,
+      photos: [],
+      ratings: {},
+      message: translate(currentLocale, "app.error.nestedRoot", {
+        name: basename(directory),
+      }),
+    };
+  }
+
+  recordRecentFolder(directory);
+
+  if (append) {
+    cancelActiveScan(directory);
+    if (!workspaceRoots.includes(directory)) {
+      setWorkspaceRoots([...workspaceRoots, directory]);
+    }
+  } else {
+    closeWorkspace();
+    setWorkspaceRoots([directory]);
+  }
+  const scanId = ++scanSequence;
+  const controller = new AbortController();
+  activeScans.set(directory, { id: scanId, controller });
+  latestScanIds.set(directory, scanId);
 
+  const metadataMode = resolveMetadataMode(directory);
   const cachedRatings: Record<string, RatingCacheEntry> = getAllRatings();
-  const ratings: Record<string, number> = {};
+  const values = createPhotoValueMaps();
   const needsRefresh: PhotoMeta[] = [];
-
-  for (const photo of photos) {
-    const cached = cachedRatings[photo.id];
-    if (
-      cached &&
-      typeof cached.sourceModifiedAt === "number" &&
-      cached.sourceModifiedAt === photo.modifiedAt
-    ) {
-      if (cached.rating > 0) {
-        ratings[photo.id] = cached.rating;
+  const needsFingerprint: PhotoMeta[] = [];
+  const needsCapture: PhotoMeta[] = [];
+  const relocationCandidates: PhotoMeta[] = [];
+  const relocatableBySize = indexRelocatableRatings(cachedRatings);
+  let photoCount = 0;
+
+  const collectRatings = (batch: PhotoMeta[]): PhotoValueMaps => {
+    const batchValues = createPhotoValueMaps();
+    for (const photo of batch) {
+      if (!photo.capture) {
+        needsCapture.push(photo);
+      }
+      const cached = cachedRatings[photo.id];
+      if (cached && hasPhotoValues(cached)) {
+        addPhotoValues(values, photo.id, cached);
+        addPhotoValues(batchValues, photo.id, cached);
+        if (
+          cached.fingerprint?.modifiedAt !==
+          normalizeTimestamp(photo.modifiedAt)
+        ) {
+          needsFingerprint.push(photo);
+        }
+      } else if (!cached && relocatableBySize.has(photo.size)) {
+        relocationCandidates.push(photo);
+      }
+      if (
+        cached &&
+        typeof cached.sourceModifiedAt === "number" &&
+        cached.sourceModifiedAt === photo.modifiedAt
+      ) {
+        continue;
       }
+      needsRefresh.push(photo);
+    }
+    return batchValues;
+  };
+
+  const photos = await collectPhotos(directory, {
+    signal: controller.signal,
+    onBatch: (batch) => {
+      photoCount += batch.photos.length;
+      broadcastScanProgress({
+        scanId,
+        directory,
+        currentDirectory: batch.currentDirectory,
+        scannedDirectories: batch.scannedDirectories,
+        scannedFiles: batch.scannedFiles,
+        photoCount,
+        photos: batch.photos,
+        ...collectRatings(batch.photos),
+        metadataMode,
+        append,
+      });
+    },
+  });
+
+  if (activeScans.get(directory)?.id === scanId) {
+    activeScans.delete(directory);
+  }
+  const cancelled = controller.signal.aborted;
+  if (cancelled && latestScanIds.get(directory) !== scanId) {
+    // Superseded by a newer scan, which now owns the root and its watcher
+    return {
+      directory: null,
+      photos: [],
+      ratings: {},
+      scanId,
+      cancelled,
+    };
+  }
+
+  registerPhotoGroups(directory, photos);
+  startWatchingFolder(directory, photos);
+  void (async () => {
+    await reattachRelocatedRatings(
+      relocationCandidates,
+      relocatableBySize,
+      cachedRatings,
+    );
+    await refreshRatingsInBackground(needsRefresh, cachedRatings, needsCapture);
+    await refreshRatingFingerprints(needsFingerprint);
+  })();
+
+  return {
+    directory,
+    photos,
+    ...values,
+    metadataMode,
+    scanId,
+    cancelled,
+    append,
+  };
+}
+
+// Rated entries that carry a fingerprint, grouped by file size so a scan only
+// hashes new files that could possibly match one of them.
+function indexRelocatableRatings(
+  cachedRatings: Record<string, RatingCacheEntry>,
+): Map<number, string[]> {
+  const bySize = new Map<number, string[]>();
+  for (const [id, entry] of Object.entries(cachedRatings)) {
+    if (!hasPhotoValues(entry) || !entry.fingerprint) {
+      continue;
+    }
+    const ids = bySize.get(entry.fingerprint.size);
+    if (ids) {
+      ids.push(id);
+    } else {
+      bySize.set(entry.fingerprint.size, [id]);
+    }
+  }
+  return bySize;
+}
+
+// A photo at an unknown path whose content matches a rating whose own file is
+// gone was moved outside PickShot; carry the rating over to the new path.
+async function reattachRelocatedRatings(
+  candidates: PhotoMeta[],
+  relocatableBySize: Map<number, string[]>,
+  cachedRatings: Record<string, RatingCacheEntry>,
+): Promise<void> {
+  const updates = createPhotoValueMaps();
+  for (const photo of candidates) {
+    const ids = relocatableBySize.get(photo.size);
+    if (!ids || ids.length === 0) {
       continue;
     }
+    try {
+      const fingerprint = await computeFingerprint(photo.filePath);
+      const index = ids.findIndex(
+        (id) => cachedRatings[id]?.fingerprint?.hash === fingerprint.hash,
+      );
+      if (index === -1) {
+        continue;
+      }
+      const previousId = ids[index];
+      if (existsSync(previousId)) {
+        // Still present at its old path, so this is a copy rather than a move
+        continue;
+      }
+      ids.splice(index, 1);
+      const entry = cachedRatings[previousId];
+      relocateRating(previousId, photo.id, fingerprint);
+      delete cachedRatings[previousId];
+      cachedRatings[photo.id] = { ...entry, fingerprint };
+      addPhotoValues(updates, photo.id, entry);
+      console.info("Reattached rating to moved photo", previousId, photo.id);
+    } catch (error) {
+      console.warn("Failed to match moved photo", photo.filePath, error);
+    }
+  }
+  broadcastRatingsRefreshed(updates);
+}
+
+async function recordRatingFingerprint(id: string): Promise<void> {
+  try {
+    setRatingFingerprint(id, await computeFingerprint(id));
+  } catch (error) {
+    console.warn("Failed to fingerprint photo", id, error);
+  }
+}
+
+async function refreshRatingFingerprints(photos: PhotoMeta[]): Promise<void> {
+  for (const photo of photos) {
+    await recordRatingFingerprint(photo.id);
+  }
+}
 
-    if (cached && cached.rating > 0) {
-      ratings[photo.id] = cached.rating;
+// Writing a rating into the file changes its bytes, so the fingerprint is
+// taken again once the write-back settles.
+// The store already holds the new value; the queue writes every value together
+// so none of them clobbers the others in the file.
+function queuePhotoMetadataWrite(id: string): void {
+  const entry = getRating(id);
+  queueRatingWrite(
+    id,
+    getPhotoFiles(id),
+    {
+      rating: entry?.rating ?? 0,
+      label: entry?.label ?? null,
+      flag: entry?.flag ?? null,
+      keywords: entry?.keywords ?? [],
+    },
+    resolveMetadataMode(id),
+  );
+}
+
+function updatePhotoKeywords(
+  payload: KeywordUpdatePayload,
+  update: (current: string[]) => string[],
+): KeywordUpdateResult {
+  try {
+    const keywords: Record<string, string[]> = {};
+    for (const id of payload.ids) {
+      const current = getRating(id)?.keywords ?? [];
+      const next = update(current);
+      keywords[id] = next;
+      if (sameKeywords(current, next)) {
+        continue;
+      }
+      setPhotoKeywords(id, next, null);
+      queuePhotoMetadataWrite(id);
     }
-    needsRefresh.push(photo);
+    return { success: true, keywords };
+  } catch (error) {
+    console.error("Failed to update keywords", payload, error);
+    return {
+      success: false,
+      message:
+        error instanceof Error
+          ? error.message
+          : translate(currentLocale, "app.error.unknown"),
+    };
   }
+}
 
-  void refreshRatingsInBackground(needsRefresh, cachedRatings);
+function handleRatingWriteStatus(payload: MetadataSyncStatusPayload): void {
+  broadcastMetadataSyncStatus(payload);
+  if (payload.status !== "pending") {
+    void recordRatingFingerprint(payload.id);
+  }
+}
 
-  return { directory, photos, ratings };
+function broadcastCaptureInfo(payload: CaptureInfoPayload): void {
+  if (Object.keys(payload.captures).length === 0) {
+    return;
+  }
+  for (const win of windows) {
+    if (win.isDestroyed()) {
+      continue;
+    }
+    win.webContents.send("photos:capture-info", payload);
+  }
 }
 
+// Also reads capture info for `needsCapture` photos the scan could not answer
+// from the database, sharing one exiftool read per file with the ratings.
 async function refreshRatingsInBackground(
   photos: PhotoMeta[],
   cachedRatings: Record<string, RatingCacheEntry>,
+  needsCapture: PhotoMeta[] = [],
 ): Promise<void> {
-  if (!photos.length) {
+  const stale = new Set(photos.map((photo) => photo.id));
+  const pending = new Map<string, PhotoMeta>();
+  for (const photo of [...photos, ...needsCapture]) {
+    pending.set(photo.id, photo);
+  }
+  if (!pending.size) {
     return;
   }
 
-  for (const photo of photos) {
+  let captures: Record<string, PhotoCaptureInfo> = {};
+  const fresh: CaptureInfoEntry[] = [];
+  const flushCaptures = () => {
+    upsertCaptureInfo(fresh.splice(0));
+    broadcastCaptureInfo({ captures });
+    captures = {};
+  };
+  const addCapture = (photo: PhotoMeta, capture: PhotoCaptureInfo | null) => {
+    if (photo.capture || !capture) {
+      return;
+    }
+    photo.capture = capture;
+    captures[photo.id] = capture;
+    fresh.push({
+      path: photo.filePath,
+      sourceModifiedAt: normalizeTimestamp(photo.modifiedAt),
+      capture,
+    });
+    // Each push re-stacks the grid, so send them in scan-sized batches
+    if (fresh.length >= SCAN_BATCH_SIZE) {
+      flushCaptures();
+    }
+  };
+
+  for (const photo of pending.values()) {
     if (!isMetadataEnabled()) {
       break;
     }
 
     const cached = cachedRatings[photo.id];
-    const previousRating = cached?.rating ?? 0;
+    const previous: PhotoMetadataValues = {
+      rating: cached?.rating ?? 0,
+      label: cached?.label ?? null,
+      flag: cached?.flag ?? null,
+      keywords: cached?.keywords ?? [],
+    };
 
     try {
-      if (cached && cached.sourceModifiedAt == null && cached.rating > 0) {
-        const normalized = clampRating(cached.rating);
-        await writeRatingToMetadata(photo.filePath, normalized);
-        const info = await stat(photo.filePath);
-        const modifiedAt = normalizeTimestamp(info.mtimeMs);
-        photo.modifiedAt = modifiedAt;
-        photo.size = info.size;
-        upsertRating(photo.id, normalized, modifiedAt);
-        if (previousRating !== normalized) {
-          broadcastRatingsRefreshed({ [photo.id]: normalized });
+      if (!stale.has(photo.id)) {
+        addCapture(photo, await readCaptureInfo(photo.filePath));
+        continue;
+      }
+
+      // Ratings changed from the UI are stored without a source timestamp until
+      // their write-back finishes; push any that never reached the file.
+      if (cached && cached.sourceModifiedAt == null) {
+        const next = { ...previous, rating: clampRating(previous.rating) };
+        let written = true;
+        for (const filePath of getPhotoFiles(photo.filePath)) {
+          const outcome = await writePhotoMetadata(
+            filePath,
+            next,
+            resolveMetadataMode(filePath),
+          );
+          written &&= outcome === "written";
+        }
+        if (written) {
+          const info = await stat(photo.filePath);
+          const modifiedAt = normalizeTimestamp(info.mtimeMs);
+          photo.modifiedAt = modifiedAt;
+          photo.size = info.size;
+          savePhotoMetadata(photo.id, next, modifiedAt);
+        }
+        broadcastPhotoValuesChanged(photo.id, previous, next);
+        if (!photo.capture) {
+          addCapture(photo, await readCaptureInfo(photo.filePath));
+        }
+        continue;
+      }
+
+      const { metadata, capture } = await readPhotoDetails(
+        photo.filePath,
+        resolveMetadataMode(photo.filePath),
+      );
+      addCapture(photo, capture);
+      const next: PhotoMetadataValues = {
+        rating:
+          typeof metadata.rating === "number"
+            ? clampRating(metadata.rating)
+            : 0,
+        label: metadata.label,
+        flag: metadata.flag,
+        keywords: metadata.keywords ?? [],
+      };
+      savePhotoMetadata(photo.id, next, normalizeTimestamp(photo.modifiedAt));
+      broadcastPhotoValuesChanged(photo.id, previous, next);
+    } catch (error) {
+      console.error("Failed to refresh rating metadata", photo.filePath, error);
+    }
+  }
+  flushCaptures();
+}
+
+const folderWatchers = new Map<string, FolderWatcher>();
+// Cards last reported for the watched roots; disk changes are diffed against it.
+const watchedPhotos = new Map<string, PhotoMeta>();
+// Pair key -> card ids and folder -> pair keys for watchedPhotos, so a change
+// finds its cards without walking every watched photo.
+const watchedPairs = new Map<string, Set<string>>();
+const watchedDirectories = new Map<string, Set<string>>();
+let watchQueue: Promise<void> = Promise.resolve();
+
+function getMemberPaths(photo: PhotoMeta): string[] {
+  return photo.members?.map((member) => member.filePath) ?? [photo.filePath];
+}
+
+function addToIndex(
+  index: Map<string, Set<string>>,
+  key: string,
+  value: string,
+): void {
+  const values = index.get(key);
+  if (values) {
+    values.add(value);
+  } else {
+    index.set(key, new Set([value]));
+  }
+}
+
+function setWatchedPhoto(photo: PhotoMeta): void {
+  deleteWatchedPhoto(photo.id);
+  watchedPhotos.set(photo.id, photo);
+  const key = getPairKey(photo.filePath);
+  addToIndex(watchedPairs, key, photo.id);
+  addToIndex(watchedDirectories, dirname(photo.filePath), key);
+}
+
+function deleteWatchedPhoto(id: string): void {
+  const photo = watchedPhotos.get(id);
+  if (!photo) {
+    return;
+  }
+  watchedPhotos.delete(id);
+  const key = getPairKey(photo.filePath);
+  const ids = watchedPairs.get(key);
+  ids?.delete(id);
+  if (ids?.size) {
+    return;
+  }
+  watchedPairs.delete(key);
+  const directory = dirname(photo.filePath);
+  const keys = watchedDirectories.get(directory);
+  keys?.delete(key);
+  if (keys?.size === 0) {
+    watchedDirectories.delete(directory);
+  }
+}
+
+// Stops watching one root, or every root when none is given.
+function stopWatchingFolder(directory?: string): void {
+  for (const [root, watcher] of folderWatchers) {
+    if (directory === undefined || root === directory) {
+      watcher.close();
+      folderWatchers.delete(root);
+    }
+  }
+  for (const [id, photo] of watchedPhotos) {
+    if (directory === undefined || isPathWithin(photo.filePath, directory)) {
+      deleteWatchedPhoto(id);
+    }
+  }
+}
+
+function startWatchingFolder(directory: string, photos: PhotoMeta[]): void {
+  stopWatchingFolder(directory);
+  for (const photo of photos) {
+    setWatchedPhoto(photo);
+  }
+  const watcher = watchFolder(directory, (paths) => {
+    watchQueue = watchQueue
+      .then(() => applyFolderChanges(directory, paths))
+      .catch((error) => {
+        console.error("Failed to apply folder changes", directory, error);
+      });
+  });
+  if (watcher) {
+    folderWatchers.set(directory, watcher);
+  }
+}
+
+async function loadPairPhotos(
+  directory: string,
+  key: string,
+): Promise<PhotoMeta[]> {
+  let entries: Dirent[];
+  try {
+    entries = await readdir(directory, { withFileTypes: true });
+  } catch (error) {
+    return [];
+  }
+
+  const photos: PhotoMeta[] = [];
+  for (const entry of entries) {
+    if (
+      !entry.isFile() ||
+      entry.name.startsWith(".") ||
+      isSidecarFileName(entry.name) ||
+      !isImageFileName(entry.name)
+    ) {
+      continue;
+    }
+    const fullPath = join(directory, entry.name);
+    if (getPairKey(fullPath) !== key) {
+      continue;
+    }
+    try {
+      photos.push(await buildPhotoMeta(fullPath, await stat(fullPath)));
+    } catch (error) {
+      // The file vanished between readdir and stat
+    }
+  }
+  const grouped = groupPhotoPairs(photos);
+  await attachCaptureInfo(grouped);
+  return grouped;
+}
+
+function broadcastPhotoEvent(
+  channel: "photos:added" | "photos:changed" | "photos:removed",
+  payload: PhotosAddedPayload | PhotosChangedPayload | PhotosRemovedPayload,
+): void {
+  for (const win of windows) {
+    if (win.isDestroyed()) {
+      continue;
+    }
+    win.webContents.send(channel, payload);
+  }
+}
+
+// Rescans only the pairs touched by the changed paths, so a new RAW joins its
+// JPEG and deleting one half of a pair turns the other back into a plain card.
+async function applyFolderChanges(
+  directory: string,
+  paths: string[],
+): Promise<void> {
+  if (!folderWatchers.has(directory)) {
+    return;
+  }
+
+  const affected = new Map<string, string>();
+  const addAffected = (filePath: string) => {
+    affected.set(getPairKey(filePath), dirname(filePath));
+  };
+
+  for (const changedPath of paths) {
+    let info: Stats;
+    try {
+      info = await stat(changedPath);
+    } catch (error) {
+      // Gone: either a watched file or a folder holding watched pairs.
+      if (watchedPairs.has(getPairKey(changedPath))) {
+        addAffected(changedPath);
+      }
+      for (const [pairDirectory, keys] of watchedDirectories) {
+        if (isPathWithin(pairDirectory, changedPath)) {
+          for (const key of keys) {
+            affected.set(key, pairDirectory);
+          }
+        }
+      }
+      continue;
+    }
+    if (info.isDirectory()) {
+      // Known folders report their files one by one; only a folder moved or
+      // copied in needs a scan of its own.
+      const known = [...watchedDirectories.keys()].some((pairDirectory) =>
+        isPathWithin(pairDirectory, changedPath),
+      );
+      if (!known) {
+        for (const photo of await collectPhotos(changedPath)) {
+          addAffected(photo.filePath);
+        }
+      }
+    } else if (
+      isImageFileName(basename(changedPath)) &&
+      !isSidecarFileName(changedPath)
+    ) {
+      addAffected(changedPath);
+    }
+  }
+
+  const added: PhotoMeta[] = [];
+  const changed: PhotoMeta[] = [];
+  const removed: string[] = [];
+
+  for (const [key, pairDirectory] of affected) {
+    const previous = [...(watchedPairs.get(key) ?? [])].flatMap(
+      (id) => watchedPhotos.get(id) ?? [],
+    );
+    const current = await loadPairPhotos(pairDirectory, key);
+    if (!folderWatchers.has(directory)) {
+      return;
+    }
+
+    const currentIds = new Set(current.map((photo) => photo.id));
+    for (const photo of previous) {
+      if (!currentIds.has(photo.id)) {
+        deleteWatchedPhoto(photo.id);
+        photoGroups.delete(photo.id);
+        removed.push(photo.id);
+        void removeCacheEntriesForSources(
+          getMemberPaths(photo).filter((file) => !existsSync(file)),
+        );
+      }
+    }
+
+    for (const photo of current) {
+      const before = watchedPhotos.get(photo.id);
+      setWatchedPhoto(photo);
+      if (photo.members && photo.members.length > 1) {
+        photoGroups.set(photo.id, getMemberPaths(photo));
+      } else {
+        photoGroups.delete(photo.id);
+      }
+
+      if (!before) {
+        added.push(photo);
+        continue;
+      }
+      const membersChanged =
+        getMemberPaths(before).join("\0") !== getMemberPaths(photo).join("\0");
+      if (!membersChanged && before.modifiedAt === photo.modifiedAt) {
+        continue;
+      }
+      // Our own rating write-back touches the file too; re-sorting the grid
+      // for it would make cards jump under the cursor.
+      const cached = getRating(photo.id);
+      if (
+        !membersChanged &&
+        cached?.sourceModifiedAt === normalizeTimestamp(photo.modifiedAt)
+      ) {
+        continue;
+      }
+      changed.push(photo);
+    }
+  }
+
+  if (removed.length > 0) {
+    broadcastPhotoEvent("photos:removed", { directory, ids: removed });
+  }
+
+  if (added.length > 0) {
+    const cachedRatings: Record<string, RatingCacheEntry> = {};
+    const values = createPhotoValueMaps();
+    const needsRefresh: PhotoMeta[] = [];
+    for (const photo of added) {
+      const cached = getRating(photo.id);
+      if (cached) {
+        cachedRatings[photo.id] = cached;
+        addPhotoValues(values, photo.id, cached);
+      }
+      if (cached?.sourceModifiedAt !== normalizeTimestamp(photo.modifiedAt)) {
+        needsRefresh.push(photo);
+      }
+    }
+    broadcastPhotoEvent("photos:added", {
+      directory,
+      photos: added,
+      ...values,
+    });
+    void refreshRatingsInBackground(needsRefresh, cachedRatings);
+  }
+
+  if (changed.length > 0) {
+    broadcastPhotoEvent("photos:changed", { directory, photos: changed });
+  }
+}
+
+let transferCounter = 0;
+let activeTransfer: { id: number; cancelled: boolean } | null = null;
+
+function broadcastTransferProgress(payload: TransferProgressPayload): void {
+  for (const win of windows) {
+    if (win.isDestroyed()) {
+      continue;
+    }
+    win.webContents.send("photos:transfer-progress", payload);
+  }
+}
+
+// Moves or copies one photo with its pair members, and optionally its
+// sidecars and stored values. Returns the primary path at the destination
+// with the number of sidecars left behind, or null when the conflict policy
+// skipped it.
+async function transferPhoto(
+  filePath: string,
+  mode: TransferMode,
+  destination: string,
+  options: TransferOptions,
+): Promise<{ targetPath: string; sidecarsFailed: number } | null> {
+  const files = getPhotoFiles(filePath);
+  const root = workspaceRoots.find((entry) => isPathWithin(filePath, entry));
+  const targetDirectory =
+    options.preserveStructure && root
+      ? join(destination, relative(root, dirname(filePath)))
+      : destination;
+  if (targetDirectory === dirname(filePath)) {
+    return null;
+  }
+
+  let targets = files.map((file) => join(targetDirectory, basename(file)));
+  if (targets.some((target) => existsSync(target))) {
+    if (options.conflictPolicy === "skip") {
+      return null;
+    }
+    if (options.conflictPolicy === "rename") {
+      const stem = findFreeStem(
+        targetDirectory,
+        getFileStem(basename(filePath)),
+        files.map((file) => extname(file)),
+      );
+      targets = files.map((file) =>
+        join(targetDirectory, `${stem}${extname(file)}`),
+      );
+    }
+  }
+  const overwrite = options.conflictPolicy === "overwrite";
+  const targetPath = targets[0];
+
+  // A shared stem-style sidecar stays with the photos still using it, so a
+  // move only takes the ones this photo owns and copies the rest.
+  const sidecars = new Map<
+    string,
+    { sidecar: string; owner: string; mode: TransferMode }
+  >();
+  if (options.includeSidecars) {
+    for (const file of files) {
+      const owned = mode === "move" ? await listOwnedSidecars(file, files) : [];
+      for (const sidecar of findExistingSidecars(file)) {
+        const key = sidecar.toLowerCase();
+        if (!sidecars.has(key)) {
+          sidecars.set(key, {
+            sidecar,
+            owner: file,
+            mode: owned.includes(sidecar) ? "move" : "copy",
+          });
+        }
+      }
+    }
+  }
+  const entry = getRating(filePath);
+
+  await transferFiles(
+    files.map((file, index) => ({ from: file, to: targets[index] })),
+    mode,
+    overwrite,
+  );
+  let sidecarsFailed = 0;
+  for (const { sidecar, owner, mode: sidecarMode } of sidecars.values()) {
+    const nextOwner = targets[files.indexOf(owner)] ?? targetPath;
+    const nextSidecar = buildRenamedSidecarPath(sidecar, owner, nextOwner);
+    if (existsSync(nextSidecar) && !overwrite) {
+      console.warn("Skipping sidecar because the target exists", nextSidecar);
+      sidecarsFailed += 1;
+      continue;
+    }
+    await transferFile(sidecar, nextSidecar, sidecarMode, overwrite).catch(
+      (error) => {
+        console.warn("Failed to transfer sidecar", sidecar, error);
+        sidecarsFailed += 1;
+      },
+    );
+  }
+
+  deleteRating(targetPath);
+  photoGroups.delete(targetPath);
+  if (targets.length > 1) {
+    photoGroups.set(targetPath, targets);
+  }
+  if (mode === "move") {
+    photoGroups.delete(filePath);
+    await removeCacheEntriesForSources(files);
+    if (options.includeRatings) {
+      renameRating(filePath, targetPath);
+      reassignRatingWrite(filePath, targetPath, targets);
+    } else {
+      cancelRatingWrite(filePath);
+      deleteRating(filePath);
+    }
+  } else if (options.includeRatings && entry) {
+    savePhotoMetadata(
+      targetPath,
+      {
+        rating: entry.rating,
+        label: entry.label,
+        flag: entry.flag,
+        keywords: entry.keywords,
+      },
+      entry.sourceModifiedAt,
+    );
+    if (entry.sourceModifiedAt === null) {
+      // The original's write-back is still pending, so the copy lacks it too
+      queuePhotoMetadataWrite(targetPath);
+    } else {
+      void recordRatingFingerprint(targetPath);
+    }
+  }
+  return { targetPath, sidecarsFailed };
+}
+
+async function transferPhotos(
+  mode: TransferMode,
+  payload: TransferPayload,
+): Promise<TransferResult> {
+  if (activeTransfer) {
+    return {
+      success: false,
+      message: translate(currentLocale, "app.error.transferBusy"),
+    };
+  }
+  const { paths, destination, options } = payload;
+  try {
+    const stats = await stat(destination);
+    if (!stats.isDirectory()) {
+      throw new Error(destination);
+    }
+  } catch (error) {
+    return {
+      success: false,
+      message: translate(currentLocale, "app.error.transferDestination"),
+    };
+  }
+
+  transferCounter += 1;
+  const transfer = { id: transferCounter, cancelled: false };
+  activeTransfer = transfer;
+  const transferred: Record<string, string> = {};
+  let skipped = 0;
+  let failed = 0;
+  let sidecarsFailed = 0;
+  try {
+    for (const [index, filePath] of paths.entries()) {
+      if (transfer.cancelled) {
+        break;
+      }
+      broadcastTransferProgress({
+        transferId: transfer.id,
+        mode,
+        completed: index,
+        total: paths.length,
+        currentPath: filePath,
+      });
+      try {
+        if (!existsSync(filePath)) {
+          failed += 1;
+          continue;
+        }
+        const outcome = await transferPhoto(
+          filePath,
+          mode,
+          destination,
+          options,
+        );
+        if (outcome) {
+          transferred[filePath] = outcome.targetPath;
+          sidecarsFailed += outcome.sidecarsFailed;
+        } else {
+          skipped += 1;
+        }
+      } catch (error) {
+        console.error(`Failed to ${mode} photo`, filePath, error);
+        failed += 1;
+      }
+    }
+    broadcastTransferProgress({
+      transferId: transfer.id,
+      mode,
+      completed: paths.length,
+      total: paths.length,
+      currentPath: null,
+    });
+    return {
+      success: true,
+      transferred,
+      skipped,
+      failed,
+      sidecarsFailed,
+      cancelled: transfer.cancelled,
+    };
+  } finally {
+    activeTransfer = null;
+  }
+}
+
+interface ExportJob {
+  id: number;
+  request: ExportRequest;
+  cancelled: boolean;
+}
+
+let exportCounter = 0;
+const exportJobs = new Map<number, ExportJob>();
+// Jobs run one after another; each already keeps sharp busy on its own.
+let exportQueue: Promise<void> = Promise.resolve();
+
+function broadcastExportProgress(payload: ExportProgressPayload): void {
+  for (const win of windows) {
+    if (win.isDestroyed()) {
+      continue;
+    }
+    win.webContents.send("export:progress", payload);
+  }
+}
+
+// Sources sharp cannot decode go through the same cached stand-ins as the
+// viewer: RAW files export from their embedded preview and HEIC falls back to
+// the heic-convert transcode. Their tags are copied over afterwards.
+async function exportPhoto(
+  photo: ExportPhoto,
+  targetPath: string,
+  options: ExportOptions,
+): Promise<void> {
+  const ext = extname(photo.path).slice(1).toLowerCase();
+  const rule = MEDIA_TRANSCODE_RULES[ext];
+  let sourcePath = photo.path;
+  if (
+    rule &&
+    (rule.source === "embedded-preview" ||
+      (rule.fallback === "heic-convert" && heicSharpDecodeAvailable === false))
+  ) {
+    sourcePath = await ensureTranscodedMediaAsset(
+      photo.path,
+      photo.modifiedAt,
+      rule,
+    );
+  }
+
+  try {
+    try {
+      await renderExport(sourcePath, targetPath, options);
+    } catch (error) {
+      if (
+        rule?.fallback !== "heic-convert" ||
+        sourcePath !== photo.path ||
+        !isHeicDecodePluginError(error)
+      ) {
+        throw error;
+      }
+      heicSharpDecodeAvailable = false;
+      sourcePath = await ensureTranscodedMediaAsset(
+        photo.path,
+        photo.modifiedAt,
+        rule,
+      );
+      await renderExport(sourcePath, targetPath, options);
+    }
+  } catch (error) {
+    await unlink(targetPath).catch(() => {
+      // a partial export is best-effort cleanup
+    });
+    throw error;
+  }
+
+  if (options.keepMetadata && sourcePath !== photo.path) {
+    await copyMetadataTags(photo.path, targetPath);
+  }
+}
+
+async function runExportJob(job: ExportJob): Promise<void> {
+  const { photos, options } = job.request;
+  const extension = `.${EXPORT_EXTENSIONS[options.format]}`;
+  let completed = 0;
+  let failed = 0;
+  const report = (currentPath: string | null, done: boolean) =>
+    broadcastExportProgress({
+      jobId: job.id,
+      destination: options.destination,
+      completed,
+      total: photos.length,
+      failed,
+      currentPath,
+      done,
+      cancelled: job.cancelled,
+    });
+
+  try {
+    for (const [index, photo] of photos.entries()) {
+      if (job.cancelled) {
+        break;
+      }
+      report(photo.path, false);
+      try {
+        const name = formatExportFileName(options.fileNameTemplate, {
+          name: getFileStem(basename(photo.path)),
+          index: index + 1,
+          total: photos.length,
+          takenAt: photo.capturedAt ?? photo.modifiedAt,
+          rating: photo.rating,
+        });
+        // Exports never replace a file, whether from an earlier run or from
+        // two photos that share a name in different folders.
+        const stem = existsSync(
+          join(options.destination, `${name}${extension}`),
+        )
+          ? findFreeStem(options.destination, name, [extension])
+          : name;
+        await exportPhoto(
+          photo,
+          join(options.destination, `${stem}${extension}`),
+          options,
+        );
+      } catch (error) {
+        console.error("Failed to export photo", photo.path, error);
+        failed += 1;
+      }
+      completed += 1;
+    }
+  } finally {
+    exportJobs.delete(job.id);
+    report(null, true);
+  }
+}
+
+async function startExport(request: ExportRequest): Promise<ExportStartResult> {
+  const { photos, options } = request;
+  if (photos.length === 0) {
+    return { success: false };
+  }
+  try {
+    const stats = await stat(options.destination);
+    if (!stats.isDirectory()) {
+      throw new Error(options.destination);
+    }
+  } catch (error) {
+    return {
+      success: false,
+      message: translate(currentLocale, "app.error.exportDestination"),
+    };
+  }
+  if (
+    options.watermark?.kind === "image" &&
+    !existsSync(options.watermark.value)
+  ) {
+    return {
+      success: false,
+      message: translate(currentLocale, "app.error.exportWatermark"),
+    };
+  }
+
+  exportCounter += 1;
+  const job: ExportJob = {
+    id: exportCounter,
+    request: {
+      photos,
+      options: {
+        ...options,
+        quality: Math.min(100, Math.max(1, Math.round(options.quality))),
+      },
+    },
+    cancelled: false,
+  };
+  exportJobs.set(job.id, job);
+  broadcastExportProgress({
+    jobId: job.id,
+    destination: options.destination,
+    completed: 0,
+    total: photos.length,
+    failed: 0,
+    currentPath: null,
+    done: false,
+    cancelled: false,
+  });
+  exportQueue = exportQueue
+    .then(() => runExportJob(job))
+    .catch((error) => {
+      console.error("Export job failed", job.id, error);
+    });
+  return { success: true, jobId: job.id };
+}
+
+async function createWindow() {
+  const preloadCandidates = [
+    join(__dirname, "../preload/index.js"),
+    join(__dirname, "../preload/index.mjs"),
+    join(__dirname, "../preload/index.cjs"),
+  ];
+  const preloadScript = preloadCandidates.find((candidate) =>
+    existsSync(candidate),
+  );
+
+  if (!preloadScript) {
+    throw new Error(
+      "Preload script not found in dist/preload. Build step may have failed.",
+    );
+  }
+
+  const win = new BrowserWindow({
+    width: 1400,
+    height: 900,
+    backgroundColor: nativeTheme.shouldUseDarkColors ? "#1e1e1e" : "#f5f5f5",
+    webPreferences: {
+      preload: preloadScript,
+      sandbox: false,
+      contextIsolation: true,
+      nodeIntegration: false,
+      spellcheck: false,
+    },
+    show: false,
+  });
+
+  windows.add(win);
+
+  win.on("closed", () => {
+    windows.delete(win);
+  });
+
+  win.once("ready-to-show", () => {
+    win.show();
+  });
+
+  if (process.env.ELECTRON_RENDERER_URL) {
+    await win.loadURL(process.env.ELECTRON_RENDERER_URL);
+  } else {
+    await win.loadFile(join(__dirname, "../renderer/index.html"));
+  }
+}
+
+app.whenReady().then(async () => {
+  await ensurePhotoProtocol();
+  await ensureThumbnailProtocol();
+  try {
+    initRatingsStore();
+  } catch (error) {
+    dialog.showErrorBox(
+      translate(currentLocale, "main.sqliteError.title"),
+      translate(currentLocale, "main.sqliteError.message"),
+    );
+    throw error;
+  }
+
+  libraryMetadataModes = getLibraryMetadataModes();
+  loadAppSettings();
+  initMediaCache(
+    { thumbnail: getThumbnailDir(), media: getMediaCacheDir() },
+    appSettings.cacheSizeLimitMb,
+  );
+  setTimeout(() => {
+    sweepOrphanedCacheEntries()
+      .then((removed) => {
+        if (removed > 0) {
+          console.info("Removed orphaned cache entries", removed);
+        }
+      })
+      .catch((error) => {
+        console.warn("Failed to sweep cache", error);
+      });
+  }, ORPHAN_SWEEP_DELAY_MS).unref();
+  setRatingWriteStatusListener(handleRatingWriteStatus);
+
+  ipcMain.handle(
+    "app:get-locale",
+    async (): Promise<{ locale: Locale }> => ({ locale: currentLocale }),
+  );
+
+  ipcMain.handle("app:set-locale", async (_event, value: string) => {
+    if (isLocale(value)) {
+      currentLocale = value;
+    }
+  });
+
+  ipcMain.handle(
+    "photos:select-folder",
+    async (): Promise<PhotoCollectionPayload> => {
+      const result = await dialog.showOpenDialog({
+        properties: ["openDirectory"],
+      });
+
+      if (result.canceled || !result.filePaths.length) {
+        return {
+          directory: null,
+          photos: [],
+          ratings: {},
+        };
+      }
+
+      return loadPhotoCollectionFromDirectory(result.filePaths[0]);
+    },
+  );
+
+  ipcMain.handle(
+    "photos:load-folder",
+    async (_event, directoryPath: unknown): Promise<PhotoCollectionPayload> => {
+      if (typeof directoryPath !== "string") {
+        return {
+          directory: null,
+          photos: [],
+          ratings: {},
+        };
+      }
+
+      return loadPhotoCollectionFromDirectory(directoryPath);
+    },
+  );
+
+  ipcMain.handle("photos:cancel-scan", async (): Promise<void> => {
+    cancelActiveScan();
+  });
+
+  ipcMain.handle("photos:close-folder", async (): Promise<void> => {
+    closeWorkspace();
+  });
+
+  ipcMain.handle(
+    "workspace:select-root",
+    async (): Promise<PhotoCollectionPayload> => {
+      const result = await dialog.showOpenDialog({
+        properties: ["openDirectory"],
+      });
+
+      if (result.canceled || !result.filePaths.length) {
+        return {
+          directory: null,
+          photos: [],
+          ratings: {},
+        };
+      }
+
+      return loadPhotoCollectionFromDirectory(result.filePaths[0], {
+        append: true,
+      });
+    },
+  );
+
+  ipcMain.handle(
+    "workspace:add-root",
+    async (_event, directoryPath: unknown): Promise<PhotoCollectionPayload> => {
+      if (typeof directoryPath !== "string") {
+        return {
+          directory: null,
+          photos: [],
+          ratings: {},
+        };
+      }
+
+      return loadPhotoCollectionFromDirectory(directoryPath, { append: true });
+    },
+  );
+
+  ipcMain.handle(
+    "workspace:remove-root",
+    async (_event, directoryPath: unknown): Promise<void> => {
+      if (typeof directoryPath === "string") {
+        removeWorkspaceRoot(directoryPath);
+      }
+    },
+  );
+
+  ipcMain.handle(
+    "folders:get-recent",
+    async (): Promise<RecentFolder[]> => listRecentFolders(),
+  );
+
+  ipcMain.handle(
+    "folders:forget-recent",
+    async (_event, directoryPath: unknown): Promise<RecentFolder[]> => {
+      if (typeof directoryPath === "string") {
+        forgetRecentFolder(directoryPath);
+      }
+      return listRecentFolders();
+    },
+  );
+
+  ipcMain.handle(
+    "session:get",
+    async (): Promise<SessionState | null> => readSessionState(),
+  );
+
+  ipcMain.handle(
+    "session:save",
+    async (_event, payload: unknown): Promise<void> => {
+      const session = normalizeSessionState(payload);
+      if (!session) {
+        return;
+      }
+      setAppSetting(SESSION_SETTING, JSON.stringify(session));
+    },
+  );
+
+  ipcMain.handle(
+    "thumbnails:prioritize",
+    async (_event, payload: ThumbnailPriorityPayload): Promise<void> => {
+      if (
+        !payload ||
+        !Array.isArray(payload.visibleIds) ||
+        !Array.isArray(payload.nearbyIds)
+      ) {
+        return;
+      }
+      prioritizeThumbnailJobs(payload.visibleIds, payload.nearbyIds);
+    },
+  );
+
+  // Answers with the hashes already stored and queues a thumbnail job for
+  // every other photo; the finder polls until nothing is pending.
+  ipcMain.handle(
+    "duplicates:get-hashes",
+    async (
+      _event,
+      payload: PerceptualHashPayload,
+    ): Promise<PerceptualHashResult> => {
+      const hashes: Record<string, string> = {};
+      let pending = 0;
+      if (!payload || !Array.isArray(payload.photos)) {
+        return { hashes, pending };
+      }
+      for (const { id, modifiedAt } of payload.photos) {
+        const sourceModifiedAt = normalizeTimestamp(modifiedAt);
+        const hash = getPerceptualHash(id, sourceModifiedAt);
+        if (hash) {
+          hashes[id] = hash;
+          continue;
+        }
+        if (failedPerceptualHashes.get(id) === sourceModifiedAt) {
+          continue;
+        }
+        pending += 1;
+        const { basePath, retinaPath } = await resolveThumbnailState(
+          id,
+          modifiedAt,
+        );
+        scheduleThumbnailGeneration({
+          filePath: id,
+          basePath,
+          retinaPath,
+          sourceModifiedAt: modifiedAt,
+        });
+      }
+      return { hashes, pending };
+    },
+  );
+
+  ipcMain.handle(
+    "thumbnails:get-stats",
+    async (): Promise<ThumbnailStats> => getThumbnailStats(),
+  );
+
+  ipcMain.handle(
+    "cache:get-usage",
+    async (): Promise<CacheUsage> => getCacheUsage(),
+  );
+
+  ipcMain.handle("cache:clear", async (): Promise<CacheClearResult> => {
+    try {
+      await clearMediaCache();
+      void regenerateLoadedThumbnails().catch((error) => {
+        console.warn("Failed to regenerate thumbnails", error);
+      });
+      return { success: true, usage: getCacheUsage() };
+    } catch (error) {
+      console.error("Failed to clear cache", error);
+      return {
+        success: false,
+        message:
+          error instanceof Error
+            ? error.message
+            : translate(currentLocale, "app.error.unknown"),
+      };
+    }
+  });
+
+  ipcMain.handle(
+    "settings:get",
+    async (): Promise<AppSettingsPayload> => ({
+      settings: appSettings,
+      defaultThumbnailWorkerCount: getDefaultThumbnailPoolSize(),
+      maxThumbnailWorkerCount: getMaxThumbnailPoolSize(),
+    }),
+  );
+
+  ipcMain.handle(
+    "settings:update",
+    async (
+      _event,
+      payload: Partial<AppSettings>,
+    ): Promise<AppSettingsUpdateResult> => {
+      try {
+        if (!payload || typeof payload !== "object") {
+          return {
+            success: false,
+            message: translate(currentLocale, "app.error.unknown"),
+          };
+        }
+
+        const next: AppSettings = { ...appSettings };
+        if ("thumbnailWorkerCount" in payload) {
+          next.thumbnailWorkerCount = normalizeThumbnailWorkerCount(
+            payload.thumbnailWorkerCount,
+          );
+          setAppSetting(
+            THUMBNAIL_WORKER_COUNT_SETTING,
+            next.thumbnailWorkerCount == null
+              ? null
+              : String(next.thumbnailWorkerCount),
+          );
+          applyThumbnailWorkerCount(next.thumbnailWorkerCount);
+        }
+        if ("cacheSizeLimitMb" in payload) {
+          next.cacheSizeLimitMb = normalizeCacheSizeLimit(
+            payload.cacheSizeLimitMb,
+          );
+          setAppSetting(
+            CACHE_SIZE_LIMIT_SETTING,
+            String(next.cacheSizeLimitMb),
+          );
+          setCacheSizeLimit(next.cacheSizeLimitMb);
+        }
+        if ("burstGapSeconds" in payload) {
+          next.burstGapSeconds = normalizeBurstGap(payload.burstGapSeconds);
+          setAppSetting(
+            BURST_GAP_SETTING,
+            next.burstGapSeconds == null ? "off" : String(next.burstGapSeconds),
+          );
+        }
+
+        appSettings = next;
+        return { success: true, settings: appSettings };
+      } catch (error) {
+        console.error("Failed to update settings", error);
+        return {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : translate(currentLocale, "app.error.unknown"),
+        };
+      }
+    },
+  );
+
+  ipcMain.handle(
+    "photos:delete",
+    async (_event, filePath: string): Promise<DeletePhotoResult> => {
+      try {
+        if (!existsSync(filePath)) {
+          return {
+            success: false,
+            message: translate(currentLocale, "app.error.alreadyDeleted"),
+          };
+        }
+        // A member removed behind our back has nothing left to trash.
+        const files = getPhotoFiles(filePath).filter((file) =>
+          existsSync(file),
+        );
+        const sidecars = new Map<string, string>();
+        for (const file of files) {
+          for (const sidecar of await listOwnedSidecars(file, files)) {
+            sidecars.set(sidecar.toLowerCase(), sidecar);
+          }
         }
-        continue;
-      }
-
-      const metadataRating = await readRatingFromMetadata(photo.filePath);
-      const normalized =
-        typeof metadataRating === "number" ? clampRating(metadataRating) : 0;
-      upsertRating(photo.id, normalized, normalizeTimestamp(photo.modifiedAt));
-      if (previousRating !== normalized) {
-        broadcastRatingsRefreshed({ [photo.id]: normalized });
+        const entry = getRating(filePath);
+        const trashedFiles = (await trashPhotoFiles(files)).filter(
+          (trashed): trashed is TrashedFile => trashed !== null,
+        );
+        cancelRatingWrite(filePath);
+        deleteRating(filePath);
+        photoGroups.delete(filePath);
+        await removeCacheEntriesForSources(files);
+        const trashedSidecars: TrashedFile[] = [];
+        for (const sidecar of sidecars.values()) {
+          const trashed = await moveToTrash(sidecar).catch((error) => {
+            console.warn("Failed to move sidecar to trash", sidecar, error);
+            return null;
+          });
+          if (trashed) {
+            trashedSidecars.push(trashed);
+          }
+        }
+        const restorable = trashedFiles.length === files.length;
+        if (restorable) {
+          trashedPhotos.set(filePath, {
+            files: trashedFiles,
+            sidecars: trashedSidecars,
+            entry,
+          });
+        } else {
+          trashedPhotos.delete(filePath);
+        }
+        return {
+          success: true,
+          restorable,
+          lostInTrash: !restorable && canRestoreFromTrash(),
+        };
+      } catch (error) {
+        console.error("Failed to move photo to trash", filePath, error);
+        return {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : translate(currentLocale, "app.error.unknown"),
+        };
       }
-    } catch (error) {
-      console.error("Failed to refresh rating metadata", photo.filePath, error);
-    }
-  }
-}
-
-async function createWindow() {
-  const preloadCandidates = [
-    join(__dirname, "../preload/index.js"),
-    join(__dirname, "../preload/index.mjs"),
-    join(__dirname, "../preload/index.cjs"),
-  ];
-  const preloadScript = preloadCandidates.find((candidate) =>
-    existsSync(candidate),
+    },
   );
 
-  if (!preloadScript) {
-    throw new Error(
-      "Preload script not found in dist/preload. Build step may have failed.",
-    );
-  }
-
-  const win = new BrowserWindow({
-    width: 1400,
-    height: 900,
-    backgroundColor: nativeTheme.shouldUseDarkColors ? "#1e1e1e" : "#f5f5f5",
-    webPreferences: {
-      preload: preloadScript,
-      sandbox: false,
-      contextIsolation: true,
-      nodeIntegration: false,
-      spellcheck: false,
+  ipcMain.handle(
+    "photos:select-destination",
+    async (): Promise<string | null> => {
+      const result = await dialog.showOpenDialog({
+        properties: ["openDirectory", "createDirectory"],
+      });
+      if (result.canceled || !result.filePaths.length) {
+        return null;
+      }
+      return result.filePaths[0];
     },
-    show: false,
-  });
+  );
 
-  windows.add(win);
+  ipcMain.handle(
+    "photos:copy",
+    async (_event, payload: TransferPayload): Promise<TransferResult> =>
+      transferPhotos("copy", payload),
+  );
 
-  win.on("closed", () => {
-    windows.delete(win);
-  });
+  ipcMain.handle(
+    "photos:move",
+    async (_event, payload: TransferPayload): Promise<TransferResult> =>
+      transferPhotos("move", payload),
+  );
 
-  win.once("ready-to-show", () => {
-    win.show();
+  ipcMain.handle("photos:cancel-transfer", async (): Promise<void> => {
+    if (activeTransfer) {
+      activeTransfer.cancelled = true;
+    }
   });
 
-  if (process.env.ELECTRON_RENDERER_URL) {
-    await win.loadURL(process.env.ELECTRON_RENDERER_URL);
-  } else {
-    await win.loadFile(join(__dirname, "../renderer/index.html"));
-  }
-}
-
-app.whenReady().then(async () => {
-  await ensurePhotoProtocol();
-  await ensureThumbnailProtocol();
-  try {
-    initRatingsStore();
-  } catch (error) {
-    dialog.showErrorBox(
-      translate(currentLocale, "main.sqliteError.title"),
-      translate(currentLocale, "main.sqliteError.message"),
-    );
-    throw error;
-  }
-
   ipcMain.handle(
-    "app:get-locale",
-    async (): Promise<{ locale: Locale }> => ({ locale: currentLocale }),
+    "export:start",
+    async (_event, request: ExportRequest): Promise<ExportStartResult> =>
+      startExport(request),
   );
 
-  ipcMain.handle("app:set-locale", async (_event, value: string) => {
-    if (isLocale(value)) {
-      currentLocale = value;
-    }
-  });
+  ipcMain.handle(
+    "export:cancel",
+    async (_event, jobId: number): Promise<void> => {
+      const job = exportJobs.get(jobId);
+      if (job) {
+        job.cancelled = true;
+      }
+    },
+  );
 
   ipcMain.handle(
-    "photos:select-folder",
-    async (): Promise<PhotoCollectionPayload> => {
+    "export:select-watermark",
+    async (): Promise<string | null> => {
       const result = await dialog.showOpenDialog({
-        properties: ["openDirectory"],
+        properties: ["openFile"],
+        filters: [
+          {
+            name: translate(currentLocale, "exportDialog.watermarkFilter"),
+            extensions: ["png", "webp", "svg", "jpg", "jpeg"],
+          },
+        ],
       });
-
       if (result.canceled || !result.filePaths.length) {
-        return {
-          directory: null,
-          photos: [],
-          ratings: {},
-        };
+        return null;
       }
-
-      return loadPhotoCollectionFromDirectory(result.filePaths[0]);
+      return result.filePaths[0];
     },
   );
 
   ipcMain.handle(
-    "photos:load-folder",
-    async (_event, directoryPath: unknown): Promise<PhotoCollectionPayload> => {
-      if (typeof directoryPath !== "string") {
+    "photos:restore",
+    async (_event, filePath: string): Promise<RestorePhotoResult> => {
+      const trashed = trashedPhotos.get(filePath);
+      if (!trashed) {
         return {
-          directory: null,
-          photos: [],
-          ratings: {},
+          success: false,
+          message: translate(currentLocale, "app.error.restoreUnavailable"),
         };
       }
+      try {
+        if (trashed.files.some((file) => existsSync(file.originalPath))) {
+          return {
+            success: false,
+            message: translate(currentLocale, "app.error.restoreConflict"),
+          };
+        }
+        for (const file of trashed.files) {
+          await restoreFromTrash(file);
+        }
+        trashedPhotos.delete(filePath);
+        for (const sidecar of trashed.sidecars) {
+          await restoreFromTrash(sidecar).catch((error) => {
+            console.warn("Failed to restore sidecar", sidecar, error);
+          });
+        }
+        if (trashed.files.length > 1) {
+          photoGroups.set(
+            filePath,
+            trashed.files.map((file) => file.originalPath),
+          );
+        }
 
-      return loadPhotoCollectionFromDirectory(directoryPath);
-    },
-  );
+        const values: PhotoMetadataValues = {
+          rating: trashed.entry?.rating ?? 0,
+          label: trashed.entry?.label ?? null,
+          flag: trashed.entry?.flag ?? null,
+          keywords: trashed.entry?.keywords ?? [],
+        };
+        if (trashed.entry) {
+          savePhotoMetadata(filePath, values, trashed.entry.sourceModifiedAt);
+          void recordRatingFingerprint(filePath);
+        }
 
-  ipcMain.handle(
-    "photos:delete",
-    async (_event, filePath: string): Promise<DeletePhotoResult> => {
-      try {
-        await shell.trashItem(filePath);
-        deleteRating(filePath);
-        return { success: true };
+        return {
+          success: true,
+          photo: await buildGroupedPhotoMeta(filePath),
+          ...values,
+        };
       } catch (error) {
-        console.error("Failed to move photo to trash", filePath, error);
+        console.error("Failed to restore photo from trash", filePath, error);
         return {
           success: false,
           message:
@@ -1175,48 +3500,88 @@ app.whenReady().then(async () => {
           };
         }
 
+        // Pair members follow the primary's new stem and keep their own
+        // extension; every target is checked before anything moves.
+        const files = getPhotoFiles(filePath);
+        const nextStem = getFileStem(sanitized);
+        const renames = files.map((file) => ({
+          from: file,
+          to:
+            file === filePath
+              ? targetPath
+              : join(directory, `${nextStem}${extname(file)}`),
+        }));
+        for (const { from, to } of renames.slice(1)) {
+          if (
+            to !== from &&
+            existsSync(to) &&
+            to.toLowerCase() !== from.toLowerCase()
+          ) {
+            return {
+              success: false,
+              message: translate(currentLocale, "app.error.renameConflict"),
+            };
+          }
+        }
+
         let resultPath = filePath;
         if (targetPath !== filePath) {
-          await rename(filePath, targetPath);
+          const sidecars = new Map<
+            string,
+            { sidecar: string; owner: string }
+          >();
+          for (const file of files) {
+            for (const sidecar of await listOwnedSidecars(file, files)) {
+              const key = sidecar.toLowerCase();
+              if (!sidecars.has(key)) {
+                sidecars.set(key, { sidecar, owner: file });
+              }
+            }
+          }
+          await renamePhotoFiles(renames);
+          const nextFiles = renames.map(({ to }) => to);
+          await removeCacheEntriesForSources(
+            renames
+              .filter(({ from, to }) => from !== to)
+              .map(({ from }) => from),
+          );
           renameRating(filePath, targetPath);
+          reassignRatingWrite(filePath, targetPath, nextFiles);
+          photoGroups.delete(filePath);
+          if (nextFiles.length > 1) {
+            photoGroups.set(targetPath, nextFiles);
+          }
           resultPath = targetPath;
+          for (const { sidecar, owner } of sidecars.values()) {
+            const nextOwner =
+              renames.find(({ from }) => from === owner)?.to ?? targetPath;
+            const nextSidecar = buildRenamedSidecarPath(
+              sidecar,
+              owner,
+              nextOwner,
+            );
+            if (nextSidecar === sidecar) {
+              continue;
+            }
+            if (
+              existsSync(nextSidecar) &&
+              nextSidecar.toLowerCase() !== sidecar.toLowerCase()
+            ) {
+              console.warn(
+                "Skipping sidecar rename because the target exists",
+                nextSidecar,
+              );
+              continue;
+            }
+            await rename(sidecar, nextSidecar).catch((error) => {
+              console.warn("Failed to rename sidecar", sidecar, error);
+            });
+          }
         }
 
-        const info = await stat(resultPath);
-        const fileUrl = pathToFileURL(resultPath);
-        const fileUrlString = `photo://local${fileUrl.pathname}`;
-        const { basePath, retinaPath, baseFresh, retinaFresh } =
-          await resolveThumbnailState(resultPath, info.mtimeMs);
-
-        if (!baseFresh || !retinaFresh) {
-          scheduleThumbnailGeneration({
-            filePath: resultPath,
-            basePath,
-            retinaPath,
-            sourceModifiedAt: info.mtimeMs,
-          });
-        }
-
-        const thumbnailUrl = baseFresh
-          ? buildProtocolUrl(THUMBNAIL_SCHEME, basePath)
-          : fileUrlString;
-        const thumbnailRetinaUrl = retinaFresh
-          ? buildProtocolUrl(THUMBNAIL_SCHEME, retinaPath)
-          : thumbnailUrl;
-        const photo: PhotoMeta = {
-          id: resultPath,
-          name: basename(resultPath),
-          filePath: resultPath,
-          fileUrl: fileUrlString,
-          thumbnailUrl,
-          thumbnailRetinaUrl,
-          size: info.size,
-          modifiedAt: info.mtimeMs,
-        };
-
         return {
           success: true,
-          photo,
+          photo: await buildGroupedPhotoMeta(resultPath),
         };
       } catch (error) {
         console.error("Failed to rename photo", payload, error);
@@ -1231,6 +3596,37 @@ app.whenReady().then(async () => {
     },
   );
 
+  ipcMain.handle(
+    "photos:get-metadata",
+    async (
+      _event,
+      request: PhotoMetadataRequest,
+    ): Promise<PhotoMetadataResult> => {
+      try {
+        const metadata = await loadExifInfo(
+          request.path,
+          normalizeTimestamp(request.modifiedAt),
+        );
+        if (!metadata) {
+          return {
+            success: false,
+            message: translate(currentLocale, "app.error.metadataUnavailable"),
+          };
+        }
+        return { success: true, metadata };
+      } catch (error) {
+        console.error("Failed to read photo details", request.path, error);
+        return {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : translate(currentLocale, "app.error.unknown"),
+        };
+      }
+    },
+  );
+
   ipcMain.handle(
     "photos:reveal",
     async (_event, filePath: string): Promise<RevealPhotoResult> => {
@@ -1302,11 +3698,9 @@ app.whenReady().then(async () => {
       payload: RatingUpdatePayload,
     ): Promise<RatingUpdateResult> => {
       try {
-        if (payload.rating > 0) {
-          upsertRating(payload.id, payload.rating);
-        } else {
-          deleteRating(payload.id);
-        }
+        const rating = clampRating(payload.rating);
+        upsertRating(payload.id, rating, null);
+        queuePhotoMetadataWrite(payload.id);
         return { success: true };
       } catch (error) {
         console.error("Failed to update rating", payload, error);
@@ -1321,6 +3715,107 @@ app.whenReady().then(async () => {
     },
   );
 
+  ipcMain.handle(
+    "labels:update",
+    async (_event, payload: LabelUpdatePayload): Promise<LabelUpdateResult> => {
+      try {
+        const label = isColorLabel(payload.label) ? payload.label : null;
+        setPhotoLabel(payload.id, label, null);
+        queuePhotoMetadataWrite(payload.id);
+        return { success: true };
+      } catch (error) {
+        console.error("Failed to update label", payload, error);
+        return {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : translate(currentLocale, "app.error.unknown"),
+        };
+      }
+    },
+  );
+
+  ipcMain.handle(
+    "flags:update",
+    async (_event, payload: FlagUpdatePayload): Promise<FlagUpdateResult> => {
+      try {
+        const flag = isPhotoFlag(payload.flag) ? payload.flag : null;
+        setPhotoFlag(payload.id, flag, null);
+        queuePhotoMetadataWrite(payload.id);
+        return { success: true };
+      } catch (error) {
+        console.error("Failed to update flag", payload, error);
+        return {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : translate(currentLocale, "app.error.unknown"),
+        };
+      }
+    },
+  );
+
+  ipcMain.handle("keywords:list", async (): Promise<string[]> => {
+    try {
+      return listKeywords();
+    } catch (error) {
+      console.error("Failed to list keywords", error);
+      return [];
+    }
+  });
+
+  ipcMain.handle(
+    "keywords:add",
+    async (
+      _event,
+      payload: KeywordUpdatePayload,
+    ): Promise<KeywordUpdateResult> =>
+      updatePhotoKeywords(payload, (current) =>
+        mergeKeywords(current, payload.keywords),
+      ),
+  );
+
+  ipcMain.handle(
+    "keywords:remove",
+    async (
+      _event,
+      payload: KeywordUpdatePayload,
+    ): Promise<KeywordUpdateResult> =>
+      updatePhotoKeywords(payload, (current) =>
+        removeKeywords(current, payload.keywords),
+      ),
+  );
+
+  ipcMain.handle(
+    "libraries:set-metadata-mode",
+    async (
+      _event,
+      payload: MetadataModeUpdatePayload,
+    ): Promise<MetadataModeUpdateResult> => {
+      try {
+        const mode: MetadataMode =
+          payload.mode === "sidecar" ? "sidecar" : "embedded";
+        setLibraryMetadataMode(payload.directory, mode);
+        libraryMetadataModes = {
+          ...libraryMetadataModes,
+          [payload.directory]: mode,
+        };
+        return { success: true };
+      } catch (error) {
+        console.error("Failed to update metadata mode", payload, error);
+        return {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : translate(currentLocale, "app.error.unknown"),
+        };
+      }
+    },
+  );
+
   createWindow().catch((error) => {
     console.error("Failed to create window", error);
     app.quit();
@@ -1336,6 +3831,11 @@ app.whenReady().then(async () => {
   });
 });
 
+app.on("will-quit", () => {
+  flushCacheIndex();
+  void shutdownThumbnailPool();
+});
+
 app.on("window-all-closed", () => {
   if (process.platform !== "darwin") {
     app.quit();
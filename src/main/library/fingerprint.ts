@@ -0,0 +1,44 @@
+import { createHash } from "node:crypto";
+import { open } from "node:fs/promises";
+
+// Reading the whole file would be too slow on network shares; the head and
+// tail together with the size tell photos apart reliably in practice.
+const SAMPLE_BYTES = 64 * 1024;
+
+export interface FileFingerprint {
+  size: number;
+  hash: string;
+  modifiedAt: number;
+}
+
+export async function computeFingerprint(
+  filePath: string,
+): Promise<FileFingerprint> {
+  const handle = await open(filePath, "r");
+  try {
+    const info = await handle.stat();
+    const hash = createHash("sha1");
+    hash.update(String(info.size));
+
+    const headLength = Math.min(SAMPLE_BYTES, info.size);
+    const head = Buffer.alloc(headLength);
+    await handle.read(head, 0, headLength, 0);
+    hash.update(head);
+
+    const tailStart = Math.max(headLength, info.size - SAMPLE_BYTES);
+    const tailLength = info.size - tailStart;
+    if (tailLength > 0) {
+      const tail = Buffer.alloc(tailLength);
+      await handle.read(tail, 0, tailLength, tailStart);
+      hash.update(tail);
+    }
+
+    return {
+      size: info.size,
+      hash: hash.digest("hex"),
+      modifiedAt: Math.trunc(info.mtimeMs),
+    };
+  } finally {
+    await handle.close();
+  }
+}
@@ -0,0 +1,72 @@
+import { type FSWatcher, watch } from "node:fs";
+import { join, sep } from "node:path";
+
+// Cameras and exporters write files in several chunks; wait for the burst to
+// settle before rescanning so each file is reported once.
+const WATCH_DEBOUNCE_MS = 400;
+
+export interface FolderWatcher {
+  close(): void;
+}
+
+function isHiddenPath(relativePath: string): boolean {
+  return relativePath.split(sep).some((segment) => segment.startsWith("."));
+}
+
+export function watchFolder(
+  root: string,
+  onChange: (paths: string[]) => void,
+): FolderWatcher | null {
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+  let watcher: FSWatcher;
+
+  const flush = () => {
+    timer = null;
+    if (pending.size === 0) {
+      return;
+    }
+    const paths = [...pending];
+    pending.clear();
+    try {
+      onChange(paths);
+    } catch (error) {
+      console.error("Failed to handle folder changes", root, error);
+    }
+  };
+
+  try {
+    watcher = watch(root, { recursive: true }, (_eventType, filename) => {
+      if (!filename) {
+        return;
+      }
+      const relativePath = filename.toString();
+      if (isHiddenPath(relativePath)) {
+        return;
+      }
+      pending.add(join(root, relativePath));
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(flush, WATCH_DEBOUNCE_MS);
+    });
+  } catch (error) {
+    console.warn("Failed to watch folder", root, error);
+    return null;
+  }
+
+  watcher.on("error", (error) => {
+    console.warn("Folder watcher stopped", root, error);
+  });
+
+  return {
+    close() {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      pending.clear();
+      watcher.close();
+    },
+  };
+}
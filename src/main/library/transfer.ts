@@ -0,0 +1,126 @@
+import { randomUUID } from "node:crypto";
+import { constants, existsSync } from "node:fs";
+import {
+  copyFile,
+  mkdir,
+  rename,
+  stat,
+  unlink,
+  utimes,
+} from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import type { TransferMode } from "@shared/types";
+
+// Copies keep the source timestamps so capture-time sorting and the rating
+// cache's modified-time check treat them like the original.
+async function copyPreservingTimes(
+  from: string,
+  to: string,
+  overwrite: boolean,
+): Promise<void> {
+  await copyFile(from, to, overwrite ? 0 : constants.COPYFILE_EXCL);
+  const info = await stat(from);
+  await utimes(to, info.atime, info.mtime);
+}
+
+export async function transferFile(
+  from: string,
+  to: string,
+  mode: TransferMode,
+  overwrite: boolean,
+): Promise<void> {
+  if (!overwrite && existsSync(to)) {
+    throw new Error(`${to} already exists`);
+  }
+  await mkdir(dirname(to), { recursive: true });
+  if (mode === "copy") {
+    await copyPreservingTimes(from, to, overwrite);
+    return;
+  }
+  try {
+    await rename(from, to);
+  } catch (error) {
+    // rename cannot cross volumes, e.g. onto a card reader or backup drive
+    if ((error as NodeJS.ErrnoException).code !== "EXDEV") {
+      throw error;
+    }
+    await copyPreservingTimes(from, to, overwrite);
+    await unlink(from);
+  }
+}
+
+// Transfers every member of a photo or none of them, so a pair never ends up
+// split across two folders. A target being overwritten is first set aside
+// under a hidden name, so a failed member can put it back as well.
+export async function transferFiles(
+  files: Array<{ from: string; to: string }>,
+  mode: TransferMode,
+  overwrite: boolean,
+): Promise<void> {
+  const started: Array<{
+    from: string;
+    to: string;
+    backup: string | null;
+    done: boolean;
+  }> = [];
+  try {
+    for (const { from, to } of files) {
+      const entry = { from, to, backup: null as string | null, done: false };
+      started.push(entry);
+      if (overwrite && existsSync(to)) {
+        const backup = join(dirname(to), `.${basename(to)}.${randomUUID()}`);
+        await rename(to, backup);
+        entry.backup = backup;
+      }
+      await transferFile(from, to, mode, overwrite);
+      entry.done = true;
+    }
+  } catch (error) {
+    for (const { from, to, backup, done } of started.reverse()) {
+      try {
+        if (done && mode === "move") {
+          await transferFile(to, from, "move", false);
+        } else if (done || backup) {
+          // Copies, and whatever a failed write left where the backup was
+          await unlink(to).catch((unlinkError: NodeJS.ErrnoException) => {
+            if (unlinkError?.code !== "ENOENT") {
+              throw unlinkError;
+            }
+          });
+        }
+        if (backup) {
+          await rename(backup, to);
+        }
+      } catch (rollbackError) {
+        console.error("Failed to undo transfer", to, rollbackError);
+      }
+    }
+    throw error;
+  }
+  for (const { backup } of started) {
+    if (backup) {
+      await unlink(backup).catch((error) => {
+        console.warn("Failed to remove replaced file", backup, error);
+      });
+    }
+  }
+}
+
+// Finds `IMG_0001-1`, `IMG_0001-2`, ... so that no file of the photo (each
+// extension given) clashes with one already in `directory`.
+export function findFreeStem(
+  directory: string,
+  stem: string,
+  extensions: string[],
+): string {
+  for (let index = 1; ; index += 1) {
+    const candidate = `${stem}-${index}`;
+    if (
+      !extensions.some((extension) =>
+        existsSync(join(directory, `${candidate}${extension}`)),
+      )
+    ) {
+      return candidate;
+    }
+  }
+}
@@ -0,0 +1,215 @@
+import { existsSync } from "node:fs";
+import { readFile, readdir, rename, stat, unlink } from "node:fs/promises";
+import { homedir } from "node:os";
+import { basename, dirname, extname, isAbsolute, join } from "node:path";
+import { shell } from "electron";
+
+export interface TrashedFile {
+  originalPath: string;
+  trashPath: string;
+  // freedesktop.org trash keeps a `.trashinfo` record next to each file.
+  infoPath: string | null;
+}
+
+function getLinuxTrashDirectory(): string {
+  const dataHome =
+    process.env.XDG_DATA_HOME || join(homedir(), ".local", "share");
+  return join(dataHome, "Trash");
+}
+
+function getMacTrashDirectory(): string {
+  return join(homedir(), ".Trash");
+}
+
+// The Windows Recycle Bin only exposes restore through the shell, so files
+// trashed there cannot be put back from here.
+export function canRestoreFromTrash(): boolean {
+  return process.platform === "darwin" || process.platform === "linux";
+}
+
+async function listNames(directory: string): Promise<Set<string>> {
+  try {
+    return new Set(await readdir(directory));
+  } catch {
+    return new Set();
+  }
+}
+
+interface LinuxTrash {
+  directory: string;
+  // Set for a volume's own trash, whose `Path=` entries are relative to it
+  topDirectory: string | null;
+}
+
+// Walks up while the parent is still on the same device.
+async function findMountPoint(
+  directory: string,
+  device: number,
+): Promise<string> {
+  let current = directory;
+  for (;;) {
+    const parent = dirname(current);
+    if (parent === current) {
+      return current;
+    }
+    const info = await stat(parent).catch(() => null);
+    if (!info || info.dev !== device) {
+      return current;
+    }
+    current = parent;
+  }
+}
+
+// Files on another volume than the home trash go to that volume's
+// `$topdir/.Trash-$uid`, or `$topdir/.Trash/$uid` where an admin set one up.
+async function getLinuxTrashes(
+  filePath: string,
+  device: number,
+): Promise<LinuxTrash[]> {
+  const homeTrash = getLinuxTrashDirectory();
+  const homeDevice = await stat(dirname(homeTrash)).then(
+    (info) => info.dev,
+    () => null,
+  );
+  if (homeDevice === device) {
+    return [{ directory: homeTrash, topDirectory: null }];
+  }
+  const topDirectory = await findMountPoint(dirname(filePath), device);
+  const uid = String(process.getuid?.() ?? 0);
+  return [
+    { directory: join(topDirectory, `.Trash-${uid}`), topDirectory },
+    { directory: join(topDirectory, ".Trash", uid), topDirectory },
+    { directory: homeTrash, topDirectory: null },
+  ];
+}
+
+// Trash implementations keep the name and add a counter on clashes
+// ("IMG_0001.2.jpg", "IMG_0001_2.jpg"), so only info files starting with the
+// part before the first dot are read instead of the whole trash.
+async function findLinuxTrashEntry(
+  filePath: string,
+  trash: LinuxTrash,
+): Promise<TrashedFile | null> {
+  const infoDirectory = join(trash.directory, "info");
+  const prefix = basename(filePath).split(".")[0];
+  let latest: { name: string; deletedAt: string } | null = null;
+  for (const name of await listNames(infoDirectory)) {
+    if (!name.endsWith(".trashinfo") || !name.startsWith(prefix)) {
+      continue;
+    }
+    const content = await readFile(join(infoDirectory, name), "utf8").catch(
+      () => "",
+    );
+    const path = /^Path=(.*)$/m.exec(content)?.[1];
+    if (!path) {
+      continue;
+    }
+    const decoded = decodeURIComponent(path);
+    const originalPath =
+      trash.topDirectory && !isAbsolute(decoded)
+        ? join(trash.topDirectory, decoded)
+        : decoded;
+    if (originalPath !== filePath) {
+      continue;
+    }
+    const deletedAt = /^DeletionDate=(.*)$/m.exec(content)?.[1] ?? "";
+    if (!latest || deletedAt > latest.deletedAt) {
+      latest = { name, deletedAt };
+    }
+  }
+  if (!latest) {
+    return null;
+  }
+  const entryName = latest.name.slice(0, -".trashinfo".length);
+  return {
+    originalPath: filePath,
+    trashPath: join(trash.directory, "files", entryName),
+    infoPath: join(infoDirectory, latest.name),
+  };
+}
+
+// Finder renames clashing items ("IMG_0001 2.jpg", "IMG_0001 10.21.33.jpg"),
+// so the entry is found by diffing the Trash before and after the move. Only
+// names on the same stem count, and an ambiguous match is not restorable.
+async function findMacTrashEntry(
+  filePath: string,
+  before: Set<string>,
+  size: number,
+): Promise<TrashedFile | null> {
+  const trashDirectory = getMacTrashDirectory();
+  const name = basename(filePath);
+  const extension = extname(name);
+  const stem = name.slice(0, name.length - extension.length);
+  const candidates: string[] = [];
+  for (const candidate of await listNames(trashDirectory)) {
+    if (before.has(candidate)) {
+      continue;
+    }
+    const renamed =
+      candidate.startsWith(`${stem} `) && candidate.endsWith(extension);
+    if (candidate !== name && !renamed) {
+      continue;
+    }
+    const info = await stat(join(trashDirectory, candidate)).catch(() => null);
+    if (info?.size === size) {
+      candidates.push(candidate);
+    }
+  }
+  if (candidates.length !== 1) {
+    return null;
+  }
+  return {
+    originalPath: filePath,
+    trashPath: join(trashDirectory, candidates[0]),
+    infoPath: null,
+  };
+}
+
+// Moves a file to the OS trash and reports where it went when it can be put
+// back later. On macOS, files on other volumes land in per-volume trash
+// folders that are not searched, so they come back as `null` like on Windows.
+export async function moveToTrash(
+  filePath: string,
+): Promise<TrashedFile | null> {
+  if (!canRestoreFromTrash()) {
+    await shell.trashItem(filePath);
+    return null;
+  }
+
+  const { size, dev } = await stat(filePath);
+  const macBefore =
+    process.platform === "darwin"
+      ? await listNames(getMacTrashDirectory())
+      : new Set<string>();
+  const linuxTrashes =
+    process.platform === "linux" ? await getLinuxTrashes(filePath, dev) : [];
+  await shell.trashItem(filePath);
+
+  try {
+    if (process.platform === "darwin") {
+      return await findMacTrashEntry(filePath, macBefore, size);
+    }
+    for (const trash of linuxTrashes) {
+      const entry = await findLinuxTrashEntry(filePath, trash);
+      if (entry) {
+        return entry;
+      }
+    }
+    return null;
+  } catch (error) {
+    console.warn("Failed to locate trashed file", filePath, error);
+    return null;
+  }
+}
+
+export async function restoreFromTrash(entry: TrashedFile): Promise<void> {
+  if (existsSync(entry.originalPath)) {
+    throw new Error(`${basename(entry.originalPath)} already exists`);
+  }
+  await rename(entry.trashPath, entry.originalPath);
+  if (entry.infoPath) {
+    await unlink(entry.infoPath).catch((error) => {
+      console.warn("Failed to remove trash info", entry.infoPath, error);
+    });
+  }
+}
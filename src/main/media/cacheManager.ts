@@ -0,0 +1,327 @@
+import { readdir, stat, unlink } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type { CacheKind, CacheUsage } from "@shared/types";
+import {
+  type CacheIndexEntry,
+  clearCacheEntries,
+  deleteCacheEntries,
+  getCacheEntries,
+  upsertCacheEntries,
+} from "../db/ratingsStore";
+
+// Access times change on every scroll; batch them instead of writing SQLite
+// once per served thumbnail.
+const INDEX_FLUSH_DELAY_MS = 5_000;
+const EVICTION_DELAY_MS = 2_000;
+const MEGABYTE = 1024 * 1024;
+
+export const DEFAULT_CACHE_SIZE_LIMIT_MB = 2048;
+
+const cacheEntries = new Map<string, CacheIndexEntry>();
+const dirtyPaths = new Set<string>();
+let cacheDirectories: Record<CacheKind, string> | null = null;
+let cacheSizeLimitBytes = DEFAULT_CACHE_SIZE_LIMIT_MB * MEGABYTE;
+let flushTimer: NodeJS.Timeout | null = null;
+let evictionTimer: NodeJS.Timeout | null = null;
+let evictionRunning = false;
+// Photos whose cards are on screen or next to scroll in. Their files are never
+// evicted: the renderer would keep pointing at the deleted thumbnails.
+let pinnedSources = new Set<string>();
+
+export function initMediaCache(
+  directories: Record<CacheKind, string>,
+  limitMb: number,
+): void {
+  cacheDirectories = directories;
+  cacheSizeLimitBytes = limitMb * MEGABYTE;
+  cacheEntries.clear();
+  for (const entry of getCacheEntries()) {
+    cacheEntries.set(entry.path, entry);
+  }
+  scheduleEviction();
+}
+
+export function setPinnedCacheSources(sourcePaths: Iterable<string>): void {
+  pinnedSources = new Set(sourcePaths);
+}
+
+export function setCacheSizeLimit(limitMb: number): void {
+  cacheSizeLimitBytes = limitMb * MEGABYTE;
+  scheduleEviction();
+}
+
+function scheduleFlush(): void {
+  if (flushTimer) {
+    return;
+  }
+  flushTimer = setTimeout(flushCacheIndex, INDEX_FLUSH_DELAY_MS);
+  flushTimer.unref();
+}
+
+export function flushCacheIndex(): void {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (dirtyPaths.size === 0) {
+    return;
+  }
+  const entries: CacheIndexEntry[] = [];
+  for (const path of dirtyPaths) {
+    const entry = cacheEntries.get(path);
+    if (entry) {
+      entries.push(entry);
+    }
+  }
+  dirtyPaths.clear();
+  try {
+    upsertCacheEntries(entries);
+  } catch (error) {
+    console.warn("Failed to persist cache index", error);
+  }
+}
+
+function scheduleEviction(): void {
+  if (evictionTimer) {
+    return;
+  }
+  evictionTimer = setTimeout(() => {
+    evictionTimer = null;
+    void evictLeastRecentlyUsed().catch((error) => {
+      console.warn("Failed to evict cache entries", error);
+    });
+  }, EVICTION_DELAY_MS);
+  evictionTimer.unref();
+}
+
+export async function registerCacheFile(
+  path: string,
+  kind: CacheKind,
+  sourcePath: string,
+): Promise<void> {
+  let size: number;
+  try {
+    size = (await stat(path)).size;
+  } catch {
+    return;
+  }
+  cacheEntries.set(path, {
+    path,
+    kind,
+    sourcePath,
+    size,
+    lastAccessedAt: Date.now(),
+  });
+  dirtyPaths.add(path);
+  scheduleFlush();
+  scheduleEviction();
+}
+
+// Files cached before the index existed are adopted the first time they are
+// used, provided the caller knows which photo they belong to.
+export function touchCacheFile(
+  path: string,
+  source?: { kind: CacheKind; sourcePath: string },
+): void {
+  const entry = cacheEntries.get(path);
+  if (entry) {
+    entry.lastAccessedAt = Date.now();
+    if (!entry.sourcePath && source) {
+      entry.sourcePath = source.sourcePath;
+    }
+    dirtyPaths.add(path);
+    scheduleFlush();
+    return;
+  }
+  if (source) {
+    void registerCacheFile(path, source.kind, source.sourcePath);
+  }
+}
+
+async function removeEntries(entries: CacheIndexEntry[]): Promise<void> {
+  for (const entry of entries) {
+    cacheEntries.delete(entry.path);
+    dirtyPaths.delete(entry.path);
+    await unlink(entry.path).catch((error: NodeJS.ErrnoException) => {
+      if (error?.code !== "ENOENT") {
+        console.warn("Failed to remove cache file", entry.path, error);
+      }
+    });
+  }
+  try {
+    deleteCacheEntries(entries.map((entry) => entry.path));
+  } catch (error) {
+    console.warn("Failed to update cache index", error);
+  }
+}
+
+export async function removeCacheEntriesForSources(
+  sourcePaths: string[],
+): Promise<void> {
+  const sources = new Set(sourcePaths);
+  const entries = [...cacheEntries.values()].filter((entry) =>
+    sources.has(entry.sourcePath),
+  );
+  await removeEntries(entries);
+}
+
+async function evictLeastRecentlyUsed(): Promise<void> {
+  if (evictionRunning) {
+    return;
+  }
+  evictionRunning = true;
+  try {
+    let total = 0;
+    for (const entry of cacheEntries.values()) {
+      total += entry.size;
+    }
+    if (total <= cacheSizeLimitBytes) {
+      return;
+    }
+    const ordered = [...cacheEntries.values()]
+      .filter((entry) => !pinnedSources.has(entry.sourcePath))
+      .sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+    const evicted: CacheIndexEntry[] = [];
+    for (const entry of ordered) {
+      if (total <= cacheSizeLimitBytes) {
+        break;
+      }
+      evicted.push(entry);
+      total -= entry.size;
+    }
+    await removeEntries(evicted);
+  } finally {
+    evictionRunning = false;
+  }
+}
+
+async function pathExists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException)?.code !== "ENOENT";
+  }
+}
+
+// A photo only counts as gone when its folder is still there; a missing folder
+// usually means an unplugged drive, and its cache is still wanted.
+async function isSourceOrphaned(
+  sourcePath: string,
+  folders: Map<string, Promise<boolean>>,
+): Promise<boolean> {
+  if (!sourcePath || (await pathExists(sourcePath))) {
+    return false;
+  }
+  const folder = dirname(sourcePath);
+  let exists = folders.get(folder);
+  if (!exists) {
+    exists = pathExists(folder);
+    folders.set(folder, exists);
+  }
+  return exists;
+}
+
+// Indexes cache files written before the index existed. Their photo is not
+// known until it is shown again, so they are dated by mtime and evicted first.
+async function adoptUntrackedCacheFiles(): Promise<void> {
+  if (!cacheDirectories) {
+    return;
+  }
+  for (const [kind, directory] of Object.entries(cacheDirectories) as Array<
+    [CacheKind, string]
+  >) {
+    let names: string[];
+    try {
+      names = await readdir(directory);
+    } catch {
+      continue;
+    }
+    for (const name of names) {
+      const path = join(directory, name);
+      if (cacheEntries.has(path)) {
+        continue;
+      }
+      try {
+        const info = await stat(path);
+        if (!info.isFile()) {
+          continue;
+        }
+        cacheEntries.set(path, {
+          path,
+          kind,
+          sourcePath: "",
+          size: info.size,
+          lastAccessedAt: Math.floor(info.mtimeMs),
+        });
+        dirtyPaths.add(path);
+      } catch {
+        // Removed while walking the directory
+      }
+    }
+  }
+  scheduleFlush();
+  scheduleEviction();
+}
+
+// Drops entries whose photo was deleted, renamed or moved outside the app, as
+// well as index rows whose cache file has already disappeared.
+export async function sweepOrphanedCacheEntries(): Promise<number> {
+  await adoptUntrackedCacheFiles();
+  const folders = new Map<string, Promise<boolean>>();
+  const orphaned: CacheIndexEntry[] = [];
+  for (const entry of [...cacheEntries.values()]) {
+    if (
+      (await isSourceOrphaned(entry.sourcePath, folders)) ||
+      !(await pathExists(entry.path))
+    ) {
+      orphaned.push(entry);
+    }
+  }
+  await removeEntries(orphaned);
+  return orphaned.length;
+}
+
+export function getCacheUsage(): CacheUsage {
+  const usage: CacheUsage = {
+    thumbnailBytes: 0,
+    thumbnailFiles: 0,
+    mediaBytes: 0,
+    mediaFiles: 0,
+    limitBytes: cacheSizeLimitBytes,
+  };
+  for (const entry of cacheEntries.values()) {
+    if (entry.kind === "media") {
+      usage.mediaBytes += entry.size;
+      usage.mediaFiles += 1;
+    } else {
+      usage.thumbnailBytes += entry.size;
+      usage.thumbnailFiles += 1;
+    }
+  }
+  return usage;
+}
+
+// Removes every file in the cache directories, including ones that were never
+// indexed, so the app can start from a clean slate.
+export async function clearMediaCache(): Promise<void> {
+  cacheEntries.clear();
+  dirtyPaths.clear();
+  clearCacheEntries();
+  if (!cacheDirectories) {
+    return;
+  }
+  for (const directory of Object.values(cacheDirectories)) {
+    let names: string[];
+    try {
+      names = await readdir(directory);
+    } catch {
+      continue;
+    }
+    for (const name of names) {
+      await unlink(join(directory, name)).catch((error) => {
+        console.warn("Failed to remove cache file", name, error);
+      });
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import type {
+  ExportOptions,
+  ExportWatermark,
+  ExportWatermarkPosition,
+} from "@shared/types";
+import sharp from "sharp";
+import type { Gravity } from "sharp";
+
+// Watermark sizes are shares of the exported photo's long edge, so a mark
+// looks the same on a 1080px preview and a full-size file.
+const WATERMARK_FONT_SCALE = 0.035;
+const WATERMARK_IMAGE_SCALE = 0.2;
+const WATERMARK_MARGIN_SCALE = 0.02;
+
+const GRAVITY_BY_POSITION: Record<ExportWatermarkPosition, Gravity> = {
+  topLeft: "northwest",
+  topRight: "northeast",
+  bottomLeft: "southwest",
+  bottomRight: "southeast",
+  center: "centre",
+};
+
+interface OutputSize {
+  width: number;
+  height: number;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// The size after auto-orientation and the long-edge limit, worked out before
+// rendering so the watermark can be sized to match.
+async function getOutputSize(
+  sourcePath: string,
+  longEdge: number | null,
+): Promise<OutputSize> {
+  const info = await sharp(sourcePath).metadata();
+  let width = info.width ?? 1;
+  let height = info.height ?? 1;
+  if ((info.orientation ?? 1) >= 5) {
+    [width, height] = [height, width];
+  }
+  const scale = longEdge ? Math.min(1, longEdge / Math.max(width, height)) : 1;
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+// sharp may round the resized size the other way, so overlays stay a pixel
+// short of the estimate; compositing anything larger than the photo fails.
+function clampToOutput(value: number, limit: number): number {
+  return Math.max(1, Math.min(Math.round(value), limit - 1));
+}
+
+function buildTextWatermark(
+  watermark: ExportWatermark,
+  size: OutputSize,
+): Buffer {
+  const longEdge = Math.max(size.width, size.height);
+  const fontSize = Math.max(12, Math.round(longEdge * WATERMARK_FONT_SCALE));
+  const margin = Math.round(longEdge * WATERMARK_MARGIN_SCALE);
+  // Glyph widths are unknown without laying the text out, so the box is a
+  // generous estimate; the anchor keeps the text against the chosen edge.
+  const width = clampToOutput(
+    watermark.value.length * fontSize * 0.65 + margin * 2,
+    size.width,
+  );
+  const height = clampToOutput(fontSize * 1.4 + margin * 2, size.height);
+  const anchor = watermark.position.endsWith("Left")
+    ? { x: margin, value: "start" }
+    : watermark.position.endsWith("Right")
+      ? { x: width - margin, value: "end" }
+      : { x: width / 2, value: "middle" };
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <text x="${anchor.x}" y="${height / 2}" text-anchor="${anchor.value}" dominant-baseline="central"
+    font-family="sans-serif" font-size="${fontSize}" font-weight="600"
+    fill="#ffffff" fill-opacity="${watermark.opacity}"
+    stroke="#000000" stroke-opacity="${watermark.opacity * 0.4}" stroke-width="${Math.max(1, fontSize / 24)}">${escapeXml(watermark.value)}</text>
+</svg>`;
+  return Buffer.from(svg);
+}
+
+async function buildImageWatermark(
+  watermark: ExportWatermark,
+  size: OutputSize,
+): Promise<Buffer> {
+  const margin = Math.round(
+    Math.max(size.width, size.height) * WATERMARK_MARGIN_SCALE,
+  );
+  const { data, info } = await sharp(watermark.value)
+    .resize({
+      width: clampToOutput(
+        Math.min(size.width * WATERMARK_IMAGE_SCALE, size.width - margin * 2),
+        size.width,
+      ),
+      height: clampToOutput(size.height - margin * 2, size.height),
+      fit: "inside",
+    })
+    .toColourspace("srgb")
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  for (
+    let index = info.channels - 1;
+    index < data.length;
+    index += info.channels
+  ) {
+    data[index] = Math.round(data[index] * watermark.opacity);
+  }
+  return sharp(data, {
+    raw: { width: info.width, height: info.height, channels: info.channels },
+  })
+    .extend({
+      top: margin,
+      bottom: margin,
+      left: margin,
+      right: margin,
+      background: { r: 0, g: 0, b: 0, alpha: 0 },
+    })
+    .png()
+    .toBuffer();
+}
+
+export async function renderExport(
+  sourcePath: string,
+  targetPath: string,
+  options: ExportOptions,
+): Promise<void> {
+  let pipeline = sharp(sourcePath).rotate();
+  if (options.longEdge) {
+    pipeline = pipeline.resize({
+      width: options.longEdge,
+      height: options.longEdge,
+      fit: "inside",
+      withoutEnlargement: true,
+    });
+  }
+
+  const { watermark } = options;
+  if (watermark?.value.trim()) {
+    const size = await getOutputSize(sourcePath, options.longEdge);
+    const input =
+      watermark.kind === "text"
+        ? buildTextWatermark(watermark, size)
+        : await buildImageWatermark(watermark, size);
+    pipeline = pipeline.composite([
+      { input, gravity: GRAVITY_BY_POSITION[watermark.position] },
+    ]);
+  }
+
+  // sharp converts to sRGB and drops every tag unless told otherwise; when
+  // the color space is kept, its profile has to travel with the pixels.
+  if (options.keepMetadata) {
+    pipeline = pipeline.keepMetadata();
+    if (options.convertToSrgb) {
+      pipeline = pipeline.withIccProfile("srgb");
+    }
+  } else if (!options.convertToSrgb) {
+    pipeline = pipeline.keepIccProfile();
+  }
+
+  switch (options.format) {
+    case "jpeg":
+      pipeline = pipeline.jpeg({ quality: options.quality, mozjpeg: true });
+      break;
+    case "webp":
+      pipeline = pipeline.webp({ quality: options.quality });
+      break;
+    case "avif":
+      pipeline = pipeline.avif({ quality: options.quality });
+      break;
+    case "png":
+      pipeline = pipeline.png();
+      break;
+  }
+
+  await pipeline.toFile(targetPath);
+}
@@ -0,0 +1,106 @@
+import { basename, dirname, extname } from "node:path";
+import type { PhotoMemberFile, PhotoMeta } from "@shared/types";
+
+// Camera RAW formats are shown via the JPEG preview embedded by the camera
+export const RAW_EXTENSIONS = [
+  "cr2",
+  "cr3",
+  "nef",
+  "arw",
+  "raf",
+  "orf",
+  "rw2",
+  "dng",
+] as const;
+
+const RAW_EXTENSION_SET = new Set<string>(RAW_EXTENSIONS);
+
+// Lower index wins when several developed files could front a pair.
+const PRIMARY_EXTENSION_ORDER = ["jpg", "jpeg", "heic", "heif"];
+
+function getExtension(name: string): string {
+  return extname(name).slice(1).toLowerCase();
+}
+
+export function isRawFileName(name: string): boolean {
+  return RAW_EXTENSION_SET.has(getExtension(name));
+}
+
+export function getFileStem(name: string): string {
+  const ext = extname(name);
+  return ext ? name.slice(0, -ext.length) : name;
+}
+
+// Files sharing a folder and a (case-insensitive) stem belong to one pair.
+export function getPairKey(filePath: string): string {
+  return `${dirname(filePath)}\0${getFileStem(basename(filePath)).toLowerCase()}`;
+}
+
+function primaryRank(photo: PhotoMeta): number {
+  const index = PRIMARY_EXTENSION_ORDER.indexOf(getExtension(photo.name));
+  return index === -1 ? PRIMARY_EXTENSION_ORDER.length : index;
+}
+
+export function toMemberFile(photo: {
+  filePath: string;
+  name: string;
+  size: number;
+}): PhotoMemberFile {
+  return {
+    filePath: photo.filePath,
+    name: photo.name,
+    format: extname(photo.name).slice(1).toUpperCase(),
+    size: photo.size,
+  };
+}
+
+// Folds `IMG_0001.CR3` into `IMG_0001.JPG` so a RAW+JPEG shot shows up as a
+// single card. The developed file stays the primary (its id carries the
+// rating); RAW files without a partner are left untouched.
+export function groupPhotoPairs(photos: PhotoMeta[]): PhotoMeta[] {
+  const buckets = new Map<string, PhotoMeta[]>();
+  for (const photo of photos) {
+    const key = getPairKey(photo.filePath);
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.push(photo);
+    } else {
+      buckets.set(key, [photo]);
+    }
+  }
+
+  const absorbed = new Set<string>();
+  const primaries = new Map<string, PhotoMeta>();
+
+  for (const bucket of buckets.values()) {
+    if (bucket.length < 2) {
+      continue;
+    }
+    const raws = bucket.filter((photo) => isRawFileName(photo.name));
+    const developed = bucket.filter((photo) => !isRawFileName(photo.name));
+    if (raws.length === 0 || developed.length === 0) {
+      continue;
+    }
+
+    const [primary] = [...developed].sort(
+      (a, b) => primaryRank(a) - primaryRank(b),
+    );
+    const secondaries = [...raws].sort((a, b) => a.name.localeCompare(b.name));
+    primaries.set(primary.id, {
+      ...primary,
+      members: [primary, ...secondaries].map(toMemberFile),
+    });
+    for (const raw of secondaries) {
+      absorbed.add(raw.id);
+    }
+  }
+
+  const grouped: PhotoMeta[] = [];
+  for (const photo of photos) {
+    if (absorbed.has(photo.id)) {
+      continue;
+    }
+    grouped.push(primaries.get(photo.id) ?? photo);
+  }
+  return grouped;
+}
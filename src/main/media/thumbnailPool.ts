@@ -0,0 +1,279 @@
+import { availableParallelism } from "node:os";
+import { Worker } from "node:worker_threads";
+
+// A single decode should take well under this; anything longer is treated as
+// a hung worker (corrupt or adversarial file) and the worker is replaced.
+const TASK_TIMEOUT_MS = 60_000;
+const THROUGHPUT_WINDOW_MS = 10_000;
+
+export interface ThumbnailTaskRequest {
+  sourcePath: string;
+  targets: Array<{
+    path: string;
+    width: number;
+  }>;
+  quality: number;
+  // Also compute a perceptual hash from the decoded pixels
+  perceptualHash: boolean;
+}
+
+export interface ThumbnailTaskResult {
+  perceptualHash: string | null;
+}
+
+interface ThumbnailWorkerRequest extends ThumbnailTaskRequest {
+  id: number;
+}
+
+interface ThumbnailWorkerResponse {
+  id: number;
+  status: "ok" | "error";
+  perceptualHash?: string;
+  error?: {
+    message: string;
+    code?: string;
+  };
+}
+
+interface PoolTask {
+  id: number;
+  request: ThumbnailTaskRequest;
+  resolve: (result: ThumbnailTaskResult) => void;
+  reject: (error: unknown) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: PoolTask | null;
+  timer: NodeJS.Timeout | null;
+  retired: boolean;
+}
+
+export interface ThumbnailPoolStats {
+  workerCount: number;
+  activeTasks: number;
+  pendingTasks: number;
+  completedTasks: number;
+  failedTasks: number;
+  restartedWorkers: number;
+  throughputPerSecond: number;
+}
+
+const poolWorkers: PoolWorker[] = [];
+const pendingTasks: PoolTask[] = [];
+const recentCompletions: number[] = [];
+let poolSize = getDefaultThumbnailPoolSize();
+let taskSequence = 0;
+let completedTasks = 0;
+let failedTasks = 0;
+let restartedWorkers = 0;
+
+export function getMaxThumbnailPoolSize(): number {
+  return Math.max(1, availableParallelism());
+}
+
+// Leave one core for the main process and renderer so the UI stays smooth.
+export function getDefaultThumbnailPoolSize(): number {
+  return Math.max(1, Math.min(4, getMaxThumbnailPoolSize() - 1));
+}
+
+export function getThumbnailPoolSize(): number {
+  return poolSize;
+}
+
+export function setThumbnailPoolSize(size: number): void {
+  const next = Math.min(
+    getMaxThumbnailPoolSize(),
+    Math.max(1, Math.round(size)),
+  );
+  poolSize = next;
+  // Idle workers above the new size are stopped right away; busy ones finish
+  // their current task first.
+  for (const entry of [...poolWorkers]) {
+    if (poolWorkers.length - countRetired() <= poolSize) {
+      break;
+    }
+    retireWorker(entry);
+  }
+  dispatchTasks();
+}
+
+function countRetired(): number {
+  return poolWorkers.filter((entry) => entry.retired).length;
+}
+
+function retireWorker(entry: PoolWorker): void {
+  entry.retired = true;
+  if (!entry.task) {
+    removeWorker(entry);
+    void entry.worker.terminate();
+  }
+}
+
+function removeWorker(entry: PoolWorker): void {
+  const index = poolWorkers.indexOf(entry);
+  if (index !== -1) {
+    poolWorkers.splice(index, 1);
+  }
+  if (entry.timer) {
+    clearTimeout(entry.timer);
+    entry.timer = null;
+  }
+}
+
+function settleTask(
+  entry: PoolWorker,
+  error: unknown | null,
+  result: ThumbnailTaskResult = { perceptualHash: null },
+): void {
+  const task = entry.task;
+  if (!task) {
+    return;
+  }
+  entry.task = null;
+  if (entry.timer) {
+    clearTimeout(entry.timer);
+    entry.timer = null;
+  }
+  if (error) {
+    failedTasks += 1;
+    task.reject(error);
+  } else {
+    completedTasks += 1;
+    recentCompletions.push(Date.now());
+    task.resolve(result);
+  }
+}
+
+// A crashed or hung worker only fails the task it was running; the slot is
+// refilled with a fresh worker so the rest of the queue keeps moving.
+function replaceWorker(entry: PoolWorker, error: Error): void {
+  settleTask(entry, error);
+  removeWorker(entry);
+  restartedWorkers += 1;
+  void entry.worker.terminate().catch(() => {
+    /** already gone */
+  });
+  dispatchTasks();
+}
+
+function spawnWorker(): PoolWorker {
+  const workerScript = new URL("./media/thumbnailWorker.js", import.meta.url);
+  const worker = new Worker(workerScript);
+  const entry: PoolWorker = { worker, task: null, timer: null, retired: false };
+
+  worker.on("message", (payload: ThumbnailWorkerResponse) => {
+    if (!entry.task || entry.task.id !== payload.id) {
+      return;
+    }
+    if (payload.status === "ok") {
+      settleTask(entry, null, {
+        perceptualHash: payload.perceptualHash ?? null,
+      });
+    } else {
+      const error = new Error(
+        payload.error?.message ?? "Thumbnail generation failed",
+      );
+      if (payload.error?.code) {
+        (error as NodeJS.ErrnoException).code = payload.error.code;
+      }
+      settleTask(entry, error);
+    }
+    if (entry.retired) {
+      removeWorker(entry);
+      void entry.worker.terminate();
+    }
+    dispatchTasks();
+  });
+
+  worker.on("error", (error) => {
+    replaceWorker(entry, error);
+  });
+
+  worker.on("exit", (code) => {
+    if (!poolWorkers.includes(entry)) {
+      return;
+    }
+    replaceWorker(
+      entry,
+      new Error(`Thumbnail worker exited unexpectedly with code ${code}`),
+    );
+  });
+
+  worker.unref();
+  poolWorkers.push(entry);
+  return entry;
+}
+
+function startTask(entry: PoolWorker, task: PoolTask): void {
+  entry.task = task;
+  entry.timer = setTimeout(() => {
+    replaceWorker(
+      entry,
+      new Error(
+        `Thumbnail generation timed out for ${task.request.sourcePath}`,
+      ),
+    );
+  }, TASK_TIMEOUT_MS);
+  const payload: ThumbnailWorkerRequest = { id: task.id, ...task.request };
+  entry.worker.postMessage(payload);
+}
+
+function dispatchTasks(): void {
+  while (pendingTasks.length > 0) {
+    let entry = poolWorkers.find((item) => !item.task && !item.retired);
+    if (!entry) {
+      if (poolWorkers.length - countRetired() >= poolSize) {
+        return;
+      }
+      entry = spawnWorker();
+    }
+    const task = pendingTasks.shift();
+    if (!task) {
+      return;
+    }
+    startTask(entry, task);
+  }
+}
+
+export function runThumbnailTask(
+  request: ThumbnailTaskRequest,
+): Promise<ThumbnailTaskResult> {
+  return new Promise((resolve, reject) => {
+    pendingTasks.push({ id: ++taskSequence, request, resolve, reject });
+    dispatchTasks();
+  });
+}
+
+export function getThumbnailPoolStats(): ThumbnailPoolStats {
+  const cutoff = Date.now() - THROUGHPUT_WINDOW_MS;
+  while (recentCompletions.length > 0 && recentCompletions[0] < cutoff) {
+    recentCompletions.shift();
+  }
+  return {
+    workerCount: poolSize,
+    activeTasks: poolWorkers.filter((entry) => entry.task).length,
+    pendingTasks: pendingTasks.length,
+    completedTasks,
+    failedTasks,
+    restartedWorkers,
+    throughputPerSecond:
+      recentCompletions.length / (THROUGHPUT_WINDOW_MS / 1000),
+  };
+}
+
+export async function shutdownThumbnailPool(): Promise<void> {
+  const entries = [...poolWorkers];
+  poolWorkers.length = 0;
+  for (const task of pendingTasks.splice(0)) {
+    task.reject(new Error("Thumbnail pool shut down"));
+  }
+  await Promise.all(
+    entries.map(async (entry) => {
+      settleTask(entry, new Error("Thumbnail pool shut down"));
+      await entry.worker.terminate().catch(() => {
+        /** ignore */
+      });
+    }),
+  );
+}
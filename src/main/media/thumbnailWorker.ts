@@ -0,0 +1,101 @@
+import { parentPort } from "node:worker_threads";
+import sharp from "sharp";
+
+if (!parentPort) {
+  throw new Error("Thumbnail worker must be run as a worker thread");
+}
+
+// Each worker already runs on its own core; libvips' internal thread pool
+// would otherwise multiply that by the CPU count.
+sharp.concurrency(1);
+
+interface WorkerPayload {
+  id: number;
+  sourcePath: string;
+  targets: Array<{
+    path: string;
+    width: number;
+  }>;
+  quality: number;
+  perceptualHash: boolean;
+}
+
+interface WorkerResponse {
+  id: number;
+  status: "ok" | "error";
+  perceptualHash?: string;
+  error?: {
+    message: string;
+    code?: string;
+  };
+}
+
+// dHash: a 9x8 greyscale copy where each bit records whether a pixel is
+// brighter than its right neighbour. Re-exports of one image at other sizes
+// or formats land within a few bits of each other.
+const HASH_SIZE = 8;
+
+async function computeDifferenceHash(pipeline: sharp.Sharp): Promise<string> {
+  const { data, info } = await pipeline
+    .clone()
+    .removeAlpha()
+    .greyscale()
+    .resize(HASH_SIZE + 1, HASH_SIZE, { fit: "fill" })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const pixel = (row: number, column: number) =>
+    data[(row * (HASH_SIZE + 1) + column) * info.channels];
+
+  let hex = "";
+  for (let row = 0; row < HASH_SIZE; row += 1) {
+    let byte = 0;
+    for (let column = 0; column < HASH_SIZE; column += 1) {
+      byte =
+        (byte << 1) | (pixel(row, column) > pixel(row, column + 1) ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+function serializeError(error: unknown): WorkerResponse["error"] {
+  if (error instanceof Error) {
+    const err: WorkerResponse["error"] = { message: error.message };
+    const errno = error as NodeJS.ErrnoException;
+    if (errno.code) {
+      err.code = errno.code;
+    }
+    return err;
+  }
+  return { message: String(error ?? "Unknown error") };
+}
+
+parentPort.on("message", async (payload: WorkerPayload) => {
+  const response: WorkerResponse = { id: payload.id, status: "ok" };
+
+  try {
+    const pipeline = sharp(payload.sourcePath).rotate();
+    const [perceptualHash] = await Promise.all([
+      payload.perceptualHash ? computeDifferenceHash(pipeline) : undefined,
+      ...payload.targets.map((target) =>
+        pipeline
+          .clone()
+          .resize({
+            width: target.width,
+            withoutEnlargement: true,
+          })
+          .webp({
+            quality: payload.quality,
+            effort: 4,
+          })
+          .toFile(target.path),
+      ),
+    ]);
+    response.perceptualHash = perceptualHash;
+  } catch (error) {
+    response.status = "error";
+    response.error = serializeError(error);
+  }
+
+  parentPort?.postMessage(response);
+});
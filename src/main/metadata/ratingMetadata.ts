@@ -1,8 +1,18 @@
 import { stat } from "node:fs/promises";
-import { dirname } from "node:path";
+import { dirname, extname } from "node:path";
 import { performance } from "node:perf_hooks";
-import { ExifTool } from "exiftool-vendored";
+import { isColorLabel } from "@shared/colorLabels";
+import { mergeKeywords } from "@shared/keywords";
+import type {
+  ColorLabel,
+  MetadataMode,
+  PhotoCaptureInfo,
+  PhotoExifInfo,
+  PhotoFlag,
+} from "@shared/types";
+import { ExifDateTime, ExifTool } from "exiftool-vendored";
 import type { Tags } from "exiftool-vendored";
+import { findExistingSidecars, resolveSidecarWritePath } from "./sidecar";
 
 let exiftool: ExifTool | null = null;
 let metadataEnabled = true;
@@ -14,6 +24,59 @@ const SLOW_VOLUME_STAT_THRESHOLD_MS = 2_000;
 
 const slowVolumeCache = new Map<string, boolean>();
 
+// Largest first: JpgFromRaw is usually full size, ThumbnailImage is ~160px.
+const EMBEDDED_PREVIEW_TAGS = [
+  "JpgFromRaw",
+  "PreviewImage",
+  "ThumbnailImage",
+] as const;
+
+export interface EmbeddedPreview {
+  data: Buffer;
+  orientation: number | null;
+}
+
+export interface PhotoMetadataValues {
+  rating: number;
+  label: ColorLabel | null;
+  flag: PhotoFlag | null;
+  keywords: string[];
+}
+
+export interface PhotoMetadataReadResult {
+  rating: number | null;
+  label: ColorLabel | null;
+  flag: PhotoFlag | null;
+  // null when the file carries no keyword tags at all
+  keywords: string[] | null;
+}
+
+export interface PhotoDetailsReadResult {
+  metadata: PhotoMetadataReadResult;
+  // null when the file could not be read
+  capture: PhotoCaptureInfo | null;
+}
+
+// Sub-second variants first so frames of a fast burst keep their order.
+const CAPTURE_TIME_TAGS = [
+  "SubSecDateTimeOriginal",
+  "DateTimeOriginal",
+  "SubSecCreateDate",
+  "CreateDate",
+] as const;
+
+// xmpDM:pick uses 1 for picked and -1 for rejected.
+const PICK_TAG = "XMP-xmpDM:Pick";
+
+// IPTC only exists in these containers; elsewhere XMP:Subject alone carries
+// the keywords, which is also what Lightroom reads first.
+const IPTC_EXTENSIONS = new Set(["jpg", "jpeg", "tif", "tiff"]);
+
+export type MetadataWriteOutcome =
+  | "written"
+  | "skippedSlowVolume"
+  | "skippedDisabled";
+
 function ensureExifTool(): ExifTool | null {
   if (!metadataEnabled) {
     return null;
@@ -105,6 +168,62 @@ function extractRating(tags: Tags): number | null {
   return null;
 }
 
+// Lightroom writes the label name with a capital letter ("Red"); other names
+// (custom label sets) are not ours to interpret.
+function extractLabel(tags: Tags): ColorLabel | null {
+  const raw = (tags as Record<string, unknown>).Label;
+  if (typeof raw !== "string") {
+    return null;
+  }
+  const normalized = raw.trim().toLowerCase();
+  return isColorLabel(normalized) ? normalized : null;
+}
+
+function formatLabel(label: ColorLabel): string {
+  return `${label.charAt(0).toUpperCase()}${label.slice(1)}`;
+}
+
+function extractFlag(tags: Tags): PhotoFlag | null {
+  const raw = Number((tags as Record<string, unknown>).Pick);
+  if (raw === 1) {
+    return "picked";
+  }
+  if (raw === -1) {
+    return "rejected";
+  }
+  return null;
+}
+
+function toStringList(raw: unknown): string[] {
+  if (Array.isArray(raw)) {
+    return raw.map((value) => String(value));
+  }
+  if (typeof raw === "string" || typeof raw === "number") {
+    return [String(raw)];
+  }
+  return [];
+}
+
+function extractKeywords(tags: Tags): string[] | null {
+  const source = tags as Record<string, unknown>;
+  if (source.Subject == null && source.Keywords == null) {
+    return null;
+  }
+  return mergeKeywords(
+    toStringList(source.Subject),
+    toStringList(source.Keywords),
+  );
+}
+
+function readValues(tags: Tags): PhotoMetadataReadResult {
+  return {
+    rating: extractRating(tags),
+    label: extractLabel(tags),
+    flag: extractFlag(tags),
+    keywords: extractKeywords(tags),
+  };
+}
+
 function isMetadataTimeoutError(error: unknown): boolean {
   const message = error instanceof Error ? error.message : String(error);
   const normalized = message.toLowerCase();
@@ -143,51 +262,111 @@ async function isLikelySlowVolume(filePath: string): Promise<boolean> {
   return slow;
 }
 
-export async function readRatingFromMetadata(
+const EMPTY_METADATA: PhotoMetadataReadResult = {
+  rating: null,
+  label: null,
+  flag: null,
+  keywords: null,
+};
+
+// In sidecar mode sidecars win over embedded values, matching how Lightroom
+// treats RAW files. In embedded mode the app writes into the image, so a
+// sidecar only counts when it was saved after the image, e.g. by another
+// editor; an old .xmp must not undo a newer rating.
+async function readSidecarValues(
+  worker: ExifTool,
   filePath: string,
-): Promise<number | null> {
+  mode: MetadataMode,
+): Promise<PhotoMetadataReadResult | null> {
+  const imageModifiedAt =
+    mode === "sidecar"
+      ? Number.NEGATIVE_INFINITY
+      : await stat(filePath).then(
+          (info) => info.mtimeMs,
+          () => Number.POSITIVE_INFINITY,
+        );
+  for (const sidecarPath of findExistingSidecars(filePath)) {
+    // Sidecars often come from other tools; a broken one is skipped rather
+    // than counted as exiftool failing, which would turn metadata off.
+    try {
+      if ((await stat(sidecarPath)).mtimeMs <= imageModifiedAt) {
+        continue;
+      }
+      const sidecarValues = readValues(await worker.read(sidecarPath));
+      if (Object.values(sidecarValues).some((value) => value != null)) {
+        return sidecarValues;
+      }
+    } catch (error) {
+      console.warn("Failed to read sidecar", sidecarPath, error);
+    }
+  }
+  return null;
+}
+
+// Ratings and capture details from a single read of the image, for the
+// background pass that follows a scan.
+export async function readPhotoDetails(
+  filePath: string,
+  mode: MetadataMode = "embedded",
+): Promise<PhotoDetailsReadResult> {
   const worker = ensureExifTool();
   if (!worker) {
-    return null;
+    return { metadata: EMPTY_METADATA, capture: null };
   }
 
+  let tags: Tags;
   try {
-    const tags = await worker.read(filePath);
-    const rating = extractRating(tags);
-    if (typeof rating === "number") {
-      return rating;
-    }
-    return null;
+    tags = await worker.read(filePath);
   } catch (error) {
-    console.warn("Failed to read rating metadata", filePath, error);
+    console.warn("Failed to read photo details", filePath, error);
     if (!isMetadataTimeoutError(error)) {
       disableMetadata("read", error);
     }
-    return null;
+    return { metadata: EMPTY_METADATA, capture: null };
   }
+  return {
+    metadata:
+      (await readSidecarValues(worker, filePath, mode)) ?? readValues(tags),
+    capture: toCaptureInfo(tags),
+  };
 }
 
-export async function writeRatingToMetadata(
+export async function writePhotoMetadata(
   filePath: string,
-  rating: number,
-): Promise<void> {
+  values: PhotoMetadataValues,
+  mode: MetadataMode = "embedded",
+): Promise<MetadataWriteOutcome> {
   if (await isLikelySlowVolume(filePath)) {
-    return;
+    return "skippedSlowVolume";
   }
 
   const worker = ensureExifTool();
   if (!worker) {
-    return;
+    return "skippedDisabled";
   }
 
-  const normalized = clampRating(rating);
+  const normalized = clampRating(values.rating);
+  const targetPath =
+    mode === "sidecar" ? resolveSidecarWritePath(filePath) : filePath;
   try {
-    await worker.write(filePath, {
+    // exiftool-vendored does not type group-prefixed tags such as the pick
+    // flag, so the tags are built up front rather than passed as a literal.
+    const tags = {
       Rating: normalized,
       RatingPercent: normalized * 20,
-    });
+      // null removes the tag so other tools do not keep showing a stale value
+      Label: values.label ? formatLabel(values.label) : null,
+      [PICK_TAG]: values.flag ? (values.flag === "picked" ? 1 : -1) : null,
+      Subject: values.keywords.length > 0 ? values.keywords : null,
+      ...(mode === "embedded" &&
+      IPTC_EXTENSIONS.has(extname(filePath).slice(1).toLowerCase())
+        ? { Keywords: values.keywords.length > 0 ? values.keywords : null }
+        : {}),
+    };
+    await worker.write(targetPath, tags);
+    return "written";
   } catch (error) {
-    console.error("Failed to write rating metadata", filePath, error);
+    console.error("Failed to write photo metadata", targetPath, error);
     if (!isMetadataTimeoutError(error)) {
       disableMetadata("write", error);
     }
@@ -195,6 +374,244 @@ export async function writeRatingToMetadata(
   }
 }
 
+// Exports rendered from a decoded stand-in (a RAW preview or a transcoded
+// HEIC) get the original's tags copied over afterwards. The pixels are
+// already upright and sRGB, so orientation and the color profile stay out.
+export async function copyMetadataTags(
+  fromPath: string,
+  toPath: string,
+): Promise<void> {
+  const worker = ensureExifTool();
+  if (!worker) {
+    return;
+  }
+
+  try {
+    await worker.write(
+      toPath,
+      {},
+      {
+        writeArgs: [
+          "-tagsFromFile",
+          fromPath,
+          "-all:all",
+          "--Orientation",
+          "--ICC_Profile:all",
+        ],
+      },
+    );
+  } catch (error) {
+    console.warn("Failed to copy photo metadata", fromPath, toPath, error);
+  }
+}
+
+function toTrimmedString(raw: unknown): string | null {
+  if (typeof raw !== "string" && typeof raw !== "number") {
+    return null;
+  }
+  const value = String(raw).trim();
+  return value.length > 0 ? value : null;
+}
+
+function extractCaptureTime(tags: Tags): number | null {
+  const source = tags as Record<string, unknown>;
+  for (const tag of CAPTURE_TIME_TAGS) {
+    const raw = source[tag];
+    if (raw instanceof ExifDateTime) {
+      const millis = raw.toMillis();
+      if (Number.isFinite(millis)) {
+        return millis;
+      }
+    }
+  }
+  return null;
+}
+
+// Most bodies repeat the make in the model ("Canon" + "Canon EOS R5").
+function extractCamera(tags: Tags): string | null {
+  const make = toTrimmedString(tags.Make);
+  const model = toTrimmedString(tags.Model);
+  if (!model) {
+    return make;
+  }
+  if (!make || model.toLowerCase().startsWith(make.toLowerCase())) {
+    return model;
+  }
+  return `${make} ${model}`;
+}
+
+function toCaptureInfo(tags: Tags): PhotoCaptureInfo {
+  return {
+    capturedAt: extractCaptureTime(tags),
+    camera: extractCamera(tags),
+    bodySerial: toTrimmedString((tags as Record<string, unknown>).SerialNumber),
+    lens: extractLens(tags),
+    focalLength: toFiniteNumber(tags.FocalLength),
+    iso: toFiniteNumber(tags.ISO),
+  };
+}
+
+// Resolves to null when the file could not be read, so callers can tell a
+// failed read from a file that simply has no capture data.
+export async function readCaptureInfo(
+  filePath: string,
+): Promise<PhotoCaptureInfo | null> {
+  const worker = ensureExifTool();
+  if (!worker) {
+    return null;
+  }
+
+  try {
+    return toCaptureInfo(await worker.read(filePath));
+  } catch (error) {
+    console.warn("Failed to read capture info", filePath, error);
+    if (!isMetadataTimeoutError(error)) {
+      disableMetadata("read", error);
+    }
+    return null;
+  }
+}
+
+// exiftool reports some values with units ("50.0 mm") or as fractions.
+function toFiniteNumber(raw: unknown): number | null {
+  if (typeof raw === "number") {
+    return Number.isFinite(raw) ? raw : null;
+  }
+  if (typeof raw !== "string") {
+    return null;
+  }
+  const fraction = /^\s*(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)/.exec(raw);
+  if (fraction) {
+    const denominator = Number(fraction[2]);
+    return denominator > 0 ? Number(fraction[1]) / denominator : null;
+  }
+  const value = Number.parseFloat(raw);
+  return Number.isFinite(value) ? value : null;
+}
+
+function extractLens(tags: Tags): string | null {
+  const source = tags as Record<string, unknown>;
+  for (const tag of ["LensModel", "LensID", "Lens"]) {
+    const value = toTrimmedString(source[tag]);
+    // Bodies without lens communication write placeholders such as "----".
+    if (value && /[a-z0-9]/i.test(value)) {
+      return value;
+    }
+  }
+  return null;
+}
+
+function extractDimensions(
+  tags: Tags,
+): Pick<PhotoExifInfo, "width" | "height"> {
+  const source = tags as Record<string, unknown>;
+  const width =
+    toFiniteNumber(source.ImageWidth) ?? toFiniteNumber(source.ExifImageWidth);
+  const height =
+    toFiniteNumber(source.ImageHeight) ??
+    toFiniteNumber(source.ExifImageHeight);
+  // Orientations 5-8 turn the stored frame by 90 degrees.
+  const orientation = extractOrientation(tags);
+  return orientation !== null && orientation >= 5
+    ? { width: height, height: width }
+    : { width, height };
+}
+
+function extractGps(tags: Tags): PhotoExifInfo["gps"] {
+  const source = tags as Record<string, unknown>;
+  const latitude = toFiniteNumber(source.GPSLatitude);
+  const longitude = toFiniteNumber(source.GPSLongitude);
+  if (latitude === null || longitude === null) {
+    return null;
+  }
+  return {
+    latitude,
+    longitude,
+    altitude: toFiniteNumber(source.GPSAltitude),
+  };
+}
+
+// Resolves to null when the file could not be read.
+export async function readExifInfo(
+  filePath: string,
+): Promise<PhotoExifInfo | null> {
+  const worker = ensureExifTool();
+  if (!worker) {
+    return null;
+  }
+
+  try {
+    const tags = await worker.read(filePath);
+    const source = tags as Record<string, unknown>;
+    return {
+      camera: extractCamera(tags),
+      lens: extractLens(tags),
+      focalLength: toFiniteNumber(source.FocalLength),
+      aperture: toFiniteNumber(source.FNumber ?? source.Aperture),
+      exposureTime: toFiniteNumber(source.ExposureTime ?? source.ShutterSpeed),
+      iso: toFiniteNumber(source.ISO),
+      capturedAt: extractCaptureTime(tags),
+      ...extractDimensions(tags),
+      gps: extractGps(tags),
+    };
+  } catch (error) {
+    console.warn("Failed to read photo details", filePath, error);
+    if (!isMetadataTimeoutError(error)) {
+      disableMetadata("read", error);
+    }
+    return null;
+  }
+}
+
+function extractOrientation(tags: Tags): number | null {
+  const raw = (tags as Record<string, unknown>).Orientation;
+  if (
+    typeof raw === "number" &&
+    Number.isInteger(raw) &&
+    raw >= 1 &&
+    raw <= 8
+  ) {
+    return raw;
+  }
+  return null;
+}
+
+export async function extractEmbeddedPreview(
+  filePath: string,
+): Promise<EmbeddedPreview | null> {
+  const worker = ensureExifTool();
+  if (!worker) {
+    return null;
+  }
+
+  for (const tag of EMBEDDED_PREVIEW_TAGS) {
+    let data: Buffer;
+    try {
+      data = await worker.extractBinaryTagToBuffer(tag, filePath);
+    } catch (error) {
+      // Missing tags are expected; each camera vendor stores previews differently
+      if (isMetadataTimeoutError(error)) {
+        console.warn("Timed out extracting embedded preview", filePath, error);
+        return null;
+      }
+      continue;
+    }
+    if (data.length === 0) {
+      continue;
+    }
+
+    let orientation: number | null = null;
+    try {
+      orientation = extractOrientation(await worker.read(filePath));
+    } catch (error) {
+      console.warn("Failed to read RAW orientation", filePath, error);
+    }
+    return { data, orientation };
+  }
+
+  return null;
+}
+
 export async function shutdownMetadataTools(): Promise<void> {
   if (exiftool) {
     await exiftool.end();
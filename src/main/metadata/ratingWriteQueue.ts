@@ -0,0 +1,177 @@
+import { stat } from "node:fs/promises";
+import { basename } from "node:path";
+import type { MetadataMode, MetadataSyncStatusPayload } from "@shared/types";
+import { savePhotoMetadata } from "../db/ratingsStore";
+import { clampRating, writePhotoMetadata } from "./ratingMetadata";
+import type {
+  MetadataWriteOutcome,
+  PhotoMetadataValues,
+} from "./ratingMetadata";
+
+// Coalesce bursts of key presses on the same photo into a single exiftool write.
+// Rating, label and flag always travel together so any change rewrites all three.
+const RATING_WRITE_DEBOUNCE_MS = 600;
+
+interface RatingWriteRequest {
+  id: string;
+  // Every file backing the photo (RAW+JPEG pairs carry more than one).
+  filePaths: string[];
+  values: PhotoMetadataValues;
+  mode: MetadataMode;
+}
+
+type RatingWriteStatusListener = (payload: MetadataSyncStatusPayload) => void;
+
+const pendingWrites = new Map<string, RatingWriteRequest>();
+const debounceTimers = new Map<string, NodeJS.Timeout>();
+const readyQueue: string[] = [];
+let isProcessing = false;
+let statusListener: RatingWriteStatusListener | null = null;
+
+export function setRatingWriteStatusListener(
+  listener: RatingWriteStatusListener | null,
+): void {
+  statusListener = listener;
+}
+
+function emitStatus(payload: MetadataSyncStatusPayload): void {
+  if (!statusListener) {
+    return;
+  }
+  try {
+    statusListener(payload);
+  } catch (error) {
+    console.error("Failed to report metadata sync status", payload, error);
+  }
+}
+
+function clearDebounceTimer(id: string): void {
+  const timer = debounceTimers.get(id);
+  if (timer) {
+    clearTimeout(timer);
+    debounceTimers.delete(id);
+  }
+}
+
+export function queueRatingWrite(
+  id: string,
+  filePaths: string[],
+  values: PhotoMetadataValues,
+  mode: MetadataMode,
+): void {
+  pendingWrites.set(id, {
+    id,
+    filePaths,
+    values: { ...values, rating: clampRating(values.rating) },
+    mode,
+  });
+  clearDebounceTimer(id);
+  debounceTimers.set(
+    id,
+    setTimeout(() => {
+      debounceTimers.delete(id);
+      if (!readyQueue.includes(id)) {
+        readyQueue.push(id);
+      }
+      void processRatingWrites();
+    }, RATING_WRITE_DEBOUNCE_MS),
+  );
+  emitStatus({ id, status: "pending" });
+}
+
+export function cancelRatingWrite(id: string): void {
+  clearDebounceTimer(id);
+  pendingWrites.delete(id);
+  const index = readyQueue.indexOf(id);
+  if (index !== -1) {
+    readyQueue.splice(index, 1);
+  }
+}
+
+export function reassignRatingWrite(
+  oldId: string,
+  newId: string,
+  filePaths: string[] = [newId],
+): void {
+  const pending = pendingWrites.get(oldId);
+  cancelRatingWrite(oldId);
+  if (pending) {
+    queueRatingWrite(newId, filePaths, pending.values, pending.mode);
+  }
+}
+
+async function processRatingWrites(): Promise<void> {
+  if (isProcessing) {
+    return;
+  }
+  isProcessing = true;
+  try {
+    while (readyQueue.length > 0) {
+      const id = readyQueue.shift();
+      if (!id) {
+        continue;
+      }
+      const request = pendingWrites.get(id);
+      if (!request) {
+        continue;
+      }
+      pendingWrites.delete(id);
+      await runRatingWrite(request);
+    }
+  } finally {
+    isProcessing = false;
+  }
+}
+
+// Every member of a pair is written even when one fails, so a single bad file
+// does not leave the others behind; the failed names are reported together.
+async function runRatingWrite(request: RatingWriteRequest): Promise<void> {
+  const { id, filePaths, values, mode } = request;
+  let outcome: MetadataWriteOutcome = "written";
+  const failures: string[] = [];
+  for (const filePath of filePaths) {
+    try {
+      const result = await writePhotoMetadata(filePath, values, mode);
+      if (result !== "written") {
+        outcome = result;
+      }
+    } catch (error) {
+      failures.push(
+        `${basename(filePath)}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  // A newer rating arrived while exiftool was busy; its own write will
+  // record the final state, so leave the store untouched here.
+  if (pendingWrites.has(id)) {
+    return;
+  }
+
+  if (failures.length > 0) {
+    // source_modified_at stays empty, so the next folder load rewrites the
+    // whole group.
+    emitStatus({ id, status: "failed", message: failures.join("; ") });
+    return;
+  }
+
+  if (outcome !== "written") {
+    // Skipped writes never reached the file; keep source_modified_at empty
+    // so the next folder load retries them.
+    emitStatus({ id, status: outcome });
+    return;
+  }
+
+  try {
+    // The primary file's mtime is what folder loads compare against.
+    const info = await stat(filePaths[0]);
+    savePhotoMetadata(id, values, Math.trunc(info.mtimeMs));
+    emitStatus({ id, status: outcome });
+  } catch (error) {
+    emitStatus({
+      id,
+      status: "failed",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
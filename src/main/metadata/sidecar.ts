@@ -0,0 +1,76 @@
+import { realpathSync } from "node:fs";
+import { basename, dirname, extname, join } from "node:path";
+
+const SIDECAR_EXTENSION = "xmp";
+
+export function isSidecarFileName(name: string): boolean {
+  return extname(name).slice(1).toLowerCase() === SIDECAR_EXTENSION;
+}
+
+function splitName(filePath: string): { name: string; stem: string } {
+  const name = basename(filePath);
+  const ext = extname(name);
+  return { name, stem: ext ? name.slice(0, -ext.length) : name };
+}
+
+// Lightroom/Camera Raw write `IMG_0001.xmp`; darktable and others append to
+// the full name (`IMG_0001.CR3.xmp`). Both are recognised, stem-style first.
+export function getSidecarCandidates(filePath: string): string[] {
+  const directory = dirname(filePath);
+  const { name, stem } = splitName(filePath);
+  const candidates: string[] = [];
+  for (const suffix of [".xmp", ".XMP"]) {
+    candidates.push(join(directory, `${stem}${suffix}`));
+    candidates.push(join(directory, `${name}${suffix}`));
+  }
+  return candidates;
+}
+
+// Candidates are told apart by their real path: a case-insensitive volume
+// answers `IMG_0001.XMP` with the `IMG_0001.xmp` file already listed, while a
+// case-sensitive one can hold both.
+export function findExistingSidecars(filePath: string): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const candidate of getSidecarCandidates(filePath)) {
+    let key: string;
+    try {
+      key = realpathSync.native(candidate);
+    } catch {
+      continue;
+    }
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    result.push(candidate);
+  }
+  return result;
+}
+
+export function resolveSidecarWritePath(filePath: string): string {
+  const [existing] = findExistingSidecars(filePath);
+  if (existing) {
+    return existing;
+  }
+  const { stem } = splitName(filePath);
+  return join(dirname(filePath), `${stem}.${SIDECAR_EXTENSION}`);
+}
+
+export function isStemSidecar(sidecarPath: string, filePath: string): boolean {
+  const { stem } = splitName(filePath);
+  return splitName(sidecarPath).stem === stem;
+}
+
+export function buildRenamedSidecarPath(
+  sidecarPath: string,
+  previousFilePath: string,
+  nextFilePath: string,
+): string {
+  const suffix = extname(sidecarPath);
+  const next = splitName(nextFilePath);
+  const base = isStemSidecar(sidecarPath, previousFilePath)
+    ? next.stem
+    : next.name;
+  return join(dirname(nextFilePath), `${base}${suffix}`);
+}
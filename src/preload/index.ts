@@ -1,16 +1,50 @@
 import type { Locale, LocaleDescriptor } from "@shared/i18n";
 import type {
+  AppSettings,
+  AppSettingsPayload,
+  AppSettingsUpdateResult,
+  CacheClearResult,
+  CacheUsage,
+  CaptureInfoPayload,
   DeletePhotoResult,
+  ExportProgressPayload,
+  ExportRequest,
+  ExportStartResult,
+  FlagUpdatePayload,
+  FlagUpdateResult,
+  KeywordUpdatePayload,
+  KeywordUpdateResult,
+  LabelUpdatePayload,
+  LabelUpdateResult,
+  MetadataModeUpdatePayload,
+  MetadataModeUpdateResult,
+  MetadataSyncStatusPayload,
   OpenDirectoryResult,
+  PerceptualHashPayload,
+  PerceptualHashResult,
   PhotoCollectionPayload,
   PhotoMeta,
+  PhotoMetadataRequest,
+  PhotoMetadataResult,
+  PhotosAddedPayload,
+  PhotosChangedPayload,
+  PhotosRemovedPayload,
   RatingUpdatePayload,
   RatingUpdateResult,
   RatingsSyncPayload,
+  RecentFolder,
   RenamePhotoPayload,
   RenamePhotoResult,
+  RestorePhotoResult,
   RevealPhotoResult,
+  ScanProgressPayload,
+  SessionState,
+  ThumbnailPriorityPayload,
   ThumbnailReadyPayload,
+  ThumbnailStats,
+  TransferPayload,
+  TransferProgressPayload,
+  TransferResult,
 } from "@shared/types";
 import { type IpcRendererEvent, contextBridge, ipcRenderer } from "electron";
 
@@ -21,9 +55,41 @@ const api = {
   loadFolder(directoryPath: string): Promise<PhotoCollectionPayload> {
     return ipcRenderer.invoke("photos:load-folder", directoryPath);
   },
+  cancelScan(): Promise<void> {
+    return ipcRenderer.invoke("photos:cancel-scan");
+  },
+  closeFolder(): Promise<void> {
+    return ipcRenderer.invoke("photos:close-folder");
+  },
+  selectRoot(): Promise<PhotoCollectionPayload> {
+    return ipcRenderer.invoke("workspace:select-root");
+  },
+  addRoot(directoryPath: string): Promise<PhotoCollectionPayload> {
+    return ipcRenderer.invoke("workspace:add-root", directoryPath);
+  },
+  removeRoot(directoryPath: string): Promise<void> {
+    return ipcRenderer.invoke("workspace:remove-root", directoryPath);
+  },
+  getRecentFolders(): Promise<RecentFolder[]> {
+    return ipcRenderer.invoke("folders:get-recent");
+  },
+  forgetRecentFolder(directoryPath: string): Promise<RecentFolder[]> {
+    return ipcRenderer.invoke("folders:forget-recent", directoryPath);
+  },
+  getSession(): Promise<SessionState | null> {
+    return ipcRenderer.invoke("session:get");
+  },
+  saveSession(session: SessionState): Promise<void> {
+    return ipcRenderer.invoke("session:save", session);
+  },
   deletePhoto(filePath: string): Promise<DeletePhotoResult> {
     return ipcRenderer.invoke("photos:delete", filePath);
   },
+  getPhotoMetadata(
+    request: PhotoMetadataRequest,
+  ): Promise<PhotoMetadataResult> {
+    return ipcRenderer.invoke("photos:get-metadata", request);
+  },
   revealPhoto(filePath: string): Promise<RevealPhotoResult> {
     return ipcRenderer.invoke("photos:reveal", filePath);
   },
@@ -33,9 +99,78 @@ const api = {
   renamePhoto(payload: RenamePhotoPayload): Promise<RenamePhotoResult> {
     return ipcRenderer.invoke("photos:rename", payload);
   },
+  restorePhoto(filePath: string): Promise<RestorePhotoResult> {
+    return ipcRenderer.invoke("photos:restore", filePath);
+  },
+  selectTransferDestination(): Promise<string | null> {
+    return ipcRenderer.invoke("photos:select-destination");
+  },
+  copyPhotos(payload: TransferPayload): Promise<TransferResult> {
+    return ipcRenderer.invoke("photos:copy", payload);
+  },
+  movePhotos(payload: TransferPayload): Promise<TransferResult> {
+    return ipcRenderer.invoke("photos:move", payload);
+  },
+  cancelTransfer(): Promise<void> {
+    return ipcRenderer.invoke("photos:cancel-transfer");
+  },
+  startExport(request: ExportRequest): Promise<ExportStartResult> {
+    return ipcRenderer.invoke("export:start", request);
+  },
+  cancelExport(jobId: number): Promise<void> {
+    return ipcRenderer.invoke("export:cancel", jobId);
+  },
+  selectWatermarkImage(): Promise<string | null> {
+    return ipcRenderer.invoke("export:select-watermark");
+  },
   updateRating(payload: RatingUpdatePayload): Promise<RatingUpdateResult> {
     return ipcRenderer.invoke("ratings:update", payload);
   },
+  updateLabel(payload: LabelUpdatePayload): Promise<LabelUpdateResult> {
+    return ipcRenderer.invoke("labels:update", payload);
+  },
+  updateFlag(payload: FlagUpdatePayload): Promise<FlagUpdateResult> {
+    return ipcRenderer.invoke("flags:update", payload);
+  },
+  listKeywords(): Promise<string[]> {
+    return ipcRenderer.invoke("keywords:list");
+  },
+  addKeywords(payload: KeywordUpdatePayload): Promise<KeywordUpdateResult> {
+    return ipcRenderer.invoke("keywords:add", payload);
+  },
+  removeKeywords(payload: KeywordUpdatePayload): Promise<KeywordUpdateResult> {
+    return ipcRenderer.invoke("keywords:remove", payload);
+  },
+  setLibraryMetadataMode(
+    payload: MetadataModeUpdatePayload,
+  ): Promise<MetadataModeUpdateResult> {
+    return ipcRenderer.invoke("libraries:set-metadata-mode", payload);
+  },
+  prioritizeThumbnails(payload: ThumbnailPriorityPayload): Promise<void> {
+    return ipcRenderer.invoke("thumbnails:prioritize", payload);
+  },
+  getThumbnailStats(): Promise<ThumbnailStats> {
+    return ipcRenderer.invoke("thumbnails:get-stats");
+  },
+  getPerceptualHashes(
+    payload: PerceptualHashPayload,
+  ): Promise<PerceptualHashResult> {
+    return ipcRenderer.invoke("duplicates:get-hashes", payload);
+  },
+  getSettings(): Promise<AppSettingsPayload> {
+    return ipcRenderer.invoke("settings:get");
+  },
+  updateSettings(
+    settings: Partial<AppSettings>,
+  ): Promise<AppSettingsUpdateResult> {
+    return ipcRenderer.invoke("settings:update", settings);
+  },
+  getCacheUsage(): Promise<CacheUsage> {
+    return ipcRenderer.invoke("cache:get-usage");
+  },
+  clearCache(): Promise<CacheClearResult> {
+    return ipcRenderer.invoke("cache:clear");
+  },
   onThumbnailsReady(
     callback: (payload: ThumbnailReadyPayload) => void,
   ): () => void {
@@ -64,6 +199,112 @@ const api = {
       ipcRenderer.removeListener("ratings:refreshed", listener);
     };
   },
+  onMetadataSyncStatus(
+    callback: (payload: MetadataSyncStatusPayload) => void,
+  ): () => void {
+    const listener = (
+      _event: IpcRendererEvent,
+      payload: MetadataSyncStatusPayload,
+    ) => {
+      callback(payload);
+    };
+    ipcRenderer.on("ratings:sync-status", listener);
+    return () => {
+      ipcRenderer.removeListener("ratings:sync-status", listener);
+    };
+  },
+  onScanProgress(callback: (payload: ScanProgressPayload) => void): () => void {
+    const listener = (
+      _event: IpcRendererEvent,
+      payload: ScanProgressPayload,
+    ) => {
+      callback(payload);
+    };
+    ipcRenderer.on("photos:scan-progress", listener);
+    return () => {
+      ipcRenderer.removeListener("photos:scan-progress", listener);
+    };
+  },
+  onTransferProgress(
+    callback: (payload: TransferProgressPayload) => void,
+  ): () => void {
+    const listener = (
+      _event: IpcRendererEvent,
+      payload: TransferProgressPayload,
+    ) => {
+      callback(payload);
+    };
+    ipcRenderer.on("photos:transfer-progress", listener);
+    return () => {
+      ipcRenderer.removeListener("photos:transfer-progress", listener);
+    };
+  },
+  onExportProgress(
+    callback: (payload: ExportProgressPayload) => void,
+  ): () => void {
+    const listener = (
+      _event: IpcRendererEvent,
+      payload: ExportProgressPayload,
+    ) => {
+      callback(payload);
+    };
+    ipcRenderer.on("export:progress", listener);
+    return () => {
+      ipcRenderer.removeListener("export:progress", listener);
+    };
+  },
+  onPhotosAdded(callback: (payload: PhotosAddedPayload) => void): () => void {
+    const listener = (
+      _event: IpcRendererEvent,
+      payload: PhotosAddedPayload,
+    ) => {
+      callback(payload);
+    };
+    ipcRenderer.on("photos:added", listener);
+    return () => {
+      ipcRenderer.removeListener("photos:added", listener);
+    };
+  },
+  onPhotosChanged(
+    callback: (payload: PhotosChangedPayload) => void,
+  ): () => void {
+    const listener = (
+      _event: IpcRendererEvent,
+      payload: PhotosChangedPayload,
+    ) => {
+      callback(payload);
+    };
+    ipcRenderer.on("photos:changed", listener);
+    return () => {
+      ipcRenderer.removeListener("photos:changed", listener);
+    };
+  },
+  onCaptureInfo(callback: (payload: CaptureInfoPayload) => void): () => void {
+    const listener = (
+      _event: IpcRendererEvent,
+      payload: CaptureInfoPayload,
+    ) => {
+      callback(payload);
+    };
+    ipcRenderer.on("photos:capture-info", listener);
+    return () => {
+      ipcRenderer.removeListener("photos:capture-info", listener);
+    };
+  },
+  onPhotosRemoved(
+    callback: (payload: PhotosRemovedPayload) => void,
+  ): () => void {
+    const listener = (
+      _event: IpcRendererEvent,
+      payload: PhotosRemovedPayload,
+    ) => {
+      callback(payload);
+    };
+    ipcRenderer.on("photos:removed", listener);
+    return () => {
+      ipcRenderer.removeListener("photos:removed", listener);
+    };
+  },
   getLocale(): Promise<LocaleDescriptor> {
     return ipcRenderer.invoke("app:get-locale");
   },
@@ -75,15 +316,63 @@ const api = {
 contextBridge.exposeInMainWorld("api", api);
 
 export type {
+  AppSettings,
+  AppSettingsPayload,
+  AppSettingsUpdateResult,
+  CacheClearResult,
+  CacheUsage,
+  CaptureInfoPayload,
+  ColorLabel,
   DeletePhotoResult,
+  ExportFormat,
+  ExportOptions,
+  ExportPhoto,
+  ExportProgressPayload,
+  ExportRequest,
+  ExportStartResult,
+  ExportWatermark,
+  ExportWatermarkPosition,
+  FlagUpdatePayload,
+  FlagUpdateResult,
+  KeywordUpdatePayload,
+  KeywordUpdateResult,
+  LabelUpdatePayload,
+  LabelUpdateResult,
+  MetadataMode,
+  MetadataModeUpdatePayload,
+  MetadataModeUpdateResult,
+  MetadataSyncStatus,
+  MetadataSyncStatusPayload,
+  PerceptualHashPayload,
+  PerceptualHashResult,
+  PhotoCaptureInfo,
+  PhotoExifInfo,
+  PhotoFlag,
   PhotoMeta,
+  PhotoMetadataRequest,
+  PhotoMetadataResult,
   PhotoCollectionPayload,
+  PhotosAddedPayload,
+  PhotosChangedPayload,
+  PhotosRemovedPayload,
   RevealPhotoResult,
   OpenDirectoryResult,
   RenamePhotoPayload,
   RenamePhotoResult,
+  RestorePhotoResult,
   RatingUpdatePayload,
   RatingUpdateResult,
   RatingsSyncPayload,
+  RecentFolder,
+  ScanProgressPayload,
+  SessionState,
+  ThumbnailPriorityPayload,
   ThumbnailReadyPayload,
+  ThumbnailStats,
+  TransferConflictPolicy,
+  TransferMode,
+  TransferOptions,
+  TransferPayload,
+  TransferProgressPayload,
+  TransferResult,
 } from "@shared/types";
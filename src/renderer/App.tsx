@@ -1,7 +1,20 @@
 import type {
+  ColorLabel,
   DeletePhotoResult,
+  ExportOptions,
+  ExportPhoto,
+  ExportProgressPayload,
+  MetadataMode,
   PhotoCollectionPayload,
+  PhotoFlag,
   PhotoMeta,
+  RecentFolder,
+  RenamePhotoResult,
+  ScanProgressPayload,
+  SessionState,
+  TransferMode,
+  TransferOptions,
+  TransferProgressPayload,
 } from "@preload/index";
 import { AnimatePresence, motion } from "framer-motion";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
@@ -11,23 +24,77 @@ import type {
   MouseEvent as ReactMouseEvent,
   PointerEvent as ReactPointerEvent,
 } from "react";
+import CaptureFilterMenu from "./components/CaptureFilterMenu";
+import CompareView from "./components/CompareView";
+import DuplicatesView from "./components/DuplicatesView";
+import ExportDialog from "./components/ExportDialog";
+import FolderTree from "./components/FolderTree";
+import KeywordFilterMenu from "./components/KeywordFilterMenu";
+import LoupeView from "./components/LoupeView";
 import PhotoContextMenu from "./components/PhotoContextMenu";
-import PhotoGrid from "./components/PhotoGrid";
+import PhotoGrid, { type GridVisibleRange } from "./components/PhotoGrid";
 import PhotoPreview from "./components/PhotoPreview";
+import RecentFolderList from "./components/RecentFolderList";
+import RecentFoldersMenu from "./components/RecentFoldersMenu";
 import RenamePhotoDialog from "./components/RenamePhotoDialog";
+import SettingsDialog from "./components/SettingsDialog";
 import SortMenu from "./components/SortMenu";
 import StarFilterMenu from "./components/StarFilterMenu";
+import Toast from "./components/Toast";
+import TransferDialog from "./components/TransferDialog";
+import { COLOR_LABELS } from "@shared/colorLabels";
+import {
+  DEFAULT_EXPORT_FILE_NAME_TEMPLATE,
+  type ExportFileNameValues,
+} from "@shared/exportTemplate";
+import {
+  hasKeyword,
+  mergeKeywords,
+  removeKeywords,
+  sameKeywords,
+} from "@shared/keywords";
+import {
+  type CaptureFilter,
+  EMPTY_CAPTURE_FILTER,
+  collectCaptureFacets,
+  getCaptureSortTime,
+  matchesCaptureFilter,
+} from "./captureFilter";
+import { COLOR_LABEL_NAME_KEYS } from "./colorLabels";
+import {
+  type FolderScope,
+  buildFolderTree,
+  isInFolderScope,
+  isPathInside,
+} from "./folderTree";
+import { extractLabel, formatBytes } from "./format";
+import { type HistoryStepResult, useUndoHistory } from "./history";
 import { useI18n } from "./i18n/I18nProvider";
-import type { RatedPhoto } from "./types";
+import {
+  type BurstStack,
+  arrangeStacks,
+  buildBurstStacks,
+  pickStackCover,
+} from "./stacks";
+import type { LabelFilterValue, RatedPhoto } from "./types";
+import { getRootBadgeClass } from "./workspace";
+
+type ScanStatus = Pick<
+  ScanProgressPayload,
+  "scanId" | "directory" | "currentDirectory" | "photoCount"
+>;
 
 interface DirectoryEntry {
   path: string;
   label: string;
   count: number;
+  metadataMode: MetadataMode;
 }
 
 type FilterMode = "all" | "rated" | "unrated";
 type SortKey =
+  | "captureDesc"
+  | "captureAsc"
   | "modifiedDesc"
   | "modifiedAsc"
   | "nameAsc"
@@ -35,10 +102,24 @@ type SortKey =
   | "ratingDesc"
   | "ratingAsc";
 
+const FILTER_MODES: FilterMode[] = ["all", "rated", "unrated"];
+const SORT_KEYS: SortKey[] = [
+  "captureDesc",
+  "captureAsc",
+  "modifiedDesc",
+  "modifiedAsc",
+  "nameAsc",
+  "nameDesc",
+  "ratingDesc",
+  "ratingAsc",
+];
+
 function shouldIncludePhoto(
   photo: RatedPhoto,
   mode: FilterMode,
   ratingFilter: Set<number> | null,
+  labelFilter: Set<LabelFilterValue> | null,
+  keywordFilter: string[],
 ): boolean {
   const matchesMode =
     mode === "unrated"
@@ -51,35 +132,99 @@ function shouldIncludePhoto(
     return false;
   }
 
-  if (ratingFilter && ratingFilter.size > 0) {
-    if (photo.rating === 0) {
-      return ratingFilter.has(0);
-    }
-    return ratingFilter.has(photo.rating);
+  if (
+    ratingFilter &&
+    ratingFilter.size > 0 &&
+    !ratingFilter.has(photo.rating)
+  ) {
+    return false;
   }
 
-  return true;
+  if (
+    labelFilter &&
+    labelFilter.size > 0 &&
+    !labelFilter.has(photo.label ?? "none")
+  ) {
+    return false;
+  }
+
+  // Keywords narrow the view: a photo must carry every selected keyword.
+  return keywordFilter.every((keyword) => hasKeyword(photo.keywords, keyword));
+}
+
+// Lightroom's number keys for color labels; purple has no shortcut there either.
+const LABEL_SHORTCUTS: Record<string, ColorLabel> = {
+  "6": "red",
+  "7": "yellow",
+  "8": "green",
+  "9": "blue",
+};
+
+const FLAG_SHORTCUTS: Record<string, PhotoFlag | null> = {
+  p: "picked",
+  x: "rejected",
+  u: null,
+};
+
+interface ToastState {
+  id: number;
+  message: string;
+  tone: "info" | "error";
+}
+
+const TOAST_DURATION_MS = 2400;
+
+const MIN_COMPARE_COUNT = 2;
+const MAX_COMPARE_COUNT = 4;
+
+interface TransferRequest {
+  mode: TransferMode;
+  targets: RatedPhoto[];
 }
 
+const DEFAULT_TRANSFER_OPTIONS: TransferOptions = {
+  conflictPolicy: "rename",
+  preserveStructure: false,
+  includeSidecars: true,
+  includeRatings: true,
+};
+
+const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  destination: "",
+  format: "jpeg",
+  quality: 85,
+  longEdge: 2048,
+  convertToSrgb: true,
+  keepMetadata: true,
+  watermark: null,
+  fileNameTemplate: DEFAULT_EXPORT_FILE_NAME_TEMPLATE,
+};
+
 interface PhotoContextMenuState {
   photo: RatedPhoto;
   position: { x: number; y: number };
 }
 
-function toRatedPhoto(
-  photo: PhotoMeta,
-  ratingMap: Record<string, number>,
-): RatedPhoto {
+type PhotoValueMaps = Pick<
+  PhotoCollectionPayload,
+  "ratings" | "labels" | "flags" | "keywords"
+>;
+
+function toRatedPhoto(photo: PhotoMeta, values: PhotoValueMaps): RatedPhoto {
   return {
     ...photo,
-    rating: ratingMap[photo.id] ?? 0,
+    rating: values.ratings[photo.id] ?? 0,
+    label: values.labels?.[photo.id] ?? null,
+    flag: values.flags?.[photo.id] ?? null,
+    keywords: values.keywords?.[photo.id] ?? [],
   };
 }
 
-function extractLabel(filePath: string): string {
-  const segments = filePath.split(/[\\/]/).filter(Boolean);
-  if (segments.length === 0) return filePath;
-  return segments[segments.length - 1];
+function getPhotoFileSize(photo: RatedPhoto): number {
+  return (
+    photo.members?.reduce((total, member) => total + member.size, 0) ??
+    photo.size
+  );
 }
 
 function arraysEqual<T>(a: readonly T[], b: readonly T[]): boolean {
@@ -101,6 +246,9 @@ const DEFAULT_PREVIEW_WIDTH = 380;
 const MIN_PREVIEW_WIDTH = 260;
 const MAX_PREVIEW_WIDTH = 720;
 const MIN_GRID_WIDTH = 360;
+const THUMBNAIL_URL_PREFIX = "photo-thumb://";
+const THUMBNAIL_PRIORITY_DEBOUNCE_MS = 120;
+const SESSION_SAVE_DEBOUNCE_MS = 500;
 
 interface WebkitFileSystemEntry {
   isFile: boolean;
@@ -141,16 +289,40 @@ export default function App() {
   const [photos, setPhotos] = useState<RatedPhoto[]>([]);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [focusId, setFocusId] = useState<string | null>(null);
-  const [directory, setDirectory] = useState<DirectoryEntry | null>(null);
+  // Workspace roots in the order they were added
+  const [roots, setRoots] = useState<DirectoryEntry[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [scanStatus, setScanStatus] = useState<ScanStatus | null>(null);
   const [filterMode, setFilterMode] = useState<FilterMode>("all");
   const [sortKey, setSortKey] = useState<SortKey>("modifiedDesc");
   const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
   const [expandedPhotoId, setExpandedPhotoId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[] | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [showLoupeInfo, setShowLoupeInfo] = useState(false);
   const [contextMenu, setContextMenu] = useState<PhotoContextMenuState | null>(
     null,
   );
   const [renameTarget, setRenameTarget] = useState<RatedPhoto | null>(null);
+  const [transferRequest, setTransferRequest] =
+    useState<TransferRequest | null>(null);
+  // Both stick between transfers, so repeated exports go to the same place.
+  const [transferDestination, setTransferDestination] = useState<string | null>(
+    null,
+  );
+  const [transferOptions, setTransferOptions] = useState<TransferOptions>(
+    DEFAULT_TRANSFER_OPTIONS,
+  );
+  const [transferStatus, setTransferStatus] =
+    useState<TransferProgressPayload | null>(null);
+  const [exportTargets, setExportTargets] = useState<RatedPhoto[] | null>(null);
+  // Kept between exports like the transfer settings
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(
+    DEFAULT_EXPORT_OPTIONS,
+  );
+  const [exportStatus, setExportStatus] =
+    useState<ExportProgressPayload | null>(null);
   const [renameValue, setRenameValue] = useState("");
   const [isRenaming, setIsRenaming] = useState(false);
   const [previewPanelWidth, setPreviewPanelWidth] = useState(
@@ -165,8 +337,41 @@ export default function App() {
     return window.matchMedia("(min-width: 1024px)").matches;
   });
   const [ratingFilter, setRatingFilter] = useState<number[]>([]);
+  const [labelFilter, setLabelFilter] = useState<LabelFilterValue[]>([]);
+  const [keywordFilter, setKeywordFilter] = useState<string[]>([]);
+  const [captureFilter, setCaptureFilter] =
+    useState<CaptureFilter>(EMPTY_CAPTURE_FILTER);
+  // Folder picked in the sidebar tree; null stands for the root.
+  const [folderScopePath, setFolderScopePath] = useState<string | null>(null);
+  // Applies to the root too, so unchecking it shows only top-level photos.
+  const [includeSubfolders, setIncludeSubfolders] = useState(true);
+  const [isFolderTreeCollapsed, setIsFolderTreeCollapsed] = useState(false);
+  // Every keyword in the ratings database, offered as autocomplete suggestions.
+  const [knownKeywords, setKnownKeywords] = useState<string[]>([]);
+  const [burstGapSeconds, setBurstGapSeconds] = useState<number | null>(null);
+  const [expandedStackIds, setExpandedStackIds] = useState<string[]>([]);
+  const [visibleRange, setVisibleRange] = useState<GridVisibleRange | null>(
+    null,
+  );
+  const [recentFolders, setRecentFolders] = useState<RecentFolder[]>([]);
+  // Scroll offset of the last session, handed to the grid once its folder
+  // has finished loading.
+  const [restoredScrollTop, setRestoredScrollTop] = useState<number | null>(
+    null,
+  );
+  // Nothing is saved until the last session has been read back, so an early
+  // save cannot overwrite it.
+  const [isSessionRestored, setIsSessionRestored] = useState(false);
   const sortOptions = useMemo<Array<{ value: SortKey; label: string }>>(
     () => [
+      {
+        value: "captureDesc",
+        label: t("app.sort.captureDesc"),
+      },
+      {
+        value: "captureAsc",
+        label: t("app.sort.captureAsc"),
+      },
       {
         value: "modifiedDesc",
         label: t("app.sort.modifiedDesc"),
@@ -200,6 +405,30 @@ export default function App() {
     startWidth: DEFAULT_PREVIEW_WIDTH,
   });
   const dragDepthRef = useRef(0);
+  // Scan whose batches own each root; batches of older scans are ignored.
+  const rootScanIdsRef = useRef(new Map<string, number>());
+  // Scans older than these started before the workspace was replaced or
+  // closed, or before their root was removed, and are ignored as well.
+  const scanFloorRef = useRef(0);
+  const rootScanFloorsRef = useRef(new Map<string, number>());
+  const latestScanIdRef = useRef(0);
+  const loadSequenceRef = useRef(0);
+  // History entries outlive the render that created them and read the live
+  // grid through this.
+  const photosRef = useRef<RatedPhoto[]>([]);
+  const sessionRestoreStartedRef = useRef(false);
+  const sessionRef = useRef<Omit<SessionState, "scrollTop"> | null>(null);
+  const sessionSaveTimeoutRef = useRef<number | null>(null);
+  // Kept out of state so scrolling does not re-render the app.
+  const gridScrollTopRef = useRef(0);
+  const [toast, setToast] = useState<ToastState | null>(null);
+  const toastTimeoutRef = useRef<number | null>(null);
+  const {
+    record: recordHistory,
+    clear: clearHistory,
+    undo: undoHistory,
+    redo: redoHistory,
+  } = useUndoHistory();
 
   const totalCount = photos.length;
   const ratedCount = useMemo(
@@ -228,17 +457,130 @@ export default function App() {
     }
     return counts;
   }, [photos]);
+  const labelCounts = useMemo(() => {
+    const counts: Record<LabelFilterValue, number> = {
+      red: 0,
+      yellow: 0,
+      green: 0,
+      blue: 0,
+      purple: 0,
+      none: 0,
+    };
+    for (const photo of photos) {
+      counts[photo.label ?? "none"] += 1;
+    }
+    return counts;
+  }, [photos]);
+  const labelNames = useMemo(() => {
+    const names = { none: t("app.filter.labels.none") } as Record<
+      LabelFilterValue,
+      string
+    >;
+    for (const label of COLOR_LABELS) {
+      names[label] = t(COLOR_LABEL_NAME_KEYS[label]);
+    }
+    return names;
+  }, [t]);
+  const keywordCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    for (const photo of photos) {
+      for (const keyword of photo.keywords) {
+        counts[keyword] = (counts[keyword] ?? 0) + 1;
+      }
+    }
+    return counts;
+  }, [photos]);
+  // Selected keywords stay listed even when no loaded photo carries them, so
+  // the filter can always be cleared.
+  const keywordOptions = useMemo(
+    () =>
+      mergeKeywords(Object.keys(keywordCounts), keywordFilter).sort((a, b) =>
+        a.localeCompare(b, locale),
+      ),
+    [keywordCounts, keywordFilter, locale],
+  );
+  const captureFacets = useMemo(() => collectCaptureFacets(photos), [photos]);
+  // Stable while only the counts of the roots change
+  const rootPathsKey = roots.map((root) => root.path).join("\0");
+  const rootPaths = useMemo(
+    () => (rootPathsKey ? rootPathsKey.split("\0") : []),
+    [rootPathsKey],
+  );
+  const folderTrees = useMemo(
+    () =>
+      rootPaths.map((rootPath) =>
+        buildFolderTree(rootPath, extractLabel(rootPath), photos),
+      ),
+    [photos, rootPaths],
+  );
+  const rootBadges = useMemo(
+    () =>
+      rootPaths.length > 1
+        ? rootPaths.map((rootPath, index) => ({
+            path: rootPath,
+            label: extractLabel(rootPath),
+            className: getRootBadgeClass(index),
+          }))
+        : undefined,
+    [rootPaths],
+  );
   const isStarFilterDisabled = totalCount === 0;
-  const displayedPhotos = useMemo(() => {
+  // The sidebar only earns its space once there is more than one folder.
+  const showFolderTree =
+    isDesktopLayout &&
+    (folderTrees.length > 1 || (folderTrees[0]?.children.length ?? 0) > 0);
+  const burstStacks = useMemo(
+    () =>
+      burstGapSeconds == null
+        ? new Map<string, BurstStack>()
+        : buildBurstStacks(photos, burstGapSeconds * 1000),
+    [burstGapSeconds, photos],
+  );
+  const { photos: displayedPhotos, info: stackInfo } = useMemo(() => {
     const ratingFilterSet =
       ratingFilter.length > 0 ? new Set(ratingFilter) : null;
-    const filtered = photos.filter((photo) =>
-      shouldIncludePhoto(photo, filterMode, ratingFilterSet),
+    const labelFilterSet = labelFilter.length > 0 ? new Set(labelFilter) : null;
+    // EXIF facets and folders cannot change from within the app, so unlike
+    // the other filters they need no re-check after edits.
+    // Without a picked folder every root is in scope, which only narrows the
+    // grid when subfolders are left out. A hidden tree scopes nothing.
+    const folderScopes: FolderScope[] = !showFolderTree
+      ? []
+      : folderScopePath
+        ? [{ path: folderScopePath, includeSubfolders }]
+        : includeSubfolders
+          ? []
+          : rootPaths.map((rootPath) => ({
+              path: rootPath,
+              includeSubfolders: false,
+            }));
+    const filtered = photos.filter(
+      (photo) =>
+        shouldIncludePhoto(
+          photo,
+          filterMode,
+          ratingFilterSet,
+          labelFilterSet,
+          keywordFilter,
+        ) &&
+        matchesCaptureFilter(photo, captureFilter) &&
+        (folderScopes.length === 0 ||
+          folderScopes.some((scope) => isInFolderScope(photo, scope))),
     );
 
     const sorted = [...filtered];
     sorted.sort((a, b) => {
       switch (sortKey) {
+        case "captureAsc":
+          return (
+            getCaptureSortTime(a) - getCaptureSortTime(b) ||
+            a.name.localeCompare(b.name, locale)
+          );
+        case "captureDesc":
+          return (
+            getCaptureSortTime(b) - getCaptureSortTime(a) ||
+            b.name.localeCompare(a.name, locale)
+          );
         case "modifiedAsc":
           return a.modifiedAt - b.modifiedAt;
         case "modifiedDesc":
@@ -262,11 +604,84 @@ export default function App() {
       }
     });
 
-    return sorted;
-  }, [filterMode, locale, photos, ratingFilter, sortKey]);
+    return arrangeStacks(sorted, burstStacks, new Set(expandedStackIds));
+  }, [
+    burstStacks,
+    captureFilter,
+    expandedStackIds,
+    filterMode,
+    folderScopePath,
+    includeSubfolders,
+    keywordFilter,
+    showFolderTree,
+    labelFilter,
+    locale,
+    photos,
+    ratingFilter,
+    rootPaths,
+    sortKey,
+  ]);
   const displayedCount = displayedPhotos.length;
 
   const selectedIdSet = useMemo(() => new Set(selectedIds), [selectedIds]);
+
+  useEffect(() => {
+    photosRef.current = photos;
+  }, [photos]);
+
+  const showToast = useCallback(
+    (message: string, tone: ToastState["tone"] = "info") => {
+      if (toastTimeoutRef.current !== null) {
+        window.clearTimeout(toastTimeoutRef.current);
+      }
+      setToast((prev) => ({ id: (prev?.id ?? 0) + 1, message, tone }));
+      toastTimeoutRef.current = window.setTimeout(() => {
+        setToast(null);
+        toastTimeoutRef.current = null;
+      }, TOAST_DURATION_MS);
+    },
+    [],
+  );
+
+  useEffect(
+    () => () => {
+      if (toastTimeoutRef.current !== null) {
+        window.clearTimeout(toastTimeoutRef.current);
+      }
+    },
+    [],
+  );
+
+  // Tell the main process which thumbnails the user is looking at so they
+  // are generated ahead of the rest of the folder.
+  useEffect(() => {
+    if (!visibleRange) {
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      const needsThumbnail = (photo: RatedPhoto) =>
+        !photo.thumbnailUrl.startsWith(THUMBNAIL_URL_PREFIX);
+      const visibleIds = displayedPhotos
+        .slice(visibleRange.visibleStart, visibleRange.visibleEnd + 1)
+        .filter(needsThumbnail)
+        .map((photo) => photo.id);
+      const nearbyIds = displayedPhotos
+        .slice(visibleRange.nearbyStart, visibleRange.nearbyEnd + 1)
+        .filter(needsThumbnail)
+        .map((photo) => photo.id);
+      if (visibleIds.length === 0 && nearbyIds.length === 0) {
+        return;
+      }
+      void window.api
+        .prioritizeThumbnails({ visibleIds, nearbyIds })
+        .catch((error) => {
+          console.error("Failed to prioritize thumbnails", error);
+        });
+    }, THUMBNAIL_PRIORITY_DEBOUNCE_MS);
+    return () => {
+      window.clearTimeout(timer);
+    };
+  }, [displayedPhotos, visibleRange]);
   const photoIdSet = useMemo(
     () => new Set(photos.map((photo) => photo.id)),
     [photos],
@@ -295,22 +710,79 @@ export default function App() {
     [displayedPhotos, primarySelectedId],
   );
 
+  const primaryStack = useMemo(() => {
+    const info = primarySelectedPhoto
+      ? stackInfo.get(primarySelectedPhoto.id)
+      : undefined;
+    const stack = info ? burstStacks.get(info.stackId) : undefined;
+    if (!info || !stack) {
+      return null;
+    }
+    const memberIds = new Set(stack.photoIds);
+    const ratings = photos
+      .filter((photo) => memberIds.has(photo.id))
+      .map((photo) => photo.rating);
+    return {
+      count: stack.photoIds.length,
+      rating: ratings.every((rating) => rating === ratings[0])
+        ? (ratings[0] ?? 0)
+        : 0,
+      isExpanded: info.isExpanded,
+    };
+  }, [burstStacks, photos, primarySelectedPhoto, stackInfo]);
+
+  const comparePhotos = useMemo(() => {
+    if (!compareIds) {
+      return [];
+    }
+    const byId = new Map(photos.map((photo) => [photo.id, photo]));
+    return compareIds
+      .map((id) => byId.get(id))
+      .filter((photo): photo is RatedPhoto => Boolean(photo));
+  }, [compareIds, photos]);
+
+  // Deleting or renaming compared photos elsewhere can leave nothing to compare.
+  useEffect(() => {
+    if (compareIds && comparePhotos.length < MIN_COMPARE_COUNT) {
+      setCompareIds(null);
+    }
+  }, [compareIds, comparePhotos.length]);
+
   const mergePhotos = useCallback(
-    (
-      incoming: PhotoMeta[],
-      incomingRatings?: Record<string, number>,
-    ): RatedPhoto[] => {
-      const ratingMap = incomingRatings ?? {};
+    (incoming: PhotoMeta[], values: PhotoValueMaps): RatedPhoto[] => {
       const next = incoming
-        .map((photo) => toRatedPhoto(photo, ratingMap))
+        .map((photo) => toRatedPhoto(photo, values))
         .sort((a, b) => b.modifiedAt - a.modifiedAt);
 
+      clearHistory();
       setPhotos(next);
       return next;
     },
-    [],
+    [clearHistory],
   );
 
+  useEffect(() => {
+    void window.api
+      .getSettings()
+      .then(({ settings }) => {
+        setBurstGapSeconds(settings.burstGapSeconds);
+      })
+      .catch((error) => {
+        console.error("Failed to load settings", error);
+      });
+  }, []);
+
+  useEffect(() => {
+    void window.api
+      .listKeywords()
+      .then((keywords) => {
+        setKnownKeywords((prev) => mergeKeywords(keywords, prev));
+      })
+      .catch((error) => {
+        console.error("Failed to load keywords", error);
+      });
+  }, []);
+
   useEffect(() => {
     const unsubscribe = window.api.onThumbnailsReady(
       ({ id, thumbnailUrl, thumbnailRetinaUrl }) => {
@@ -331,19 +803,81 @@ export default function App() {
   }, []);
 
   useEffect(() => {
-    const unsubscribe = window.api.onRatingsRefreshed(({ ratings }) => {
-      if (!ratings) {
-        return;
-      }
+    const unsubscribe = window.api.onRatingsRefreshed(
+      ({ ratings, labels, flags, keywords }) => {
+        if (!ratings && !labels && !flags && !keywords) {
+          return;
+        }
+        setPhotos((prev) => {
+          let needsUpdate = false;
+          const next = prev.map((photo) => {
+            const nextRating = ratings?.[photo.id] ?? photo.rating;
+            const nextLabel =
+              labels && photo.id in labels ? labels[photo.id] : photo.label;
+            const nextFlag =
+              flags && photo.id in flags ? flags[photo.id] : photo.flag;
+            const nextKeywords = keywords?.[photo.id] ?? photo.keywords;
+            if (
+              photo.rating === nextRating &&
+              photo.label === nextLabel &&
+              photo.flag === nextFlag &&
+              sameKeywords(photo.keywords, nextKeywords)
+            ) {
+              return photo;
+            }
+            needsUpdate = true;
+            return {
+              ...photo,
+              rating: nextRating,
+              label: nextLabel,
+              flag: nextFlag,
+              keywords: nextKeywords,
+            };
+          });
+          return needsUpdate ? next : prev;
+        });
+        if (keywords) {
+          setKnownKeywords((prev) =>
+            mergeKeywords(prev, Object.values(keywords).flat()),
+          );
+        }
+      },
+    );
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = window.api.onMetadataSyncStatus(
+      ({ id, status, message }) => {
+        if (status === "failed" && message) {
+          console.error("Failed to write rating metadata", id, message);
+        }
+        setPhotos((prev) => {
+          const index = prev.findIndex((photo) => photo.id === id);
+          if (index === -1 || prev[index].syncStatus === status) {
+            return prev;
+          }
+          const next = [...prev];
+          next[index] = { ...prev[index], syncStatus: status };
+          return next;
+        });
+      },
+    );
+    return unsubscribe;
+  }, []);
+
+  // Capture info for files read after the scan; bursts re-stack as it lands.
+  useEffect(() => {
+    const unsubscribe = window.api.onCaptureInfo(({ captures }) => {
       setPhotos((prev) => {
         let needsUpdate = false;
         const next = prev.map((photo) => {
-          const nextRating = ratings[photo.id];
-          if (nextRating === undefined || photo.rating === nextRating) {
+          const capture = captures[photo.id];
+          if (!capture) {
             return photo;
           }
           needsUpdate = true;
-          return { ...photo, rating: nextRating };
+          return { ...photo, capture };
         });
         return needsUpdate ? next : prev;
       });
@@ -351,29 +885,268 @@ export default function App() {
     return unsubscribe;
   }, []);
 
-  const updateDirectory = useCallback(
-    (directoryPath: string, count: number) => {
-      setDirectory({
-        path: directoryPath,
-        label: extractLabel(directoryPath),
+  const adjustRootCount = useCallback((rootPath: string, delta: number) => {
+    setRoots((prev) =>
+      prev.map((root) =>
+        root.path === rootPath
+          ? { ...root, count: Math.max(0, root.count + delta) }
+          : root,
+      ),
+    );
+  }, []);
+
+  // Folder watcher events are merged in place so selection, focus and the
+  // grid's scroll position survive files arriving or disappearing.
+  useEffect(() => {
+    if (rootPaths.length === 0) {
+      return;
+    }
+
+    const unsubscribeAdded = window.api.onPhotosAdded(
+      ({ directory: source, photos: incoming, ...values }) => {
+        if (!rootPaths.includes(source)) {
+          return;
+        }
+        const freshCount = incoming.filter(
+          (photo) => !photoIdSet.has(photo.id),
+        ).length;
+        setPhotos((prev) => {
+          const incomingById = new Map(
+            incoming.map((photo) => [photo.id, photo]),
+          );
+          const next = prev.map((photo) => {
+            const update = incomingById.get(photo.id);
+            if (!update) {
+              return photo;
+            }
+            incomingById.delete(photo.id);
+            return { ...photo, ...update };
+          });
+          for (const photo of incomingById.values()) {
+            next.push(toRatedPhoto(photo, values));
+          }
+          return next;
+        });
+        if (freshCount > 0) {
+          adjustRootCount(source, freshCount);
+        }
+      },
+    );
+
+    const unsubscribeChanged = window.api.onPhotosChanged(
+      ({ directory: source, photos: incoming }) => {
+        if (!rootPaths.includes(source)) {
+          return;
+        }
+        const incomingById = new Map(
+          incoming.map((photo) => [photo.id, photo]),
+        );
+        setPhotos((prev) =>
+          prev.map((photo) => {
+            const update = incomingById.get(photo.id);
+            return update ? { ...photo, ...update } : photo;
+          }),
+        );
+      },
+    );
+
+    const unsubscribeRemoved = window.api.onPhotosRemoved(
+      ({ directory: source, ids }) => {
+        if (!rootPaths.includes(source)) {
+          return;
+        }
+        const removedIds = new Set(ids.filter((id) => photoIdSet.has(id)));
+        if (removedIds.size === 0) {
+          return;
+        }
+        setPhotos((prev) => prev.filter((photo) => !removedIds.has(photo.id)));
+        adjustRootCount(source, -removedIds.size);
+        setSelectedIds((current) =>
+          current.some((id) => removedIds.has(id))
+            ? current.filter((id) => !removedIds.has(id))
+            : current,
+        );
+        setFocusId((current) =>
+          current && removedIds.has(current) ? null : current,
+        );
+        setExpandedPhotoId((current) =>
+          current && removedIds.has(current) ? null : current,
+        );
+        setContextMenu((current) =>
+          current && removedIds.has(current.photo.id) ? null : current,
+        );
+      },
+    );
+
+    return () => {
+      unsubscribeAdded();
+      unsubscribeChanged();
+      unsubscribeRemoved();
+    };
+  }, [adjustRootCount, photoIdSet, rootPaths]);
+
+  const updateRoot = useCallback(
+    (rootPath: string, count: number, metadataMode: MetadataMode) => {
+      const entry: DirectoryEntry = {
+        path: rootPath,
+        label: extractLabel(rootPath),
         count,
-      });
+        metadataMode,
+      };
+      setRoots((prev) =>
+        prev.some((root) => root.path === rootPath)
+          ? prev.map((root) => (root.path === rootPath ? entry : root))
+          : [...prev, entry],
+      );
+    },
+    [],
+  );
+
+  const isStaleScan = useCallback((rootPath: string, scanId: number) => {
+    return (
+      scanId < scanFloorRef.current ||
+      scanId < (rootScanFloorsRef.current.get(rootPath) ?? 0) ||
+      scanId < (rootScanIdsRef.current.get(rootPath) ?? 0)
+    );
+  }, []);
+
+  // The first batch of a scan that replaces the workspace drops every root.
+  const claimScan = useCallback(
+    (rootPath: string, scanId: number, append: boolean) => {
+      latestScanIdRef.current = Math.max(latestScanIdRef.current, scanId);
+      if (append) {
+        rootScanIdsRef.current.set(rootPath, scanId);
+        return;
+      }
+      scanFloorRef.current = scanId;
+      rootScanIdsRef.current = new Map([[rootPath, scanId]]);
+      rootScanFloorsRef.current.clear();
+      setRoots([]);
     },
     [],
   );
 
+  useEffect(() => {
+    const unsubscribe = window.api.onScanProgress((payload) => {
+      if (isStaleScan(payload.directory, payload.scanId)) {
+        return;
+      }
+      setScanStatus({
+        scanId: payload.scanId,
+        directory: payload.directory,
+        currentDirectory: payload.currentDirectory,
+        photoCount: payload.photoCount,
+      });
+
+      const incoming = payload.photos.map((photo) =>
+        toRatedPhoto(photo, payload),
+      );
+      const isNewScan =
+        payload.scanId !== rootScanIdsRef.current.get(payload.directory);
+      if (isNewScan) {
+        claimScan(payload.directory, payload.scanId, payload.append);
+      }
+      if (isNewScan && !payload.append) {
+        // First batch of a new workspace replaces whatever was on screen
+        clearHistory();
+        setPhotos(incoming);
+        setFolderScopePath(null);
+        setExpandedPhotoId(null);
+        setContextMenu(null);
+        const initialId = incoming[0]?.id ?? null;
+        setSelectedIds(initialId ? [initialId] : []);
+        setFocusId(initialId);
+      } else if (isNewScan) {
+        // A root that was already loaded starts over with this scan
+        const root = payload.directory;
+        setPhotos((prev) => [
+          ...prev.filter((photo) => !isPathInside(photo.filePath, root)),
+          ...incoming,
+        ]);
+        if (incoming.length > 0) {
+          setSelectedIds((current) =>
+            current.length > 0 ? current : [incoming[0].id],
+          );
+          setFocusId((current) => current ?? incoming[0].id);
+        }
+      } else if (incoming.length > 0) {
+        setPhotos((prev) => {
+          const existing = new Set(prev.map((photo) => photo.id));
+          const additions = incoming.filter((photo) => !existing.has(photo.id));
+          return additions.length > 0 ? [...prev, ...additions] : prev;
+        });
+        setSelectedIds((current) =>
+          current.length > 0 ? current : [incoming[0].id],
+        );
+        setFocusId((current) => current ?? incoming[0].id);
+      }
+      updateRoot(payload.directory, payload.photoCount, payload.metadataMode);
+    });
+    return unsubscribe;
+  }, [claimScan, clearHistory, isStaleScan, updateRoot]);
+
   const applyCollection = useCallback(
     (payload: PhotoCollectionPayload) => {
-      if (!payload.directory) {
+      const root = payload.directory;
+      if (!root) {
         return;
       }
+      const append = payload.append ?? false;
+
+      if (payload.scanId != null) {
+        if (isStaleScan(root, payload.scanId)) {
+          return;
+        }
+        if (payload.scanId === rootScanIdsRef.current.get(root)) {
+          // Batches already filled the grid; only top up anything missed.
+          setPhotos((prev) => {
+            const existing = new Set(prev.map((photo) => photo.id));
+            const missing = payload.photos
+              .filter((photo) => !existing.has(photo.id))
+              .map((photo) => toRatedPhoto(photo, payload));
+            return missing.length > 0 ? [...prev, ...missing] : prev;
+          });
+          updateRoot(
+            root,
+            payload.photos.length,
+            payload.metadataMode ?? "embedded",
+          );
+          return;
+        }
+        claimScan(root, payload.scanId, append);
+      }
 
       if (payload.photos.length === 0) {
         return;
       }
 
-      const nextPhotos = mergePhotos(payload.photos, payload.ratings);
-      updateDirectory(payload.directory, payload.photos.length);
+      if (append) {
+        const incoming = payload.photos.map((photo) =>
+          toRatedPhoto(photo, payload),
+        );
+        setPhotos((prev) => [
+          ...prev.filter((photo) => !isPathInside(photo.filePath, root)),
+          ...incoming,
+        ]);
+        updateRoot(
+          root,
+          payload.photos.length,
+          payload.metadataMode ?? "embedded",
+        );
+        setSelectedIds((current) =>
+          current.length > 0 ? current : [incoming[0].id],
+        );
+        setFocusId((current) => current ?? incoming[0].id);
+        return;
+      }
+
+      const nextPhotos = mergePhotos(payload.photos, payload);
+      setRoots([]);
+      updateRoot(
+        root,
+        payload.photos.length,
+        payload.metadataMode ?? "embedded",
+      );
       const initialId = nextPhotos[0]?.id ?? null;
       if (initialId) {
         setSelectedIds([initialId]);
@@ -383,60 +1156,471 @@ export default function App() {
         setFocusId(null);
       }
     },
-    [mergePhotos, updateDirectory],
+    [claimScan, isStaleScan, mergePhotos, updateRoot],
+  );
+
+  const beginFolderLoad = useCallback(() => {
+    loadSequenceRef.current += 1;
+    setIsLoading(true);
+    return loadSequenceRef.current;
+  }, []);
+
+  const refreshRecentFolders = useCallback(() => {
+    void window.api
+      .getRecentFolders()
+      .then(setRecentFolders)
+      .catch((error) => {
+        console.error("Failed to load recent folders", error);
+      });
+  }, []);
+
+  // A newer load may still be running when an older one settles.
+  const finishFolderLoad = useCallback(
+    (requestId: number) => {
+      if (loadSequenceRef.current !== requestId) {
+        return;
+      }
+      setIsLoading(false);
+      setScanStatus(null);
+      refreshRecentFolders();
+    },
+    [refreshRecentFolders],
   );
 
+  useEffect(() => {
+    refreshRecentFolders();
+  }, [refreshRecentFolders]);
+
   const handleLoad = useCallback(async () => {
+    const requestId = beginFolderLoad();
     try {
-      setIsLoading(true);
       const payload = await window.api.selectFolder();
       applyCollection(payload);
     } catch (error) {
       console.error(error);
     } finally {
-      setIsLoading(false);
+      finishFolderLoad(requestId);
     }
-  }, [applyCollection]);
+  }, [applyCollection, beginFolderLoad, finishFolderLoad]);
 
-  const handleClearDirectory = useCallback(() => {
-    setPhotos([]);
-    setSelectedIds([]);
-    setFocusId(null);
-    setDirectory(null);
-    setExpandedPhotoId(null);
-    setContextMenu(null);
-    setRenameTarget(null);
-    setRenameValue("");
-    setIsRenaming(false);
-    setIsDragOverDropZone(false);
-    dragDepthRef.current = 0;
+  const handleAddRoot = useCallback(async () => {
+    const requestId = beginFolderLoad();
+    try {
+      const payload = await window.api.selectRoot();
+      if (payload.message) {
+        showToast(payload.message, "error");
+      }
+      applyCollection(payload);
+    } catch (error) {
+      console.error(error);
+    } finally {
+      finishFolderLoad(requestId);
+    }
+  }, [applyCollection, beginFolderLoad, finishFolderLoad, showToast]);
+
+  const handleOpenRecentFolder = useCallback(
+    async (folderPath: string) => {
+      const requestId = beginFolderLoad();
+      try {
+        const payload = await window.api.loadFolder(folderPath);
+        if (payload.directory) {
+          applyCollection(payload);
+        } else if (!payload.cancelled) {
+          showToast(
+            t("recentFolders.unavailable", { name: extractLabel(folderPath) }),
+            "error",
+          );
+        }
+      } catch (error) {
+        console.error(error);
+      } finally {
+        finishFolderLoad(requestId);
+      }
+    },
+    [applyCollection, beginFolderLoad, finishFolderLoad, showToast, t],
+  );
+
+  const handleForgetRecentFolder = useCallback((folderPath: string) => {
+    void window.api
+      .forgetRecentFolder(folderPath)
+      .then(setRecentFolders)
+      .catch((error) => {
+        console.error("Failed to forget recent folder", error);
+      });
   }, []);
 
-  const handleOpenDirectory = useCallback(() => {
-    if (!directory) {
+  // Puts the window back the way the last session left it. Roots that are
+  // gone are left out, with the rest of the view state still applied.
+  useEffect(() => {
+    if (sessionRestoreStartedRef.current) {
       return;
     }
-    void window.api.openDirectory(directory.path).catch((error) => {
-      console.error("Failed to open directory", error);
-    });
-  }, [directory]);
-
-  const computeSelectionAfterRating = useCallback(
-    (ids: string[], rating: number) => {
-      if (!ids.some((id) => selectedIds.includes(id))) {
-        return null;
+    sessionRestoreStartedRef.current = true;
+    const restore = async () => {
+      const session = await window.api.getSession();
+      if (!session) {
+        return;
       }
-
-      const ratingFilterSet =
+      const filter = FILTER_MODES.find((mode) => mode === session.filterMode);
+      if (filter) {
+        setFilterMode(filter);
+      }
+      const sort = SORT_KEYS.find((key) => key === session.sortKey);
+      if (sort) {
+        setSortKey(sort);
+      }
+      setRatingFilter(session.ratingFilter);
+      if (session.previewPanelWidth > 0) {
+        setPreviewPanelWidth(
+          clampPreviewWidth(
+            session.previewPanelWidth,
+            layoutContainerRef.current?.getBoundingClientRect().width ?? 0,
+          ),
+        );
+      }
+      if (session.directories.length === 0) {
+        return;
+      }
+      const requestId = beginFolderLoad();
+      try {
+        const loadedIds = new Set<string>();
+        const missing: string[] = [];
+        for (const directoryPath of session.directories) {
+          // The first root that opens replaces the empty workspace
+          const payload =
+            loadedIds.size === 0
+              ? await window.api.loadFolder(directoryPath)
+              : await window.api.addRoot(directoryPath);
+          if (loadSequenceRef.current !== requestId) {
+            // Another folder was opened meanwhile and owns the grid now
+            return;
+          }
+          if (!payload.directory) {
+            if (!payload.cancelled) {
+              missing.push(extractLabel(directoryPath));
+            }
+            continue;
+          }
+          applyCollection(payload);
+          for (const photo of payload.photos) {
+            loadedIds.add(photo.id);
+          }
+        }
+        if (missing.length > 0) {
+          showToast(
+            t("recentFolders.unavailable", { name: missing.join(", ") }),
+            "error",
+          );
+        }
+        if (loadedIds.size === 0) {
+          return;
+        }
+        const restoredIds = session.selectedIds.filter((id) =>
+          loadedIds.has(id),
+        );
+        if (restoredIds.length > 0) {
+          setSelectedIds(restoredIds);
+          setFocusId(
+            session.focusId && restoredIds.includes(session.focusId)
+              ? session.focusId
+              : restoredIds[restoredIds.length - 1],
+          );
+        }
+        setRestoredScrollTop(session.scrollTop);
+      } finally {
+        finishFolderLoad(requestId);
+      }
+    };
+    void restore()
+      .catch((error) => {
+        console.error("Failed to restore session", error);
+      })
+      .finally(() => {
+        setIsSessionRestored(true);
+      });
+  }, [applyCollection, beginFolderLoad, finishFolderLoad, showToast, t]);
+
+  // The grid has applied the offset by the time this runs.
+  useEffect(() => {
+    if (restoredScrollTop !== null) {
+      setRestoredScrollTop(null);
+    }
+  }, [restoredScrollTop]);
+
+  const saveSession = useCallback(() => {
+    if (sessionSaveTimeoutRef.current !== null) {
+      window.clearTimeout(sessionSaveTimeoutRef.current);
+      sessionSaveTimeoutRef.current = null;
+    }
+    const session = sessionRef.current;
+    if (!session) {
+      return;
+    }
+    void window.api
+      .saveSession({ ...session, scrollTop: gridScrollTopRef.current })
+      .catch((error) => {
+        console.error("Failed to save session", error);
+      });
+  }, []);
+
+  const scheduleSessionSave = useCallback(() => {
+    if (sessionSaveTimeoutRef.current !== null) {
+      window.clearTimeout(sessionSaveTimeoutRef.current);
+    }
+    sessionSaveTimeoutRef.current = window.setTimeout(
+      saveSession,
+      SESSION_SAVE_DEBOUNCE_MS,
+    );
+  }, [saveSession]);
+
+  useEffect(() => {
+    if (!isSessionRestored) {
+      return;
+    }
+    sessionRef.current = {
+      directories: rootPaths,
+      filterMode,
+      ratingFilter,
+      sortKey,
+      selectedIds,
+      focusId,
+      previewPanelWidth,
+    };
+    scheduleSessionSave();
+  }, [
+    filterMode,
+    focusId,
+    isSessionRestored,
+    previewPanelWidth,
+    ratingFilter,
+    rootPaths,
+    scheduleSessionSave,
+    selectedIds,
+    sortKey,
+  ]);
+
+  // Closing the window must not drop a save that is still debouncing.
+  useEffect(() => {
+    const flush = () => {
+      if (sessionSaveTimeoutRef.current !== null) {
+        saveSession();
+      }
+    };
+    window.addEventListener("beforeunload", flush);
+    return () => {
+      window.removeEventListener("beforeunload", flush);
+    };
+  }, [saveSession]);
+
+  const handleGridScroll = useCallback(
+    (scrollTop: number) => {
+      gridScrollTopRef.current = scrollTop;
+      if (sessionRef.current) {
+        scheduleSessionSave();
+      }
+    },
+    [scheduleSessionSave],
+  );
+
+  useEffect(() => {
+    const unsubscribe = window.api.onTransferProgress((payload) => {
+      setTransferStatus(payload.currentPath ? payload : null);
+    });
+    return unsubscribe;
+  }, []);
+
+  const handleCancelTransfer = useCallback(() => {
+    void window.api.cancelTransfer().catch((error) => {
+      console.error("Failed to cancel transfer", error);
+    });
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = window.api.onExportProgress((payload) => {
+      if (!payload.done) {
+        setExportStatus(payload);
+        return;
+      }
+      setExportStatus((current) =>
+        current?.jobId === payload.jobId ? null : current,
+      );
+      const parts = [
+        t("app.export.done", {
+          count: formatNumber(payload.completed - payload.failed),
+        }),
+      ];
+      if (payload.failed) {
+        parts.push(
+          t("app.export.failed", { count: formatNumber(payload.failed) }),
+        );
+      }
+      if (payload.cancelled) {
+        parts.push(t("app.export.cancelled"));
+      }
+      showToast(parts.join(" · "), payload.failed ? "error" : "info");
+    });
+    return unsubscribe;
+  }, [formatNumber, showToast, t]);
+
+  const handleCancelExport = useCallback(() => {
+    if (!exportStatus) {
+      return;
+    }
+    void window.api.cancelExport(exportStatus.jobId).catch((error) => {
+      console.error("Failed to cancel export", error);
+    });
+  }, [exportStatus]);
+
+  const handleCancelScan = useCallback(() => {
+    void window.api.cancelScan().catch((error) => {
+      console.error("Failed to cancel scan", error);
+    });
+  }, []);
+
+  const handleClearDirectory = useCallback(() => {
+    void window.api.closeFolder().catch((error) => {
+      console.error("Failed to stop watching folder", error);
+    });
+    clearHistory();
+    setPhotos([]);
+    setSelectedIds([]);
+    setFocusId(null);
+    setRoots([]);
+    // Batches still in flight from the closed roots must not bring them back
+    scanFloorRef.current = latestScanIdRef.current + 1;
+    rootScanIdsRef.current = new Map();
+    setExpandedPhotoId(null);
+    setExpandedStackIds([]);
+    setFolderScopePath(null);
+    setShowDuplicates(false);
+    gridScrollTopRef.current = 0;
+    setContextMenu(null);
+    setRenameTarget(null);
+    setRenameValue("");
+    setIsRenaming(false);
+    setIsDragOverDropZone(false);
+    dragDepthRef.current = 0;
+  }, [clearHistory]);
+
+  const openFolder = useCallback(
+    async (folderPath: string) => {
+      try {
+        const result = await window.api.openDirectory(folderPath);
+        if (!result.success) {
+          showToast(result.message ?? t("app.error.unknown"), "error");
+        }
+      } catch (error) {
+        console.error("Failed to open directory", error);
+      }
+    },
+    [showToast, t],
+  );
+
+  // Removing the last root closes the workspace.
+  const handleRemoveRoot = useCallback(
+    (rootPath: string) => {
+      if (rootPaths.length <= 1) {
+        handleClearDirectory();
+        return;
+      }
+      void window.api.removeRoot(rootPath).catch((error) => {
+        console.error("Failed to remove folder", error);
+      });
+      rootScanFloorsRef.current.set(rootPath, latestScanIdRef.current + 1);
+      rootScanIdsRef.current.delete(rootPath);
+      const removedIds = new Set(
+        photosRef.current
+          .filter((photo) => isPathInside(photo.filePath, rootPath))
+          .map((photo) => photo.id),
+      );
+      clearHistory();
+      setPhotos((prev) => prev.filter((photo) => !removedIds.has(photo.id)));
+      setRoots((prev) => prev.filter((root) => root.path !== rootPath));
+      setSelectedIds((current) => current.filter((id) => !removedIds.has(id)));
+      setFocusId((current) =>
+        current && removedIds.has(current) ? null : current,
+      );
+      setExpandedPhotoId((current) =>
+        current && removedIds.has(current) ? null : current,
+      );
+      setContextMenu((current) =>
+        current && removedIds.has(current.photo.id) ? null : current,
+      );
+      setFolderScopePath((current) =>
+        current && (current === rootPath || isPathInside(current, rootPath))
+          ? null
+          : current,
+      );
+    },
+    [clearHistory, handleClearDirectory, rootPaths.length],
+  );
+
+  const handleMetadataModeChange = useCallback(
+    async (root: DirectoryEntry, mode: MetadataMode) => {
+      if (root.metadataMode === mode) {
+        return;
+      }
+      const directoryPath = root.path;
+      try {
+        const result = await window.api.setLibraryMetadataMode({
+          directory: directoryPath,
+          mode,
+        });
+        if (!result.success) {
+          window.alert(
+            result.message
+              ? t("app.error.metadataModeWithReason", {
+                  reason: result.message,
+                })
+              : t("app.error.metadataMode"),
+          );
+          return;
+        }
+        setRoots((prev) =>
+          prev.map((entry) =>
+            entry.path === directoryPath
+              ? { ...entry, metadataMode: mode }
+              : entry,
+          ),
+        );
+      } catch (error) {
+        console.error(error);
+        window.alert(t("app.error.metadataMode"));
+      }
+    },
+    [t],
+  );
+
+  const computeSelectionAfterUpdate = useCallback(
+    (
+      ids: string[],
+      patch:
+        | Partial<Pick<RatedPhoto, "rating" | "label">>
+        | ((photo: RatedPhoto) => RatedPhoto),
+    ) => {
+      if (!ids.some((id) => selectedIds.includes(id))) {
+        return null;
+      }
+
+      const ratingFilterSet =
         ratingFilter.length > 0 ? new Set(ratingFilter) : null;
+      const labelFilterSet =
+        labelFilter.length > 0 ? new Set(labelFilter) : null;
       const displayedIdSet = new Set(displayedPhotos.map((photo) => photo.id));
       const hiddenIds = ids.filter((id) => {
         const photo = photos.find((item) => item.id === id);
         if (!photo) {
           return false;
         }
-        const updated = { ...photo, rating };
-        return !shouldIncludePhoto(updated, filterMode, ratingFilterSet);
+        const updated =
+          typeof patch === "function" ? patch(photo) : { ...photo, ...patch };
+        return !shouldIncludePhoto(
+          updated,
+          filterMode,
+          ratingFilterSet,
+          labelFilterSet,
+          keywordFilter,
+        );
       });
 
       if (hiddenIds.length === 0) {
@@ -504,7 +1688,73 @@ export default function App() {
         focus: nextFocus,
       };
     },
-    [displayedPhotos, filterMode, focusId, photos, ratingFilter, selectedIds],
+    [
+      displayedPhotos,
+      filterMode,
+      focusId,
+      keywordFilter,
+      labelFilter,
+      photos,
+      ratingFilter,
+      selectedIds,
+    ],
+  );
+
+  // Writes per-photo ratings without touching the selection, so undo and redo
+  // can replay a change as it was.
+  const persistRatings = useCallback((ratings: Map<string, number>) => {
+    setPhotos((prev) =>
+      prev.map((photo) => {
+        const rating = ratings.get(photo.id);
+        return rating === undefined || rating === photo.rating
+          ? photo
+          : { ...photo, rating };
+      }),
+    );
+
+    void Promise.all(
+      Array.from(ratings, ([id, rating]) =>
+        window.api.updateRating({ id, rating }).then((result) => {
+          if (!result.success && result.message) {
+            console.error("Failed to persist rating", result.message);
+          }
+          return result;
+        }),
+      ),
+    ).catch((error) => {
+      console.error("Failed to persist ratings", error);
+    });
+  }, []);
+
+  const recordRatingChange = useCallback(
+    (targets: RatedPhoto[], next: Map<string, number>) => {
+      const changed = targets.filter(
+        (photo) => next.has(photo.id) && next.get(photo.id) !== photo.rating,
+      );
+      if (!changed.length) {
+        return;
+      }
+      const previous = new Map(
+        changed.map((photo) => [photo.id, photo.rating]),
+      );
+      const applied = new Map(
+        changed.map((photo) => [photo.id, next.get(photo.id) ?? 0]),
+      );
+      recordHistory({
+        label: t("app.history.rating", {
+          count: formatNumber(changed.length),
+        }),
+        undo: () => {
+          persistRatings(previous);
+          return true;
+        },
+        redo: () => {
+          persistRatings(applied);
+          return true;
+        },
+      });
+    },
+    [formatNumber, persistRatings, recordHistory, t],
   );
 
   const applyUniformRating = useCallback(
@@ -513,26 +1763,50 @@ export default function App() {
         return;
       }
 
-      const nextSelection = computeSelectionAfterRating(ids, rating);
+      const nextSelection = computeSelectionAfterUpdate(ids, { rating });
+
+      const targetIds = new Set(ids);
+      const ratings = new Map(ids.map((id) => [id, rating]));
+      recordRatingChange(
+        photos.filter((photo) => targetIds.has(photo.id)),
+        ratings,
+      );
+      persistRatings(ratings);
+
+      if (nextSelection) {
+        setSelectedIds(nextSelection.ids);
+        setFocusId(nextSelection.focus);
+      }
+    },
+    [computeSelectionAfterUpdate, persistRatings, photos, recordRatingChange],
+  );
+
+  const applyLabel = useCallback(
+    (ids: string[], label: ColorLabel | null) => {
+      if (!ids.length) {
+        return;
+      }
+
+      const nextSelection = computeSelectionAfterUpdate(ids, { label });
 
       const targetIds = new Set(ids);
       setPhotos((prev) =>
         prev.map((photo) =>
-          targetIds.has(photo.id) ? { ...photo, rating } : photo,
+          targetIds.has(photo.id) ? { ...photo, label } : photo,
         ),
       );
 
       void Promise.all(
         ids.map((id) =>
-          window.api.updateRating({ id, rating }).then((result) => {
+          window.api.updateLabel({ id, label }).then((result) => {
             if (!result.success && result.message) {
-              console.error("Failed to persist rating", result.message);
+              console.error("Failed to persist label", result.message);
             }
             return result;
           }),
         ),
       ).catch((error) => {
-        console.error("Failed to persist ratings", error);
+        console.error("Failed to persist labels", error);
       });
 
       if (nextSelection) {
@@ -540,7 +1814,102 @@ export default function App() {
         setFocusId(nextSelection.focus);
       }
     },
-    [computeSelectionAfterRating],
+    [computeSelectionAfterUpdate],
+  );
+
+  // Pressing a label key again removes it, like Lightroom.
+  const toggleLabel = useCallback(
+    (targets: RatedPhoto[], label: ColorLabel) => {
+      const allLabeled = targets.every((photo) => photo.label === label);
+      applyLabel(
+        targets.map((photo) => photo.id),
+        allLabeled ? null : label,
+      );
+    },
+    [applyLabel],
+  );
+
+  // Flags do not take part in filtering, so the selection stays put.
+  const applyFlag = useCallback((ids: string[], flag: PhotoFlag | null) => {
+    if (!ids.length) {
+      return;
+    }
+
+    const targetIds = new Set(ids);
+    setPhotos((prev) =>
+      prev.map((photo) =>
+        targetIds.has(photo.id) ? { ...photo, flag } : photo,
+      ),
+    );
+
+    void Promise.all(
+      ids.map((id) =>
+        window.api.updateFlag({ id, flag }).then((result) => {
+          if (!result.success && result.message) {
+            console.error("Failed to persist flag", result.message);
+          }
+          return result;
+        }),
+      ),
+    ).catch((error) => {
+      console.error("Failed to persist flags", error);
+    });
+  }, []);
+
+  const updateKeywords = useCallback(
+    (ids: string[], keywords: string[], mode: "add" | "remove") => {
+      if (!ids.length || !keywords.length) {
+        return;
+      }
+
+      const update = (photo: RatedPhoto): RatedPhoto => ({
+        ...photo,
+        keywords:
+          mode === "add"
+            ? mergeKeywords(photo.keywords, keywords)
+            : removeKeywords(photo.keywords, keywords),
+      });
+      const nextSelection = computeSelectionAfterUpdate(ids, update);
+
+      const targetIds = new Set(ids);
+      setPhotos((prev) =>
+        prev.map((photo) => (targetIds.has(photo.id) ? update(photo) : photo)),
+      );
+      if (mode === "add") {
+        setKnownKeywords((prev) => mergeKeywords(prev, keywords));
+      }
+
+      const request =
+        mode === "add"
+          ? window.api.addKeywords({ ids, keywords })
+          : window.api.removeKeywords({ ids, keywords });
+      void request
+        .then((result) => {
+          if (!result.success && result.message) {
+            console.error("Failed to persist keywords", result.message);
+          }
+        })
+        .catch((error) => {
+          console.error("Failed to persist keywords", error);
+        });
+
+      if (nextSelection) {
+        setSelectedIds(nextSelection.ids);
+        setFocusId(nextSelection.focus);
+      }
+    },
+    [computeSelectionAfterUpdate],
+  );
+
+  const addKeywords = useCallback(
+    (ids: string[], keywords: string[]) => updateKeywords(ids, keywords, "add"),
+    [updateKeywords],
+  );
+
+  const removeKeyword = useCallback(
+    (ids: string[], keyword: string) =>
+      updateKeywords(ids, [keyword], "remove"),
+    [updateKeywords],
   );
 
   const applyRelativeRating = useCallback(
@@ -568,28 +1937,10 @@ export default function App() {
       const updateMap = new Map(
         updates.map((entry) => [entry.id, entry.rating]),
       );
-      setPhotos((prev) =>
-        prev.map((photo) =>
-          updateMap.has(photo.id)
-            ? { ...photo, rating: updateMap.get(photo.id)! }
-            : photo,
-        ),
-      );
-
-      void Promise.all(
-        updates.map((entry) =>
-          window.api.updateRating(entry).then((result) => {
-            if (!result.success && result.message) {
-              console.error("Failed to persist rating", result.message);
-            }
-            return result;
-          }),
-        ),
-      ).catch((error) => {
-        console.error("Failed to persist ratings", error);
-      });
+      recordRatingChange(targets, updateMap);
+      persistRatings(updateMap);
     },
-    [],
+    [persistRatings, recordRatingChange],
   );
 
   const handleRate = useCallback(
@@ -603,6 +1954,14 @@ export default function App() {
     setRatingFilter(next);
   }, []);
 
+  const handleLabelFilterChange = useCallback((next: LabelFilterValue[]) => {
+    setLabelFilter(next);
+  }, []);
+
+  const handleKeywordFilterChange = useCallback((next: string[]) => {
+    setKeywordFilter(next);
+  }, []);
+
   const handleSelect = useCallback(
     (photo: RatedPhoto, event?: ReactMouseEvent<HTMLDivElement>) => {
       const isToggle = Boolean(event?.metaKey || event?.ctrlKey);
@@ -749,14 +2108,14 @@ export default function App() {
   );
 
   const emptyGridContent = useMemo(() => {
-    if (filterMode === "rated") {
+    if (rootPaths.length > 0 && filterMode === "rated") {
       return (
         <p className="max-w-xs text-center text-sm text-indigo-200/80">
           {t("app.empty.rated")}
         </p>
       );
     }
-    if (filterMode === "unrated") {
+    if (rootPaths.length > 0 && filterMode === "unrated") {
       return (
         <p className="max-w-xs text-center text-sm text-indigo-200/80">
           {t("app.empty.unrated")}
@@ -789,13 +2148,34 @@ export default function App() {
             {t("app.dnd.emptyDescription")}
           </p>
         </div>
+        {rootPaths.length === 0 && recentFolders.length > 0 ? (
+          <section className="mt-2 w-80 max-w-full text-left">
+            <h2 className="px-3 pb-1 text-[11px] font-semibold uppercase tracking-wide text-indigo-200/80">
+              {t("recentFolders.title")}
+            </h2>
+            <RecentFolderList
+              folders={recentFolders}
+              onOpen={(path) => void handleOpenRecentFolder(path)}
+              onForget={handleForgetRecentFolder}
+              disabled={isLoading}
+            />
+          </section>
+        ) : null}
       </div>
     );
-  }, [filterMode, t]);
+  }, [
+    filterMode,
+    handleForgetRecentFolder,
+    handleOpenRecentFolder,
+    isLoading,
+    recentFolders,
+    rootPaths.length,
+    t,
+  ]);
 
   const toggleFilter = useCallback(() => {
     setFilterMode((prev) => {
-      const order: FilterMode[] = ["all", "rated", "unrated"];
+      const order = FILTER_MODES;
       const counts: Record<FilterMode, number> = {
         all: totalCount,
         rated: ratedCount,
@@ -814,17 +2194,9 @@ export default function App() {
 
   const cycleSort = useCallback(() => {
     setSortKey((prev) => {
-      const order: SortKey[] = [
-        "modifiedDesc",
-        "modifiedAsc",
-        "nameAsc",
-        "nameDesc",
-        "ratingDesc",
-        "ratingAsc",
-      ];
-      const currentIndex = order.indexOf(prev);
-      const nextIndex = (currentIndex + 1) % order.length;
-      return order[nextIndex];
+      const currentIndex = SORT_KEYS.indexOf(prev);
+      const nextIndex = (currentIndex + 1) % SORT_KEYS.length;
+      return SORT_KEYS[nextIndex];
     });
   }, []);
 
@@ -832,25 +2204,68 @@ export default function App() {
     setContextMenu(null);
   }, []);
 
-  const deletePhotos = useCallback(
-    async (targets: RatedPhoto[]) => {
-      if (!targets.length) {
-        return;
+  // Puts trashed photos back and selects them; false when none came back.
+  const restorePhotos = useCallback(
+    async (targets: RatedPhoto[]): Promise<boolean> => {
+      const restored: RatedPhoto[] = [];
+      for (const target of targets) {
+        try {
+          const result = await window.api.restorePhoto(target.filePath);
+          if (result.success && result.photo) {
+            restored.push({
+              ...result.photo,
+              rating: result.rating ?? 0,
+              label: result.label ?? null,
+              flag: result.flag ?? null,
+              keywords: result.keywords ?? [],
+            });
+          } else if (result.message) {
+            console.error("Failed to restore photo", result.message);
+          }
+        } catch (error) {
+          console.error("Failed to restore photo", target.filePath, error);
+        }
       }
 
-      const confirmationMessage =
-        targets.length === 1
-          ? t("app.confirm.delete", { name: targets[0].name })
-          : t("app.confirm.deleteMany", {
-              count: formatNumber(targets.length),
-            });
+      if (restored.length === 0) {
+        return false;
+      }
 
-      const confirmed = window.confirm(confirmationMessage);
-      if (!confirmed) {
-        return;
+      // The folder watcher may have put some of them back already.
+      const existingIds = new Set(photosRef.current.map((photo) => photo.id));
+      const added = restored.filter((photo) => !existingIds.has(photo.id));
+      setPhotos((prev) => {
+        const current = new Set(prev.map((photo) => photo.id));
+        const missing = restored.filter((photo) => !current.has(photo.id));
+        return missing.length > 0 ? [...prev, ...missing] : prev;
+      });
+      if (added.length > 0) {
+        setRoots((prev) =>
+          prev.map((root) => {
+            const addedCount = added.filter((photo) =>
+              isPathInside(photo.filePath, root.path),
+            ).length;
+            return addedCount > 0
+              ? { ...root, count: root.count + addedCount }
+              : root;
+          }),
+        );
       }
+      const restoredIds = restored.map((photo) => photo.id);
+      setSelectedIds(restoredIds);
+      setFocusId(restoredIds[restoredIds.length - 1] ?? null);
+      return true;
+    },
+    [],
+  );
 
+  // Moves photos to the trash and drops them from the grid. Returns the ones
+  // whose files can be put back by undo.
+  const trashPhotos = useCallback(
+    async (targets: RatedPhoto[]): Promise<RatedPhoto[]> => {
       const successfulIds: string[] = [];
+      const restorable: RatedPhoto[] = [];
+      let lostCount = 0;
       const failed: Array<{
         photo: RatedPhoto;
         result: DeletePhotoResult | null;
@@ -861,6 +2276,11 @@ export default function App() {
           const result = await window.api.deletePhoto(target.filePath);
           if (result.success) {
             successfulIds.push(target.id);
+            if (result.restorable) {
+              restorable.push(target);
+            } else if (result.lostInTrash) {
+              lostCount += 1;
+            }
           } else {
             failed.push({ photo: target, result });
           }
@@ -878,7 +2298,7 @@ export default function App() {
             })
           : t("app.error.deleteUnexpected");
         window.alert(fallbackMessage);
-        return;
+        return [];
       }
 
       if (failed.length > 0) {
@@ -892,29 +2312,37 @@ export default function App() {
       }
 
       if (successfulIds.length === 0) {
-        return;
+        return [];
+      }
+
+      if (lostCount > 0) {
+        showToast(
+          t("app.history.deleteNotRestorable", {
+            count: formatNumber(lostCount),
+          }),
+        );
       }
 
       const successIdSet = new Set(successfulIds);
 
       setPhotos((prev) => prev.filter((photo) => !successIdSet.has(photo.id)));
 
-      setDirectory((prev) => {
-        if (!prev) {
-          return prev;
-        }
-        const removedCount = targets.filter(
-          (photo) =>
-            successIdSet.has(photo.id) && photo.filePath.startsWith(prev.path),
-        ).length;
-        if (removedCount === 0) {
-          return prev;
-        }
-        return {
-          ...prev,
-          count: Math.max(0, prev.count - removedCount),
-        };
-      });
+      setRoots((prev) =>
+        prev.map((root) => {
+          const removedCount = targets.filter(
+            (photo) =>
+              successIdSet.has(photo.id) &&
+              isPathInside(photo.filePath, root.path),
+          ).length;
+          if (removedCount === 0) {
+            return root;
+          }
+          return {
+            ...root,
+            count: Math.max(0, root.count - removedCount),
+          };
+        }),
+      );
 
       setSelectedIds((current) =>
         current.filter((id) => !successIdSet.has(id)),
@@ -925,10 +2353,216 @@ export default function App() {
       setExpandedPhotoId((current) =>
         current && successIdSet.has(current) ? null : current,
       );
+      return restorable;
+    },
+    [formatNumber, showToast, t],
+  );
+
+  const deletePhotos = useCallback(
+    async (targets: RatedPhoto[], customConfirmation?: string) => {
+      if (!targets.length) {
+        return;
+      }
+
+      const confirmationMessage =
+        customConfirmation ??
+        (targets.length === 1
+          ? t("app.confirm.delete", {
+              name:
+                targets[0].members?.map((member) => member.name).join(", ") ??
+                targets[0].name,
+            })
+          : t("app.confirm.deleteMany", {
+              count: formatNumber(targets.length),
+            }));
+
+      const confirmed = window.confirm(confirmationMessage);
+      if (!confirmed) {
+        return;
+      }
+
+      const restorable = await trashPhotos(targets);
+      if (restorable.length > 0) {
+        recordHistory({
+          label: t("app.history.delete", {
+            count: formatNumber(restorable.length),
+          }),
+          undo: () => restorePhotos(restorable),
+          redo: async () => (await trashPhotos(restorable)).length > 0,
+        });
+      }
     },
-    [formatNumber, t],
+    [formatNumber, recordHistory, restorePhotos, t, trashPhotos],
   );
 
+  const stepHistory = useCallback(
+    async (direction: "undo" | "redo") => {
+      const result: HistoryStepResult | null =
+        direction === "undo" ? await undoHistory() : await redoHistory();
+      if (!result) {
+        return;
+      }
+      const action = result.entry.label;
+      if (result.success) {
+        showToast(
+          direction === "undo"
+            ? t("app.history.undone", { action })
+            : t("app.history.redone", { action }),
+        );
+      } else {
+        showToast(
+          direction === "undo"
+            ? t("app.history.undoFailed", { action })
+            : t("app.history.redoFailed", { action }),
+          "error",
+        );
+      }
+    },
+    [redoHistory, showToast, t, undoHistory],
+  );
+
+  // Returns false when the selection is too small or too large to compare.
+  const openCompare = useCallback((targets: RatedPhoto[]): boolean => {
+    if (
+      targets.length < MIN_COMPARE_COUNT ||
+      targets.length > MAX_COMPARE_COUNT
+    ) {
+      return false;
+    }
+    setExpandedPhotoId(null);
+    setCompareIds(targets.map((photo) => photo.id));
+    return true;
+  }, []);
+
+  const closeCompare = useCallback(() => {
+    setCompareIds(null);
+  }, []);
+
+  const rateComparedPhoto = useCallback(
+    (id: string, rating: number) => {
+      applyUniformRating([id], rating);
+    },
+    [applyUniformRating],
+  );
+
+  // Picks the chosen frame, rejects the rest of the compared set and returns
+  // to the grid with the keeper selected.
+  const keepComparedPhoto = useCallback(
+    (id: string) => {
+      if (!compareIds) {
+        return;
+      }
+      applyFlag([id], "picked");
+      applyFlag(
+        compareIds.filter((compareId) => compareId !== id),
+        "rejected",
+      );
+      setCompareIds(null);
+      setSelectedIds([id]);
+      setFocusId(id);
+    },
+    [applyFlag, compareIds],
+  );
+
+  // Collapsing moves a selection inside the stack onto its cover, so the
+  // preview does not go blank.
+  const toggleStack = useCallback(
+    (photo: RatedPhoto) => {
+      const stack = burstStacks.get(photo.id);
+      if (!stack) {
+        return;
+      }
+      const isExpanded = expandedStackIds.includes(stack.id);
+      setExpandedStackIds((prev) =>
+        isExpanded ? prev.filter((id) => id !== stack.id) : [...prev, stack.id],
+      );
+      if (!isExpanded) {
+        return;
+      }
+      const memberIds = new Set(stack.photoIds);
+      if (!selectedIds.some((id) => memberIds.has(id))) {
+        return;
+      }
+      const cover = pickStackCover(
+        displayedPhotos.filter((photo) => memberIds.has(photo.id)),
+      );
+      if (cover) {
+        setSelectedIds((prev) => [
+          ...prev.filter((id) => !memberIds.has(id)),
+          cover.id,
+        ]);
+        setFocusId(cover.id);
+      }
+    },
+    [burstStacks, displayedPhotos, expandedStackIds, selectedIds],
+  );
+
+  // Stack actions cover the whole burst, including frames hidden by filters.
+  const rateStack = useCallback(
+    (photo: RatedPhoto, rating: number) => {
+      const stack = burstStacks.get(photo.id);
+      if (stack) {
+        applyUniformRating(stack.photoIds, rating);
+      }
+    },
+    [applyUniformRating, burstStacks],
+  );
+
+  const keepInStack = useCallback(
+    (photo: RatedPhoto) => {
+      const stack = burstStacks.get(photo.id);
+      if (!stack) {
+        return;
+      }
+      applyFlag([photo.id], "picked");
+      applyFlag(
+        stack.photoIds.filter((id) => id !== photo.id),
+        "rejected",
+      );
+      setExpandedStackIds((prev) => prev.filter((id) => id !== stack.id));
+      setSelectedIds([photo.id]);
+      setFocusId(photo.id);
+    },
+    [applyFlag, burstStacks],
+  );
+
+  const rejectedPhotos = useMemo(
+    () => photos.filter((photo) => photo.flag === "rejected"),
+    [photos],
+  );
+
+  // Purges every rejected photo in the folder, including ones hidden by the
+  // current filters, after a single confirmation.
+  const deleteRejectedPhotos = useCallback(() => {
+    if (rejectedPhotos.length === 0) {
+      return;
+    }
+    const fileCount = rejectedPhotos.reduce(
+      (total, photo) => total + (photo.members?.length ?? 1),
+      0,
+    );
+    const totalSize = rejectedPhotos.reduce(
+      (total, photo) => total + getPhotoFileSize(photo),
+      0,
+    );
+    void deletePhotos(
+      rejectedPhotos,
+      t("app.confirm.deleteRejected", {
+        count: formatNumber(rejectedPhotos.length),
+        files: formatNumber(fileCount),
+        size: formatBytes(totalSize),
+      }),
+    );
+  }, [deletePhotos, formatNumber, rejectedPhotos, t]);
+
+  const toggleLoupeInfo = useCallback(() => {
+    setShowLoupeInfo((value) => !value);
+  }, []);
+
+  const closeDuplicates = useCallback(() => {
+    setShowDuplicates(false);
+  }, []);
+
   const handleDelete = useCallback(
     (photo: RatedPhoto) => {
       void deletePhotos([photo]);
@@ -971,36 +2605,287 @@ export default function App() {
       handleDeleteSelection();
       return;
     }
-    const target = contextMenu.photo;
-    void handleDelete(target);
+    const target = contextMenu.photo;
+    void handleDelete(target);
+  }, [
+    closeContextMenu,
+    contextMenu,
+    handleDelete,
+    handleDeleteSelection,
+    selectionCount,
+  ]);
+
+  const handleContextMenuReveal = useCallback(() => {
+    if (!contextMenu) {
+      return;
+    }
+    const target = contextMenu.photo;
+    closeContextMenu();
+    void handleReveal(target);
+  }, [closeContextMenu, contextMenu, handleReveal]);
+
+  const handleContextMenuRename = useCallback(() => {
+    if (!contextMenu) {
+      return;
+    }
+    const target = contextMenu.photo;
+    closeContextMenu();
+    if (selectionCount !== 1) {
+      return;
+    }
+    setRenameTarget(target);
+  }, [closeContextMenu, contextMenu, selectionCount]);
+
+  const topRatedPhotos = useMemo(
+    () => photos.filter((photo) => photo.rating === 5),
+    [photos],
+  );
+
+  const openTransferDialog = useCallback(
+    (mode: TransferMode, targets: RatedPhoto[]) => {
+      if (targets.length === 0) {
+        return;
+      }
+      setTransferRequest({ mode, targets });
+    },
+    [],
+  );
+
+  const handleContextMenuTransfer = useCallback(
+    (mode: TransferMode) => {
+      if (!contextMenu) {
+        return;
+      }
+      const targets =
+        selectionCount > 1 ? [...selectedPhotos] : [contextMenu.photo];
+      closeContextMenu();
+      openTransferDialog(mode, targets);
+    },
+    [
+      closeContextMenu,
+      contextMenu,
+      openTransferDialog,
+      selectedPhotos,
+      selectionCount,
+    ],
+  );
+
+  const handleContextMenuCopyTopRated = useCallback(() => {
+    closeContextMenu();
+    openTransferDialog("copy", topRatedPhotos);
+  }, [closeContextMenu, openTransferDialog, topRatedPhotos]);
+
+  const closeTransferDialog = useCallback(() => {
+    setTransferRequest(null);
+  }, []);
+
+  const openExportDialog = useCallback((targets: RatedPhoto[]) => {
+    if (targets.length > 0) {
+      setExportTargets(targets);
+    }
+  }, []);
+
+  const handleContextMenuExport = useCallback(() => {
+    if (!contextMenu) {
+      return;
+    }
+    const targets =
+      selectionCount > 1 ? [...selectedPhotos] : [contextMenu.photo];
+    closeContextMenu();
+    openExportDialog(targets);
+  }, [
+    closeContextMenu,
+    contextMenu,
+    openExportDialog,
+    selectedPhotos,
+    selectionCount,
+  ]);
+
+  const exportSample = useMemo<ExportFileNameValues | null>(() => {
+    if (!exportTargets || exportTargets.length === 0) {
+      return null;
+    }
+    const first = exportTargets[0];
+    const dot = first.name.lastIndexOf(".");
+    return {
+      name: dot > 0 ? first.name.slice(0, dot) : first.name,
+      index: 1,
+      total: exportTargets.length,
+      takenAt: first.capture?.capturedAt ?? first.modifiedAt,
+      rating: first.rating,
+    };
+  }, [exportTargets]);
+
+  const closeExportDialog = useCallback(() => {
+    setExportTargets(null);
+  }, []);
+
+  const handleChooseExportDestination = useCallback(async () => {
+    try {
+      const destination = await window.api.selectTransferDestination();
+      if (destination) {
+        setExportOptions((current) => ({ ...current, destination }));
+      }
+    } catch (error) {
+      console.error("Failed to choose destination", error);
+    }
+  }, []);
+
+  const handleChooseWatermarkImage = useCallback(async () => {
+    try {
+      const imagePath = await window.api.selectWatermarkImage();
+      if (imagePath) {
+        setExportOptions((current) =>
+          current.watermark
+            ? {
+                ...current,
+                watermark: { ...current.watermark, value: imagePath },
+              }
+            : current,
+        );
+      }
+    } catch (error) {
+      console.error("Failed to choose watermark image", error);
+    }
+  }, []);
+
+  const handleExportSubmit = useCallback(async () => {
+    if (!exportTargets || !exportOptions.destination) {
+      return;
+    }
+    setExportTargets(null);
+    const exportPhotos: ExportPhoto[] = exportTargets.map((photo) => ({
+      path: photo.filePath,
+      modifiedAt: photo.modifiedAt,
+      capturedAt: photo.capture?.capturedAt ?? null,
+      rating: photo.rating,
+    }));
+    try {
+      const result = await window.api.startExport({
+        photos: exportPhotos,
+        options: exportOptions,
+      });
+      if (!result.success) {
+        showToast(result.message ?? t("app.error.unknown"), "error");
+      }
+    } catch (error) {
+      console.error("Failed to start export", error);
+      showToast(t("app.error.unknown"), "error");
+    }
+  }, [exportOptions, exportTargets, showToast, t]);
+
+  const handleChooseTransferDestination = useCallback(async () => {
+    try {
+      const destination = await window.api.selectTransferDestination();
+      if (destination) {
+        setTransferDestination(destination);
+      }
+    } catch (error) {
+      console.error("Failed to choose destination", error);
+    }
+  }, []);
+
+  // Moved photos leave the grid right away; the folder watcher brings them
+  // back if the destination is inside the workspace.
+  const removeMovedPhotos = useCallback(
+    (movedIds: Set<string>) => {
+      if (movedIds.size === 0) {
+        return;
+      }
+      for (const rootPath of rootPaths) {
+        const count = photosRef.current.filter(
+          (photo) =>
+            movedIds.has(photo.id) && isPathInside(photo.filePath, rootPath),
+        ).length;
+        if (count > 0) {
+          adjustRootCount(rootPath, -count);
+        }
+      }
+      setPhotos((prev) => prev.filter((photo) => !movedIds.has(photo.id)));
+      setSelectedIds((current) => current.filter((id) => !movedIds.has(id)));
+      setFocusId((current) =>
+        current && movedIds.has(current) ? null : current,
+      );
+      setExpandedPhotoId((current) =>
+        current && movedIds.has(current) ? null : current,
+      );
+    },
+    [adjustRootCount, rootPaths],
+  );
+
+  const handleTransferSubmit = useCallback(async () => {
+    if (!transferRequest || !transferDestination) {
+      return;
+    }
+    const { mode, targets } = transferRequest;
+    setTransferRequest(null);
+    const payload = {
+      paths: targets.map((photo) => photo.filePath),
+      destination: transferDestination,
+      options: transferOptions,
+    };
+    try {
+      const result =
+        mode === "copy"
+          ? await window.api.copyPhotos(payload)
+          : await window.api.movePhotos(payload);
+      if (!result.success) {
+        showToast(result.message ?? t("app.error.unknown"), "error");
+        return;
+      }
+      const transferredIds = Object.keys(result.transferred ?? {});
+      if (mode === "move") {
+        removeMovedPhotos(new Set(transferredIds));
+      }
+      const count = formatNumber(transferredIds.length);
+      const parts = [
+        mode === "copy"
+          ? t("app.transfer.copied", { count })
+          : t("app.transfer.moved", { count }),
+      ];
+      if (result.skipped) {
+        parts.push(
+          t("app.transfer.skipped", { count: formatNumber(result.skipped) }),
+        );
+      }
+      if (result.failed) {
+        parts.push(
+          t("app.transfer.failed", { count: formatNumber(result.failed) }),
+        );
+      }
+      if (result.sidecarsFailed) {
+        parts.push(
+          t("app.transfer.sidecarsFailed", {
+            count: formatNumber(result.sidecarsFailed),
+          }),
+        );
+      }
+      if (result.cancelled) {
+        parts.push(t("app.transfer.cancelled"));
+      }
+      showToast(
+        parts.join(" · "),
+        result.failed || result.sidecarsFailed ? "error" : "info",
+      );
+    } catch (error) {
+      console.error(`Failed to ${mode} photos`, error);
+      showToast(t("app.error.unknown"), "error");
+    } finally {
+      setTransferStatus(null);
+    }
   }, [
-    closeContextMenu,
-    contextMenu,
-    handleDelete,
-    handleDeleteSelection,
-    selectionCount,
+    formatNumber,
+    removeMovedPhotos,
+    showToast,
+    t,
+    transferDestination,
+    transferOptions,
+    transferRequest,
   ]);
 
-  const handleContextMenuReveal = useCallback(() => {
-    if (!contextMenu) {
-      return;
-    }
-    const target = contextMenu.photo;
-    closeContextMenu();
-    void handleReveal(target);
-  }, [closeContextMenu, contextMenu, handleReveal]);
-
-  const handleContextMenuRename = useCallback(() => {
-    if (!contextMenu) {
-      return;
-    }
-    const target = contextMenu.photo;
-    closeContextMenu();
-    if (selectionCount !== 1) {
-      return;
-    }
-    setRenameTarget(target);
-  }, [closeContextMenu, contextMenu, selectionCount]);
+  const closeSettingsDialog = useCallback(() => {
+    setShowSettings(false);
+  }, []);
 
   const closeRenameDialog = useCallback(() => {
     setRenameTarget(null);
@@ -1008,6 +2893,46 @@ export default function App() {
     setIsRenaming(false);
   }, []);
 
+  const applyRename = useCallback(
+    async (
+      photo: Pick<RatedPhoto, "id" | "filePath">,
+      newName: string,
+    ): Promise<RenamePhotoResult> => {
+      const result = await window.api.renamePhoto({
+        filePath: photo.filePath,
+        newName,
+      });
+      const renamed = result.photo;
+      if (!result.success || !renamed) {
+        return result;
+      }
+
+      setPhotos((prev) =>
+        prev.map((item) =>
+          item.id === photo.id
+            ? {
+                ...item,
+                ...renamed,
+              }
+            : item,
+        ),
+      );
+
+      setSelectedIds((current) => {
+        if (!current.includes(photo.id)) {
+          return current;
+        }
+        return current.map((id) => (id === photo.id ? renamed.id : id));
+      });
+      setFocusId((current) => (current === photo.id ? renamed.id : current));
+      setExpandedPhotoId((current) =>
+        current === photo.id ? renamed.id : current,
+      );
+      return result;
+    },
+    [],
+  );
+
   const handleRenameSubmit = useCallback(async () => {
     if (!renameTarget) {
       return;
@@ -1024,11 +2949,9 @@ export default function App() {
 
     setIsRenaming(true);
     try {
-      const result = await window.api.renamePhoto({
-        filePath: renameTarget.filePath,
-        newName: trimmed,
-      });
-      if (!result.success || !result.photo) {
+      const result = await applyRename(renameTarget, trimmed);
+      const renamed = result.photo;
+      if (!result.success || !renamed) {
         window.alert(
           result.message
             ? t("app.error.renameWithReason", { reason: result.message })
@@ -1038,31 +2961,16 @@ export default function App() {
         return;
       }
 
-      setPhotos((prev) =>
-        prev.map((item) =>
-          item.id === renameTarget.id
-            ? {
-                ...item,
-                ...result.photo,
-              }
-            : item,
-        ),
-      );
-
-      setSelectedIds((current) => {
-        if (!current.includes(renameTarget.id)) {
-          return current;
-        }
-        return current.map((id) =>
-          id === renameTarget.id ? result.photo.id : id,
-        );
+      const original = {
+        id: renameTarget.id,
+        filePath: renameTarget.filePath,
+        name: renameTarget.name,
+      };
+      recordHistory({
+        label: t("app.history.rename", { name: renamed.name }),
+        undo: async () => (await applyRename(renamed, original.name)).success,
+        redo: async () => (await applyRename(original, renamed.name)).success,
       });
-      setFocusId((current) =>
-        current === renameTarget.id ? result.photo.id : current,
-      );
-      setExpandedPhotoId((current) =>
-        current === renameTarget.id ? result.photo.id : current,
-      );
 
       closeRenameDialog();
     } catch (error) {
@@ -1070,7 +2978,14 @@ export default function App() {
       window.alert(t("app.error.rename"));
       setIsRenaming(false);
     }
-  }, [closeRenameDialog, renameTarget, renameValue, t]);
+  }, [
+    applyRename,
+    closeRenameDialog,
+    recordHistory,
+    renameTarget,
+    renameValue,
+    t,
+  ]);
 
   useEffect(() => {
     if (!contextMenu) {
@@ -1163,6 +3078,10 @@ export default function App() {
 
       const isMeta = event.metaKey || event.ctrlKey;
 
+      if (showSettings) {
+        return;
+      }
+
       if (contextMenu) {
         if (event.key === "Escape") {
           event.preventDefault();
@@ -1171,6 +3090,17 @@ export default function App() {
         return;
       }
 
+      if ((event.key === "z" || event.key === "Z") && isMeta) {
+        event.preventDefault();
+        void stepHistory(event.shiftKey ? "redo" : "undo");
+        return;
+      }
+
+      // The compare and duplicates views handle their own keys.
+      if (compareIds || showDuplicates) {
+        return;
+      }
+
       if (
         (event.key === "?" && !isMeta) ||
         (event.key === "/" && event.shiftKey && !isMeta)
@@ -1233,6 +3163,12 @@ export default function App() {
         return;
       }
 
+      if ((event.key === "e" || event.key === "E") && isMeta) {
+        event.preventDefault();
+        openExportDialog(selectedPhotos);
+        return;
+      }
+
       if (event.key === "ArrowLeft") {
         event.preventDefault();
         if (event.shiftKey) {
@@ -1265,6 +3201,13 @@ export default function App() {
         return;
       }
 
+      if ((event.key === "c" || event.key === "C") && !isMeta) {
+        if (openCompare(selectedPhotos)) {
+          event.preventDefault();
+        }
+        return;
+      }
+
       if (
         (event.key === "Delete" || event.key === "Backspace") &&
         selectionCount > 0
@@ -1289,27 +3232,49 @@ export default function App() {
       if (/^[0-5]$/.test(event.key) && selectionCount > 0) {
         event.preventDefault();
         applyUniformRating(selectedIds, Number(event.key));
+        return;
+      }
+
+      const shortcutLabel = LABEL_SHORTCUTS[event.key];
+      if (shortcutLabel && selectionCount > 0) {
+        event.preventDefault();
+        toggleLabel(selectedPhotos, shortcutLabel);
+        return;
+      }
+
+      const flagKey = event.key.toLowerCase();
+      if (flagKey in FLAG_SHORTCUTS && !isMeta && selectionCount > 0) {
+        event.preventDefault();
+        applyFlag(selectedIds, FLAG_SHORTCUTS[flagKey]);
       }
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, [
+    applyFlag,
     applyRelativeRating,
     applyUniformRating,
     closeContextMenu,
+    compareIds,
     contextMenu,
     cycleSort,
     expandedPhotoId,
     handleDeleteSelection,
     handleLoad,
     moveSelection,
+    openCompare,
+    openExportDialog,
     selectEdge,
     selectedIds,
     selectedPhotos,
     selectionCount,
+    showDuplicates,
+    showSettings,
     showShortcuts,
+    stepHistory,
     toggleFilter,
+    toggleLabel,
   ]);
 
   useEffect(() => {
@@ -1482,9 +3447,6 @@ export default function App() {
       event.preventDefault();
       dragDepthRef.current = 0;
       setIsDragOverDropZone(false);
-      if (isLoading) {
-        return;
-      }
 
       const files = Array.from(
         event.dataTransfer?.files ?? [],
@@ -1517,18 +3479,26 @@ export default function App() {
         return;
       }
 
-      setIsLoading(true);
+      // Dropped folders join the workspace; holding Shift replaces it with
+      // them instead.
+      let replace = event.shiftKey;
+      const requestId = beginFolderLoad();
       try {
         let handled = false;
         let sawDirectory = directoriesFromEntries.length > 0;
         for (const candidate of candidates) {
-          const payload = await window.api.loadFolder(candidate);
+          const payload = replace
+            ? await window.api.loadFolder(candidate)
+            : await window.api.addRoot(candidate);
+          if (payload.message) {
+            showToast(payload.message, "error");
+          }
           if (payload.directory) {
             sawDirectory = true;
             if (payload.photos.length > 0) {
               applyCollection(payload);
               handled = true;
-              break;
+              replace = false;
             }
           }
         }
@@ -1539,10 +3509,10 @@ export default function App() {
       } catch (error) {
         console.error(error);
       } finally {
-        setIsLoading(false);
+        finishFolderLoad(requestId);
       }
     },
-    [applyCollection, isLoading, t],
+    [applyCollection, beginFolderLoad, finishFolderLoad, showToast, t],
   );
 
   return (
@@ -1562,10 +3532,26 @@ export default function App() {
               type="button"
               className="rounded-full bg-gradient-to-r from-sky-400 via-sky-500 to-indigo-500 px-5 py-2.5 text-sm font-semibold text-slate-900 shadow-[0_10px_24px_rgba(68,131,255,0.28)] transition hover:shadow-[0_12px_28px_rgba(68,131,255,0.36)] disabled:cursor-progress disabled:opacity-60"
               onClick={() => void handleLoad()}
-              disabled={isLoading}
             >
               {t("app.actions.loadFolder")}
             </button>
+            {roots.length > 0 ? (
+              <button
+                type="button"
+                className="rounded-full border border-indigo-300/30 bg-indigo-400/10 px-4 py-2.5 text-sm font-semibold text-indigo-100 transition hover:bg-indigo-300/20 disabled:cursor-progress disabled:opacity-60"
+                onClick={() => void handleAddRoot()}
+                disabled={isLoading}
+                title={t("app.tooltips.addFolder")}
+              >
+                {t("app.actions.addFolder")}
+              </button>
+            ) : null}
+            <RecentFoldersMenu
+              folders={recentFolders}
+              onOpen={(path) => void handleOpenRecentFolder(path)}
+              onForget={handleForgetRecentFolder}
+              disabled={isLoading}
+            />
             <button
               type="button"
               className="rounded-full border border-indigo-300/30 bg-indigo-400/10 px-4 py-2 text-sm font-semibold text-indigo-100 transition hover:bg-indigo-300/20"
@@ -1591,11 +3577,34 @@ export default function App() {
               </svg>
               <span className="sr-only">{t("app.shortcuts.button")}</span>
             </button>
+            <button
+              type="button"
+              className="rounded-full border border-indigo-300/30 bg-indigo-400/10 px-4 py-2 text-sm font-semibold text-indigo-100 transition hover:bg-indigo-300/20"
+              onClick={() => setShowSettings(true)}
+              title={t("app.tooltips.settings")}
+              aria-label={t("settingsDialog.ariaLabel")}
+            >
+              <svg
+                aria-hidden="true"
+                focusable="false"
+                className="h-5 w-5 text-indigo-100"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth={1.6}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <circle cx="12" cy="12" r="3" />
+                <path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 1 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 1 1-4 0v-.09a1.65 1.65 0 0 0-1.08-1.51 1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 1 1-2.83-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 1 1 0-4h.09a1.65 1.65 0 0 0 1.51-1.08 1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 1 1 2.83-2.83l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 1 1 4 0v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 1 1 2.83 2.83l-.06.06a1.65 1.65 0 0 0-.33 1.82V9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 1 1 0 4h-.09a1.65 1.65 0 0 0-1.51 1z" />
+              </svg>
+              <span className="sr-only">{t("settingsDialog.title")}</span>
+            </button>
           </div>
         </header>
 
         <AnimatePresence initial={false}>
-          {directory ? (
+          {roots.length > 0 ? (
             <motion.div
               key="directory"
               className="flex flex-wrap items-center gap-2"
@@ -1604,55 +3613,205 @@ export default function App() {
               animate={{ opacity: 1, height: "auto" }}
               exit={{ opacity: 0, height: 0 }}
             >
-              <span
-                key={directory.path}
-                className="inline-flex items-center gap-2 rounded-full bg-indigo-400/20 px-3 py-1 text-xs text-indigo-100"
-                title={directory.path}
-              >
+              {roots.map((root, index) => (
+                <div key={root.path} className="flex items-center gap-1">
+                  <span
+                    className={`inline-flex items-center gap-2 rounded-full px-3 py-1 text-xs ${roots.length > 1 ? getRootBadgeClass(index) : "bg-indigo-400/20 text-indigo-100"}`}
+                    title={root.path}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => void openFolder(root.path)}
+                      className="rounded-sm bg-transparent p-0 font-semibold text-indigo-50 decoration-indigo-200/60 transition-colors hover:underline hover:text-indigo-50/80 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-200"
+                      title={`${t("app.actions.openFolder")}: ${root.path}`}
+                      aria-label={`${t("app.actions.openFolder")}: ${root.label}`}
+                    >
+                      {root.label}
+                    </button>
+                    <span className="text-indigo-200/80">
+                      {formatPhotoCount(root.count)}
+                    </span>
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveRoot(root.path)}
+                    className="inline-flex h-5 w-5 items-center justify-center rounded-full border border-indigo-400/40 bg-indigo-500/10 text-indigo-100 transition hover:bg-indigo-400/30 hover:text-slate-50 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-300 disabled:cursor-not-allowed disabled:opacity-50"
+                    title={t("app.actions.removeFolder", { name: root.label })}
+                    aria-label={t("app.actions.removeFolder", {
+                      name: root.label,
+                    })}
+                    disabled={isLoading}
+                  >
+                    <svg
+                      aria-hidden="true"
+                      focusable="false"
+                      viewBox="0 0 16 16"
+                      className="h-3.5 w-3.5"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="1.6"
+                      strokeLinecap="round"
+                    >
+                      <path d="m4 4 8 8" />
+                      <path d="m12 4-8 8" />
+                    </svg>
+                  </button>
+                  <div
+                    className="ml-1 mr-2 inline-flex items-center gap-1 rounded-full border border-indigo-300/30 bg-indigo-500/10 p-0.5 text-xs"
+                    role="radiogroup"
+                    aria-label={`${t("app.metadataMode.label")}: ${root.label}`}
+                    title={t("app.metadataMode.description")}
+                  >
+                    <span className="px-2 text-indigo-200/80">
+                      {t("app.metadataMode.label")}
+                    </span>
+                    {(["embedded", "sidecar"] as const).map((mode) => (
+                      <button
+                        key={mode}
+                        type="button"
+                        aria-pressed={root.metadataMode === mode}
+                        className={`rounded-full px-3 py-1 font-semibold transition ${
+                          root.metadataMode === mode
+                            ? "bg-indigo-400/30 text-indigo-50"
+                            : "text-indigo-200 hover:bg-indigo-400/15"
+                        }`}
+                        onClick={() =>
+                          void handleMetadataModeChange(root, mode)
+                        }
+                        disabled={isLoading}
+                      >
+                        {mode === "embedded"
+                          ? t("app.metadataMode.embedded")
+                          : t("app.metadataMode.sidecar")}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              {roots.length > 1 ? (
                 <button
                   type="button"
-                  onClick={handleOpenDirectory}
-                  className="rounded-sm bg-transparent p-0 font-semibold text-indigo-50 decoration-indigo-200/60 transition-colors hover:underline hover:text-indigo-50/80 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-200"
-                  title={`${t("app.actions.openFolder")}: ${directory.path}`}
-                  aria-label={`${t("app.actions.openFolder")}: ${directory.label}`}
+                  onClick={handleClearDirectory}
+                  className="rounded-full border border-indigo-400/40 bg-indigo-500/10 px-3 py-1 text-xs font-semibold text-indigo-100 transition hover:bg-indigo-400/30 hover:text-slate-50 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-300 disabled:cursor-not-allowed disabled:opacity-50"
+                  disabled={isLoading}
                 >
-                  {directory.label}
+                  {t("app.actions.clearFolder")}
                 </button>
-                <span className="text-indigo-200/80">
-                  {formatPhotoCount(directory.count)}
-                </span>
-              </span>
-              <button
-                type="button"
-                onClick={handleClearDirectory}
-                className="inline-flex h-5 w-5 items-center justify-center rounded-full border border-indigo-400/40 bg-indigo-500/10 text-indigo-100 transition hover:bg-indigo-400/30 hover:text-slate-50 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-300 disabled:cursor-not-allowed disabled:opacity-50"
-                title={t("app.actions.clearFolder")}
-                aria-label={t("app.actions.clearFolder")}
-                disabled={isLoading}
-              >
-                <svg
-                  aria-hidden="true"
-                  focusable="false"
-                  viewBox="0 0 16 16"
-                  className="h-3.5 w-3.5"
-                  fill="none"
-                  stroke="currentColor"
-                  strokeWidth="1.6"
-                  strokeLinecap="round"
-                >
-                  <path d="m4 4 8 8" />
-                  <path d="m12 4-8 8" />
-                </svg>
-              </button>
+              ) : null}
             </motion.div>
           ) : null}
         </AnimatePresence>
 
+        {transferStatus ? (
+          <div
+            className="flex items-center gap-3 rounded-2xl border border-sky-300/20 bg-slate-900/80 px-4 py-2 text-xs text-indigo-100"
+            aria-live="polite"
+          >
+            <span className="block h-3.5 w-3.5 shrink-0 animate-spin rounded-full border-2 border-sky-200/30 border-t-sky-200" />
+            <span className="shrink-0 font-semibold">
+              {t(
+                transferStatus.mode === "copy"
+                  ? "app.transfer.copying"
+                  : "app.transfer.moving",
+                {
+                  completed: formatNumber(transferStatus.completed),
+                  total: formatNumber(transferStatus.total),
+                },
+              )}
+            </span>
+            <span
+              className="min-w-0 flex-1 truncate text-indigo-200/70"
+              title={transferStatus.currentPath ?? undefined}
+            >
+              {transferStatus.currentPath}
+            </span>
+            <button
+              type="button"
+              className="shrink-0 rounded-full border border-indigo-300/40 px-3 py-1 font-semibold text-indigo-100 transition hover:bg-indigo-400/20"
+              onClick={handleCancelTransfer}
+            >
+              {t("app.transfer.cancel")}
+            </button>
+          </div>
+        ) : null}
+
+        {exportStatus ? (
+          <div
+            className="flex items-center gap-3 rounded-2xl border border-sky-300/20 bg-slate-900/80 px-4 py-2 text-xs text-indigo-100"
+            aria-live="polite"
+          >
+            <span className="block h-3.5 w-3.5 shrink-0 animate-spin rounded-full border-2 border-sky-200/30 border-t-sky-200" />
+            <span className="shrink-0 font-semibold">
+              {t("app.export.exporting", {
+                completed: formatNumber(exportStatus.completed),
+                total: formatNumber(exportStatus.total),
+              })}
+            </span>
+            <span
+              className="min-w-0 flex-1 truncate text-indigo-200/70"
+              title={exportStatus.currentPath ?? exportStatus.destination}
+            >
+              {exportStatus.currentPath ?? exportStatus.destination}
+            </span>
+            <button
+              type="button"
+              className="shrink-0 rounded-full border border-indigo-300/40 px-3 py-1 font-semibold text-indigo-100 transition hover:bg-indigo-400/20"
+              onClick={handleCancelExport}
+            >
+              {t("app.export.cancel")}
+            </button>
+          </div>
+        ) : null}
+
+        {isLoading && scanStatus ? (
+          <div
+            className="flex items-center gap-3 rounded-2xl border border-sky-300/20 bg-slate-900/80 px-4 py-2 text-xs text-indigo-100"
+            aria-live="polite"
+          >
+            <span className="block h-3.5 w-3.5 shrink-0 animate-spin rounded-full border-2 border-sky-200/30 border-t-sky-200" />
+            <span className="shrink-0 font-semibold">
+              {t("app.scan.progress", {
+                count: formatNumber(scanStatus.photoCount),
+              })}
+            </span>
+            <span
+              className="min-w-0 flex-1 truncate text-indigo-200/70"
+              title={scanStatus.currentDirectory}
+            >
+              {scanStatus.currentDirectory}
+            </span>
+            <button
+              type="button"
+              className="shrink-0 rounded-full border border-indigo-300/40 px-3 py-1 font-semibold text-indigo-100 transition hover:bg-indigo-400/20"
+              onClick={handleCancelScan}
+            >
+              {t("app.scan.cancel")}
+            </button>
+          </div>
+        ) : null}
+
         <div
           ref={layoutContainerRef}
-          className="grid min-h-0 flex-1 gap-4 lg:[grid-template-columns:minmax(0,_1fr)_var(--preview-width,380px)]"
+          className={`grid min-h-0 flex-1 gap-4 ${showFolderTree ? "lg:[grid-template-columns:auto_minmax(0,_1fr)_var(--preview-width,380px)]" : "lg:[grid-template-columns:minmax(0,_1fr)_var(--preview-width,380px)]"}`}
           style={previewLayoutStyle}
         >
+          {showFolderTree ? (
+            <FolderTree
+              roots={folderTrees}
+              selectedPath={
+                folderScopePath ??
+                (folderTrees.length === 1 ? folderTrees[0].path : null)
+              }
+              includeSubfolders={includeSubfolders}
+              collapsed={isFolderTreeCollapsed}
+              onSelect={setFolderScopePath}
+              onIncludeSubfoldersChange={setIncludeSubfolders}
+              onToggleCollapsed={() =>
+                setIsFolderTreeCollapsed((value) => !value)
+              }
+              onOpenFolder={(folderPath) => void openFolder(folderPath)}
+            />
+          ) : null}
           <section className="flex min-h-0 flex-col rounded-3xl bg-slate-900/80 px-0 py-5 shadow-[inset_0_1px_0_rgba(255,255,255,0.03),_0_25px_55px_rgba(0,0,0,0.30)]">
             <div className="flex flex-col gap-4 lg:flex-row lg:items-start lg:justify-between">
               <div className="flex flex-wrap items-center gap-3">
@@ -1732,16 +3891,58 @@ export default function App() {
                   counts={ratingCounts}
                   formatCount={formatNumber}
                   onChange={handleRatingFilterChange}
+                  selectedLabels={labelFilter}
+                  labelCounts={labelCounts}
+                  labelNames={labelNames}
+                  onLabelsChange={handleLabelFilterChange}
+                  disabled={isStarFilterDisabled}
+                />
+                <KeywordFilterMenu
+                  label={t("app.filter.keywords.label")}
+                  emptyLabel={t("app.filter.keywords.empty")}
+                  keywords={keywordOptions}
+                  selectedKeywords={keywordFilter}
+                  counts={keywordCounts}
+                  formatCount={formatNumber}
+                  onChange={handleKeywordFilterChange}
+                  disabled={isStarFilterDisabled}
+                />
+                <CaptureFilterMenu
+                  facets={captureFacets}
+                  filter={captureFilter}
+                  onChange={setCaptureFilter}
                   disabled={isStarFilterDisabled}
                 />
+                {photos.length > 1 ? (
+                  <button
+                    type="button"
+                    className="rounded-full border border-indigo-300/50 bg-indigo-500/15 px-4 py-3 text-xs font-semibold text-indigo-100 transition hover:bg-indigo-500/25 focus:outline-none focus:ring-2 focus:ring-indigo-400/60"
+                    onClick={() => setShowDuplicates(true)}
+                  >
+                    {t("app.findDuplicates")}
+                  </button>
+                ) : null}
+                {rejectedPhotos.length > 0 ? (
+                  <button
+                    type="button"
+                    className="rounded-full border border-rose-300/50 bg-rose-500/15 px-4 py-3 text-xs font-semibold text-rose-100 transition hover:bg-rose-500/25 focus:outline-none focus:ring-2 focus:ring-rose-400/60"
+                    onClick={deleteRejectedPhotos}
+                  >
+                    {t("app.deleteRejected", {
+                      count: formatNumber(rejectedPhotos.length),
+                    })}
+                  </button>
+                ) : null}
               </div>
             </div>
             <div className="mt-4 flex min-h-0 flex-1 rounded-2xl bg-slate-950/70">
               <PhotoGrid
                 photos={displayedPhotos}
+                stacks={stackInfo}
                 selectedIds={selectedIds}
                 onSelect={handleSelect}
                 onRate={handleRate}
+                onToggleStack={toggleStack}
                 onContextMenu={handleContextMenuRequest}
                 onExpand={handleExpand}
                 emptyContent={emptyGridContent}
@@ -1750,6 +3951,10 @@ export default function App() {
                 onDragOver={handleDragOver}
                 onDragLeave={handleDragLeave}
                 onDrop={handleDrop}
+                onVisibleRangeChange={setVisibleRange}
+                roots={rootBadges}
+                scrollTopRequest={restoredScrollTop}
+                onScrollTopChange={handleGridScroll}
               />
             </div>
           </section>
@@ -1776,6 +3981,15 @@ export default function App() {
                     photos={selectedPhotos}
                     primaryPhoto={primarySelectedPhoto}
                     onSetRating={applyUniformRating}
+                    onSetLabel={applyLabel}
+                    onAddKeywords={addKeywords}
+                    onRemoveKeyword={removeKeyword}
+                    keywordSuggestions={knownKeywords}
+                    stack={primaryStack}
+                    onToggleStack={toggleStack}
+                    onRateStack={rateStack}
+                    onKeepInStack={keepInStack}
+                    onCompare={openCompare}
                     onDelete={deletePhotos}
                     onExpand={handleExpand}
                     onReveal={handleReveal}
@@ -1789,6 +4003,15 @@ export default function App() {
                 photos={selectedPhotos}
                 primaryPhoto={primarySelectedPhoto}
                 onSetRating={applyUniformRating}
+                onSetLabel={applyLabel}
+                onAddKeywords={addKeywords}
+                onRemoveKeyword={removeKeyword}
+                keywordSuggestions={knownKeywords}
+                stack={primaryStack}
+                onToggleStack={toggleStack}
+                onRateStack={rateStack}
+                onKeepInStack={keepInStack}
+                onCompare={openCompare}
                 onDelete={deletePhotos}
                 onExpand={handleExpand}
                 onReveal={handleReveal}
@@ -1805,6 +4028,11 @@ export default function App() {
             onDelete={handleContextMenuDelete}
             onReveal={handleContextMenuReveal}
             onRename={handleContextMenuRename}
+            onCopy={() => handleContextMenuTransfer("copy")}
+            onMove={() => handleContextMenuTransfer("move")}
+            onCopyTopRated={handleContextMenuCopyTopRated}
+            topRatedCount={topRatedPhotos.length}
+            onExport={handleContextMenuExport}
           />
         ) : null}
 
@@ -1812,6 +4040,7 @@ export default function App() {
           <RenamePhotoDialog
             key={renameTarget.id}
             name={renameValue}
+            pairedFormats={renameTarget.members?.map((member) => member.format)}
             onChange={setRenameValue}
             onSubmit={handleRenameSubmit}
             onCancel={closeRenameDialog}
@@ -1819,6 +4048,41 @@ export default function App() {
           />
         ) : null}
 
+        {transferRequest ? (
+          <TransferDialog
+            mode={transferRequest.mode}
+            count={transferRequest.targets.length}
+            destination={transferDestination}
+            options={transferOptions}
+            onChooseDestination={() => void handleChooseTransferDestination()}
+            onOptionsChange={setTransferOptions}
+            onSubmit={() => void handleTransferSubmit()}
+            onCancel={closeTransferDialog}
+          />
+        ) : null}
+
+        {exportTargets && exportSample ? (
+          <ExportDialog
+            count={exportTargets.length}
+            options={exportOptions}
+            sample={exportSample}
+            onChooseDestination={() => void handleChooseExportDestination()}
+            onChooseWatermarkImage={() => void handleChooseWatermarkImage()}
+            onOptionsChange={setExportOptions}
+            onSubmit={() => void handleExportSubmit()}
+            onCancel={closeExportDialog}
+          />
+        ) : null}
+
+        {showSettings ? (
+          <SettingsDialog
+            onClose={closeSettingsDialog}
+            onSettingsChange={(settings) =>
+              setBurstGapSeconds(settings.burstGapSeconds)
+            }
+          />
+        ) : null}
+
         {showShortcuts ? (
           <dialog
             className="fixed inset-0 z-30 m-0 flex items-center justify-center bg-[rgba(4,8,18,0.74)] backdrop-blur-xl"
@@ -1903,6 +4167,16 @@ export default function App() {
                         <span className="font-mono text-indigo-200">[ / ]</span>
                         <span>{t("app.shortcuts.ratingAdjust")}</span>
                       </li>
+                      <li className="flex justify-between gap-4">
+                        <span className="font-mono text-indigo-200">6 – 9</span>
+                        <span>{t("app.shortcuts.ratingLabel")}</span>
+                      </li>
+                      <li className="flex justify-between gap-4">
+                        <span className="font-mono text-indigo-200">
+                          P / X / U
+                        </span>
+                        <span>{t("app.shortcuts.ratingFlag")}</span>
+                      </li>
                     </ul>
                   </section>
                   <section className="rounded-xl border border-indigo-400/20 bg-indigo-500/10 p-4">
@@ -1916,6 +4190,18 @@ export default function App() {
                         </span>
                         <span>{t("app.shortcuts.actionsDelete")}</span>
                       </li>
+                      <li className="flex justify-between gap-4">
+                        <span className="font-mono text-indigo-200">
+                          ⌘ / Ctrl + Z
+                        </span>
+                        <span>{t("app.shortcuts.actionsUndo")}</span>
+                      </li>
+                      <li className="flex justify-between gap-4">
+                        <span className="font-mono text-indigo-200">
+                          ⇧ + ⌘ / Ctrl + Z
+                        </span>
+                        <span>{t("app.shortcuts.actionsRedo")}</span>
+                      </li>
                       <li className="flex justify-between gap-4">
                         <span className="font-mono text-indigo-200">F</span>
                         <span>{t("app.shortcuts.actionsFilter")}</span>
@@ -1926,6 +4212,12 @@ export default function App() {
                         </span>
                         <span>{t("app.shortcuts.actionsLoadFolder")}</span>
                       </li>
+                      <li className="flex justify-between gap-4">
+                        <span className="font-mono text-indigo-200">
+                          ⌘ / Ctrl + E
+                        </span>
+                        <span>{t("app.shortcuts.actionsExport")}</span>
+                      </li>
                       <li className="flex justify-between gap-4">
                         <span className="font-mono text-indigo-200">Esc</span>
                         <span>{t("app.shortcuts.actionsClose")}</span>
@@ -1941,6 +4233,18 @@ export default function App() {
                         <span className="font-mono text-indigo-200">S</span>
                         <span>{t("app.shortcuts.displayToggleSort")}</span>
                       </li>
+                      <li className="flex justify-between gap-4">
+                        <span className="font-mono text-indigo-200">C</span>
+                        <span>{t("app.shortcuts.displayCompare")}</span>
+                      </li>
+                      <li className="flex justify-between gap-4">
+                        <span className="font-mono text-indigo-200">Z</span>
+                        <span>{t("app.shortcuts.displayZoom")}</span>
+                      </li>
+                      <li className="flex justify-between gap-4">
+                        <span className="font-mono text-indigo-200">I</span>
+                        <span>{t("app.shortcuts.displayInfo")}</span>
+                      </li>
                     </ul>
                   </section>
                 </div>
@@ -1949,57 +4253,30 @@ export default function App() {
           </dialog>
         ) : null}
 
+        {compareIds && comparePhotos.length >= MIN_COMPARE_COUNT ? (
+          <CompareView
+            photos={comparePhotos}
+            onRate={rateComparedPhoto}
+            onKeep={keepComparedPhoto}
+            onClose={closeCompare}
+          />
+        ) : null}
+        {showDuplicates ? (
+          <DuplicatesView
+            photos={photos}
+            onTrash={(targets) => void deletePhotos(targets)}
+            onClose={closeDuplicates}
+          />
+        ) : null}
         {expandedPhotoId && primarySelectedPhoto ? (
-          <dialog
-            className="fixed inset-0 z-40 m-0 flex items-center justify-center bg-[rgba(4,8,18,0.9)] backdrop-blur-lg"
-            aria-label={t("app.dialog.preview")}
-            open
-            style={{
-              display: "flex",
-              alignItems: "center",
-              justifyContent: "center",
-              position: "fixed",
-              inset: 0,
-              margin: 0,
-              padding: 0,
-              border: "none",
-              width: "100%",
-              height: "100%",
-              overflow: "auto",
-            }}
-            onCancel={(event) => {
-              event.preventDefault();
-              setExpandedPhotoId(null);
-            }}
-            onClick={() => setExpandedPhotoId(null)}
-            onKeyDown={(event) => {
-              if (
-                event.key === "Escape" ||
-                event.key === "Enter" ||
-                event.key === " "
-              ) {
-                event.preventDefault();
-                setExpandedPhotoId(null);
-              }
-            }}
-          >
-            <div
-              className="flex min-h-screen w-full items-center justify-center p-8"
-              onPointerDown={(event) => event.stopPropagation()}
-            >
-              <div className="flex max-h-full w-full max-w-[90vw] flex-col items-center justify-center gap-4">
-                <img
-                  src={primarySelectedPhoto.fileUrl}
-                  alt={primarySelectedPhoto.name}
-                  className="max-h-[80vh] w-auto max-w-full rounded-2xl object-contain shadow-[0_30px_60px_rgba(0,0,0,0.55)]"
-                />
-                <span className="text-sm text-indigo-100">
-                  {primarySelectedPhoto.name}
-                </span>
-              </div>
-            </div>
-          </dialog>
+          <LoupeView
+            photo={primarySelectedPhoto}
+            showInfo={showLoupeInfo}
+            onToggleInfo={toggleLoupeInfo}
+            onClose={() => setExpandedPhotoId(null)}
+          />
         ) : null}
+        <Toast toast={toast} />
       </div>
     </div>
   );
@@ -0,0 +1,97 @@
+import type { RatedPhoto } from "./types";
+
+// Facets read from EXIF during the scan. Empty lists and null bounds leave
+// that facet unrestricted.
+export interface CaptureFilter {
+  cameras: string[];
+  lenses: string[];
+  isoMin: number | null;
+  isoMax: number | null;
+}
+
+export interface CaptureFacets {
+  cameras: Record<string, number>;
+  lenses: Record<string, number>;
+  // Distinct ISO values, ascending
+  isoValues: number[];
+}
+
+export const EMPTY_CAPTURE_FILTER: CaptureFilter = {
+  cameras: [],
+  lenses: [],
+  isoMin: null,
+  isoMax: null,
+};
+
+export function countActiveCaptureFacets(filter: CaptureFilter): number {
+  return (
+    (filter.cameras.length > 0 ? 1 : 0) +
+    (filter.lenses.length > 0 ? 1 : 0) +
+    (filter.isoMin !== null || filter.isoMax !== null ? 1 : 0)
+  );
+}
+
+// Photos missing a restricted field never match it.
+export function matchesCaptureFilter(
+  photo: RatedPhoto,
+  filter: CaptureFilter,
+): boolean {
+  const capture = photo.capture;
+  if (
+    filter.cameras.length > 0 &&
+    !(capture?.camera && filter.cameras.includes(capture.camera))
+  ) {
+    return false;
+  }
+  if (
+    filter.lenses.length > 0 &&
+    !(capture?.lens && filter.lenses.includes(capture.lens))
+  ) {
+    return false;
+  }
+  if (filter.isoMin !== null || filter.isoMax !== null) {
+    const iso = capture?.iso;
+    if (iso == null) {
+      return false;
+    }
+    if (filter.isoMin !== null && iso < filter.isoMin) {
+      return false;
+    }
+    if (filter.isoMax !== null && iso > filter.isoMax) {
+      return false;
+    }
+  }
+  return true;
+}
+
+export function collectCaptureFacets(photos: RatedPhoto[]): CaptureFacets {
+  const cameras: Record<string, number> = {};
+  const lenses: Record<string, number> = {};
+  const isoValues = new Set<number>();
+  for (const photo of photos) {
+    const capture = photo.capture;
+    if (!capture) {
+      continue;
+    }
+    if (capture.camera) {
+      cameras[capture.camera] = (cameras[capture.camera] ?? 0) + 1;
+    }
+    if (capture.lens) {
+      lenses[capture.lens] = (lenses[capture.lens] ?? 0) + 1;
+    }
+    if (capture.iso != null) {
+      isoValues.add(capture.iso);
+    }
+  }
+  return {
+    cameras,
+    lenses,
+    isoValues: [...isoValues].sort((a, b) => a - b),
+  };
+}
+
+// Photos without a capture time fall back to their modified date so they
+// still land somewhere sensible in the order.
+export function getCaptureSortTime(photo: RatedPhoto): number {
+  return photo.capture?.capturedAt ?? photo.modifiedAt;
+}
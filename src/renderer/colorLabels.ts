@@ -0,0 +1,18 @@
+import type { ColorLabel } from "@preload/index";
+import type { TranslationKey } from "@shared/i18n";
+
+export const COLOR_LABEL_SWATCH_CLASSES: Record<ColorLabel, string> = {
+  red: "bg-rose-500",
+  yellow: "bg-amber-300",
+  green: "bg-emerald-400",
+  blue: "bg-sky-400",
+  purple: "bg-violet-400",
+};
+
+export const COLOR_LABEL_NAME_KEYS: Record<ColorLabel, TranslationKey> = {
+  red: "colorLabel.red",
+  yellow: "colorLabel.yellow",
+  green: "colorLabel.green",
+  blue: "colorLabel.blue",
+  purple: "colorLabel.purple",
+};
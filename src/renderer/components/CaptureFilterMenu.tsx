@@ -0,0 +1,249 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  type CaptureFacets,
+  type CaptureFilter,
+  EMPTY_CAPTURE_FILTER,
+  countActiveCaptureFacets,
+} from "../captureFilter";
+import { useI18n } from "../i18n/I18nProvider";
+
+interface CaptureFilterMenuProps {
+  facets: CaptureFacets;
+  filter: CaptureFilter;
+  onChange: (next: CaptureFilter) => void;
+  disabled?: boolean;
+}
+
+// Selected values stay listed after the photos carrying them are gone, so the
+// filter can always be cleared.
+function listOptions(counts: Record<string, number>, selected: string[]) {
+  return [...new Set([...Object.keys(counts), ...selected])].sort((a, b) =>
+    a.localeCompare(b),
+  );
+}
+
+function toggleValue(values: string[], value: string): string[] {
+  return values.includes(value)
+    ? values.filter((item) => item !== value)
+    : [...values, value];
+}
+
+export default function CaptureFilterMenu({
+  facets,
+  filter,
+  onChange,
+  disabled = false,
+}: CaptureFilterMenuProps) {
+  const { t, formatNumber } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const closeTimeout = useRef<number | null>(null);
+
+  const cameraOptions = useMemo(
+    () => listOptions(facets.cameras, filter.cameras),
+    [facets.cameras, filter.cameras],
+  );
+  const lensOptions = useMemo(
+    () => listOptions(facets.lenses, filter.lenses),
+    [facets.lenses, filter.lenses],
+  );
+  const isoOptions = useMemo(() => {
+    const values = new Set(facets.isoValues);
+    for (const bound of [filter.isoMin, filter.isoMax]) {
+      if (bound !== null) {
+        values.add(bound);
+      }
+    }
+    return [...values].sort((a, b) => a - b);
+  }, [facets.isoValues, filter.isoMax, filter.isoMin]);
+  const activeCount = countActiveCaptureFacets(filter);
+
+  const openMenu = () => {
+    if (disabled) return;
+    if (closeTimeout.current !== null) {
+      window.clearTimeout(closeTimeout.current);
+      closeTimeout.current = null;
+    }
+    setIsOpen(true);
+  };
+
+  const scheduleClose = () => {
+    if (closeTimeout.current !== null) {
+      window.clearTimeout(closeTimeout.current);
+    }
+    closeTimeout.current = window.setTimeout(() => {
+      setIsOpen(false);
+      closeTimeout.current = null;
+    }, 120);
+  };
+
+  useEffect(() => {
+    if (disabled) {
+      setIsOpen(false);
+    }
+    return () => {
+      if (closeTimeout.current !== null) {
+        window.clearTimeout(closeTimeout.current);
+      }
+    };
+  }, [disabled]);
+
+  const renderChecklist = (
+    kind: "cameras" | "lenses",
+    options: string[],
+    counts: Record<string, number>,
+  ) =>
+    options.map((option, index) => {
+      const checked = filter[kind].includes(option);
+      const optionId = `capture-filter-${kind}-${index}`;
+      return (
+        <label
+          key={option}
+          htmlFor={optionId}
+          className={`flex cursor-pointer items-center gap-3 rounded-xl px-2 py-2 text-sm transition-colors ${checked ? "bg-indigo-500/25" : "hover:bg-indigo-500/10"}`}
+        >
+          <input
+            id={optionId}
+            type="checkbox"
+            className="h-4 w-4 rounded border-indigo-400/60 bg-indigo-950/80 text-amber-300 focus:ring-1 focus:ring-amber-300"
+            checked={checked}
+            onChange={() =>
+              onChange({ ...filter, [kind]: toggleValue(filter[kind], option) })
+            }
+            disabled={disabled}
+          />
+          <span
+            className="truncate font-semibold text-indigo-100"
+            title={option}
+          >
+            {option}
+          </span>
+          <span className="ml-auto text-xs text-indigo-200/80">
+            {formatNumber(counts[option] ?? 0)}
+          </span>
+        </label>
+      );
+    });
+
+  const renderIsoSelect = (bound: "isoMin" | "isoMax", label: string) => (
+    <label className="flex flex-1 flex-col gap-1 text-[11px] text-indigo-200/80">
+      {label}
+      <select
+        className="rounded-lg border border-indigo-400/40 bg-indigo-950/80 px-2 py-1.5 text-xs text-indigo-100 focus:outline-none focus:ring-1 focus:ring-amber-300"
+        value={filter[bound] ?? ""}
+        onChange={(event) =>
+          onChange({
+            ...filter,
+            [bound]:
+              event.target.value === "" ? null : Number(event.target.value),
+          })
+        }
+        disabled={disabled}
+      >
+        <option value="">{t("app.filter.capture.isoAny")}</option>
+        {isoOptions.map((iso) => (
+          <option key={iso} value={iso}>
+            {formatNumber(iso)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative inline-flex items-center gap-2 ${disabled ? "opacity-60" : ""}`}
+      onMouseEnter={openMenu}
+      onMouseLeave={() => {
+        if (disabled) return;
+        scheduleClose();
+      }}
+      onFocusCapture={openMenu}
+      onBlurCapture={(event) => {
+        if (!containerRef.current) return;
+        if (!containerRef.current.contains(event.relatedTarget as Node)) {
+          scheduleClose();
+        }
+      }}
+    >
+      <button
+        type="button"
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+        aria-label={t("app.filter.capture.label")}
+        className={`inline-flex items-center gap-2 rounded-full border border-indigo-300/60 bg-indigo-900/60 px-4 py-3 text-xs font-semibold text-indigo-100 transition focus:outline-none focus:ring-2 focus:ring-indigo-400/60 ${disabled ? "pointer-events-none" : "hover:bg-indigo-800/70"}`}
+        onClick={() => {
+          if (disabled) return;
+          if (closeTimeout.current !== null) {
+            window.clearTimeout(closeTimeout.current);
+            closeTimeout.current = null;
+          }
+          setIsOpen((prev) => !prev);
+        }}
+        disabled={disabled}
+      >
+        <span className="text-[13px] font-semibold text-indigo-100">
+          {t("app.filter.capture.label")}
+        </span>
+        {activeCount > 0 ? (
+          <span className="rounded-full bg-indigo-500/40 px-2 text-[11px]">
+            {formatNumber(activeCount)}
+          </span>
+        ) : null}
+      </button>
+      {isOpen ? (
+        <div className="absolute right-0 top-full z-20 mt-2 flex max-h-[28rem] w-72 flex-col gap-3 overflow-auto rounded-2xl border border-indigo-400/60 bg-slate-950/95 p-2 shadow-[0_15px_35px_rgba(10,20,60,0.55)] backdrop-blur">
+          <fieldset className="flex flex-col gap-1">
+            <legend className="px-2 pb-1 text-[11px] font-semibold uppercase tracking-wide text-indigo-200/80">
+              {t("app.filter.capture.cameras")}
+            </legend>
+            {cameraOptions.length === 0 ? (
+              <span className="px-2 py-1 text-sm text-indigo-200/70">
+                {t("app.filter.capture.empty")}
+              </span>
+            ) : (
+              renderChecklist("cameras", cameraOptions, facets.cameras)
+            )}
+          </fieldset>
+          <fieldset className="flex flex-col gap-1">
+            <legend className="px-2 pb-1 text-[11px] font-semibold uppercase tracking-wide text-indigo-200/80">
+              {t("app.filter.capture.lenses")}
+            </legend>
+            {lensOptions.length === 0 ? (
+              <span className="px-2 py-1 text-sm text-indigo-200/70">
+                {t("app.filter.capture.empty")}
+              </span>
+            ) : (
+              renderChecklist("lenses", lensOptions, facets.lenses)
+            )}
+          </fieldset>
+          <fieldset className="flex flex-col gap-1">
+            <legend className="px-2 pb-1 text-[11px] font-semibold uppercase tracking-wide text-indigo-200/80">
+              {t("app.filter.capture.iso")}
+            </legend>
+            {isoOptions.length === 0 ? (
+              <span className="px-2 py-1 text-sm text-indigo-200/70">
+                {t("app.filter.capture.empty")}
+              </span>
+            ) : (
+              <div className="flex gap-2 px-2">
+                {renderIsoSelect("isoMin", t("app.filter.capture.isoMin"))}
+                {renderIsoSelect("isoMax", t("app.filter.capture.isoMax"))}
+              </div>
+            )}
+          </fieldset>
+          {activeCount > 0 ? (
+            <button
+              type="button"
+              className="rounded-xl px-2 py-2 text-left text-xs font-semibold text-indigo-200 transition hover:bg-indigo-500/10 focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-400/60"
+              onClick={() => onChange(EMPTY_CAPTURE_FILTER)}
+            >
+              {t("app.filter.capture.clear")}
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import type { ColorLabel } from "@preload/index";
+import { COLOR_LABELS } from "@shared/colorLabels";
+import {
+  COLOR_LABEL_NAME_KEYS,
+  COLOR_LABEL_SWATCH_CLASSES,
+} from "../colorLabels";
+import { useI18n } from "../i18n/I18nProvider";
+
+interface ColorLabelPickerProps {
+  label: ColorLabel | null;
+  onChange: (nextLabel: ColorLabel | null) => void;
+}
+
+export default function ColorLabelPicker({
+  label,
+  onChange,
+}: ColorLabelPickerProps) {
+  const { t } = useI18n();
+
+  return (
+    <fieldset className="flex items-center gap-2">
+      <legend className="sr-only">{t("colorLabel.picker")}</legend>
+      {COLOR_LABELS.map((value) => {
+        const isActive = value === label;
+        return (
+          <button
+            key={value}
+            type="button"
+            aria-pressed={isActive}
+            title={t(COLOR_LABEL_NAME_KEYS[value])}
+            onClick={() => onChange(isActive ? null : value)}
+            className={`h-5 w-5 rounded-full transition-transform duration-150 ease-out hover:scale-110 focus:outline-none focus-visible:ring-2 focus-visible:ring-sky-300/70 ${COLOR_LABEL_SWATCH_CLASSES[value]} ${isActive ? "ring-2 ring-slate-50 ring-offset-2 ring-offset-slate-900" : "opacity-60"}`}
+          >
+            <span className="sr-only">{t(COLOR_LABEL_NAME_KEYS[value])}</span>
+          </button>
+        );
+      })}
+    </fieldset>
+  );
+}
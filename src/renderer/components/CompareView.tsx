@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { useI18n } from "../i18n/I18nProvider";
+import type { RatedPhoto } from "../types";
+import { toTransform, useZoomPan } from "../zoomPan";
+import RatingStars from "./RatingStars";
+
+interface CompareViewProps {
+  photos: RatedPhoto[];
+  onRate: (id: string, rating: number) => void;
+  onKeep: (id: string) => void;
+  onClose: () => void;
+}
+
+const GRID_CLASSES: Record<number, string> = {
+  2: "grid-cols-2 grid-rows-1",
+  3: "grid-cols-3 grid-rows-1",
+  4: "grid-cols-2 grid-rows-2",
+};
+
+export default function CompareView({
+  photos,
+  onRate,
+  onKeep,
+  onClose,
+}: CompareViewProps) {
+  const { t } = useI18n();
+  const { view, handlers } = useZoomPan();
+  const [activeIndex, setActiveIndex] = useState(0);
+  const activePhoto = photos[Math.min(activeIndex, photos.length - 1)];
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.metaKey || event.ctrlKey || event.altKey) {
+        return;
+      }
+      if (event.key === "Escape") {
+        event.preventDefault();
+        onClose();
+      } else if (event.key === "ArrowLeft" || event.key === "ArrowRight") {
+        event.preventDefault();
+        const delta = event.key === "ArrowLeft" ? -1 : 1;
+        setActiveIndex(
+          (index) => (index + delta + photos.length) % photos.length,
+        );
+      } else if (/^[0-5]$/.test(event.key) && activePhoto) {
+        event.preventDefault();
+        onRate(activePhoto.id, Number(event.key));
+      } else if ((event.key === "k" || event.key === "K") && activePhoto) {
+        event.preventDefault();
+        onKeep(activePhoto.id);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [activePhoto, onClose, onKeep, onRate, photos.length]);
+
+  return (
+    <dialog
+      className="fixed inset-0 z-40 m-0 flex flex-col bg-[rgba(4,8,18,0.94)] backdrop-blur-lg"
+      aria-label={t("compare.ariaLabel")}
+      open
+      style={{
+        display: "flex",
+        position: "fixed",
+        inset: 0,
+        margin: 0,
+        padding: 0,
+        border: "none",
+        width: "100%",
+        height: "100%",
+      }}
+    >
+      <div className="flex items-center justify-between gap-4 px-6 py-3">
+        <span className="text-xs text-indigo-200/80">{t("compare.hint")}</span>
+        <button
+          type="button"
+          className="rounded-full border border-indigo-300/60 bg-indigo-900/60 px-4 py-2 text-xs font-semibold text-indigo-100 transition hover:bg-indigo-800/70 focus:outline-none focus:ring-2 focus:ring-indigo-400/60"
+          onClick={onClose}
+        >
+          {t("compare.close")}
+        </button>
+      </div>
+      <div
+        className={`grid min-h-0 flex-1 gap-3 px-6 pb-6 ${GRID_CLASSES[photos.length] ?? GRID_CLASSES[4]}`}
+      >
+        {photos.map((photo, index) => {
+          const isActive = photo.id === activePhoto?.id;
+          return (
+            <div
+              key={photo.id}
+              className={`flex min-h-0 flex-col overflow-hidden rounded-2xl border bg-slate-950/80 transition-colors ${isActive ? "border-sky-400/80" : "border-slate-700/60"} ${photo.flag === "rejected" ? "opacity-50" : ""}`}
+              onPointerDownCapture={() => setActiveIndex(index)}
+            >
+              <div
+                className="relative min-h-0 flex-1 cursor-grab touch-none overflow-hidden active:cursor-grabbing"
+                {...handlers}
+              >
+                <img
+                  src={photo.fileUrl}
+                  alt={photo.name}
+                  draggable={false}
+                  className="h-full w-full select-none object-contain"
+                  style={{ transform: toTransform(view) }}
+                />
+              </div>
+              <div className="flex flex-wrap items-center gap-3 px-4 py-3">
+                <span
+                  className="min-w-0 flex-1 truncate text-sm font-semibold text-slate-50"
+                  title={photo.name}
+                >
+                  {photo.name}
+                </span>
+                <RatingStars
+                  rating={photo.rating}
+                  size="compact"
+                  onChange={(value) => onRate(photo.id, value)}
+                />
+                <button
+                  type="button"
+                  className="rounded-full bg-gradient-to-r from-emerald-500 to-teal-500 px-3 py-1.5 text-xs font-semibold text-emerald-50 transition hover:brightness-110 focus:outline-none focus-visible:ring-2 focus-visible:ring-emerald-300/70"
+                  onClick={() => onKeep(photo.id)}
+                >
+                  {t("compare.keep")}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </dialog>
+  );
+}
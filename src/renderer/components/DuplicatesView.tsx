@@ -0,0 +1,235 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  DEFAULT_DUPLICATE_THRESHOLD,
+  MAX_DUPLICATE_THRESHOLD,
+  findDuplicateClusters,
+} from "../duplicates";
+import { formatBytes } from "../format";
+import { useI18n } from "../i18n/I18nProvider";
+import type { RatedPhoto } from "../types";
+
+interface DuplicatesViewProps {
+  photos: RatedPhoto[];
+  onTrash: (targets: RatedPhoto[]) => void;
+  onClose: () => void;
+}
+
+// Hashes are computed alongside thumbnails in the background.
+const HASH_POLL_INTERVAL_MS = 1000;
+
+function getExtension(name: string): string {
+  const index = name.lastIndexOf(".");
+  return index === -1 ? "" : name.slice(index + 1).toUpperCase();
+}
+
+export default function DuplicatesView({
+  photos,
+  onTrash,
+  onClose,
+}: DuplicatesViewProps) {
+  const { t, formatNumber } = useI18n();
+  const [threshold, setThreshold] = useState(DEFAULT_DUPLICATE_THRESHOLD);
+  const [hashes, setHashes] = useState<Record<string, string>>({});
+  const [pending, setPending] = useState<number | null>(null);
+  // Thumbnail updates replace the photo objects; only the set of files should
+  // restart hashing.
+  const photosRef = useRef(photos);
+  photosRef.current = photos;
+  const photoKey = useMemo(
+    () => photos.map((photo) => `${photo.id}:${photo.modifiedAt}`).join("\n"),
+    [photos],
+  );
+
+  useEffect(() => {
+    if (!photoKey) {
+      setHashes({});
+      setPending(0);
+      return;
+    }
+    let cancelled = false;
+    let timer: number | undefined;
+    const poll = async () => {
+      try {
+        const result = await window.api.getPerceptualHashes({
+          photos: photosRef.current.map(({ id, modifiedAt }) => ({
+            id,
+            modifiedAt,
+          })),
+        });
+        if (cancelled) {
+          return;
+        }
+        setHashes(result.hashes);
+        setPending(result.pending);
+        if (result.pending > 0) {
+          timer = window.setTimeout(poll, HASH_POLL_INTERVAL_MS);
+        }
+      } catch (error) {
+        console.error("Failed to load perceptual hashes", error);
+        if (!cancelled) {
+          setPending(0);
+        }
+      }
+    };
+    void poll();
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [photoKey]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        event.preventDefault();
+        onClose();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const clusters = useMemo(
+    () => findDuplicateClusters(photos, hashes, threshold),
+    [hashes, photos, threshold],
+  );
+
+  let status: string;
+  if (pending === null) {
+    status = t("duplicates.status.loading");
+  } else if (pending > 0) {
+    status = t("duplicates.status.hashing", {
+      done: formatNumber(Object.keys(hashes).length),
+      total: formatNumber(Object.keys(hashes).length + pending),
+    });
+  } else {
+    status = t("duplicates.status.found", {
+      count: formatNumber(clusters.length),
+    });
+  }
+
+  return (
+    <dialog
+      className="fixed inset-0 z-40 m-0 flex flex-col bg-[rgba(4,8,18,0.94)] backdrop-blur-lg"
+      aria-label={t("duplicates.title")}
+      open
+      style={{
+        display: "flex",
+        position: "fixed",
+        inset: 0,
+        margin: 0,
+        padding: 0,
+        border: "none",
+        width: "100%",
+        height: "100%",
+      }}
+    >
+      <div className="flex flex-wrap items-center gap-4 px-6 py-3">
+        <h2 className="text-sm font-semibold text-indigo-50">
+          {t("duplicates.title")}
+        </h2>
+        <span
+          aria-live="polite"
+          className="min-w-0 flex-1 truncate text-xs text-indigo-200/80"
+        >
+          {status}
+        </span>
+        <label className="flex items-center gap-3 text-xs text-indigo-200">
+          <span>{t("duplicates.threshold")}</span>
+          <input
+            type="range"
+            min={0}
+            max={MAX_DUPLICATE_THRESHOLD}
+            step={1}
+            value={threshold}
+            className="w-36 accent-sky-400"
+            onChange={(event) => setThreshold(Number(event.target.value))}
+          />
+          <span className="w-20 font-mono text-indigo-100">
+            {t("duplicates.thresholdValue", {
+              value: formatNumber(threshold),
+            })}
+          </span>
+        </label>
+        <button
+          type="button"
+          className="rounded-full border border-indigo-300/60 bg-indigo-900/60 px-4 py-2 text-xs font-semibold text-indigo-100 transition hover:bg-indigo-800/70 focus:outline-none focus:ring-2 focus:ring-indigo-400/60"
+          onClick={onClose}
+        >
+          {t("duplicates.close")}
+        </button>
+      </div>
+      <div className="min-h-0 flex-1 space-y-4 overflow-y-auto px-6 pb-6">
+        {clusters.length === 0 && pending === 0 ? (
+          <p className="py-16 text-center text-sm text-indigo-200/70">
+            {t("duplicates.empty")}
+          </p>
+        ) : null}
+        {clusters.map((cluster) => (
+          <section
+            key={cluster.id}
+            aria-label={t("duplicates.cluster", {
+              count: formatNumber(cluster.photos.length),
+            })}
+            className="rounded-2xl border border-slate-700/60 bg-slate-950/80 p-4"
+          >
+            <h3 className="mb-3 text-xs font-semibold uppercase tracking-wide text-indigo-200/80">
+              {t("duplicates.cluster", {
+                count: formatNumber(cluster.photos.length),
+              })}
+            </h3>
+            <ul className="flex gap-3 overflow-x-auto pb-1">
+              {cluster.photos.map((photo) => (
+                <li
+                  key={photo.id}
+                  className={`flex w-52 shrink-0 flex-col overflow-hidden rounded-xl border border-slate-700/60 bg-slate-900/70 ${photo.flag === "rejected" ? "opacity-50" : ""}`}
+                >
+                  <img
+                    src={photo.thumbnailRetinaUrl || photo.thumbnailUrl}
+                    alt={photo.name}
+                    loading="lazy"
+                    className="h-36 w-full bg-slate-950 object-contain"
+                  />
+                  <div className="flex flex-col gap-1 px-3 py-2">
+                    <span
+                      className="truncate text-xs font-semibold text-slate-50"
+                      title={photo.name}
+                    >
+                      {photo.name}
+                    </span>
+                    <span className="flex gap-2 text-[11px] text-indigo-200/70">
+                      <span>{getExtension(photo.name)}</span>
+                      <span>{formatBytes(photo.size)}</span>
+                    </span>
+                  </div>
+                  <div className="flex gap-2 px-3 pb-3">
+                    <button
+                      type="button"
+                      className="flex-1 rounded-full bg-gradient-to-r from-emerald-500 to-teal-500 px-3 py-1.5 text-xs font-semibold text-emerald-50 transition hover:brightness-110 focus:outline-none focus-visible:ring-2 focus-visible:ring-emerald-300/70"
+                      onClick={() =>
+                        onTrash(
+                          cluster.photos.filter(
+                            (member) => member.id !== photo.id,
+                          ),
+                        )
+                      }
+                    >
+                      {t("duplicates.keep")}
+                    </button>
+                    <button
+                      type="button"
+                      className="flex-1 rounded-full border border-rose-300/50 bg-rose-500/15 px-3 py-1.5 text-xs font-semibold text-rose-100 transition hover:bg-rose-500/25 focus:outline-none focus-visible:ring-2 focus-visible:ring-rose-400/60"
+                      onClick={() => onTrash([photo])}
+                    >
+                      {t("duplicates.trash")}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ))}
+      </div>
+    </dialog>
+  );
+}
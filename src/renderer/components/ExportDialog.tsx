@@ -0,0 +1,393 @@
+import type {
+  ExportFormat,
+  ExportOptions,
+  ExportWatermark,
+  ExportWatermarkPosition,
+} from "@preload/index";
+import {
+  EXPORT_EXTENSIONS,
+  type ExportFileNameValues,
+  formatExportFileName,
+} from "@shared/exportTemplate";
+import type { TranslationKey } from "@shared/i18n";
+import { useEffect, useRef } from "react";
+import { useI18n } from "../i18n/I18nProvider";
+
+const FORMATS: Array<{ value: ExportFormat; label: string }> = [
+  { value: "jpeg", label: "JPEG" },
+  { value: "webp", label: "WebP" },
+  { value: "avif", label: "AVIF" },
+  { value: "png", label: "PNG" },
+];
+
+const LONG_EDGES = [1080, 1600, 2048, 3000, 4096];
+
+const WATERMARK_POSITIONS: Array<{
+  value: ExportWatermarkPosition;
+  labelKey: TranslationKey;
+}> = [
+  { value: "bottomRight", labelKey: "exportDialog.positionBottomRight" },
+  { value: "bottomLeft", labelKey: "exportDialog.positionBottomLeft" },
+  { value: "topRight", labelKey: "exportDialog.positionTopRight" },
+  { value: "topLeft", labelKey: "exportDialog.positionTopLeft" },
+  { value: "center", labelKey: "exportDialog.positionCenter" },
+];
+
+const DEFAULT_WATERMARK: Omit<ExportWatermark, "kind"> = {
+  value: "",
+  position: "bottomRight",
+  opacity: 0.6,
+};
+
+const FIELD_CLASS =
+  "mt-2 w-full rounded-xl border border-sky-400/30 bg-slate-950/70 px-4 py-2 text-sm font-normal text-slate-50 outline-none focus:border-sky-300 focus:ring-2 focus:ring-sky-400/40";
+const CHECKBOX_CLASS =
+  "h-4 w-4 rounded border-sky-400/60 bg-slate-950/80 text-sky-300 focus:ring-1 focus:ring-sky-300";
+const CHOOSE_BUTTON_CLASS =
+  "flex-none rounded-full border border-sky-300/40 px-4 py-1.5 text-sm text-sky-100 transition hover:bg-sky-400/15";
+
+interface ExportDialogProps {
+  count: number;
+  options: ExportOptions;
+  // First photo of the export, used to preview the file name template
+  sample: ExportFileNameValues;
+  onChooseDestination: () => void;
+  onChooseWatermarkImage: () => void;
+  onOptionsChange: (options: ExportOptions) => void;
+  onSubmit: () => void;
+  onCancel: () => void;
+}
+
+export default function ExportDialog({
+  count,
+  options,
+  sample,
+  onChooseDestination,
+  onChooseWatermarkImage,
+  onOptionsChange,
+  onSubmit,
+  onCancel,
+}: ExportDialogProps) {
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const { t, formatNumber } = useI18n();
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) {
+      return;
+    }
+
+    if (!dialog.open) {
+      dialog.showModal();
+    }
+
+    const handleCancel = (event: Event) => {
+      event.preventDefault();
+      dialog.close();
+      onCancel();
+    };
+
+    dialog.addEventListener("cancel", handleCancel);
+
+    return () => {
+      dialog.removeEventListener("cancel", handleCancel);
+      if (dialog.open) {
+        dialog.close();
+      }
+    };
+  }, [onCancel]);
+
+  const { destination, watermark } = options;
+  const title = t("exportDialog.title", { count: formatNumber(count) });
+  const canSubmit =
+    Boolean(destination) && (!watermark || Boolean(watermark.value.trim()));
+  const previewName = `${formatExportFileName(options.fileNameTemplate, sample)}.${EXPORT_EXTENSIONS[options.format]}`;
+
+  const updateWatermark = (changes: Partial<ExportWatermark>) => {
+    if (watermark) {
+      onOptionsChange({ ...options, watermark: { ...watermark, ...changes } });
+    }
+  };
+
+  return (
+    <dialog
+      ref={dialogRef}
+      className="z-50 w-full max-w-lg rounded-2xl border border-sky-300/40 bg-slate-900/95 p-5 shadow-[0_20px_44px_rgba(0,0,0,0.4)]"
+      aria-label={title}
+      style={{
+        position: "fixed",
+        top: "50%",
+        left: "50%",
+        transform: "translate(-50%, -50%)",
+        margin: 0,
+        padding: 0,
+      }}
+    >
+      <form
+        className="max-h-[85vh] w-full overflow-y-auto rounded-2xl border border-sky-300/40 bg-slate-900/95 p-5"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (canSubmit) {
+            onSubmit();
+          }
+        }}
+      >
+        <h2 className="text-lg font-semibold text-slate-100">{title}</h2>
+        <div className="mt-4 flex items-center gap-3">
+          <p
+            className={`min-w-0 flex-1 truncate rounded-xl border border-sky-400/30 bg-slate-950/70 px-4 py-2 text-sm ${destination ? "text-slate-50" : "text-slate-400"}`}
+            title={destination || undefined}
+          >
+            {destination || t("exportDialog.noDestination")}
+          </p>
+          <button
+            type="button"
+            className={CHOOSE_BUTTON_CLASS}
+            onClick={onChooseDestination}
+          >
+            {t("exportDialog.choose")}
+          </button>
+        </div>
+        <div className="mt-5 grid grid-cols-2 gap-4">
+          <label className="block text-sm font-semibold text-slate-200">
+            {t("exportDialog.format")}
+            <select
+              className={FIELD_CLASS}
+              value={options.format}
+              onChange={(event) =>
+                onOptionsChange({
+                  ...options,
+                  format: event.target.value as ExportFormat,
+                })
+              }
+            >
+              {FORMATS.map((format) => (
+                <option key={format.value} value={format.value}>
+                  {format.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm font-semibold text-slate-200">
+            {t("exportDialog.size")}
+            <select
+              className={FIELD_CLASS}
+              value={options.longEdge ?? ""}
+              onChange={(event) =>
+                onOptionsChange({
+                  ...options,
+                  longEdge: event.target.value
+                    ? Number(event.target.value)
+                    : null,
+                })
+              }
+            >
+              <option value="">{t("exportDialog.sizeOriginal")}</option>
+              {LONG_EDGES.map((edge) => (
+                <option key={edge} value={edge}>
+                  {t("exportDialog.sizeLongEdge", { size: formatNumber(edge) })}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        {options.format !== "png" ? (
+          <label className="mt-4 block text-sm font-semibold text-slate-200">
+            <span className="flex items-center justify-between">
+              {t("exportDialog.quality")}
+              <span className="font-mono text-xs font-normal text-slate-400">
+                {formatNumber(options.quality)}
+              </span>
+            </span>
+            <input
+              type="range"
+              className="mt-2 w-full accent-sky-400"
+              min={1}
+              max={100}
+              value={options.quality}
+              onChange={(event) =>
+                onOptionsChange({
+                  ...options,
+                  quality: Number(event.target.value),
+                })
+              }
+            />
+          </label>
+        ) : null}
+        <div className="mt-4 space-y-2">
+          <label className="flex items-center gap-2 text-sm text-slate-200">
+            <input
+              type="checkbox"
+              className={CHECKBOX_CLASS}
+              checked={options.convertToSrgb}
+              onChange={(event) =>
+                onOptionsChange({
+                  ...options,
+                  convertToSrgb: event.target.checked,
+                })
+              }
+            />
+            {t("exportDialog.convertToSrgb")}
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-200">
+            <input
+              type="checkbox"
+              className={CHECKBOX_CLASS}
+              checked={options.keepMetadata}
+              onChange={(event) =>
+                onOptionsChange({
+                  ...options,
+                  keepMetadata: event.target.checked,
+                })
+              }
+            />
+            {t("exportDialog.keepMetadata")}
+          </label>
+        </div>
+        <label className="mt-5 block text-sm font-semibold text-slate-200">
+          {t("exportDialog.watermark")}
+          <select
+            className={FIELD_CLASS}
+            value={watermark?.kind ?? ""}
+            onChange={(event) => {
+              const kind = event.target.value;
+              onOptionsChange({
+                ...options,
+                watermark:
+                  kind === "text" || kind === "image"
+                    ? {
+                        ...DEFAULT_WATERMARK,
+                        ...(watermark
+                          ? {
+                              position: watermark.position,
+                              opacity: watermark.opacity,
+                            }
+                          : {}),
+                        kind,
+                      }
+                    : null,
+              });
+            }}
+          >
+            <option value="">{t("exportDialog.watermarkNone")}</option>
+            <option value="text">{t("exportDialog.watermarkText")}</option>
+            <option value="image">{t("exportDialog.watermarkImage")}</option>
+          </select>
+        </label>
+        {watermark ? (
+          <div className="mt-3 space-y-3 rounded-xl border border-sky-400/20 bg-slate-950/40 p-3">
+            {watermark.kind === "text" ? (
+              <input
+                type="text"
+                className={FIELD_CLASS}
+                placeholder={t("exportDialog.watermarkTextPlaceholder")}
+                aria-label={t("exportDialog.watermarkText")}
+                value={watermark.value}
+                onChange={(event) =>
+                  updateWatermark({ value: event.target.value })
+                }
+              />
+            ) : (
+              <div className="flex items-center gap-3">
+                <p
+                  className={`min-w-0 flex-1 truncate rounded-xl border border-sky-400/30 bg-slate-950/70 px-4 py-2 text-sm ${watermark.value ? "text-slate-50" : "text-slate-400"}`}
+                  title={watermark.value || undefined}
+                >
+                  {watermark.value || t("exportDialog.noWatermarkImage")}
+                </p>
+                <button
+                  type="button"
+                  className={CHOOSE_BUTTON_CLASS}
+                  onClick={onChooseWatermarkImage}
+                >
+                  {t("exportDialog.choose")}
+                </button>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <label className="block text-sm font-semibold text-slate-200">
+                {t("exportDialog.position")}
+                <select
+                  className={FIELD_CLASS}
+                  value={watermark.position}
+                  onChange={(event) =>
+                    updateWatermark({
+                      position: event.target.value as ExportWatermarkPosition,
+                    })
+                  }
+                >
+                  {WATERMARK_POSITIONS.map((position) => (
+                    <option key={position.value} value={position.value}>
+                      {t(position.labelKey)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm font-semibold text-slate-200">
+                <span className="flex items-center justify-between">
+                  {t("exportDialog.opacity")}
+                  <span className="font-mono text-xs font-normal text-slate-400">
+                    {formatNumber(Math.round(watermark.opacity * 100))}%
+                  </span>
+                </span>
+                <input
+                  type="range"
+                  className="mt-4 w-full accent-sky-400"
+                  min={10}
+                  max={100}
+                  step={5}
+                  value={Math.round(watermark.opacity * 100)}
+                  onChange={(event) =>
+                    updateWatermark({
+                      opacity: Number(event.target.value) / 100,
+                    })
+                  }
+                />
+              </label>
+            </div>
+          </div>
+        ) : null}
+        <label className="mt-5 block text-sm font-semibold text-slate-200">
+          {t("exportDialog.fileName")}
+          <input
+            type="text"
+            className={`${FIELD_CLASS} font-mono`}
+            value={options.fileNameTemplate}
+            spellCheck={false}
+            onChange={(event) =>
+              onOptionsChange({
+                ...options,
+                fileNameTemplate: event.target.value,
+              })
+            }
+          />
+        </label>
+        <p className="mt-2 text-xs text-slate-400">
+          {t("exportDialog.fileNameHint")}
+        </p>
+        <p className="mt-1 truncate text-xs text-slate-300" title={previewName}>
+          {t("exportDialog.fileNamePreview", { name: previewName })}
+        </p>
+        <div className="mt-6 flex justify-end gap-3 text-sm">
+          <button
+            type="button"
+            className="rounded-full border border-slate-500/40 px-4 py-1.5 text-slate-300 transition hover:bg-slate-700/40"
+            onClick={() => {
+              dialogRef.current?.close();
+              onCancel();
+            }}
+          >
+            {t("exportDialog.cancel")}
+          </button>
+          <button
+            type="submit"
+            className="rounded-full bg-gradient-to-r from-sky-400 to-indigo-500 px-5 py-1.5 font-semibold text-slate-900 shadow-[0_10px_24px_rgba(68,131,255,0.28)] transition hover:shadow-[0_12px_28px_rgba(68,131,255,0.36)] disabled:cursor-not-allowed disabled:opacity-60"
+            disabled={!canSubmit}
+          >
+            {t("exportDialog.export")}
+          </button>
+        </div>
+      </form>
+    </dialog>
+  );
+}
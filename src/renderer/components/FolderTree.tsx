@@ -0,0 +1,273 @@
+import { useEffect, useState } from "react";
+import type { FolderNode } from "../folderTree";
+import { useI18n } from "../i18n/I18nProvider";
+
+interface FolderTreeProps {
+  // One tree per workspace root
+  roots: FolderNode[];
+  // Folder the grid is scoped to; null for every root at once
+  selectedPath: string | null;
+  includeSubfolders: boolean;
+  collapsed: boolean;
+  onSelect: (path: string | null) => void;
+  onIncludeSubfoldersChange: (value: boolean) => void;
+  onToggleCollapsed: () => void;
+  onOpenFolder: (path: string) => void;
+}
+
+const MENU_GAP = 8;
+const MENU_WIDTH = 200;
+const INDENT_PX = 14;
+
+function ChevronIcon({ open }: { open: boolean }) {
+  return (
+    <svg
+      aria-hidden="true"
+      className={`h-3.5 w-3.5 transition-transform ${open ? "rotate-90" : ""}`}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="m9 6 6 6-6 6" />
+    </svg>
+  );
+}
+
+export default function FolderTree({
+  roots,
+  selectedPath,
+  includeSubfolders,
+  collapsed,
+  onSelect,
+  onIncludeSubfoldersChange,
+  onToggleCollapsed,
+  onOpenFolder,
+}: FolderTreeProps) {
+  const { t, formatNumber } = useI18n();
+  // Folders whose children are hidden; everything starts open.
+  const [closedPaths, setClosedPaths] = useState<Set<string>>(() => new Set());
+  const [menu, setMenu] = useState<{
+    path: string;
+    x: number;
+    y: number;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!menu) {
+      return;
+    }
+    const close = () => setMenu(null);
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        close();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("blur", close);
+    window.addEventListener("resize", close);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("blur", close);
+      window.removeEventListener("resize", close);
+    };
+  }, [menu]);
+
+  const toggleOpen = (path: string) => {
+    setClosedPaths((current) => {
+      const next = new Set(current);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  if (collapsed) {
+    return (
+      <aside className="flex min-h-0 flex-col items-center rounded-3xl bg-slate-900/80 py-4">
+        <button
+          type="button"
+          className="inline-flex h-8 w-8 items-center justify-center rounded-full text-indigo-100 transition hover:bg-indigo-500/20 focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-300/70"
+          aria-expanded={false}
+          aria-label={t("folderTree.show")}
+          title={t("folderTree.show")}
+          onClick={onToggleCollapsed}
+        >
+          <ChevronIcon open={false} />
+        </button>
+      </aside>
+    );
+  }
+
+  const renderCounts = (count: number, rated: number) => (
+    <>
+      <span className="flex-none font-mono text-[11px] text-indigo-200/70">
+        {formatNumber(count)}
+      </span>
+      <span
+        className={`w-8 flex-none text-right font-mono text-[11px] ${rated > 0 ? "text-amber-200/90" : "text-indigo-200/40"}`}
+        title={t("folderTree.rated", { count: formatNumber(rated) })}
+      >
+        ★{formatNumber(rated)}
+      </span>
+    </>
+  );
+
+  const renderNode = (node: FolderNode, depth: number) => {
+    const isOpen = !closedPaths.has(node.path);
+    const isSelected = node.path === selectedPath;
+    const count = includeSubfolders ? node.totalCount : node.ownCount;
+    const rated = includeSubfolders ? node.totalRated : node.ownRated;
+    return (
+      <li key={node.path}>
+        <div
+          className={`flex items-center gap-1 rounded-lg pr-2 transition-colors ${isSelected ? "bg-indigo-500/25 text-indigo-50" : "text-indigo-100 hover:bg-indigo-500/10"}`}
+          style={{ paddingLeft: depth * INDENT_PX }}
+        >
+          {node.children.length > 0 ? (
+            <button
+              type="button"
+              className="inline-flex h-6 w-6 flex-none items-center justify-center rounded text-indigo-200/80 hover:text-indigo-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-300/70"
+              aria-expanded={isOpen}
+              aria-label={
+                isOpen ? t("folderTree.collapse") : t("folderTree.expand")
+              }
+              onClick={() => toggleOpen(node.path)}
+            >
+              <ChevronIcon open={isOpen} />
+            </button>
+          ) : (
+            <span className="w-6 flex-none" />
+          )}
+          <button
+            type="button"
+            aria-current={isSelected ? "true" : undefined}
+            className="flex min-w-0 flex-1 items-center gap-2 py-1.5 text-left text-xs focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-300/70"
+            title={node.path}
+            onClick={() => onSelect(node.path)}
+            onContextMenu={(event) => {
+              event.preventDefault();
+              setMenu({
+                path: node.path,
+                x: Math.min(
+                  event.clientX,
+                  window.innerWidth - MENU_WIDTH - MENU_GAP,
+                ),
+                y: event.clientY,
+              });
+            }}
+          >
+            <span className="min-w-0 flex-1 truncate font-semibold">
+              {node.name}
+            </span>
+            {renderCounts(count, rated)}
+          </button>
+        </div>
+        {isOpen && node.children.length > 0 ? (
+          <ul>{node.children.map((child) => renderNode(child, depth + 1))}</ul>
+        ) : null}
+      </li>
+    );
+  };
+
+  return (
+    <aside className="flex min-h-0 w-60 flex-col gap-3 rounded-3xl bg-slate-900/80 px-3 py-4">
+      <div className="flex items-center justify-between gap-2 px-1">
+        <h2 className="text-xs font-semibold uppercase tracking-wide text-indigo-200/80">
+          {t("folderTree.title")}
+        </h2>
+        <button
+          type="button"
+          className="inline-flex h-7 w-7 items-center justify-center rounded-full text-indigo-100 transition hover:bg-indigo-500/20 focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-300/70"
+          aria-expanded={true}
+          aria-label={t("folderTree.hide")}
+          title={t("folderTree.hide")}
+          onClick={onToggleCollapsed}
+        >
+          <span className="rotate-180">
+            <ChevronIcon open={false} />
+          </span>
+        </button>
+      </div>
+      <label className="flex items-center gap-2 px-1 text-xs text-indigo-200">
+        <input
+          type="checkbox"
+          className="h-4 w-4 rounded border-indigo-400/60 bg-indigo-950/80 text-amber-300 focus:ring-1 focus:ring-amber-300"
+          checked={includeSubfolders}
+          onChange={(event) => onIncludeSubfoldersChange(event.target.checked)}
+        />
+        {t("folderTree.includeSubfolders")}
+      </label>
+      <nav
+        aria-label={t("folderTree.title")}
+        className="min-h-0 flex-1 overflow-y-auto"
+      >
+        {roots.length > 1 ? (
+          <button
+            type="button"
+            aria-current={selectedPath === null ? "true" : undefined}
+            className={`mb-1 flex w-full items-center gap-2 rounded-lg py-1.5 pl-7 pr-2 text-left text-xs focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-300/70 ${selectedPath === null ? "bg-indigo-500/25 text-indigo-50" : "text-indigo-100 hover:bg-indigo-500/10"}`}
+            onClick={() => onSelect(null)}
+          >
+            <span className="min-w-0 flex-1 truncate font-semibold">
+              {t("folderTree.all")}
+            </span>
+            {renderCounts(
+              roots.reduce(
+                (total, root) =>
+                  total + (includeSubfolders ? root.totalCount : root.ownCount),
+                0,
+              ),
+              roots.reduce(
+                (total, root) =>
+                  total + (includeSubfolders ? root.totalRated : root.ownRated),
+                0,
+              ),
+            )}
+          </button>
+        ) : null}
+        <ul>{roots.map((root) => renderNode(root, 0))}</ul>
+      </nav>
+      {menu ? (
+        <div
+          className="fixed inset-0 z-50"
+          role="presentation"
+          onClick={() => setMenu(null)}
+          onKeyDown={(event) => {
+            if (event.key === "Escape") {
+              event.preventDefault();
+              setMenu(null);
+            }
+          }}
+          onContextMenu={(event) => {
+            event.preventDefault();
+            setMenu(null);
+          }}
+        >
+          <div
+            className="absolute min-w-[200px] rounded-xl border border-slate-500/40 bg-slate-900/95 p-1 text-sm text-slate-100 shadow-xl"
+            style={{ top: menu.y, left: menu.x }}
+            role="menu"
+          >
+            <button
+              type="button"
+              role="menuitem"
+              className="flex w-full items-center gap-2 rounded-lg px-3 py-2 text-left transition-colors hover:bg-slate-700/60"
+              onClick={() => {
+                onOpenFolder(menu.path);
+                setMenu(null);
+              }}
+            >
+              {t("app.actions.openFolder")}
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </aside>
+  );
+}
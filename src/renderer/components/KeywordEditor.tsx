@@ -0,0 +1,145 @@
+import { hasKeyword, normalizeKeyword } from "@shared/keywords";
+import {
+  type KeyboardEvent as ReactKeyboardEvent,
+  useId,
+  useMemo,
+  useState,
+} from "react";
+import { useI18n } from "../i18n/I18nProvider";
+
+interface KeywordEditorProps {
+  // Keywords every photo in the selection carries.
+  keywords: string[];
+  // Keywords only some of the selected photos carry.
+  partialKeywords?: string[];
+  suggestions: string[];
+  onAdd: (keywords: string[]) => void;
+  onRemove: (keyword: string) => void;
+}
+
+const SUGGESTION_LIMIT = 8;
+
+export default function KeywordEditor({
+  keywords,
+  partialKeywords = [],
+  suggestions,
+  onAdd,
+  onRemove,
+}: KeywordEditorProps) {
+  const { t } = useI18n();
+  const listId = useId();
+  const [draft, setDraft] = useState("");
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const matches = useMemo(() => {
+    const query = normalizeKeyword(draft).toLocaleLowerCase();
+    if (!query) {
+      return [];
+    }
+    return suggestions
+      .filter(
+        (suggestion) =>
+          suggestion.toLocaleLowerCase().includes(query) &&
+          !hasKeyword(keywords, suggestion),
+      )
+      .slice(0, SUGGESTION_LIMIT);
+  }, [draft, keywords, suggestions]);
+
+  const commit = (value: string) => {
+    // A pasted "a, b, c" adds three keywords at once.
+    const added = value.split(",").map(normalizeKeyword).filter(Boolean);
+    if (added.length > 0) {
+      onAdd(added);
+    }
+    setDraft("");
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (event: ReactKeyboardEvent<HTMLInputElement>) => {
+    if (event.nativeEvent.isComposing) {
+      return;
+    }
+    if (event.key === "ArrowDown" && matches.length > 0) {
+      event.preventDefault();
+      setActiveIndex((index) => (index + 1) % matches.length);
+    } else if (event.key === "ArrowUp" && matches.length > 0) {
+      event.preventDefault();
+      setActiveIndex((index) => (index <= 0 ? matches.length - 1 : index - 1));
+    } else if (event.key === "Enter" || event.key === ",") {
+      event.preventDefault();
+      commit(matches[activeIndex] ?? draft);
+    } else if (event.key === "Escape") {
+      setDraft("");
+      setActiveIndex(-1);
+    } else if (event.key === "Backspace" && !draft && keywords.length > 0) {
+      onRemove(keywords[keywords.length - 1]);
+    }
+  };
+
+  const renderChip = (keyword: string, isPartial: boolean) => (
+    <span
+      key={keyword}
+      className={`inline-flex items-center gap-1 rounded-full border px-2 py-1 text-xs font-semibold ${isPartial ? "border-dashed border-indigo-300/40 text-indigo-200/70" : "border-indigo-300/60 bg-indigo-500/20 text-indigo-50"}`}
+      title={isPartial ? t("keywordEditor.partial") : undefined}
+    >
+      {keyword}
+      <button
+        type="button"
+        className="rounded-full px-1 text-indigo-200/80 transition hover:text-rose-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-sky-300/70"
+        aria-label={t("keywordEditor.remove", { keyword })}
+        onClick={() => onRemove(keyword)}
+      >
+        ×
+      </button>
+    </span>
+  );
+
+  return (
+    <div className="relative flex flex-col gap-2">
+      {keywords.length > 0 || partialKeywords.length > 0 ? (
+        <div className="flex flex-wrap gap-1.5">
+          {keywords.map((keyword) => renderChip(keyword, false))}
+          {partialKeywords.map((keyword) => renderChip(keyword, true))}
+        </div>
+      ) : null}
+      <input
+        type="text"
+        value={draft}
+        role="combobox"
+        aria-label={t("keywordEditor.label")}
+        aria-autocomplete="list"
+        aria-expanded={matches.length > 0}
+        aria-controls={listId}
+        placeholder={t("keywordEditor.placeholder")}
+        className="w-full rounded-xl border border-indigo-400/40 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 placeholder:text-indigo-200/40 focus:border-sky-400/70 focus:outline-none focus:ring-1 focus:ring-sky-400/60"
+        onChange={(event) => {
+          setDraft(event.target.value);
+          setActiveIndex(-1);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setActiveIndex(-1)}
+      />
+      {matches.length > 0 ? (
+        <ul
+          id={listId}
+          className="absolute left-0 right-0 top-full z-20 mt-1 flex flex-col gap-0.5 rounded-xl border border-indigo-400/60 bg-slate-950/95 p-1 shadow-[0_15px_35px_rgba(10,20,60,0.55)] backdrop-blur"
+        >
+          {matches.map((match, index) => (
+            <li key={match}>
+              <button
+                type="button"
+                tabIndex={-1}
+                className={`w-full truncate rounded-lg px-2 py-1.5 text-left text-sm text-indigo-100 transition-colors ${index === activeIndex ? "bg-indigo-500/25" : "hover:bg-indigo-500/10"}`}
+                // Keep focus in the input so typing can continue.
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => commit(match)}
+              >
+                {match}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+
+interface KeywordFilterMenuProps {
+  label: string;
+  emptyLabel: string;
+  keywords: string[];
+  selectedKeywords: string[];
+  counts: Record<string, number>;
+  formatCount: (value: number) => string;
+  onChange: (nextKeywords: string[]) => void;
+  disabled?: boolean;
+}
+
+export default function KeywordFilterMenu({
+  label,
+  emptyLabel,
+  keywords,
+  selectedKeywords,
+  counts,
+  formatCount,
+  onChange,
+  disabled = false,
+}: KeywordFilterMenuProps) {
+  const selectionSet = useMemo(
+    () => new Set<string>(selectedKeywords),
+    [selectedKeywords],
+  );
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const closeTimeout = useRef<number | null>(null);
+
+  const openMenu = () => {
+    if (disabled) return;
+    if (closeTimeout.current !== null) {
+      window.clearTimeout(closeTimeout.current);
+      closeTimeout.current = null;
+    }
+    setIsOpen(true);
+  };
+
+  const scheduleClose = () => {
+    if (closeTimeout.current !== null) {
+      window.clearTimeout(closeTimeout.current);
+    }
+    closeTimeout.current = window.setTimeout(() => {
+      setIsOpen(false);
+      closeTimeout.current = null;
+    }, 120);
+  };
+
+  useEffect(() => {
+    if (disabled) {
+      setIsOpen(false);
+    }
+    return () => {
+      if (closeTimeout.current !== null) {
+        window.clearTimeout(closeTimeout.current);
+      }
+    };
+  }, [disabled]);
+
+  const handleToggle = (value: string) => {
+    if (disabled) {
+      return;
+    }
+    const next = new Set(selectionSet);
+    if (next.has(value)) {
+      next.delete(value);
+    } else {
+      next.add(value);
+    }
+    onChange(keywords.filter((keyword) => next.has(keyword)));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative inline-flex items-center gap-2 ${disabled ? "opacity-60" : ""}`}
+      onMouseEnter={openMenu}
+      onMouseLeave={() => {
+        if (disabled) return;
+        scheduleClose();
+      }}
+      onFocusCapture={openMenu}
+      onBlurCapture={(event) => {
+        if (!containerRef.current) return;
+        if (!containerRef.current.contains(event.relatedTarget as Node)) {
+          scheduleClose();
+        }
+      }}
+    >
+      <button
+        type="button"
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+        aria-label={label}
+        className={`inline-flex items-center gap-2 rounded-full border border-indigo-300/60 bg-indigo-900/60 px-4 py-3 text-xs font-semibold text-indigo-100 transition focus:outline-none focus:ring-2 focus:ring-indigo-400/60 ${disabled ? "pointer-events-none" : "hover:bg-indigo-800/70"}`}
+        onClick={() => {
+          if (disabled) return;
+          if (closeTimeout.current !== null) {
+            window.clearTimeout(closeTimeout.current);
+            closeTimeout.current = null;
+          }
+          setIsOpen((prev) => !prev);
+        }}
+        disabled={disabled}
+      >
+        <span className="text-[13px] font-semibold text-indigo-100">
+          {label}
+        </span>
+        {selectedKeywords.length > 0 ? (
+          <span className="rounded-full bg-indigo-500/40 px-2 text-[11px]">
+            {formatCount(selectedKeywords.length)}
+          </span>
+        ) : null}
+      </button>
+      {isOpen ? (
+        <div className="absolute right-0 top-full z-20 mt-2 flex max-h-80 w-56 flex-col gap-1 overflow-auto rounded-2xl border border-indigo-400/60 bg-slate-950/95 p-2 shadow-[0_15px_35px_rgba(10,20,60,0.55)] backdrop-blur">
+          {keywords.length === 0 ? (
+            <span className="px-2 py-2 text-sm text-indigo-200/70">
+              {emptyLabel}
+            </span>
+          ) : null}
+          {keywords.map((keyword, index) => {
+            const checked = selectionSet.has(keyword);
+            const optionId = `keyword-filter-${index}`;
+            return (
+              <label
+                key={keyword}
+                htmlFor={optionId}
+                className={`flex cursor-pointer items-center gap-3 rounded-xl px-2 py-2 text-sm transition-colors ${checked ? "bg-indigo-500/25" : "hover:bg-indigo-500/10"}`}
+              >
+                <input
+                  id={optionId}
+                  type="checkbox"
+                  className="h-4 w-4 rounded border-indigo-400/60 bg-indigo-950/80 text-amber-300 focus:ring-1 focus:ring-amber-300"
+                  checked={checked}
+                  onChange={() => handleToggle(keyword)}
+                  disabled={disabled}
+                />
+                <span className="truncate font-semibold text-indigo-100">
+                  {keyword}
+                </span>
+                <span className="ml-auto text-xs text-indigo-200/80">
+                  {formatCount(counts[keyword] ?? 0)}
+                </span>
+              </label>
+            );
+          })}
+        </div>
+      ) : null}
+    </div>
+  );
+}
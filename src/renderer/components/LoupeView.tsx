@@ -0,0 +1,279 @@
+import { useEffect, useRef, useState } from "react";
+import { useI18n } from "../i18n/I18nProvider";
+import type { RatedPhoto } from "../types";
+import { toTransform, useZoomPan } from "../zoomPan";
+import PhotoInfo from "./PhotoInfo";
+
+interface LoupeViewProps {
+  photo: RatedPhoto;
+  // Shooting details over the top-left corner
+  showInfo: boolean;
+  onToggleInfo: () => void;
+  onClose: () => void;
+}
+
+// Multiples of the photo's own pixel size; "fit" shows the whole frame.
+type ZoomPreset = "fit" | 1 | 2;
+
+const ZOOM_PRESETS: ZoomPreset[] = ["fit", 1, 2];
+const MIN_MAX_SCALE = 8;
+const MINIMAP_WIDTH = 160;
+
+function clampUnit(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+export default function LoupeView({
+  photo,
+  showInfo,
+  onToggleInfo,
+  onClose,
+}: LoupeViewProps) {
+  const { t, formatNumber } = useI18n();
+  const paneRef = useRef<HTMLDivElement | null>(null);
+  const [paneSize, setPaneSize] = useState({ width: 0, height: 0 });
+  // Kept across photos so a burst of same-sized frames stays at one zoom.
+  const [naturalSize, setNaturalSize] = useState<{
+    width: number;
+    height: number;
+  } | null>(null);
+
+  // Screen pixels per image pixel when the photo is fitted to the pane.
+  const fitRatio =
+    naturalSize && paneSize.width > 0 && paneSize.height > 0
+      ? Math.min(
+          paneSize.width / naturalSize.width,
+          paneSize.height / naturalSize.height,
+        )
+      : null;
+  const actualSizeScale = fitRatio ? 1 / fitRatio : 1;
+  const { view, zoomTo, wasDragged, handlers } = useZoomPan(
+    Math.max(MIN_MAX_SCALE, actualSizeScale * 2),
+  );
+
+  useEffect(() => {
+    const pane = paneRef.current;
+    if (!pane) {
+      return;
+    }
+    const observer = new ResizeObserver(([entry]) => {
+      setPaneSize({
+        width: entry.contentRect.width,
+        height: entry.contentRect.height,
+      });
+    });
+    observer.observe(pane);
+    return () => observer.disconnect();
+  }, []);
+
+  const presetScale = (preset: ZoomPreset) =>
+    preset === "fit" ? 1 : preset * actualSizeScale;
+  const activePreset =
+    ZOOM_PRESETS.find(
+      (preset) => Math.abs(presetScale(preset) - view.scale) < 0.01,
+    ) ?? null;
+
+  const applyPreset = (
+    preset: ZoomPreset,
+    clientX?: number,
+    clientY?: number,
+  ) => {
+    if (paneRef.current) {
+      zoomTo(presetScale(preset), paneRef.current, clientX, clientY);
+    }
+  };
+  // Click toggles between fit and 100% around the cursor.
+  const toggleZoom = (clientX?: number, clientY?: number) => {
+    if (view.scale > 1) {
+      applyPreset("fit");
+    } else {
+      applyPreset(1, clientX, clientY);
+    }
+  };
+  const applyPresetRef = useRef(applyPreset);
+  applyPresetRef.current = applyPreset;
+  const activePresetRef = useRef(activePreset);
+  activePresetRef.current = activePreset;
+  const onToggleInfoRef = useRef(onToggleInfo);
+  onToggleInfoRef.current = onToggleInfo;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.metaKey || event.ctrlKey || event.altKey) {
+        return;
+      }
+      if (event.key === "z" || event.key === "Z") {
+        event.preventDefault();
+        const current = activePresetRef.current;
+        const index = current === null ? 0 : ZOOM_PRESETS.indexOf(current);
+        applyPresetRef.current(ZOOM_PRESETS[(index + 1) % ZOOM_PRESETS.length]);
+      } else if (event.key === "i" || event.key === "I") {
+        event.preventDefault();
+        onToggleInfoRef.current();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const zoomPercent = fitRatio ? Math.round(view.scale * fitRatio * 100) : null;
+
+  // Part of the photo currently on screen, as fractions of its width/height.
+  let visibleRegion: {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+  } | null = null;
+  if (fitRatio && naturalSize && view.scale > 1) {
+    const fittedWidth = naturalSize.width * fitRatio;
+    const fittedHeight = naturalSize.height * fitRatio;
+    const toUnitX = (screenX: number) =>
+      clampUnit(
+        ((screenX - view.x) / view.scale + fittedWidth / 2) / fittedWidth,
+      );
+    const toUnitY = (screenY: number) =>
+      clampUnit(
+        ((screenY - view.y) / view.scale + fittedHeight / 2) / fittedHeight,
+      );
+    const left = toUnitX(-paneSize.width / 2);
+    const top = toUnitY(-paneSize.height / 2);
+    visibleRegion = {
+      left,
+      top,
+      width: toUnitX(paneSize.width / 2) - left,
+      height: toUnitY(paneSize.height / 2) - top,
+    };
+  }
+
+  const presetLabel = (preset: ZoomPreset) =>
+    preset === "fit"
+      ? t("loupe.fit")
+      : t("loupe.percent", { value: formatNumber(preset * 100) });
+
+  return (
+    <dialog
+      className="fixed inset-0 z-40 m-0 flex flex-col bg-[rgba(4,8,18,0.9)] backdrop-blur-lg"
+      aria-label={t("app.dialog.preview")}
+      open
+      style={{
+        display: "flex",
+        position: "fixed",
+        inset: 0,
+        margin: 0,
+        padding: 0,
+        border: "none",
+        width: "100%",
+        height: "100%",
+      }}
+      onCancel={(event) => {
+        event.preventDefault();
+        onClose();
+      }}
+    >
+      <div className="flex items-center gap-3 px-6 py-3">
+        <span
+          className="min-w-0 flex-1 truncate text-sm text-indigo-100"
+          title={photo.name}
+        >
+          {photo.name}
+        </span>
+        <fieldset className="flex items-center gap-1 rounded-full border border-indigo-300/40 bg-indigo-950/60 p-1">
+          <legend className="sr-only">{t("loupe.zoom")}</legend>
+          {ZOOM_PRESETS.map((preset) => (
+            <button
+              key={preset}
+              type="button"
+              aria-pressed={activePreset === preset}
+              className={`rounded-full px-3 py-1 text-xs font-semibold transition focus:outline-none focus-visible:ring-2 focus-visible:ring-sky-300/70 ${activePreset === preset ? "bg-indigo-500/40 text-indigo-50" : "text-indigo-200 hover:bg-indigo-500/20"}`}
+              onClick={() => applyPreset(preset)}
+            >
+              {presetLabel(preset)}
+            </button>
+          ))}
+        </fieldset>
+        <button
+          type="button"
+          aria-pressed={showInfo}
+          className={`rounded-full border px-3 py-1.5 text-xs font-semibold transition focus:outline-none focus-visible:ring-2 focus-visible:ring-sky-300/70 ${showInfo ? "border-sky-300/60 bg-sky-500/20 text-sky-50" : "border-indigo-300/40 text-indigo-200 hover:bg-indigo-500/20"}`}
+          onClick={onToggleInfo}
+        >
+          {t("loupe.info")}
+        </button>
+        <span className="w-14 text-right font-mono text-xs text-indigo-200/80">
+          {zoomPercent === null ? "" : `${formatNumber(zoomPercent)}%`}
+        </span>
+        <button
+          type="button"
+          className="rounded-full border border-indigo-300/60 bg-indigo-900/60 px-4 py-2 text-xs font-semibold text-indigo-100 transition hover:bg-indigo-800/70 focus:outline-none focus:ring-2 focus:ring-indigo-400/60"
+          onClick={onClose}
+        >
+          {t("loupe.close")}
+        </button>
+      </div>
+      <div
+        ref={paneRef}
+        className={`relative min-h-0 flex-1 touch-none overflow-hidden ${view.scale > 1 ? "cursor-grab active:cursor-grabbing" : "cursor-zoom-in"}`}
+        onWheel={handlers.onWheel}
+        onPointerDown={handlers.onPointerDown}
+        onPointerMove={handlers.onPointerMove}
+        onPointerUp={handlers.onPointerUp}
+        onPointerCancel={handlers.onPointerCancel}
+        onClick={(event) => {
+          if (!wasDragged()) {
+            toggleZoom(event.clientX, event.clientY);
+          }
+        }}
+        onKeyDown={(event) => {
+          if (event.key === "Enter" || event.key === " ") {
+            event.preventDefault();
+            toggleZoom();
+          }
+        }}
+      >
+        <img
+          src={photo.fileUrl}
+          alt={photo.name}
+          draggable={false}
+          className="h-full w-full select-none object-contain"
+          style={{ transform: toTransform(view) }}
+          onLoad={(event) =>
+            setNaturalSize({
+              width: event.currentTarget.naturalWidth,
+              height: event.currentTarget.naturalHeight,
+            })
+          }
+        />
+        {showInfo ? (
+          <div className="pointer-events-none absolute left-4 top-4 w-72 rounded-xl border border-slate-500/40 bg-slate-950/75 p-4 shadow-[0_10px_24px_rgba(0,0,0,0.45)] backdrop-blur">
+            <PhotoInfo photo={photo} variant="overlay" />
+          </div>
+        ) : null}
+        {visibleRegion && naturalSize ? (
+          <div
+            className="pointer-events-none absolute bottom-4 right-4 overflow-hidden rounded-lg border border-slate-500/60 bg-slate-950/80 shadow-[0_10px_24px_rgba(0,0,0,0.45)]"
+            style={{
+              width: MINIMAP_WIDTH,
+              height: (MINIMAP_WIDTH * naturalSize.height) / naturalSize.width,
+            }}
+          >
+            <img
+              src={photo.thumbnailUrl}
+              alt=""
+              className="h-full w-full object-cover opacity-80"
+            />
+            <div
+              className="absolute border-2 border-sky-300 bg-sky-300/10"
+              style={{
+                left: `${visibleRegion.left * 100}%`,
+                top: `${visibleRegion.top * 100}%`,
+                width: `${visibleRegion.width * 100}%`,
+                height: `${visibleRegion.height * 100}%`,
+              }}
+            />
+          </div>
+        ) : null}
+      </div>
+    </dialog>
+  );
+}
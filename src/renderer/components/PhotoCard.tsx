@@ -1,15 +1,27 @@
+import type { MetadataSyncStatus, PhotoFlag } from "@preload/index";
+import type { TranslationKey } from "@shared/i18n";
 import { motion } from "framer-motion";
 import type { MouseEvent } from "react";
 import { useEffect, useState } from "react";
+import {
+  COLOR_LABEL_NAME_KEYS,
+  COLOR_LABEL_SWATCH_CLASSES,
+} from "../colorLabels";
 import { useI18n } from "../i18n/I18nProvider";
+import type { StackDisplayInfo } from "../stacks";
 import type { RatedPhoto } from "../types";
+import type { RootBadge } from "../workspace";
 import RatingStars from "./RatingStars";
 
 interface PhotoCardProps {
   photo: RatedPhoto;
   isSelected: boolean;
+  stack?: StackDisplayInfo;
+  // Only passed while more than one root is loaded
+  root?: RootBadge;
   onSelect: (photo: RatedPhoto, event?: MouseEvent<HTMLDivElement>) => void;
   onRate: (id: string, rating: number) => void;
+  onToggleStack?: (photo: RatedPhoto) => void;
   onContextMenu: (
     photo: RatedPhoto,
     position: { x: number; y: number },
@@ -19,17 +31,134 @@ interface PhotoCardProps {
 
 const loadedThumbnails = new Set<string>();
 
+const SYNC_STATUS_LABEL_KEYS: Record<MetadataSyncStatus, TranslationKey> = {
+  pending: "photoCard.sync.pending",
+  written: "photoCard.sync.written",
+  failed: "photoCard.sync.failed",
+  skippedSlowVolume: "photoCard.sync.skippedSlowVolume",
+  skippedDisabled: "photoCard.sync.skippedDisabled",
+};
+
+const FLAG_LABEL_KEYS: Record<PhotoFlag, TranslationKey> = {
+  picked: "photoCard.flag.picked",
+  rejected: "photoCard.flag.rejected",
+};
+
+function FlagIcon({ flag }: { flag: PhotoFlag }) {
+  if (flag === "rejected") {
+    return (
+      <svg
+        aria-hidden="true"
+        className="h-3.5 w-3.5 text-rose-300"
+        viewBox="0 0 16 16"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="2"
+        strokeLinecap="round"
+      >
+        <path d="m4 4 8 8" />
+        <path d="m12 4-8 8" />
+      </svg>
+    );
+  }
+  return (
+    <svg
+      aria-hidden="true"
+      className="h-3.5 w-3.5 text-slate-50"
+      viewBox="0 0 16 16"
+      fill="currentColor"
+    >
+      <path d="M3.5 2h1.25v12H3.5z" />
+      <path d="M4.75 2.5h7.5l-1.75 3 1.75 3h-7.5z" />
+    </svg>
+  );
+}
+
+function StackIcon() {
+  return (
+    <svg
+      aria-hidden="true"
+      className="h-3.5 w-3.5"
+      viewBox="0 0 16 16"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="1.6"
+      strokeLinejoin="round"
+    >
+      <rect x="2" y="5" width="9" height="9" rx="1.5" />
+      <path d="M5 2.5h7a1.5 1.5 0 0 1 1.5 1.5v7" />
+    </svg>
+  );
+}
+
+function SyncStatusIcon({ status }: { status: MetadataSyncStatus }) {
+  if (status === "pending") {
+    return (
+      <span className="block h-3 w-3 animate-spin rounded-full border-[1.5px] border-sky-200/30 border-t-sky-200" />
+    );
+  }
+  if (status === "written") {
+    return (
+      <svg
+        aria-hidden="true"
+        className="h-3.5 w-3.5 text-emerald-300"
+        viewBox="0 0 16 16"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="2"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      >
+        <path d="m3.5 8.5 3 3 6-7" />
+      </svg>
+    );
+  }
+  if (status === "failed") {
+    return (
+      <svg
+        aria-hidden="true"
+        className="h-3.5 w-3.5 text-rose-300"
+        viewBox="0 0 16 16"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="2"
+        strokeLinecap="round"
+      >
+        <path d="M8 3.5v5.5" />
+        <path d="M8 12.2v.3" />
+      </svg>
+    );
+  }
+  return (
+    <svg
+      aria-hidden="true"
+      className="h-3.5 w-3.5 text-slate-400"
+      viewBox="0 0 16 16"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="1.8"
+      strokeLinecap="round"
+    >
+      <circle cx="8" cy="8" r="5" />
+      <path d="m4.5 11.5 7-7" />
+    </svg>
+  );
+}
+
 export default function PhotoCard({
   photo,
   isSelected,
+  stack,
+  root,
   onSelect,
   onRate,
+  onToggleStack,
   onContextMenu,
   onExpand,
 }: PhotoCardProps) {
   const [isImageLoaded, setIsImageLoaded] = useState(false);
   const [hasImageError, setHasImageError] = useState(false);
-  const { t } = useI18n();
+  const { t, formatNumber } = useI18n();
 
   useEffect(() => {
     if (loadedThumbnails.has(photo.thumbnailUrl)) {
@@ -40,10 +169,16 @@ export default function PhotoCard({
     setHasImageError(false);
   }, [photo.thumbnailUrl]);
 
-  const cardClass = `flex h-full flex-col gap-2.5 rounded-2xl border border-indigo-400/10 bg-slate-900/90 p-3 shadow-[0_16px_34px_rgba(0,0,0,0.25)] transition-colors ${
+  const cardClass = `flex h-full flex-col gap-2.5 rounded-2xl border border-indigo-400/10 bg-slate-900/90 p-3 shadow-[0_16px_34px_rgba(0,0,0,0.25)] transition-[colors,opacity] ${
     isSelected
       ? "border-sky-300/70 shadow-[0_18px_36px_rgba(86,132,255,0.35)]"
       : ""
+  } ${photo.flag === "rejected" ? "opacity-40 hover:opacity-70" : ""} ${
+    stack
+      ? stack.isExpanded
+        ? "bg-amber-950/30 ring-1 ring-amber-300/25"
+        : "ring-1 ring-amber-300/25 shadow-[5px_5px_0_-1px_rgba(51,65,85,0.9),10px_10px_0_-2px_rgba(30,41,59,0.8)]"
+      : ""
   }`;
 
   return (
@@ -95,21 +230,88 @@ export default function PhotoCard({
             <span>{t("photoCard.error")}</span>
           </div>
         ) : null}
-        <div className="absolute bottom-2 left-2 rounded-full bg-slate-950/80 px-3 py-1 backdrop-blur">
+        {photo.members && photo.members.length > 1 ? (
+          <div
+            className="absolute left-2 top-2 rounded-full bg-slate-950/80 px-2 py-0.5 text-[10px] font-semibold tracking-wide text-sky-100 backdrop-blur"
+            title={t("photoCard.pairFiles", {
+              files: photo.members.map((member) => member.name).join(", "),
+            })}
+          >
+            {photo.members.map((member) => member.format).join(" + ")}
+          </div>
+        ) : null}
+        {photo.syncStatus ? (
+          <div
+            className="absolute right-2 top-2 flex h-6 w-6 items-center justify-center rounded-full bg-slate-950/80 backdrop-blur"
+            title={t(SYNC_STATUS_LABEL_KEYS[photo.syncStatus])}
+          >
+            <SyncStatusIcon status={photo.syncStatus} />
+            <span className="sr-only">
+              {t(SYNC_STATUS_LABEL_KEYS[photo.syncStatus])}
+            </span>
+          </div>
+        ) : null}
+        {stack?.isCover ? (
+          <button
+            type="button"
+            className="absolute bottom-2 right-2 flex items-center gap-1 rounded-full bg-slate-950/80 px-2 py-1 text-[11px] font-semibold text-amber-100 backdrop-blur transition hover:bg-slate-800/90 focus:outline-none focus-visible:ring-2 focus-visible:ring-amber-300/70"
+            aria-expanded={stack.isExpanded}
+            title={
+              stack.isExpanded
+                ? t("photoCard.stack.collapse")
+                : t("photoCard.stack.expand", {
+                    count: formatNumber(stack.count),
+                  })
+            }
+            onClick={(event) => {
+              event.stopPropagation();
+              onToggleStack?.(photo);
+            }}
+            onDoubleClick={(event) => event.stopPropagation()}
+          >
+            <StackIcon />
+            {formatNumber(stack.count)}
+          </button>
+        ) : null}
+        <div className="absolute bottom-2 left-2 flex items-center gap-2 rounded-full bg-slate-950/80 px-3 py-1 backdrop-blur">
           <RatingStars
             rating={photo.rating}
             onChange={(value) => onRate(photo.id, value)}
             size="compact"
           />
+          {photo.flag ? (
+            <span title={t(FLAG_LABEL_KEYS[photo.flag])}>
+              <FlagIcon flag={photo.flag} />
+              <span className="sr-only">{t(FLAG_LABEL_KEYS[photo.flag])}</span>
+            </span>
+          ) : null}
+          {photo.label ? (
+            <span
+              className={`h-3 w-3 rounded-full ${COLOR_LABEL_SWATCH_CLASSES[photo.label]}`}
+              title={t(COLOR_LABEL_NAME_KEYS[photo.label])}
+            >
+              <span className="sr-only">
+                {t(COLOR_LABEL_NAME_KEYS[photo.label])}
+              </span>
+            </span>
+          ) : null}
         </div>
       </div>
-      <div className="flex items-center justify-between">
+      <div className="flex items-center justify-between gap-2">
         <span
           className="w-full truncate text-xs font-semibold text-slate-50"
           title={photo.name}
         >
           {photo.name}
         </span>
+        {root ? (
+          <span
+            className={`max-w-[45%] flex-none truncate rounded-full px-2 py-0.5 text-[10px] font-semibold ${root.className}`}
+            title={root.path}
+          >
+            {root.label}
+          </span>
+        ) : null}
       </div>
     </motion.div>
   );
@@ -8,10 +8,16 @@ interface PhotoContextMenuProps {
   onDelete: () => void;
   onReveal: () => void;
   onRename: () => void;
+  onCopy: () => void;
+  onMove: () => void;
+  // Copies every 5★ photo in the workspace, whatever is selected
+  onCopyTopRated: () => void;
+  topRatedCount: number;
+  onExport: () => void;
 }
 
 const MENU_GAP = 8;
-const MENU_DIMENSIONS = { width: 200, height: 140 };
+const MENU_DIMENSIONS = { width: 220, height: 300 };
 
 export default function PhotoContextMenu({
   position,
@@ -20,6 +26,11 @@ export default function PhotoContextMenu({
   onDelete,
   onReveal,
   onRename,
+  onCopy,
+  onMove,
+  onCopyTopRated,
+  topRatedCount,
+  onExport,
 }: PhotoContextMenuProps) {
   const { t, formatNumber } = useI18n();
   const renameDisabled = selectionCount !== 1;
@@ -29,6 +40,24 @@ export default function PhotoContextMenu({
           count: formatNumber(selectionCount),
         })
       : t("app.context.delete");
+  const copyLabel =
+    selectionCount > 1
+      ? t("app.context.copySelectedTo", {
+          count: formatNumber(selectionCount),
+        })
+      : t("app.context.copyTo");
+  const moveLabel =
+    selectionCount > 1
+      ? t("app.context.moveSelectedTo", {
+          count: formatNumber(selectionCount),
+        })
+      : t("app.context.moveTo");
+  const exportLabel =
+    selectionCount > 1
+      ? t("app.context.exportSelected", {
+          count: formatNumber(selectionCount),
+        })
+      : t("app.context.export");
   const anchoredPosition = useMemo(() => {
     const { innerWidth, innerHeight } = window;
     const maxX = innerWidth - MENU_DIMENSIONS.width - MENU_GAP;
@@ -120,6 +149,51 @@ export default function PhotoContextMenu({
         >
           {t("app.context.reveal")}
         </button>
+        <div className="my-1 border-t border-slate-500/30" />
+        <button
+          type="button"
+          className="flex w-full items-center gap-2 rounded-lg px-3 py-2 text-left transition-colors hover:bg-slate-700/60"
+          onClick={() => {
+            onCopy();
+          }}
+        >
+          {copyLabel}
+        </button>
+        <button
+          type="button"
+          className="flex w-full items-center gap-2 rounded-lg px-3 py-2 text-left transition-colors hover:bg-slate-700/60"
+          onClick={() => {
+            onMove();
+          }}
+        >
+          {moveLabel}
+        </button>
+        <button
+          type="button"
+          className={`flex w-full items-center gap-2 rounded-lg px-3 py-2 text-left transition-colors ${topRatedCount === 0 ? "cursor-not-allowed opacity-50" : "hover:bg-slate-700/60"}`}
+          onClick={() => {
+            if (topRatedCount === 0) {
+              return;
+            }
+            onCopyTopRated();
+          }}
+          disabled={topRatedCount === 0}
+        >
+          <span className="flex-1">{t("app.context.copyTopRated")}</span>
+          <span className="font-mono text-xs text-slate-400">
+            {formatNumber(topRatedCount)}
+          </span>
+        </button>
+        <button
+          type="button"
+          className="flex w-full items-center gap-2 rounded-lg px-3 py-2 text-left transition-colors hover:bg-slate-700/60"
+          onClick={() => {
+            onExport();
+          }}
+        >
+          {exportLabel}
+        </button>
+        <div className="my-1 border-t border-slate-500/30" />
         <button
           type="button"
           className="flex w-full items-center gap-2 rounded-lg px-3 py-2 text-left text-red-400 transition-colors hover:bg-red-500/20 hover:text-red-200"
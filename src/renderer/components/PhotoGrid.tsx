@@ -1,17 +1,40 @@
 import { AnimatePresence, motion } from "framer-motion";
-import { memo, useMemo } from "react";
+import { memo, useCallback, useEffect, useMemo, useRef } from "react";
 import type { MouseEvent, DragEvent as ReactDragEvent, ReactNode } from "react";
 import AutoSizer from "react-virtualized-auto-sizer";
 import { FixedSizeGrid, type GridChildComponentProps } from "react-window";
 import { useI18n } from "../i18n/I18nProvider";
+import type { StackDisplayInfo } from "../stacks";
 import type { RatedPhoto } from "../types";
+import { type RootBadge, findRoot } from "../workspace";
 import PhotoCard from "./PhotoCard";
 
+// Photo indices (inclusive) currently on screen, plus a margin of rows around
+// them that are likely to scroll in next.
+export interface GridVisibleRange {
+  visibleStart: number;
+  visibleEnd: number;
+  nearbyStart: number;
+  nearbyEnd: number;
+}
+
+interface GridItemsRendered {
+  visibleRowStartIndex: number;
+  visibleRowStopIndex: number;
+  overscanRowStartIndex: number;
+  overscanRowStopIndex: number;
+}
+
 interface PhotoGridProps {
   photos: RatedPhoto[];
+  // Burst stack membership of the cards that belong to one
+  stacks?: Map<string, StackDisplayInfo>;
+  // Badges for the workspace roots; left out while there is only one
+  roots?: RootBadge[];
   selectedIds: string[];
   onSelect: (photo: RatedPhoto, event?: MouseEvent<HTMLDivElement>) => void;
   onRate: (id: string, rating: number) => void;
+  onToggleStack?: (photo: RatedPhoto) => void;
   onContextMenu: (
     photo: RatedPhoto,
     position: { x: number; y: number },
@@ -23,16 +46,25 @@ interface PhotoGridProps {
   onDragOver?: (event: ReactDragEvent<HTMLDivElement>) => void;
   onDragLeave?: (event: ReactDragEvent<HTMLDivElement>) => void;
   onDrop?: (event: ReactDragEvent<HTMLDivElement>) => void;
+  onVisibleRangeChange?: (range: GridVisibleRange) => void;
+  // Offset to jump to, e.g. when a session is restored; applied whenever it
+  // changes to a number.
+  scrollTopRequest?: number | null;
+  onScrollTopChange?: (scrollTop: number) => void;
 }
 
 const CELL_HEIGHT = 240;
 const MIN_CELL_WIDTH = 220;
+const NEARBY_ROW_COUNT = 4;
 
 interface GridData {
   photos: RatedPhoto[];
+  stacks?: Map<string, StackDisplayInfo>;
+  roots?: RootBadge[];
   columnCount: number;
   onSelect: (photo: RatedPhoto, event?: MouseEvent<HTMLDivElement>) => void;
   onRate: (id: string, rating: number) => void;
+  onToggleStack?: (photo: RatedPhoto) => void;
   onContextMenu: (
     photo: RatedPhoto,
     position: { x: number; y: number },
@@ -50,9 +82,12 @@ const GridCell = memo(
   }: GridChildComponentProps<GridData>) => {
     const {
       photos,
+      stacks,
+      roots,
       columnCount,
       onSelect,
       onRate,
+      onToggleStack,
       onContextMenu,
       onExpand,
       selectedIdSet,
@@ -77,8 +112,11 @@ const GridCell = memo(
         <PhotoCard
           photo={photo}
           isSelected={isSelected}
+          stack={stacks?.get(photo.id)}
+          root={roots ? findRoot(photo.filePath, roots) : undefined}
           onSelect={onSelect}
           onRate={onRate}
+          onToggleStack={onToggleStack}
           onContextMenu={onContextMenu}
           onExpand={onExpand}
         />
@@ -91,9 +129,12 @@ GridCell.displayName = "GridCell";
 
 export default function PhotoGrid({
   photos,
+  stacks,
+  roots,
   selectedIds,
   onSelect,
   onRate,
+  onToggleStack,
   onContextMenu,
   onExpand,
   emptyContent,
@@ -102,9 +143,58 @@ export default function PhotoGrid({
   onDragLeave,
   onDragOver,
   onDrop,
+  onVisibleRangeChange,
+  scrollTopRequest = null,
+  onScrollTopChange,
 }: PhotoGridProps) {
   const { t } = useI18n();
   const selectedIdSet = useMemo(() => new Set(selectedIds), [selectedIds]);
+  const gridRef = useRef<FixedSizeGrid<GridData> | null>(null);
+  const hasPhotos = photos.length > 0;
+
+  useEffect(() => {
+    if (scrollTopRequest === null || !hasPhotos) {
+      return;
+    }
+    gridRef.current?.scrollTo({ scrollTop: scrollTopRequest });
+  }, [hasPhotos, scrollTopRequest]);
+  const handleItemsRendered = useCallback(
+    (
+      {
+        visibleRowStartIndex,
+        visibleRowStopIndex,
+        overscanRowStartIndex,
+        overscanRowStopIndex,
+      }: GridItemsRendered,
+      columnCount: number,
+    ) => {
+      if (!onVisibleRangeChange) {
+        return;
+      }
+      const lastIndex = photos.length - 1;
+      const nearbyStartRow = Math.max(
+        0,
+        Math.min(
+          overscanRowStartIndex,
+          visibleRowStartIndex - NEARBY_ROW_COUNT,
+        ),
+      );
+      const nearbyStopRow = Math.max(
+        overscanRowStopIndex,
+        visibleRowStopIndex + NEARBY_ROW_COUNT,
+      );
+      onVisibleRangeChange({
+        visibleStart: visibleRowStartIndex * columnCount,
+        visibleEnd: Math.min(
+          lastIndex,
+          (visibleRowStopIndex + 1) * columnCount - 1,
+        ),
+        nearbyStart: nearbyStartRow * columnCount,
+        nearbyEnd: Math.min(lastIndex, (nearbyStopRow + 1) * columnCount - 1),
+      });
+    },
+    [onVisibleRangeChange, photos.length],
+  );
   const content = useMemo(() => {
     if (!photos.length) {
       return (
@@ -123,17 +213,30 @@ export default function PhotoGrid({
 
           return (
             <FixedSizeGrid
+              ref={gridRef}
               columnCount={columnCount}
               columnWidth={columnWidth}
               height={height}
               rowCount={rowCount}
               rowHeight={CELL_HEIGHT}
               width={width}
+              onItemsRendered={(props: GridItemsRendered) =>
+                handleItemsRendered(props, columnCount)
+              }
+              onScroll={
+                onScrollTopChange
+                  ? ({ scrollTop }: { scrollTop: number }) =>
+                      onScrollTopChange(scrollTop)
+                  : undefined
+              }
               itemData={{
                 photos,
+                stacks,
+                roots,
                 columnCount,
                 onSelect,
                 onRate,
+                onToggleStack,
                 onContextMenu,
                 onExpand,
                 selectedIdSet,
@@ -147,12 +250,17 @@ export default function PhotoGrid({
     );
   }, [
     emptyContent,
+    handleItemsRendered,
     onContextMenu,
     onExpand,
     onRate,
+    onScrollTopChange,
     onSelect,
+    onToggleStack,
     photos,
+    roots,
     selectedIdSet,
+    stacks,
     t,
   ]);
 
@@ -0,0 +1,104 @@
+import {
+  formatAperture,
+  formatCoordinate,
+  formatExposureTime,
+  formatFocalLength,
+  useExifInfo,
+} from "../exifInfo";
+import { useI18n } from "../i18n/I18nProvider";
+import type { RatedPhoto } from "../types";
+
+interface PhotoInfoProps {
+  photo: RatedPhoto;
+  // Lighter text for use on top of the photo
+  variant?: "panel" | "overlay";
+}
+
+export default function PhotoInfo({
+  photo,
+  variant = "panel",
+}: PhotoInfoProps) {
+  const { t, formatDate, formatNumber } = useI18n();
+  const state = useExifInfo(photo);
+
+  const mutedClass =
+    variant === "overlay" ? "text-slate-300/80" : "text-indigo-200/70";
+  if (state.status === "loading") {
+    return <p className={`text-xs ${mutedClass}`}>{t("photoInfo.loading")}</p>;
+  }
+  if (state.status === "error") {
+    return (
+      <p className={`text-xs ${mutedClass}`}>
+        {state.message ?? t("photoInfo.error")}
+      </p>
+    );
+  }
+
+  const { info } = state;
+  const rows: Array<[label: string, value: string]> = [];
+  if (info.camera) {
+    rows.push([t("photoInfo.camera"), info.camera]);
+  }
+  if (info.lens) {
+    rows.push([t("photoInfo.lens"), info.lens]);
+  }
+  if (info.focalLength !== null) {
+    rows.push([
+      t("photoInfo.focalLength"),
+      formatFocalLength(info.focalLength),
+    ]);
+  }
+  if (info.aperture !== null) {
+    rows.push([t("photoInfo.aperture"), formatAperture(info.aperture)]);
+  }
+  if (info.exposureTime !== null) {
+    rows.push([t("photoInfo.shutter"), formatExposureTime(info.exposureTime)]);
+  }
+  if (info.iso !== null) {
+    rows.push([t("photoInfo.iso"), formatNumber(info.iso)]);
+  }
+  if (info.capturedAt !== null) {
+    rows.push([t("photoInfo.captured"), formatDate(info.capturedAt)]);
+  }
+  if (info.width !== null && info.height !== null) {
+    rows.push([
+      t("photoInfo.dimensions"),
+      t("photoInfo.dimensionsValue", {
+        width: formatNumber(info.width),
+        height: formatNumber(info.height),
+        megapixels: formatNumber(
+          Math.round((info.width * info.height) / 100_000) / 10,
+        ),
+      }),
+    ]);
+  }
+  if (info.gps) {
+    const coordinates = `${formatCoordinate(info.gps.latitude, "N", "S")}, ${formatCoordinate(info.gps.longitude, "E", "W")}`;
+    rows.push([
+      t("photoInfo.gps"),
+      info.gps.altitude === null
+        ? coordinates
+        : `${coordinates} · ${formatNumber(Math.round(info.gps.altitude))} m`,
+    ]);
+  }
+
+  if (rows.length === 0) {
+    return <p className={`text-xs ${mutedClass}`}>{t("photoInfo.empty")}</p>;
+  }
+
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1.5 text-xs">
+      {rows.map(([label, value]) => (
+        <div key={label} className="contents">
+          <dt className={mutedClass}>{label}</dt>
+          <dd
+            className={`min-w-0 truncate ${variant === "overlay" ? "text-slate-50" : "text-slate-100"}`}
+            title={value}
+          >
+            {value}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
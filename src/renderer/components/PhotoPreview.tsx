@@ -1,29 +1,41 @@
 import { AnimatePresence, motion } from "framer-motion";
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
+import { hasKeyword, mergeKeywords } from "@shared/keywords";
+import { formatBytes } from "../format";
 import { useI18n } from "../i18n/I18nProvider";
+import type { ColorLabel } from "@preload/index";
 import type { RatedPhoto } from "../types";
+import ColorLabelPicker from "./ColorLabelPicker";
+import KeywordEditor from "./KeywordEditor";
+import PhotoInfo from "./PhotoInfo";
 import RatingStars from "./RatingStars";
 
+// Burst stack of the previewed photo; actions apply to every frame in it.
+export interface PreviewStack {
+  count: number;
+  // Shared by all frames, 0 when they differ
+  rating: number;
+  isExpanded: boolean;
+}
+
 interface PhotoPreviewProps {
   photos: RatedPhoto[];
   primaryPhoto: RatedPhoto | null;
   onSetRating: (ids: string[], rating: number) => void;
+  onSetLabel: (ids: string[], label: ColorLabel | null) => void;
+  onAddKeywords: (ids: string[], keywords: string[]) => void;
+  onRemoveKeyword: (ids: string[], keyword: string) => void;
+  keywordSuggestions: string[];
+  stack: PreviewStack | null;
+  onToggleStack: (photo: RatedPhoto) => void;
+  onRateStack: (photo: RatedPhoto, rating: number) => void;
+  onKeepInStack: (photo: RatedPhoto) => void;
+  onCompare: (photos: RatedPhoto[]) => void;
   onDelete: (photos: RatedPhoto[]) => void;
   onExpand: (photo: RatedPhoto) => void;
   onReveal: (photo: RatedPhoto) => void;
 }
 
-function formatBytes(bytes: number): string {
-  if (bytes === 0) return "0 B";
-  const units = ["B", "KB", "MB", "GB"];
-  const exponent = Math.min(
-    Math.floor(Math.log(bytes) / Math.log(1024)),
-    units.length - 1,
-  );
-  const value = bytes / 1024 ** exponent;
-  return `${value.toFixed(value < 10 ? 2 : 1)} ${units[exponent]}`;
-}
-
 const STACK_TRANSFORMS = [
   "-rotate-[20deg] -translate-x-12 translate-y-8",
   "-rotate-[10deg] -translate-x-6 translate-y-4",
@@ -33,17 +45,29 @@ const STACK_TRANSFORMS = [
 ] as const;
 const STACK_DISPLAY_COUNT = STACK_TRANSFORMS.length;
 const LIST_DISPLAY_COUNT = 5;
+const COMPARE_MAX_COUNT = 4;
 
 export default function PhotoPreview({
   photos,
   primaryPhoto,
   onSetRating,
+  onSetLabel,
+  onAddKeywords,
+  onRemoveKeyword,
+  keywordSuggestions,
+  stack,
+  onToggleStack,
+  onRateStack,
+  onKeepInStack,
+  onCompare,
   onDelete,
   onExpand,
   onReveal,
 }: PhotoPreviewProps) {
   const { t, formatDate, formatNumber } = useI18n();
   const selectionCount = photos.length;
+  // Stays open while stepping through photos.
+  const [showInfo, setShowInfo] = useState(false);
 
   const selectionIds = useMemo(() => photos.map((photo) => photo.id), [photos]);
 
@@ -55,6 +79,24 @@ export default function PhotoPreview({
     return photos.some((photo) => photo.rating !== first);
   }, [photos]);
   const displayRating = hasMixedRatings ? 0 : (primaryPhoto?.rating ?? 0);
+  // Mixed labels show no active swatch so any click applies one label to all.
+  const displayLabel = useMemo(() => {
+    const first = photos[0]?.label ?? null;
+    return photos.every((photo) => photo.label === first) ? first : null;
+  }, [photos]);
+  const { sharedKeywords, partialKeywords } = useMemo(() => {
+    const all = mergeKeywords(
+      [],
+      photos.flatMap((photo) => photo.keywords),
+    );
+    const shared = all.filter((keyword) =>
+      photos.every((photo) => hasKeyword(photo.keywords, keyword)),
+    );
+    return {
+      sharedKeywords: shared,
+      partialKeywords: all.filter((keyword) => !shared.includes(keyword)),
+    };
+  }, [photos]);
 
   return (
     <div className="flex min-h-0 flex-col rounded-3xl w-full bg-[linear-gradient(175deg,_rgba(22,26,38,0.95),_rgba(12,14,24,0.92))] p-0 shadow-[inset_0_1px_0_rgba(255,255,255,0.02),_0_20px_44px_rgba(0,0,0,0.32)]">
@@ -123,12 +165,87 @@ export default function PhotoPreview({
                 <span>{formatBytes(primaryPhoto.size)}</span>
                 <span>{formatDate(primaryPhoto.modifiedAt)}</span>
               </div>
-              <div>
+              <div className="flex flex-wrap items-center justify-between gap-3">
                 <RatingStars
                   rating={primaryPhoto.rating}
                   onChange={(value) => onSetRating([primaryPhoto.id], value)}
                 />
+                <ColorLabelPicker
+                  label={primaryPhoto.label}
+                  onChange={(value) => onSetLabel([primaryPhoto.id], value)}
+                />
               </div>
+              <KeywordEditor
+                keywords={primaryPhoto.keywords}
+                suggestions={keywordSuggestions}
+                onAdd={(keywords) => onAddKeywords([primaryPhoto.id], keywords)}
+                onRemove={(keyword) =>
+                  onRemoveKeyword([primaryPhoto.id], keyword)
+                }
+              />
+              {stack ? (
+                <section className="flex flex-col gap-3 rounded-xl border border-amber-300/25 bg-amber-500/10 p-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <h3 className="text-xs font-semibold uppercase tracking-wide text-amber-200">
+                      {t("photoPreview.stack.title", {
+                        count: formatNumber(stack.count),
+                      })}
+                    </h3>
+                    <button
+                      type="button"
+                      className="text-xs font-semibold text-amber-100 underline-offset-2 hover:underline focus:outline-none focus-visible:ring-2 focus-visible:ring-amber-300/70"
+                      aria-expanded={stack.isExpanded}
+                      onClick={() => onToggleStack(primaryPhoto)}
+                    >
+                      {stack.isExpanded
+                        ? t("photoPreview.stack.collapse")
+                        : t("photoPreview.stack.expand")}
+                    </button>
+                  </div>
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="flex flex-col gap-1">
+                      <span className="text-[11px] text-amber-200/80">
+                        {t("photoPreview.stack.rate")}
+                      </span>
+                      <RatingStars
+                        rating={stack.rating}
+                        size="compact"
+                        onChange={(value) => onRateStack(primaryPhoto, value)}
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      className="rounded-full bg-gradient-to-r from-emerald-500 to-teal-500 px-3 py-1.5 text-xs font-semibold text-emerald-50 transition hover:brightness-110 focus:outline-none focus-visible:ring-2 focus-visible:ring-emerald-300/70"
+                      onClick={() => onKeepInStack(primaryPhoto)}
+                    >
+                      {t("photoPreview.stack.keep")}
+                    </button>
+                  </div>
+                </section>
+              ) : null}
+              <section className="flex flex-col gap-3 rounded-xl border border-indigo-300/20 bg-indigo-500/5 p-3">
+                <button
+                  type="button"
+                  className="flex items-center justify-between gap-3 text-left text-xs font-semibold uppercase tracking-wide text-indigo-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-300/70"
+                  aria-expanded={showInfo}
+                  onClick={() => setShowInfo((value) => !value)}
+                >
+                  {t("photoPreview.info.title")}
+                  <svg
+                    aria-hidden="true"
+                    className={`h-4 w-4 transition-transform ${showInfo ? "rotate-180" : ""}`}
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  >
+                    <path d="m6 9 6 6 6-6" />
+                  </svg>
+                </button>
+                {showInfo ? <PhotoInfo photo={primaryPhoto} /> : null}
+              </section>
               <div className="flex justify-end">
                 <button
                   type="button"
@@ -197,6 +314,27 @@ export default function PhotoPreview({
                   onChange={(value) => onSetRating(selectionIds, value)}
                 />
               </div>
+              <div className="flex flex-col gap-2">
+                <span className="text-xs font-semibold uppercase tracking-wide text-indigo-300">
+                  {t("photoPreview.multiColorLabel")}
+                </span>
+                <ColorLabelPicker
+                  label={displayLabel}
+                  onChange={(value) => onSetLabel(selectionIds, value)}
+                />
+              </div>
+              <div className="flex flex-col gap-2">
+                <span className="text-xs font-semibold uppercase tracking-wide text-indigo-300">
+                  {t("photoPreview.multiKeywords")}
+                </span>
+                <KeywordEditor
+                  keywords={sharedKeywords}
+                  partialKeywords={partialKeywords}
+                  suggestions={keywordSuggestions}
+                  onAdd={(keywords) => onAddKeywords(selectionIds, keywords)}
+                  onRemove={(keyword) => onRemoveKeyword(selectionIds, keyword)}
+                />
+              </div>
               <div className="max-h-28 overflow-auto rounded-xl bg-slate-900/60 p-3 text-xs text-indigo-200/80">
                 <ul className="space-y-1">
                   {photos.slice(-LIST_DISPLAY_COUNT).map((photo) => (
@@ -215,7 +353,18 @@ export default function PhotoPreview({
                   ) : null}
                 </ul>
               </div>
-              <div className="flex justify-end">
+              <div className="flex justify-end gap-2">
+                {selectionCount <= COMPARE_MAX_COUNT ? (
+                  <button
+                    type="button"
+                    className="rounded-full border border-sky-300/50 bg-sky-500/15 px-4 py-2 text-sm font-semibold text-sky-100 transition hover:bg-sky-500/25 focus:outline-none focus-visible:ring-2 focus-visible:ring-sky-300/70"
+                    onClick={() => onCompare(photos)}
+                  >
+                    {t("photoPreview.compare", {
+                      count: formatNumber(selectionCount),
+                    })}
+                  </button>
+                ) : null}
                 <button
                   type="button"
                   className="rounded-full bg-gradient-to-r from-rose-500 to-pink-500 px-4 py-2 text-sm font-semibold text-rose-50 shadow-[0_10px_22px_rgba(255,76,136,0.32)] transition hover:shadow-[0_12px_28px_rgba(255,76,136,0.42)]"
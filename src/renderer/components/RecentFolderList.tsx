@@ -0,0 +1,60 @@
+import type { RecentFolder } from "@preload/index";
+import { extractLabel } from "../format";
+import { useI18n } from "../i18n/I18nProvider";
+
+interface RecentFolderListProps {
+  folders: RecentFolder[];
+  onOpen: (path: string) => void;
+  onForget: (path: string) => void;
+  disabled?: boolean;
+}
+
+export default function RecentFolderList({
+  folders,
+  onOpen,
+  onForget,
+  disabled = false,
+}: RecentFolderListProps) {
+  const { t } = useI18n();
+
+  return (
+    <ul className="flex flex-col gap-1">
+      {folders.map((folder) => (
+        <li
+          key={folder.path}
+          className="group flex items-center gap-1 rounded-xl transition-colors hover:bg-indigo-500/10"
+        >
+          <button
+            type="button"
+            className="flex min-w-0 flex-1 flex-col items-start px-3 py-2 text-left focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-400/60 disabled:cursor-not-allowed"
+            title={folder.path}
+            onClick={() => onOpen(folder.path)}
+            disabled={disabled || !folder.exists}
+          >
+            <span
+              className={`max-w-full truncate text-sm font-semibold ${folder.exists ? "text-indigo-50" : "text-indigo-200/50 line-through"}`}
+            >
+              {extractLabel(folder.path)}
+            </span>
+            <span className="max-w-full truncate text-[11px] text-indigo-200/60">
+              {folder.exists ? folder.path : t("recentFolders.missing")}
+            </span>
+          </button>
+          <button
+            type="button"
+            className="mr-1 inline-flex h-7 w-7 flex-none items-center justify-center rounded-full text-indigo-200/70 opacity-0 transition hover:bg-indigo-500/20 hover:text-indigo-50 focus:opacity-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-400/60 group-hover:opacity-100"
+            aria-label={t("recentFolders.forget", {
+              name: extractLabel(folder.path),
+            })}
+            title={t("recentFolders.forget", {
+              name: extractLabel(folder.path),
+            })}
+            onClick={() => onForget(folder.path)}
+          >
+            ×
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,108 @@
+import type { RecentFolder } from "@preload/index";
+import { useEffect, useRef, useState } from "react";
+import { useI18n } from "../i18n/I18nProvider";
+import RecentFolderList from "./RecentFolderList";
+
+interface RecentFoldersMenuProps {
+  folders: RecentFolder[];
+  onOpen: (path: string) => void;
+  onForget: (path: string) => void;
+  disabled?: boolean;
+}
+
+export default function RecentFoldersMenu({
+  folders,
+  onOpen,
+  onForget,
+  disabled = false,
+}: RecentFoldersMenuProps) {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const closeTimeout = useRef<number | null>(null);
+
+  const openMenu = () => {
+    if (disabled) return;
+    if (closeTimeout.current !== null) {
+      window.clearTimeout(closeTimeout.current);
+      closeTimeout.current = null;
+    }
+    setIsOpen(true);
+  };
+
+  const scheduleClose = () => {
+    if (closeTimeout.current !== null) {
+      window.clearTimeout(closeTimeout.current);
+    }
+    closeTimeout.current = window.setTimeout(() => {
+      setIsOpen(false);
+      closeTimeout.current = null;
+    }, 120);
+  };
+
+  useEffect(() => {
+    if (disabled) {
+      setIsOpen(false);
+    }
+    return () => {
+      if (closeTimeout.current !== null) {
+        window.clearTimeout(closeTimeout.current);
+      }
+    };
+  }, [disabled]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative inline-flex items-center ${disabled ? "opacity-60" : ""}`}
+      onMouseEnter={openMenu}
+      onMouseLeave={() => {
+        if (disabled) return;
+        scheduleClose();
+      }}
+      onFocusCapture={openMenu}
+      onBlurCapture={(event) => {
+        if (!containerRef.current) return;
+        if (!containerRef.current.contains(event.relatedTarget as Node)) {
+          scheduleClose();
+        }
+      }}
+    >
+      <button
+        type="button"
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+        className={`rounded-full border border-indigo-300/30 bg-indigo-400/10 px-4 py-2.5 text-sm font-semibold text-indigo-100 transition focus:outline-none focus:ring-2 focus:ring-indigo-400/60 ${disabled ? "pointer-events-none" : "hover:bg-indigo-300/20"}`}
+        onClick={() => {
+          if (disabled) return;
+          if (closeTimeout.current !== null) {
+            window.clearTimeout(closeTimeout.current);
+            closeTimeout.current = null;
+          }
+          setIsOpen((prev) => !prev);
+        }}
+        disabled={disabled}
+      >
+        {t("recentFolders.title")}
+      </button>
+      {isOpen ? (
+        <div className="absolute right-0 top-full z-30 mt-2 max-h-[28rem] w-80 overflow-auto rounded-2xl border border-indigo-400/60 bg-slate-950/95 p-2 shadow-[0_15px_35px_rgba(10,20,60,0.55)] backdrop-blur">
+          {folders.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-indigo-200/70">
+              {t("recentFolders.empty")}
+            </p>
+          ) : (
+            <RecentFolderList
+              folders={folders}
+              onOpen={(path) => {
+                setIsOpen(false);
+                onOpen(path);
+              }}
+              onForget={onForget}
+            />
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { useI18n } from "../i18n/I18nProvider";
 
 interface RenamePhotoDialogProps {
   name: string;
+  pairedFormats?: string[];
   onChange: (value: string) => void;
   onSubmit: () => void;
   onCancel: () => void;
@@ -11,6 +12,7 @@ interface RenamePhotoDialogProps {
 
 export default function RenamePhotoDialog({
   name,
+  pairedFormats,
   onChange,
   onSubmit,
   onCancel,
@@ -80,6 +82,13 @@ export default function RenamePhotoDialog({
         <p className="mt-2 text-sm text-slate-300">
           {t("renameDialog.description")}
         </p>
+        {pairedFormats && pairedFormats.length > 1 ? (
+          <p className="mt-2 text-xs text-sky-200/80">
+            {t("renameDialog.pairHint", {
+              formats: pairedFormats.join(" + "),
+            })}
+          </p>
+        ) : null}
         <input
           ref={inputRef}
           type="text"
@@ -0,0 +1,402 @@
+import type {
+  AppSettings,
+  AppSettingsPayload,
+  CacheUsage,
+  ThumbnailStats,
+} from "@preload/index";
+import { useEffect, useRef, useState } from "react";
+import { formatBytes } from "../format";
+import { useI18n } from "../i18n/I18nProvider";
+
+const STATS_POLL_INTERVAL_MS = 1_000;
+const CACHE_LIMIT_OPTIONS_MB = [512, 1024, 2048, 5120, 10240, 20480];
+const BURST_GAP_OPTIONS_SECONDS = [0.5, 1, 2, 3, 5];
+
+interface SettingsDialogProps {
+  onClose: () => void;
+  onSettingsChange?: (settings: AppSettings) => void;
+}
+
+export default function SettingsDialog({
+  onClose,
+  onSettingsChange,
+}: SettingsDialogProps) {
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const { t, formatNumber } = useI18n();
+  const [payload, setPayload] = useState<AppSettingsPayload | null>(null);
+  const [stats, setStats] = useState<ThumbnailStats | null>(null);
+  const [cacheUsage, setCacheUsage] = useState<CacheUsage | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isClearing, setIsClearing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) {
+      return;
+    }
+
+    if (!dialog.open) {
+      dialog.showModal();
+    }
+
+    const handleCancel = (event: Event) => {
+      event.preventDefault();
+      dialog.close();
+      onClose();
+    };
+
+    dialog.addEventListener("cancel", handleCancel);
+
+    return () => {
+      dialog.removeEventListener("cancel", handleCancel);
+      if (dialog.open) {
+        dialog.close();
+      }
+    };
+  }, [onClose]);
+
+  useEffect(() => {
+    let cancelled = false;
+    window.api
+      .getSettings()
+      .then((next) => {
+        if (!cancelled) {
+          setPayload(next);
+        }
+      })
+      .catch((loadError) => {
+        console.error("Failed to load settings", loadError);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      window.api
+        .getThumbnailStats()
+        .then((next) => {
+          if (!cancelled) {
+            setStats(next);
+          }
+        })
+        .catch((statsError) => {
+          console.error("Failed to load thumbnail stats", statsError);
+        });
+      window.api
+        .getCacheUsage()
+        .then((next) => {
+          if (!cancelled) {
+            setCacheUsage(next);
+          }
+        })
+        .catch((usageError) => {
+          console.error("Failed to load cache usage", usageError);
+        });
+    };
+    refresh();
+    const timer = window.setInterval(refresh, STATS_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, []);
+
+  const saveSettings = async (changes: Partial<AppSettings>) => {
+    if (!payload) {
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const result = await window.api.updateSettings(changes);
+      if (result.success && result.settings) {
+        setPayload({ ...payload, settings: result.settings });
+        onSettingsChange?.(result.settings);
+      } else {
+        setError(
+          t("settingsDialog.saveError", {
+            reason: result.message ?? t("app.error.unknown"),
+          }),
+        );
+      }
+    } catch (saveError) {
+      setError(
+        t("settingsDialog.saveError", {
+          reason:
+            saveError instanceof Error
+              ? saveError.message
+              : t("app.error.unknown"),
+        }),
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClearCache = async () => {
+    if (!window.confirm(t("settingsDialog.cache.clearConfirm"))) {
+      return;
+    }
+    setIsClearing(true);
+    setError(null);
+    try {
+      const result = await window.api.clearCache();
+      if (result.success && result.usage) {
+        setCacheUsage(result.usage);
+      } else {
+        setError(
+          t("settingsDialog.cache.clearError", {
+            reason: result.message ?? t("app.error.unknown"),
+          }),
+        );
+      }
+    } catch (clearError) {
+      setError(
+        t("settingsDialog.cache.clearError", {
+          reason:
+            clearError instanceof Error
+              ? clearError.message
+              : t("app.error.unknown"),
+        }),
+      );
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  const cacheLimitMb = payload?.settings.cacheSizeLimitMb;
+  const cacheLimitOptions =
+    cacheLimitMb != null && !CACHE_LIMIT_OPTIONS_MB.includes(cacheLimitMb)
+      ? [...CACHE_LIMIT_OPTIONS_MB, cacheLimitMb].sort((a, b) => a - b)
+      : CACHE_LIMIT_OPTIONS_MB;
+
+  const burstGap = payload?.settings.burstGapSeconds;
+  const burstGapOptions =
+    burstGap != null && !BURST_GAP_OPTIONS_SECONDS.includes(burstGap)
+      ? [...BURST_GAP_OPTIONS_SECONDS, burstGap].sort((a, b) => a - b)
+      : BURST_GAP_OPTIONS_SECONDS;
+
+  const workerOptions = payload
+    ? Array.from(
+        { length: payload.maxThumbnailWorkerCount },
+        (_, index) => index + 1,
+      )
+    : [];
+
+  const statRows: Array<{ label: string; value: string }> = stats
+    ? [
+        {
+          label: t("settingsDialog.stats.workers"),
+          value: formatNumber(stats.workerCount),
+        },
+        {
+          label: t("settingsDialog.stats.active"),
+          value: formatNumber(stats.activeJobs),
+        },
+        {
+          label: t("settingsDialog.stats.queued"),
+          value: formatNumber(stats.queuedJobs),
+        },
+        {
+          label: t("settingsDialog.stats.throughput"),
+          value: t("settingsDialog.stats.throughputValue", {
+            value: stats.throughputPerSecond.toFixed(1),
+          }),
+        },
+        {
+          label: t("settingsDialog.stats.completed"),
+          value: formatNumber(stats.completedJobs),
+        },
+        {
+          label: t("settingsDialog.stats.failed"),
+          value: formatNumber(stats.failedJobs),
+        },
+        {
+          label: t("settingsDialog.stats.restarted"),
+          value: formatNumber(stats.restartedWorkers),
+        },
+      ]
+    : [];
+
+  return (
+    <dialog
+      ref={dialogRef}
+      className="z-50 w-full max-w-md rounded-2xl border border-sky-300/40 bg-slate-900/95 p-5 shadow-[0_20px_44px_rgba(0,0,0,0.4)]"
+      aria-label={t("settingsDialog.ariaLabel")}
+      style={{
+        position: "fixed",
+        top: "50%",
+        left: "50%",
+        transform: "translate(-50%, -50%)",
+        margin: 0,
+        padding: 0,
+      }}
+    >
+      <div className="w-full rounded-2xl border border-sky-300/40 bg-slate-900/95 p-5">
+        <div className="flex items-center justify-between gap-4">
+          <h2 className="text-lg font-semibold text-slate-100">
+            {t("settingsDialog.title")}
+          </h2>
+          <button
+            type="button"
+            className="rounded-full border border-slate-500/40 px-4 py-1.5 text-sm text-slate-300 transition hover:bg-slate-700/40"
+            onClick={() => {
+              dialogRef.current?.close();
+              onClose();
+            }}
+          >
+            {t("settingsDialog.close")}
+          </button>
+        </div>
+
+        <label className="mt-5 block text-sm font-semibold text-slate-200">
+          {t("settingsDialog.thumbnailWorkers")}
+          <select
+            className="mt-2 w-full rounded-xl border border-sky-400/30 bg-slate-950/70 px-4 py-2 text-sm font-normal text-slate-50 outline-none focus:border-sky-300 focus:ring-2 focus:ring-sky-400/40 disabled:opacity-60"
+            value={payload?.settings.thumbnailWorkerCount ?? "auto"}
+            onChange={(event) =>
+              void saveSettings({
+                thumbnailWorkerCount:
+                  event.target.value === "auto"
+                    ? null
+                    : Number(event.target.value),
+              })
+            }
+            disabled={!payload || isSaving}
+          >
+            <option value="auto">
+              {t("settingsDialog.thumbnailWorkersAuto", {
+                count: payload?.defaultThumbnailWorkerCount ?? "",
+              })}
+            </option>
+            {workerOptions.map((count) => (
+              <option key={count} value={count}>
+                {count}
+              </option>
+            ))}
+          </select>
+        </label>
+        <p className="mt-2 text-xs text-slate-400">
+          {t("settingsDialog.thumbnailWorkersDescription")}
+        </p>
+
+        <label className="mt-5 block text-sm font-semibold text-slate-200">
+          {t("settingsDialog.burstGap")}
+          <select
+            className="mt-2 w-full rounded-xl border border-sky-400/30 bg-slate-950/70 px-4 py-2 text-sm font-normal text-slate-50 outline-none focus:border-sky-300 focus:ring-2 focus:ring-sky-400/40 disabled:opacity-60"
+            value={burstGap === undefined ? "" : (burstGap ?? "off")}
+            onChange={(event) =>
+              void saveSettings({
+                burstGapSeconds:
+                  event.target.value === "off"
+                    ? null
+                    : Number(event.target.value),
+              })
+            }
+            disabled={!payload || isSaving}
+          >
+            <option value="off">{t("settingsDialog.burstGapOff")}</option>
+            {burstGapOptions.map((seconds) => (
+              <option key={seconds} value={seconds}>
+                {t("settingsDialog.burstGapValue", {
+                  seconds: formatNumber(seconds),
+                })}
+              </option>
+            ))}
+          </select>
+        </label>
+        <p className="mt-2 text-xs text-slate-400">
+          {t("settingsDialog.burstGapDescription")}
+        </p>
+        {error ? <p className="mt-2 text-xs text-rose-300">{error}</p> : null}
+
+        <section className="mt-5 rounded-xl border border-indigo-400/20 bg-indigo-500/10 p-4">
+          <h3 className="text-xs font-semibold uppercase tracking-wider text-indigo-200">
+            {t("settingsDialog.stats.title")}
+          </h3>
+          <dl
+            className="mt-3 grid grid-cols-2 gap-x-4 gap-y-2 text-sm text-indigo-100"
+            aria-live="polite"
+          >
+            {statRows.map((row) => (
+              <div key={row.label} className="flex justify-between gap-3">
+                <dt className="text-indigo-200/80">{row.label}</dt>
+                <dd className="font-mono tabular-nums">{row.value}</dd>
+              </div>
+            ))}
+          </dl>
+        </section>
+
+        <section className="mt-5 rounded-xl border border-indigo-400/20 bg-indigo-500/10 p-4">
+          <h3 className="text-xs font-semibold uppercase tracking-wider text-indigo-200">
+            {t("settingsDialog.cache.title")}
+          </h3>
+          <dl className="mt-3 space-y-2 text-sm text-indigo-100">
+            <div className="flex justify-between gap-3">
+              <dt className="text-indigo-200/80">
+                {t("settingsDialog.cache.thumbnails")}
+              </dt>
+              <dd className="font-mono tabular-nums">
+                {cacheUsage
+                  ? t("settingsDialog.cache.usage", {
+                      size: formatBytes(cacheUsage.thumbnailBytes),
+                      count: formatNumber(cacheUsage.thumbnailFiles),
+                    })
+                  : "–"}
+              </dd>
+            </div>
+            <div className="flex justify-between gap-3">
+              <dt className="text-indigo-200/80">
+                {t("settingsDialog.cache.media")}
+              </dt>
+              <dd className="font-mono tabular-nums">
+                {cacheUsage
+                  ? t("settingsDialog.cache.usage", {
+                      size: formatBytes(cacheUsage.mediaBytes),
+                      count: formatNumber(cacheUsage.mediaFiles),
+                    })
+                  : "–"}
+              </dd>
+            </div>
+          </dl>
+          <label className="mt-4 block text-sm font-semibold text-slate-200">
+            {t("settingsDialog.cache.limit")}
+            <select
+              className="mt-2 w-full rounded-xl border border-sky-400/30 bg-slate-950/70 px-4 py-2 text-sm font-normal text-slate-50 outline-none focus:border-sky-300 focus:ring-2 focus:ring-sky-400/40 disabled:opacity-60"
+              value={cacheLimitMb ?? ""}
+              onChange={(event) =>
+                void saveSettings({
+                  cacheSizeLimitMb: Number(event.target.value),
+                })
+              }
+              disabled={!payload || isSaving}
+            >
+              {cacheLimitOptions.map((limit) => (
+                <option key={limit} value={limit}>
+                  {formatBytes(limit * 1024 * 1024)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <p className="mt-2 text-xs text-slate-400">
+            {t("settingsDialog.cache.limitDescription")}
+          </p>
+          <button
+            type="button"
+            className="mt-4 rounded-full border border-rose-300/40 bg-rose-400/10 px-4 py-1.5 text-sm font-semibold text-rose-100 transition hover:bg-rose-300/20 disabled:cursor-progress disabled:opacity-60"
+            onClick={() => void handleClearCache()}
+            disabled={isClearing}
+          >
+            {isClearing
+              ? t("settingsDialog.cache.clearing")
+              : t("settingsDialog.cache.clear")}
+          </button>
+        </section>
+      </div>
+    </dialog>
+  );
+}
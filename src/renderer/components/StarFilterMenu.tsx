@@ -1,4 +1,7 @@
+import { COLOR_LABELS } from "@shared/colorLabels";
 import { useEffect, useMemo, useRef, useState } from "react";
+import { COLOR_LABEL_SWATCH_CLASSES } from "../colorLabels";
+import type { LabelFilterValue } from "../types";
 
 interface StarFilterMenuProps {
   label: string;
@@ -7,10 +10,15 @@ interface StarFilterMenuProps {
   counts: Record<number, number>;
   formatCount: (value: number) => string;
   onChange: (nextRatings: number[]) => void;
+  selectedLabels: LabelFilterValue[];
+  labelCounts: Record<LabelFilterValue, number>;
+  labelNames: Record<LabelFilterValue, string>;
+  onLabelsChange: (nextLabels: LabelFilterValue[]) => void;
   disabled?: boolean;
 }
 
 const options = [5, 4, 3, 2, 1, 0];
+const labelOptions: LabelFilterValue[] = [...COLOR_LABELS, "none"];
 const STAR = "★";
 
 export default function StarFilterMenu({
@@ -20,12 +28,20 @@ export default function StarFilterMenu({
   counts,
   formatCount,
   onChange,
+  selectedLabels,
+  labelCounts,
+  labelNames,
+  onLabelsChange,
   disabled = false,
 }: StarFilterMenuProps) {
   const selectionSet = useMemo(
     () => new Set<number>(selectedRatings),
     [selectedRatings],
   );
+  const labelSelectionSet = useMemo(
+    () => new Set<LabelFilterValue>(selectedLabels),
+    [selectedLabels],
+  );
   const [isOpen, setIsOpen] = useState(false);
   const containerRef = useRef<HTMLDivElement | null>(null);
   const closeTimeout = useRef<number | null>(null);
@@ -78,6 +94,19 @@ export default function StarFilterMenu({
     onChange(Array.from(next).sort((a, b) => b - a));
   };
 
+  const handleLabelToggle = (value: LabelFilterValue) => {
+    if (disabled) {
+      return;
+    }
+    const next = new Set(labelSelectionSet);
+    if (next.has(value)) {
+      next.delete(value);
+    } else {
+      next.add(value);
+    }
+    onLabelsChange(labelOptions.filter((option) => next.has(option)));
+  };
+
   return (
     <div
       ref={containerRef}
@@ -142,6 +171,37 @@ export default function StarFilterMenu({
               </label>
             );
           })}
+          <div className="mx-2 my-1 border-t border-indigo-400/30" />
+          {labelOptions.map((value) => {
+            const count = labelCounts[value] ?? 0;
+            const checked = labelSelectionSet.has(value);
+            const optionId = `label-filter-${value}`;
+            return (
+              <label
+                key={value}
+                htmlFor={optionId}
+                className={`flex cursor-pointer items-center gap-3 rounded-xl px-2 py-2 text-sm transition-colors ${checked ? "bg-indigo-500/25" : "hover:bg-indigo-500/10"}`}
+              >
+                <input
+                  id={optionId}
+                  type="checkbox"
+                  className="h-4 w-4 rounded border-indigo-400/60 bg-indigo-950/80 text-amber-300 focus:ring-1 focus:ring-amber-300"
+                  checked={checked}
+                  onChange={() => handleLabelToggle(value)}
+                  disabled={disabled}
+                />
+                <span
+                  className={`h-3 w-3 flex-none rounded-full ${value === "none" ? "border border-indigo-300/60" : COLOR_LABEL_SWATCH_CLASSES[value]}`}
+                />
+                <span className="font-semibold text-indigo-100">
+                  {labelNames[value]}
+                </span>
+                <span className="ml-auto text-xs text-indigo-200/80">
+                  {formatCount(count)}
+                </span>
+              </label>
+            );
+          })}
         </div>
       ) : null}
     </div>
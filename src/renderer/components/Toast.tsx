@@ -0,0 +1,30 @@
+import { AnimatePresence, motion } from "framer-motion";
+
+interface ToastProps {
+  // Changing the id restarts the animation even when the text repeats.
+  toast: { id: number; message: string; tone: "info" | "error" } | null;
+}
+
+export default function Toast({ toast }: ToastProps) {
+  return (
+    <div
+      aria-live="polite"
+      className="pointer-events-none fixed inset-x-0 bottom-8 z-50 flex justify-center"
+    >
+      <AnimatePresence>
+        {toast ? (
+          <motion.div
+            key={toast.id}
+            className={`rounded-full border px-5 py-2.5 text-sm font-semibold shadow-[0_15px_35px_rgba(10,20,60,0.55)] backdrop-blur ${toast.tone === "error" ? "border-rose-300/50 bg-rose-950/90 text-rose-100" : "border-indigo-400/60 bg-slate-950/95 text-indigo-100"}`}
+            initial={{ opacity: 0, y: 16 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 16 }}
+            transition={{ duration: 0.18, ease: "easeOut" }}
+          >
+            {toast.message}
+          </motion.div>
+        ) : null}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import type {
+  TransferConflictPolicy,
+  TransferMode,
+  TransferOptions,
+} from "@preload/index";
+import { useEffect, useRef } from "react";
+import { useI18n } from "../i18n/I18nProvider";
+
+const CONFLICT_POLICIES: TransferConflictPolicy[] = [
+  "rename",
+  "skip",
+  "overwrite",
+];
+
+interface TransferDialogProps {
+  mode: TransferMode;
+  count: number;
+  destination: string | null;
+  options: TransferOptions;
+  onChooseDestination: () => void;
+  onOptionsChange: (options: TransferOptions) => void;
+  onSubmit: () => void;
+  onCancel: () => void;
+}
+
+export default function TransferDialog({
+  mode,
+  count,
+  destination,
+  options,
+  onChooseDestination,
+  onOptionsChange,
+  onSubmit,
+  onCancel,
+}: TransferDialogProps) {
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const { t, formatNumber } = useI18n();
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) {
+      return;
+    }
+
+    if (!dialog.open) {
+      dialog.showModal();
+    }
+
+    const handleCancel = (event: Event) => {
+      event.preventDefault();
+      dialog.close();
+      onCancel();
+    };
+
+    dialog.addEventListener("cancel", handleCancel);
+
+    return () => {
+      dialog.removeEventListener("cancel", handleCancel);
+      if (dialog.open) {
+        dialog.close();
+      }
+    };
+  }, [onCancel]);
+
+  const checkboxes: Array<{
+    key: "preserveStructure" | "includeSidecars" | "includeRatings";
+    label: string;
+  }> = [
+    {
+      key: "preserveStructure",
+      label: t("transferDialog.preserveStructure"),
+    },
+    { key: "includeSidecars", label: t("transferDialog.includeSidecars") },
+    { key: "includeRatings", label: t("transferDialog.includeRatings") },
+  ];
+
+  return (
+    <dialog
+      ref={dialogRef}
+      className="z-50 w-full max-w-md rounded-2xl border border-sky-300/40 bg-slate-900/95 p-5 shadow-[0_20px_44px_rgba(0,0,0,0.4)]"
+      aria-label={
+        mode === "copy"
+          ? t("transferDialog.copyTitle", { count: formatNumber(count) })
+          : t("transferDialog.moveTitle", { count: formatNumber(count) })
+      }
+      style={{
+        position: "fixed",
+        top: "50%",
+        left: "50%",
+        transform: "translate(-50%, -50%)",
+        margin: 0,
+        padding: 0,
+      }}
+    >
+      <form
+        className="w-full rounded-2xl border border-sky-300/40 bg-slate-900/95 p-5"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (destination) {
+            onSubmit();
+          }
+        }}
+      >
+        <h2 className="text-lg font-semibold text-slate-100">
+          {mode === "copy"
+            ? t("transferDialog.copyTitle", { count: formatNumber(count) })
+            : t("transferDialog.moveTitle", { count: formatNumber(count) })}
+        </h2>
+        <div className="mt-4 flex items-center gap-3">
+          <p
+            className={`min-w-0 flex-1 truncate rounded-xl border border-sky-400/30 bg-slate-950/70 px-4 py-2 text-sm ${destination ? "text-slate-50" : "text-slate-400"}`}
+            title={destination ?? undefined}
+          >
+            {destination ?? t("transferDialog.noDestination")}
+          </p>
+          <button
+            type="button"
+            className="flex-none rounded-full border border-sky-300/40 px-4 py-1.5 text-sm text-sky-100 transition hover:bg-sky-400/15"
+            onClick={onChooseDestination}
+          >
+            {t("transferDialog.choose")}
+          </button>
+        </div>
+        <label className="mt-5 block text-sm font-semibold text-slate-200">
+          {t("transferDialog.conflict")}
+          <select
+            className="mt-2 w-full rounded-xl border border-sky-400/30 bg-slate-950/70 px-4 py-2 text-sm font-normal text-slate-50 outline-none focus:border-sky-300 focus:ring-2 focus:ring-sky-400/40"
+            value={options.conflictPolicy}
+            onChange={(event) =>
+              onOptionsChange({
+                ...options,
+                conflictPolicy: event.target.value as TransferConflictPolicy,
+              })
+            }
+          >
+            {CONFLICT_POLICIES.map((policy) => (
+              <option key={policy} value={policy}>
+                {policy === "rename"
+                  ? t("transferDialog.conflictRename")
+                  : policy === "skip"
+                    ? t("transferDialog.conflictSkip")
+                    : t("transferDialog.conflictOverwrite")}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="mt-4 space-y-2">
+          {checkboxes.map(({ key, label }) => (
+            <label
+              key={key}
+              className="flex items-center gap-2 text-sm text-slate-200"
+            >
+              <input
+                type="checkbox"
+                className="h-4 w-4 rounded border-sky-400/60 bg-slate-950/80 text-sky-300 focus:ring-1 focus:ring-sky-300"
+                checked={options[key]}
+                onChange={(event) =>
+                  onOptionsChange({ ...options, [key]: event.target.checked })
+                }
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+        <div className="mt-6 flex justify-end gap-3 text-sm">
+          <button
+            type="button"
+            className="rounded-full border border-slate-500/40 px-4 py-1.5 text-slate-300 transition hover:bg-slate-700/40"
+            onClick={() => {
+              dialogRef.current?.close();
+              onCancel();
+            }}
+          >
+            {t("transferDialog.cancel")}
+          </button>
+          <button
+            type="submit"
+            className="rounded-full bg-gradient-to-r from-sky-400 to-indigo-500 px-5 py-1.5 font-semibold text-slate-900 shadow-[0_10px_24px_rgba(68,131,255,0.28)] transition hover:shadow-[0_12px_28px_rgba(68,131,255,0.36)] disabled:cursor-not-allowed disabled:opacity-60"
+            disabled={!destination}
+          >
+            {mode === "copy"
+              ? t("transferDialog.copy")
+              : t("transferDialog.move")}
+          </button>
+        </div>
+      </form>
+    </dialog>
+  );
+}
@@ -0,0 +1,106 @@
+import type { RatedPhoto } from "./types";
+
+// Photos whose hashes differ in at most `threshold` of their 64 bits.
+export interface DuplicateCluster {
+  // Id of the first member; stable while the cluster keeps its largest file
+  id: string;
+  // Largest file first, since that is usually the one worth keeping
+  photos: RatedPhoto[];
+}
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 6;
+export const MAX_DUPLICATE_THRESHOLD = 16;
+
+function popCount(value: number): number {
+  let bits = value - ((value >>> 1) & 0x55555555);
+  bits = (bits & 0x33333333) + ((bits >>> 2) & 0x33333333);
+  return (((bits + (bits >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+// 64-bit hashes do not fit in a JS number, so they are compared as two halves.
+function parseHash(hash: string): [number, number] | null {
+  if (!/^[0-9a-f]{16}$/i.test(hash)) {
+    return null;
+  }
+  return [
+    Number.parseInt(hash.slice(0, 8), 16),
+    Number.parseInt(hash.slice(8), 16),
+  ];
+}
+
+function compareMembers(a: RatedPhoto, b: RatedPhoto): number {
+  return b.size - a.size || a.name.localeCompare(b.name);
+}
+
+// Links every pair of photos within the threshold and returns the connected
+// groups of two or more, biggest first. The pairwise pass is quadratic, which
+// stays well under a frame's worth of work for a few thousand photos.
+export function findDuplicateClusters(
+  photos: RatedPhoto[],
+  hashes: Record<string, string>,
+  threshold: number,
+): DuplicateCluster[] {
+  const entries: Array<{ photo: RatedPhoto; hash: [number, number] }> = [];
+  for (const photo of photos) {
+    const hash = hashes[photo.id] ? parseHash(hashes[photo.id]) : null;
+    if (hash) {
+      entries.push({ photo, hash });
+    }
+  }
+
+  const parents = entries.map((_, index) => index);
+  const find = (index: number): number => {
+    let root = index;
+    while (parents[root] !== root) {
+      root = parents[root];
+    }
+    let node = index;
+    while (parents[node] !== root) {
+      const next = parents[node];
+      parents[node] = root;
+      node = next;
+    }
+    return root;
+  };
+
+  for (let i = 0; i < entries.length; i += 1) {
+    const [highA, lowA] = entries[i].hash;
+    for (let j = i + 1; j < entries.length; j += 1) {
+      const [highB, lowB] = entries[j].hash;
+      const distance = popCount(highA ^ highB) + popCount(lowA ^ lowB);
+      if (distance <= threshold) {
+        const rootA = find(i);
+        const rootB = find(j);
+        if (rootA !== rootB) {
+          parents[rootB] = rootA;
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, RatedPhoto[]>();
+  entries.forEach((entry, index) => {
+    const root = find(index);
+    const group = groups.get(root);
+    if (group) {
+      group.push(entry.photo);
+    } else {
+      groups.set(root, [entry.photo]);
+    }
+  });
+
+  const clusters: DuplicateCluster[] = [];
+  for (const group of groups.values()) {
+    if (group.length < 2) {
+      continue;
+    }
+    group.sort(compareMembers);
+    clusters.push({ id: group[0].id, photos: group });
+  }
+  clusters.sort(
+    (a, b) =>
+      b.photos.length - a.photos.length ||
+      compareMembers(a.photos[0], b.photos[0]),
+  );
+  return clusters;
+}
@@ -0,0 +1,76 @@
+import type { PhotoExifInfo } from "@preload/index";
+import { useEffect, useState } from "react";
+import type { RatedPhoto } from "./types";
+
+export type ExifInfoState =
+  | { status: "loading" }
+  | { status: "ready"; info: PhotoExifInfo }
+  | { status: "error"; message: string | null };
+
+// Reads the shooting details for `photo`; the main process caches them, so
+// stepping back and forth through a folder stays quick.
+export function useExifInfo(photo: RatedPhoto): ExifInfoState {
+  const [state, setState] = useState<{
+    key: string;
+    value: ExifInfoState;
+  } | null>(null);
+  const path = photo.id;
+  const modifiedAt = photo.modifiedAt;
+  const key = `${path}:${modifiedAt}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    window.api
+      .getPhotoMetadata({ path, modifiedAt })
+      .then((result) => {
+        if (cancelled) {
+          return;
+        }
+        setState({
+          key: `${path}:${modifiedAt}`,
+          value:
+            result.success && result.metadata
+              ? { status: "ready", info: result.metadata }
+              : { status: "error", message: result.message ?? null },
+        });
+      })
+      .catch((error) => {
+        console.error("Failed to load photo details", path, error);
+        if (!cancelled) {
+          setState({
+            key: `${path}:${modifiedAt}`,
+            value: { status: "error", message: null },
+          });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [modifiedAt, path]);
+
+  return state?.key === key ? state.value : { status: "loading" };
+}
+
+// 0.004 -> "1/250 s", 2.5 -> "2.5 s"
+export function formatExposureTime(seconds: number): string {
+  if (seconds > 0 && seconds < 0.3) {
+    return `1/${Math.round(1 / seconds)} s`;
+  }
+  return `${Number(seconds.toFixed(1))} s`;
+}
+
+export function formatAperture(fNumber: number): string {
+  return `f/${Number(fNumber.toFixed(1))}`;
+}
+
+export function formatFocalLength(millimetres: number): string {
+  return `${Number(millimetres.toFixed(1))} mm`;
+}
+
+export function formatCoordinate(
+  value: number,
+  positive: string,
+  negative: string,
+): string {
+  return `${Math.abs(value).toFixed(5)}° ${value < 0 ? negative : positive}`;
+}
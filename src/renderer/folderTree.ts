@@ -0,0 +1,110 @@
+import type { RatedPhoto } from "./types";
+
+export interface FolderNode {
+  path: string;
+  name: string;
+  // Photos directly inside this folder
+  ownCount: number;
+  ownRated: number;
+  // Including every subfolder
+  totalCount: number;
+  totalRated: number;
+  children: FolderNode[];
+}
+
+// The grid shows photos from `path`, and from its subfolders when asked to.
+export interface FolderScope {
+  path: string;
+  includeSubfolders: boolean;
+}
+
+function parentDirectory(filePath: string): string {
+  const index = Math.max(filePath.lastIndexOf("/"), filePath.lastIndexOf("\\"));
+  return index <= 0 ? filePath : filePath.slice(0, index);
+}
+
+export function isPathInside(path: string, folder: string): boolean {
+  return (
+    path.length > folder.length &&
+    path.startsWith(folder) &&
+    (path[folder.length] === "/" || path[folder.length] === "\\")
+  );
+}
+
+// Builds the tree of folders under `rootPath` that contain photos, with the
+// folders in between so every branch hangs off the root.
+export function buildFolderTree(
+  rootPath: string,
+  rootName: string,
+  photos: RatedPhoto[],
+): FolderNode {
+  const createNode = (path: string, name: string): FolderNode => ({
+    path,
+    name,
+    ownCount: 0,
+    ownRated: 0,
+    totalCount: 0,
+    totalRated: 0,
+    children: [],
+  });
+  const root = createNode(rootPath, rootName);
+  const nodes = new Map<string, FolderNode>([[rootPath, root]]);
+
+  for (const photo of photos) {
+    const directory = parentDirectory(photo.filePath);
+    let node = nodes.get(directory);
+    if (!node) {
+      if (!isPathInside(directory, rootPath)) {
+        continue;
+      }
+      const separator = directory[rootPath.length];
+      const segments = directory
+        .slice(rootPath.length + 1)
+        .split(/[\\/]/)
+        .filter(Boolean);
+      let parent = root;
+      let path = rootPath;
+      for (const segment of segments) {
+        path = `${path}${separator}${segment}`;
+        let child = nodes.get(path);
+        if (!child) {
+          child = createNode(path, segment);
+          nodes.set(path, child);
+          parent.children.push(child);
+        }
+        parent = child;
+      }
+      node = parent;
+    }
+    node.ownCount += 1;
+    if (photo.rating > 0) {
+      node.ownRated += 1;
+    }
+  }
+
+  const finish = (node: FolderNode) => {
+    node.totalCount = node.ownCount;
+    node.totalRated = node.ownRated;
+    node.children.sort((a, b) =>
+      a.name.localeCompare(b.name, undefined, { numeric: true }),
+    );
+    for (const child of node.children) {
+      finish(child);
+      node.totalCount += child.totalCount;
+      node.totalRated += child.totalRated;
+    }
+  };
+  finish(root);
+  return root;
+}
+
+export function isInFolderScope(
+  photo: RatedPhoto,
+  scope: FolderScope,
+): boolean {
+  const directory = parentDirectory(photo.filePath);
+  return (
+    directory === scope.path ||
+    (scope.includeSubfolders && isPathInside(directory, scope.path))
+  );
+}
@@ -0,0 +1,17 @@
+export function formatBytes(bytes: number): string {
+  if (bytes === 0) return "0 B";
+  const units = ["B", "KB", "MB", "GB"];
+  const exponent = Math.min(
+    Math.floor(Math.log(bytes) / Math.log(1024)),
+    units.length - 1,
+  );
+  const value = bytes / 1024 ** exponent;
+  return `${value.toFixed(value < 10 ? 2 : 1)} ${units[exponent]}`;
+}
+
+// Last path segment, used as the display name of a folder.
+export function extractLabel(filePath: string): string {
+  const segments = filePath.split(/[\\/]/).filter(Boolean);
+  if (segments.length === 0) return filePath;
+  return segments[segments.length - 1];
+}
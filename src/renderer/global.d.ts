@@ -1,14 +1,48 @@
 import type {
+  AppSettings,
+  AppSettingsPayload,
+  AppSettingsUpdateResult,
+  CacheClearResult,
+  CacheUsage,
+  CaptureInfoPayload,
   DeletePhotoResult,
+  ExportProgressPayload,
+  ExportRequest,
+  ExportStartResult,
+  FlagUpdatePayload,
+  FlagUpdateResult,
+  KeywordUpdatePayload,
+  KeywordUpdateResult,
+  LabelUpdatePayload,
+  LabelUpdateResult,
+  MetadataModeUpdatePayload,
+  MetadataModeUpdateResult,
+  MetadataSyncStatusPayload,
   OpenDirectoryResult,
+  PerceptualHashPayload,
+  PerceptualHashResult,
   PhotoCollectionPayload,
+  PhotoMetadataRequest,
+  PhotoMetadataResult,
+  PhotosAddedPayload,
+  PhotosChangedPayload,
+  PhotosRemovedPayload,
   RatingUpdatePayload,
   RatingUpdateResult,
   RatingsSyncPayload,
+  RecentFolder,
   RenamePhotoPayload,
   RenamePhotoResult,
+  RestorePhotoResult,
   RevealPhotoResult,
+  ScanProgressPayload,
+  SessionState,
+  ThumbnailPriorityPayload,
   ThumbnailReadyPayload,
+  ThumbnailStats,
+  TransferPayload,
+  TransferProgressPayload,
+  TransferResult,
 } from "@preload/index";
 import type { Locale } from "@shared/i18n";
 
@@ -17,17 +51,82 @@ declare global {
     api: {
       selectFolder(): Promise<PhotoCollectionPayload>;
       loadFolder(directoryPath: string): Promise<PhotoCollectionPayload>;
+      cancelScan(): Promise<void>;
+      closeFolder(): Promise<void>;
+      selectRoot(): Promise<PhotoCollectionPayload>;
+      addRoot(directoryPath: string): Promise<PhotoCollectionPayload>;
+      removeRoot(directoryPath: string): Promise<void>;
+      getRecentFolders(): Promise<RecentFolder[]>;
+      forgetRecentFolder(directoryPath: string): Promise<RecentFolder[]>;
+      getSession(): Promise<SessionState | null>;
+      saveSession(session: SessionState): Promise<void>;
       deletePhoto(filePath: string): Promise<DeletePhotoResult>;
+      getPhotoMetadata(
+        request: PhotoMetadataRequest,
+      ): Promise<PhotoMetadataResult>;
       revealPhoto(filePath: string): Promise<RevealPhotoResult>;
       openDirectory(directoryPath: string): Promise<OpenDirectoryResult>;
       renamePhoto(payload: RenamePhotoPayload): Promise<RenamePhotoResult>;
+      restorePhoto(filePath: string): Promise<RestorePhotoResult>;
+      selectTransferDestination(): Promise<string | null>;
+      copyPhotos(payload: TransferPayload): Promise<TransferResult>;
+      movePhotos(payload: TransferPayload): Promise<TransferResult>;
+      cancelTransfer(): Promise<void>;
+      startExport(request: ExportRequest): Promise<ExportStartResult>;
+      cancelExport(jobId: number): Promise<void>;
+      selectWatermarkImage(): Promise<string | null>;
       updateRating(payload: RatingUpdatePayload): Promise<RatingUpdateResult>;
+      updateLabel(payload: LabelUpdatePayload): Promise<LabelUpdateResult>;
+      updateFlag(payload: FlagUpdatePayload): Promise<FlagUpdateResult>;
+      listKeywords(): Promise<string[]>;
+      addKeywords(payload: KeywordUpdatePayload): Promise<KeywordUpdateResult>;
+      removeKeywords(
+        payload: KeywordUpdatePayload,
+      ): Promise<KeywordUpdateResult>;
+      setLibraryMetadataMode(
+        payload: MetadataModeUpdatePayload,
+      ): Promise<MetadataModeUpdateResult>;
+      prioritizeThumbnails(payload: ThumbnailPriorityPayload): Promise<void>;
+      getThumbnailStats(): Promise<ThumbnailStats>;
+      getPerceptualHashes(
+        payload: PerceptualHashPayload,
+      ): Promise<PerceptualHashResult>;
+      getSettings(): Promise<AppSettingsPayload>;
+      updateSettings(
+        settings: Partial<AppSettings>,
+      ): Promise<AppSettingsUpdateResult>;
+      getCacheUsage(): Promise<CacheUsage>;
+      clearCache(): Promise<CacheClearResult>;
       onThumbnailsReady(
         callback: (payload: ThumbnailReadyPayload) => void,
       ): () => void;
       onRatingsRefreshed(
         callback: (payload: RatingsSyncPayload) => void,
       ): () => void;
+      onMetadataSyncStatus(
+        callback: (payload: MetadataSyncStatusPayload) => void,
+      ): () => void;
+      onScanProgress(
+        callback: (payload: ScanProgressPayload) => void,
+      ): () => void;
+      onTransferProgress(
+        callback: (payload: TransferProgressPayload) => void,
+      ): () => void;
+      onExportProgress(
+        callback: (payload: ExportProgressPayload) => void,
+      ): () => void;
+      onPhotosAdded(
+        callback: (payload: PhotosAddedPayload) => void,
+      ): () => void;
+      onPhotosChanged(
+        callback: (payload: PhotosChangedPayload) => void,
+      ): () => void;
+      onCaptureInfo(
+        callback: (payload: CaptureInfoPayload) => void,
+      ): () => void;
+      onPhotosRemoved(
+        callback: (payload: PhotosRemovedPayload) => void,
+      ): () => void;
       getLocale(): Promise<{ locale: Locale }>;
       setLocale(locale: Locale): Promise<void>;
     };
@@ -0,0 +1,70 @@
+import { useCallback, useRef } from "react";
+
+export interface HistoryEntry {
+  // Already translated; shown in the toast after undo or redo.
+  label: string;
+  // Both return false when nothing could be reverted or reapplied, which
+  // drops the entry instead of moving it to the other stack.
+  undo: () => Promise<boolean> | boolean;
+  redo: () => Promise<boolean> | boolean;
+}
+
+export interface HistoryStepResult {
+  entry: HistoryEntry;
+  success: boolean;
+}
+
+const HISTORY_LIMIT = 100;
+
+export function useUndoHistory() {
+  const undoStackRef = useRef<HistoryEntry[]>([]);
+  const redoStackRef = useRef<HistoryEntry[]>([]);
+  // Undo of a trash operation awaits file moves; key repeat must not start
+  // a second step meanwhile.
+  const isStepPendingRef = useRef(false);
+
+  const record = useCallback((entry: HistoryEntry) => {
+    undoStackRef.current = [
+      ...undoStackRef.current.slice(-(HISTORY_LIMIT - 1)),
+      entry,
+    ];
+    redoStackRef.current = [];
+  }, []);
+
+  const clear = useCallback(() => {
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+  }, []);
+
+  const step = useCallback(
+    async (direction: "undo" | "redo"): Promise<HistoryStepResult | null> => {
+      const source = direction === "undo" ? undoStackRef : redoStackRef;
+      const target = direction === "undo" ? redoStackRef : undoStackRef;
+      const entry = source.current[source.current.length - 1];
+      if (!entry || isStepPendingRef.current) {
+        return null;
+      }
+
+      isStepPendingRef.current = true;
+      source.current = source.current.slice(0, -1);
+      try {
+        const success = await entry[direction]();
+        if (success) {
+          target.current = [...target.current, entry];
+        }
+        return { entry, success };
+      } catch (error) {
+        console.error(`Failed to ${direction}`, entry.label, error);
+        return { entry, success: false };
+      } finally {
+        isStepPendingRef.current = false;
+      }
+    },
+    [],
+  );
+
+  const undo = useCallback(() => step("undo"), [step]);
+  const redo = useCallback(() => step("redo"), [step]);
+
+  return { record, clear, undo, redo };
+}
@@ -0,0 +1,134 @@
+import type { RatedPhoto } from "./types";
+
+// A run of frames from one camera with no gap between neighbours larger
+// than the configured burst gap.
+export interface BurstStack {
+  // Id of the earliest frame; stable while the burst itself is unchanged
+  id: string;
+  // Capture order
+  photoIds: string[];
+}
+
+export interface StackDisplayInfo {
+  stackId: string;
+  // Members that pass the current filters
+  count: number;
+  isExpanded: boolean;
+  // The card that stands for the stack, or opens an expanded one
+  isCover: boolean;
+}
+
+function cameraKey(photo: RatedPhoto): string {
+  return `${photo.capture?.camera ?? ""}\0${photo.capture?.bodySerial ?? ""}`;
+}
+
+// The picked frame stands for a collapsed stack, else the earliest one.
+export function pickStackCover(members: RatedPhoto[]): RatedPhoto | undefined {
+  return members.find((member) => member.flag === "picked") ?? members[0];
+}
+
+// Maps every photo that belongs to a burst of two or more frames to its
+// stack. Photos without a capture time never stack.
+export function buildBurstStacks(
+  photos: RatedPhoto[],
+  gapMs: number,
+): Map<string, BurstStack> {
+  const byCamera = new Map<string, RatedPhoto[]>();
+  for (const photo of photos) {
+    if (photo.capture?.capturedAt == null) {
+      continue;
+    }
+    const key = cameraKey(photo);
+    const group = byCamera.get(key);
+    if (group) {
+      group.push(photo);
+    } else {
+      byCamera.set(key, [photo]);
+    }
+  }
+
+  const stacks = new Map<string, BurstStack>();
+  const addRun = (run: RatedPhoto[]) => {
+    if (run.length < 2) {
+      return;
+    }
+    const stack = { id: run[0].id, photoIds: run.map((photo) => photo.id) };
+    for (const photo of run) {
+      stacks.set(photo.id, stack);
+    }
+  };
+
+  for (const group of byCamera.values()) {
+    group.sort(
+      (a, b) =>
+        (a.capture?.capturedAt ?? 0) - (b.capture?.capturedAt ?? 0) ||
+        a.name.localeCompare(b.name),
+    );
+    let run: RatedPhoto[] = [];
+    let previousAt = 0;
+    for (const photo of group) {
+      const capturedAt = photo.capture?.capturedAt ?? 0;
+      if (run.length > 0 && capturedAt - previousAt > gapMs) {
+        addRun(run);
+        run = [];
+      }
+      run.push(photo);
+      previousAt = capturedAt;
+    }
+    addRun(run);
+  }
+  return stacks;
+}
+
+// Folds each stack into the grid at the position of its first visible
+// member. Collapsed stacks show only their cover; expanded stacks list their
+// members in capture order from that position.
+export function arrangeStacks(
+  photos: RatedPhoto[],
+  stacks: Map<string, BurstStack>,
+  expandedStackIds: ReadonlySet<string>,
+): { photos: RatedPhoto[]; info: Map<string, StackDisplayInfo> } {
+  const info = new Map<string, StackDisplayInfo>();
+  if (stacks.size === 0) {
+    return { photos, info };
+  }
+
+  const visibleById = new Map(photos.map((photo) => [photo.id, photo]));
+  const placed = new Set<string>();
+  const arranged: RatedPhoto[] = [];
+  for (const photo of photos) {
+    const stack = stacks.get(photo.id);
+    if (!stack) {
+      arranged.push(photo);
+      continue;
+    }
+    if (placed.has(stack.id)) {
+      continue;
+    }
+    placed.add(stack.id);
+
+    const members = stack.photoIds
+      .map((id) => visibleById.get(id))
+      .filter((member): member is RatedPhoto => Boolean(member));
+    if (members.length < 2) {
+      arranged.push(...members);
+      continue;
+    }
+
+    const isExpanded = expandedStackIds.has(stack.id);
+    const cover = isExpanded
+      ? members[0]
+      : (pickStackCover(members) ?? members[0]);
+    const shown = isExpanded ? members : [cover];
+    for (const member of shown) {
+      info.set(member.id, {
+        stackId: stack.id,
+        count: members.length,
+        isExpanded,
+        isCover: member === cover,
+      });
+    }
+    arranged.push(...shown);
+  }
+  return { photos: arranged, info };
+}
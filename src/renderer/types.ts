@@ -1,5 +1,17 @@
-import type { PhotoMeta } from "@preload/index";
+import type {
+  ColorLabel,
+  MetadataSyncStatus,
+  PhotoFlag,
+  PhotoMeta,
+} from "@preload/index";
 
 export type RatedPhoto = PhotoMeta & {
   rating: number;
+  label: ColorLabel | null;
+  flag: PhotoFlag | null;
+  keywords: string[];
+  syncStatus?: MetadataSyncStatus;
 };
+
+// "none" matches photos without a color label.
+export type LabelFilterValue = ColorLabel | "none";
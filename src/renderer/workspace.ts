@@ -0,0 +1,28 @@
+import { isPathInside } from "./folderTree";
+
+// Tells the roots of a workspace apart on the cards once there are several.
+export interface RootBadge {
+  path: string;
+  label: string;
+  className: string;
+}
+
+// Cycled in the order roots were added
+const ROOT_BADGE_CLASSES = [
+  "bg-sky-500/25 text-sky-100",
+  "bg-emerald-500/25 text-emerald-100",
+  "bg-fuchsia-500/25 text-fuchsia-100",
+  "bg-orange-500/25 text-orange-100",
+  "bg-teal-500/25 text-teal-100",
+];
+
+export function getRootBadgeClass(index: number): string {
+  return ROOT_BADGE_CLASSES[index % ROOT_BADGE_CLASSES.length];
+}
+
+export function findRoot<T extends { path: string }>(
+  filePath: string,
+  roots: T[],
+): T | undefined {
+  return roots.find((root) => isPathInside(filePath, root.path));
+}
@@ -0,0 +1,228 @@
+import {
+  type MouseEvent as ReactMouseEvent,
+  type PointerEvent as ReactPointerEvent,
+  type WheelEvent as ReactWheelEvent,
+  useCallback,
+  useRef,
+  useState,
+} from "react";
+
+// Offsets are in screen pixels from the pane centre; scale 1 is "fit".
+export interface ZoomPanView {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+interface PaneGeometry {
+  point: { x: number; y: number };
+  width: number;
+  height: number;
+}
+
+export const FIT_VIEW: ZoomPanView = { scale: 1, x: 0, y: 0 };
+
+const DEFAULT_MAX_SCALE = 8;
+const WHEEL_ZOOM_SPEED = 0.0015;
+// Trackpad pinches arrive as ctrl+wheel with much smaller deltas.
+const PINCH_ZOOM_SPEED = 0.01;
+const DOUBLE_CLICK_SCALE = 2.5;
+// Pointer travel below this still counts as a click rather than a pan.
+const DRAG_THRESHOLD_PX = 4;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+// Keeps the zoomed image covering the pane so it cannot be dragged away.
+function clampOffset(
+  view: ZoomPanView,
+  width: number,
+  height: number,
+): ZoomPanView {
+  const maxX = ((view.scale - 1) * width) / 2;
+  const maxY = ((view.scale - 1) * height) / 2;
+  return {
+    scale: view.scale,
+    x: clamp(view.x, -maxX, maxX),
+    y: clamp(view.y, -maxY, maxY),
+  };
+}
+
+// Zooms so the pixel under `point` stays where it is on screen.
+function zoomAt(
+  view: ZoomPanView,
+  nextScale: number,
+  { point, width, height }: PaneGeometry,
+  maxScale: number,
+): ZoomPanView {
+  const scale = clamp(nextScale, 1, maxScale);
+  const ratio = scale / view.scale;
+  return clampOffset(
+    {
+      scale,
+      x: point.x - (point.x - view.x) * ratio,
+      y: point.y - (point.y - view.y) * ratio,
+    },
+    width,
+    height,
+  );
+}
+
+// Without a client position the pane centre is used.
+function measure(
+  element: HTMLElement,
+  clientX?: number,
+  clientY?: number,
+): PaneGeometry {
+  const rect = element.getBoundingClientRect();
+  return {
+    point: {
+      x: clientX === undefined ? 0 : clientX - rect.left - rect.width / 2,
+      y: clientY === undefined ? 0 : clientY - rect.top - rect.height / 2,
+    },
+    width: rect.width,
+    height: rect.height,
+  };
+}
+
+export function toTransform(view: ZoomPanView): string {
+  return `translate(${view.x}px, ${view.y}px) scale(${view.scale})`;
+}
+
+// Wheel and pinch zoom, drag to pan and double-click to toggle between fit
+// and a close look. Spreading the same handlers on several equally sized
+// panes keeps them in sync.
+export function useZoomPan(maxScale = DEFAULT_MAX_SCALE) {
+  const [view, setView] = useState<ZoomPanView>(FIT_VIEW);
+  const dragRef = useRef<{
+    pointerId: number;
+    startX: number;
+    startY: number;
+    origin: ZoomPanView;
+    width: number;
+    height: number;
+  } | null>(null);
+  const didDragRef = useRef(false);
+
+  const onWheel = useCallback(
+    (event: ReactWheelEvent<HTMLElement>) => {
+      const geometry = measure(
+        event.currentTarget,
+        event.clientX,
+        event.clientY,
+      );
+      const speed = event.ctrlKey ? PINCH_ZOOM_SPEED : WHEEL_ZOOM_SPEED;
+      const factor = Math.exp(-event.deltaY * speed);
+      setView((prev) => zoomAt(prev, prev.scale * factor, geometry, maxScale));
+    },
+    [maxScale],
+  );
+
+  const onPointerDown = useCallback(
+    (event: ReactPointerEvent<HTMLElement>) => {
+      if (event.button !== 0) {
+        return;
+      }
+      const rect = event.currentTarget.getBoundingClientRect();
+      event.currentTarget.setPointerCapture(event.pointerId);
+      didDragRef.current = false;
+      dragRef.current = {
+        pointerId: event.pointerId,
+        startX: event.clientX,
+        startY: event.clientY,
+        origin: view,
+        width: rect.width,
+        height: rect.height,
+      };
+    },
+    [view],
+  );
+
+  const onPointerMove = useCallback((event: ReactPointerEvent<HTMLElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== event.pointerId) {
+      return;
+    }
+    const deltaX = event.clientX - drag.startX;
+    const deltaY = event.clientY - drag.startY;
+    if (!didDragRef.current && Math.hypot(deltaX, deltaY) < DRAG_THRESHOLD_PX) {
+      return;
+    }
+    didDragRef.current = true;
+    setView(
+      clampOffset(
+        {
+          scale: drag.origin.scale,
+          x: drag.origin.x + deltaX,
+          y: drag.origin.y + deltaY,
+        },
+        drag.width,
+        drag.height,
+      ),
+    );
+  }, []);
+
+  const onPointerUp = useCallback((event: ReactPointerEvent<HTMLElement>) => {
+    if (dragRef.current?.pointerId !== event.pointerId) {
+      return;
+    }
+    dragRef.current = null;
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+    }
+  }, []);
+
+  const onDoubleClick = useCallback(
+    (event: ReactMouseEvent<HTMLElement>) => {
+      const geometry = measure(
+        event.currentTarget,
+        event.clientX,
+        event.clientY,
+      );
+      setView((prev) =>
+        prev.scale > 1
+          ? FIT_VIEW
+          : zoomAt(prev, DOUBLE_CLICK_SCALE, geometry, maxScale),
+      );
+    },
+    [maxScale],
+  );
+
+  const reset = useCallback(() => {
+    setView(FIT_VIEW);
+  }, []);
+
+  // Zooms to an exact scale around the given client position, or the centre.
+  const zoomTo = useCallback(
+    (
+      scale: number,
+      element: HTMLElement,
+      clientX?: number,
+      clientY?: number,
+    ) => {
+      const geometry = measure(element, clientX, clientY);
+      setView((prev) => zoomAt(prev, scale, geometry, maxScale));
+    },
+    [maxScale],
+  );
+
+  // True when the last press moved far enough to pan, so the click that
+  // follows it should not count.
+  const wasDragged = useCallback(() => didDragRef.current, []);
+
+  return {
+    view,
+    reset,
+    zoomTo,
+    wasDragged,
+    handlers: {
+      onWheel,
+      onPointerDown,
+      onPointerMove,
+      onPointerUp,
+      onPointerCancel: onPointerUp,
+      onDoubleClick,
+    },
+  };
+}
@@ -0,0 +1,16 @@
+import type { ColorLabel } from "./types";
+
+// Same order and names as Lightroom's label set
+export const COLOR_LABELS: readonly ColorLabel[] = [
+  "red",
+  "yellow",
+  "green",
+  "blue",
+  "purple",
+];
+
+export function isColorLabel(value: unknown): value is ColorLabel {
+  return (
+    typeof value === "string" && COLOR_LABELS.includes(value as ColorLabel)
+  );
+}
@@ -0,0 +1,58 @@
+import type { ExportFormat } from "./types";
+
+export interface ExportFileNameValues {
+  // Source file name without its extension
+  name: string;
+  // 1-based position in the export
+  index: number;
+  total: number;
+  // Capture time, or the modified time when the photo has none
+  takenAt: number;
+  rating: number;
+}
+
+export const DEFAULT_EXPORT_FILE_NAME_TEMPLATE = "{name}";
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  jpeg: "jpg",
+  webp: "webp",
+  avif: "avif",
+  png: "png",
+};
+
+function pad(value: number, length: number): string {
+  return String(value).padStart(length, "0");
+}
+
+function formatDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1, 2)}-${pad(date.getDate(), 2)}`;
+}
+
+// Expands {name}, {index} (zero-padded to the export's size), {date}
+// (YYYY-MM-DD) and {rating}; unknown tokens are left as typed. Characters
+// that are not allowed in file names on any platform become "_".
+export function formatExportFileName(
+  template: string,
+  values: ExportFileNameValues,
+): string {
+  const tokens: Record<string, string> = {
+    name: values.name,
+    index: pad(values.index, String(values.total).length),
+    date: formatDate(values.takenAt),
+    rating: String(values.rating),
+  };
+  const expanded = Array.from(
+    template.replace(
+      /\{(\w+)\}/g,
+      (match, token: string) => tokens[token] ?? match,
+    ),
+    (char) =>
+      char.charCodeAt(0) < 32 || '\\/:*?"<>|'.includes(char) ? "_" : char,
+  )
+    .join("")
+    .trim();
+  return expanded && expanded !== "." && expanded !== ".."
+    ? expanded
+    : values.name;
+}
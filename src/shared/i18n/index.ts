@@ -14,19 +14,32 @@ const intlLocaleMap: Record<Locale, string> = {
 };
 
 const en = {
-  "app.actions.clearFolder": "Close folder",
+  "app.actions.addFolder": "Add Folder",
+  "app.actions.clearFolder": "Close all",
   "app.actions.loadFolder": "Load Folder",
   "app.actions.openFolder": "Open folder",
+  "app.actions.removeFolder": "Remove {{name}} from the workspace",
   "app.confirm.delete": "Move “{{name}}” to Trash?",
   "app.confirm.deleteMany": "Move {{count}} photos to Trash?",
+  "app.confirm.deleteRejected":
+    "Move all {{count}} rejected photos ({{files}} files, {{size}}) to Trash?",
+  "app.context.copySelectedTo": "Copy {{count}} photos to…",
+  "app.context.copyTo": "Copy to…",
+  "app.context.copyTopRated": "Copy 5★ to…",
   "app.context.delete": "Delete",
   "app.context.deleteSelected": "Delete selected ({{count}})",
+  "app.context.export": "Export…",
+  "app.context.exportSelected": "Export {{count}} photos…",
+  "app.context.moveSelectedTo": "Move {{count}} photos to…",
+  "app.context.moveTo": "Move to…",
   "app.context.rename": "Rename",
   "app.context.reveal": "Show in folder",
+  "app.deleteRejected": "Delete rejected ({{count}})",
   "app.dialog.preview": "Photo preview",
   "app.directory.count": "{{count}} photos",
   "app.directory.countSingular": "{{count}} photo",
-  "app.dnd.prompt": "Drop a folder to load photos.",
+  "app.dnd.prompt":
+    "Drop folders to add them. Hold Shift to replace the current ones.",
   "app.dnd.unsupported": "Only folders can be dropped here.",
   "app.dnd.emptyTitle": "Drag in a folder",
   "app.dnd.emptyDescription":
@@ -40,7 +53,18 @@ const en = {
   "app.error.delete": "Failed to delete the photo.",
   "app.error.deleteUnexpected": "An unexpected error occurred while deleting.",
   "app.error.deleteWithReason": "Failed to delete the photo: {{reason}}",
+  "app.error.exportDestination": "The export folder is not available.",
+  "app.error.exportWatermark": "The watermark image could not be found.",
   "app.error.fileNotFound": "File not found.",
+  "app.error.metadataMode": "Failed to change where ratings are written.",
+  "app.error.nestedRoot":
+    "{{name}} overlaps a folder that is already open, so it was not added.",
+  "app.error.transferBusy":
+    "Another copy or move is still running. Try again when it finishes.",
+  "app.error.transferDestination": "The destination folder is not available.",
+  "app.error.metadataUnavailable": "Could not read this photo's metadata.",
+  "app.error.metadataModeWithReason":
+    "Failed to change where ratings are written: {{reason}}",
   "app.error.rename": "Failed to rename the file.",
   "app.error.renameConflict": "A file with the same name already exists.",
   "app.error.renameEmpty": "Enter a file name.",
@@ -48,32 +72,77 @@ const en = {
     "Slashes cannot be used in file names.",
   "app.error.renameInvalid": "This name cannot be used.",
   "app.error.renameWithReason": "Failed to rename the file: {{reason}}",
+  "app.error.restoreConflict":
+    "Cannot restore because a file with the same name now exists.",
+  "app.error.restoreUnavailable": "This photo can no longer be restored.",
   "app.error.reveal": "Could not reveal the photo location.",
   "app.error.revealNotFound": "File not found.",
   "app.error.revealWithReason":
     "Could not reveal the photo location: {{reason}}",
   "app.error.unknown": "An unknown error occurred.",
+  "app.export.cancel": "Cancel",
+  "app.export.cancelled": "stopped early",
+  "app.export.done": "Exported {{count}} photos",
+  "app.export.exporting": "Exporting… {{completed}} / {{total}}",
+  "app.export.failed": "{{count}} failed",
   "app.filter.all": "All ({{count}})",
+  "app.filter.capture.cameras": "Camera body",
+  "app.filter.capture.clear": "Clear camera filters",
+  "app.filter.capture.empty": "No data in this folder.",
+  "app.filter.capture.iso": "ISO range",
+  "app.filter.capture.isoAny": "Any",
+  "app.filter.capture.isoMax": "Up to",
+  "app.filter.capture.isoMin": "From",
+  "app.filter.capture.label": "Camera",
+  "app.filter.capture.lenses": "Lens",
+  "app.filter.keywords.empty": "No keywords in this folder yet.",
+  "app.filter.keywords.label": "Keywords",
   "app.filter.label": "Filter",
+  "app.filter.labels.none": "No label",
   "app.filter.rated": "Rated ({{count}})",
   "app.filter.ratedDisabled": "No rated photos yet.",
   "app.filter.stars.label": "Filter by rating",
   "app.filter.stars.none": "No rating",
   "app.filter.unrated": "Unrated ({{count}})",
   "app.filter.unratedDisabled": "No unrated photos.",
+  "app.findDuplicates": "Find duplicates",
+  "app.history.delete": "Move to Trash ({{count}})",
+  "app.history.deleteNotRestorable":
+    "Moved to Trash, but {{count}} photos can't be restored with Undo.",
+  "app.history.rating": "Rating change ({{count}})",
+  "app.history.redoFailed": "Couldn't redo: {{action}}",
+  "app.history.redone": "Redone: {{action}}",
+  "app.history.rename": "Rename to {{name}}",
+  "app.history.undoFailed": "Couldn't undo: {{action}}",
+  "app.history.undone": "Undone: {{action}}",
   "app.language.ariaLabel": "Select language",
   "app.language.label": "Language",
+  "app.metadataMode.description":
+    "Choose whether ratings are written into each file or into .xmp sidecars that leave originals untouched.",
+  "app.metadataMode.embedded": "In file",
+  "app.metadataMode.label": "Metadata",
+  "app.metadataMode.sidecar": "XMP sidecar",
+  "app.scan.cancel": "Cancel",
+  "app.scan.progress": "Scanning… {{count}} photos found",
   "app.preview.resizeHandle": "Resize preview panel",
   "app.shortcuts.actions": "Actions",
   "app.shortcuts.actionsClose": "Clear selection",
   "app.shortcuts.actionsDelete": "Delete the selected photo",
+  "app.shortcuts.actionsExport": "Export the selected photos",
   "app.shortcuts.actionsFilter": "Toggle filter (all / rated / unrated)",
   "app.shortcuts.actionsLoadFolder": "Load folder",
+  "app.shortcuts.actionsRedo": "Redo",
+  "app.shortcuts.actionsUndo": "Undo rating, rename or delete",
   "app.shortcuts.ariaLabel": "Keyboard shortcuts",
   "app.shortcuts.button": "Shortcuts",
   "app.shortcuts.close": "Close",
   "app.shortcuts.display": "Display",
+  "app.shortcuts.displayCompare": "Compare 2–4 selected photos side by side",
+  "app.shortcuts.displayInfo":
+    "Show or hide shooting info in the full-screen preview",
   "app.shortcuts.displayToggleSort": "Cycle sort order",
+  "app.shortcuts.displayZoom":
+    "Cycle fit / 100% / 200% in the full-screen preview",
   "app.shortcuts.navigation": "Navigation",
   "app.shortcuts.navigationJump":
     "Jump to first / last photo in the current list",
@@ -82,9 +151,13 @@ const en = {
   "app.shortcuts.rating": "Rating",
   "app.shortcuts.ratingAdjust": "Decrease / increase rating by 1",
   "app.shortcuts.ratingClear": "Clear rating",
+  "app.shortcuts.ratingFlag": "Pick / reject / unflag",
+  "app.shortcuts.ratingLabel": "Toggle red / yellow / green / blue label",
   "app.shortcuts.ratingSet": "Set star rating",
   "app.shortcuts.title": "Keyboard Shortcuts",
   "app.sort.ariaLabel": "Sort photos",
+  "app.sort.captureAsc": "Capture time (oldest first)",
+  "app.sort.captureDesc": "Capture time (newest first)",
   "app.sort.label": "Sort",
   "app.sort.modifiedAsc": "Modified (oldest first)",
   "app.sort.modifiedDesc": "Modified (newest first)",
@@ -92,46 +165,229 @@ const en = {
   "app.sort.nameDesc": "Name (Z → A)",
   "app.sort.ratingAsc": "Rating (low to high)",
   "app.sort.ratingDesc": "Rating (high to low)",
+  "app.tooltips.addFolder": "Add another folder to this workspace",
+  "app.tooltips.settings": "Settings",
   "app.tooltips.shortcuts": "Keyboard shortcuts (Shift + ?)",
+  "app.transfer.cancel": "Cancel",
+  "app.transfer.cancelled": "stopped early",
+  "app.transfer.copied": "Copied {{count}} photos",
+  "app.transfer.copying": "Copying… {{completed}} / {{total}}",
+  "app.transfer.failed": "{{count}} failed",
+  "app.transfer.moved": "Moved {{count}} photos",
+  "app.transfer.moving": "Moving… {{completed}} / {{total}}",
+  "app.transfer.sidecarsFailed": "{{count}} sidecars not carried along",
+  "app.transfer.skipped": "{{count}} skipped",
+  "colorLabel.blue": "Blue",
+  "colorLabel.green": "Green",
+  "colorLabel.picker": "Color label",
+  "colorLabel.purple": "Purple",
+  "colorLabel.red": "Red",
+  "colorLabel.yellow": "Yellow",
+  "compare.ariaLabel": "Compare photos",
+  "compare.close": "Close",
+  "compare.hint":
+    "0-5 rate the highlighted photo · ← / → switch · K keep it and reject the rest · Scroll to zoom, drag to pan, double-click to reset",
+  "compare.keep": "Keep this one",
+  "duplicates.close": "Close",
+  "duplicates.cluster": "{{count}} similar photos",
+  "duplicates.empty": "No similar photos at this threshold.",
+  "duplicates.keep": "Keep",
+  "duplicates.status.found": "{{count}} groups found",
+  "duplicates.status.hashing": "Analyzing photos… {{done}} / {{total}}",
+  "duplicates.status.loading": "Loading…",
+  "duplicates.threshold": "Similarity threshold",
+  "duplicates.thresholdValue": "{{value}} bits",
+  "duplicates.title": "Find duplicates",
+  "duplicates.trash": "Trash",
+  "exportDialog.cancel": "Cancel",
+  "exportDialog.choose": "Choose…",
+  "exportDialog.convertToSrgb": "Convert to sRGB",
+  "exportDialog.export": "Export",
+  "exportDialog.fileName": "File name",
+  "exportDialog.fileNameHint":
+    "{name} original name · {index} number · {date} capture date · {rating} stars",
+  "exportDialog.fileNamePreview": "Example: {{name}}",
+  "exportDialog.format": "Format",
+  "exportDialog.keepMetadata": "Keep EXIF and other metadata",
+  "exportDialog.noDestination": "No destination chosen",
+  "exportDialog.noWatermarkImage": "No image chosen",
+  "exportDialog.opacity": "Opacity",
+  "exportDialog.position": "Position",
+  "exportDialog.positionBottomLeft": "Bottom left",
+  "exportDialog.positionBottomRight": "Bottom right",
+  "exportDialog.positionCenter": "Center",
+  "exportDialog.positionTopLeft": "Top left",
+  "exportDialog.positionTopRight": "Top right",
+  "exportDialog.quality": "Quality",
+  "exportDialog.size": "Size",
+  "exportDialog.sizeLongEdge": "Long edge {{size}} px",
+  "exportDialog.sizeOriginal": "Full size",
+  "exportDialog.title": "Export {{count}} photos",
+  "exportDialog.watermark": "Watermark",
+  "exportDialog.watermarkFilter": "Images",
+  "exportDialog.watermarkImage": "Image",
+  "exportDialog.watermarkNone": "None",
+  "exportDialog.watermarkText": "Text",
+  "exportDialog.watermarkTextPlaceholder": "© Your name",
+  "folderTree.all": "All folders",
+  "folderTree.collapse": "Collapse folder",
+  "folderTree.expand": "Expand folder",
+  "folderTree.hide": "Hide folders",
+  "folderTree.includeSubfolders": "Include subfolders",
+  "folderTree.rated": "{{count}} rated",
+  "folderTree.show": "Show folders",
+  "folderTree.title": "Folders",
+  "keywordEditor.label": "Add keyword",
+  "keywordEditor.partial": "Only on some of the selected photos",
+  "keywordEditor.placeholder": "Add keyword…",
+  "keywordEditor.remove": "Remove keyword {{keyword}}",
+  "loupe.close": "Close",
+  "loupe.fit": "Fit",
+  "loupe.info": "Info",
+  "loupe.percent": "{{value}}%",
+  "loupe.zoom": "Zoom level",
   "main.sqliteError.message":
     "The better-sqlite3 native module is not available for this Electron build.\nReinstall dependencies and run `npm run rebuild-native`, then restart the app.",
   "main.sqliteError.title": "SQLite initialization error",
   "photoCard.error": "Unable to load image.",
+  "photoCard.flag.picked": "Picked",
+  "photoCard.flag.rejected": "Rejected",
   "photoCard.loading": "Loading",
+  "photoCard.pairFiles": "Grouped files: {{files}}",
+  "photoCard.stack.collapse": "Collapse stack",
+  "photoCard.stack.expand": "Expand stack of {{count}} photos",
+  "photoCard.sync.failed": "Could not write the rating to the file.",
+  "photoCard.sync.pending": "Writing rating to the file…",
+  "photoCard.sync.skippedDisabled":
+    "Metadata tools are unavailable; the rating is kept in PickShot only.",
+  "photoCard.sync.skippedSlowVolume":
+    "Skipped on a slow volume; the rating is kept in PickShot only.",
+  "photoCard.sync.written": "Rating saved to the file.",
   "photoGrid.empty": "Load a folder to start browsing photos.",
+  "photoInfo.aperture": "Aperture",
+  "photoInfo.camera": "Camera",
+  "photoInfo.captured": "Captured",
+  "photoInfo.dimensions": "Dimensions",
+  "photoInfo.dimensionsValue": "{{width}} × {{height}} ({{megapixels}} MP)",
+  "photoInfo.empty": "No shooting data in this file.",
+  "photoInfo.error": "Could not read this photo's metadata.",
+  "photoInfo.focalLength": "Focal length",
+  "photoInfo.gps": "Location",
+  "photoInfo.iso": "ISO",
+  "photoInfo.lens": "Lens",
+  "photoInfo.loading": "Reading metadata…",
+  "photoInfo.shutter": "Shutter",
+  "photoPreview.compare": "Compare ({{count}})",
   "photoPreview.delete": "Delete photo",
   "photoPreview.reveal": "Show in folder",
   "photoPreview.empty": "Select a photo to preview.",
+  "photoPreview.info.title": "Shooting info",
   "photoPreview.multiTitle": "{{count}} photos selected",
   "photoPreview.multiRatingLabel": "Apply rating to selection",
+  "photoPreview.multiColorLabel": "Apply color label to selection",
+  "photoPreview.multiKeywords": "Keywords on selection",
   "photoPreview.multiMixedRatings": "Mixed star ratings",
   "photoPreview.multiUnifiedRating": "All rated {{rating}}★",
   "photoPreview.multiUnifiedRatingNone": "All unrated",
   "photoPreview.multiMore": "+{{count}} more",
   "photoPreview.multiDelete": "Delete selected ({{count}})",
+  "photoPreview.stack.collapse": "Collapse",
+  "photoPreview.stack.expand": "Show all",
+  "photoPreview.stack.keep": "Keep this, reject others",
+  "photoPreview.stack.rate": "Rate whole stack",
+  "photoPreview.stack.title": "Burst of {{count}} photos",
+  "recentFolders.empty": "No recent folders yet.",
+  "recentFolders.forget": "Remove {{name}} from recent folders",
+  "recentFolders.missing": "Folder not found",
+  "recentFolders.title": "Recent folders",
+  "recentFolders.unavailable":
+    "{{name}} could not be opened. It may have been moved or deleted.",
   "renameDialog.ariaLabel": "Rename file",
   "renameDialog.cancel": "Cancel",
   "renameDialog.description":
     "Enter a new file name. Include the extension to be sure.",
+  "renameDialog.pairHint":
+    "This photo is stored as {{formats}}; every file is renamed together.",
   "renameDialog.save": "Save",
   "renameDialog.saving": "Saving…",
   "renameDialog.title": "Rename file",
+  "settingsDialog.ariaLabel": "Settings",
+  "settingsDialog.burstGap": "Burst stacking",
+  "settingsDialog.burstGapDescription":
+    "Photos from the same camera taken this close together are grouped into one stack in the grid.",
+  "settingsDialog.burstGapOff": "Off",
+  "settingsDialog.burstGapValue": "Within {{seconds}} s",
+  "settingsDialog.cache.clear": "Clear cache",
+  "settingsDialog.cache.clearConfirm":
+    "Delete all cached thumbnails and previews? They are rebuilt as photos are viewed again.",
+  "settingsDialog.cache.clearError": "Could not clear the cache: {{reason}}",
+  "settingsDialog.cache.clearing": "Clearing…",
+  "settingsDialog.cache.limit": "Cache size limit",
+  "settingsDialog.cache.limitDescription":
+    "When the cache grows past this size, the least recently viewed files are removed first.",
+  "settingsDialog.cache.media": "Previews (RAW / HEIC)",
+  "settingsDialog.cache.thumbnails": "Thumbnails",
+  "settingsDialog.cache.title": "Cache",
+  "settingsDialog.cache.usage": "{{size}} · {{count}} files",
+  "settingsDialog.close": "Close",
+  "settingsDialog.saveError": "Could not save settings: {{reason}}",
+  "settingsDialog.stats.active": "Generating",
+  "settingsDialog.stats.completed": "Completed",
+  "settingsDialog.stats.failed": "Failed",
+  "settingsDialog.stats.queued": "Queued",
+  "settingsDialog.stats.restarted": "Worker restarts",
+  "settingsDialog.stats.throughput": "Throughput",
+  "settingsDialog.stats.throughputValue": "{{value}} / s",
+  "settingsDialog.stats.title": "Thumbnail activity",
+  "settingsDialog.stats.workers": "Workers",
+  "settingsDialog.thumbnailWorkers": "Thumbnail workers",
+  "settingsDialog.thumbnailWorkersAuto": "Auto ({{count}})",
+  "settingsDialog.thumbnailWorkersDescription":
+    "Thumbnails are generated on this many CPU cores in parallel. Fewer workers keep the rest of the system responsive.",
+  "settingsDialog.title": "Settings",
+  "transferDialog.cancel": "Cancel",
+  "transferDialog.choose": "Choose…",
+  "transferDialog.conflict": "When a file already exists",
+  "transferDialog.conflictOverwrite": "Overwrite it",
+  "transferDialog.conflictRename": "Keep both (add a number)",
+  "transferDialog.conflictSkip": "Skip the photo",
+  "transferDialog.copy": "Copy",
+  "transferDialog.copyTitle": "Copy {{count}} photos",
+  "transferDialog.includeRatings": "Carry ratings, labels, flags and keywords",
+  "transferDialog.includeSidecars": "Include XMP sidecars",
+  "transferDialog.move": "Move",
+  "transferDialog.moveTitle": "Move {{count}} photos",
+  "transferDialog.noDestination": "No destination chosen",
+  "transferDialog.preserveStructure": "Keep subfolders relative to the root",
 } as const;
 
 const ja: typeof en = {
-  "app.actions.clearFolder": "フォルダーを閉じる",
+  "app.actions.addFolder": "フォルダーを追加",
+  "app.actions.clearFolder": "すべて閉じる",
   "app.actions.loadFolder": "フォルダーを読み込み",
   "app.actions.openFolder": "フォルダーを開く",
+  "app.actions.removeFolder": "{{name}} をワークスペースから外す",
   "app.confirm.delete": "「{{name}}」をゴミ箱に移動します。よろしいですか？",
   "app.confirm.deleteMany": "{{count}} 枚の画像をゴミ箱に移動しますか？",
+  "app.confirm.deleteRejected":
+    "除外フラグの付いた {{count}} 枚 ({{files}} ファイル、{{size}}) をすべてゴミ箱に移動しますか？",
+  "app.context.copySelectedTo": "{{count}} 枚をコピー…",
+  "app.context.copyTo": "コピー…",
+  "app.context.copyTopRated": "5★ をコピー…",
   "app.context.delete": "削除",
   "app.context.deleteSelected": "選択した画像を削除 ({{count}})",
+  "app.context.export": "書き出し…",
+  "app.context.exportSelected": "{{count}} 枚を書き出し…",
+  "app.context.moveSelectedTo": "{{count}} 枚を移動…",
+  "app.context.moveTo": "移動…",
   "app.context.rename": "ファイル名を変更",
   "app.context.reveal": "ファイルの場所を表示",
+  "app.deleteRejected": "除外を削除 ({{count}})",
   "app.dialog.preview": "画像プレビュー",
   "app.directory.count": "{{count}} 枚",
   "app.directory.countSingular": "{{count}} 枚",
-  "app.dnd.prompt": "ここにフォルダをドロップして読み込みます。",
+  "app.dnd.prompt":
+    "フォルダをドロップすると追加されます。Shift を押しながらドロップすると置き換えます。",
   "app.dnd.unsupported": "ドロップできるのはフォルダのみです。",
   "app.dnd.emptyTitle": "フォルダをドラッグ",
   "app.dnd.emptyDescription":
@@ -146,7 +402,19 @@ const ja: typeof en = {
   "app.error.delete": "削除に失敗しました。",
   "app.error.deleteUnexpected": "削除中に予期せぬエラーが発生しました。",
   "app.error.deleteWithReason": "削除に失敗しました: {{reason}}",
+  "app.error.exportDestination": "書き出し先のフォルダーを利用できません。",
+  "app.error.exportWatermark": "透かし画像が見つかりません。",
   "app.error.fileNotFound": "ファイルが見つかりません。",
+  "app.error.metadataMode": "評価の書き込み先を変更できませんでした。",
+  "app.error.nestedRoot":
+    "{{name}} は既に開いているフォルダーと重なるため追加しませんでした。",
+  "app.error.transferBusy":
+    "別のコピーまたは移動を実行中です。完了してからもう一度お試しください。",
+  "app.error.transferDestination": "コピー先のフォルダーを利用できません。",
+  "app.error.metadataUnavailable":
+    "この写真のメタデータを読み込めませんでした。",
+  "app.error.metadataModeWithReason":
+    "評価の書き込み先を変更できませんでした: {{reason}}",
   "app.error.rename": "ファイル名を変更できませんでした。",
   "app.error.renameConflict": "同名のファイルが既に存在します。",
   "app.error.renameEmpty": "ファイル名を入力してください。",
@@ -154,33 +422,77 @@ const ja: typeof en = {
     "ファイル名にスラッシュは使用できません。",
   "app.error.renameInvalid": "この名前は使用できません。",
   "app.error.renameWithReason": "ファイル名を変更できませんでした: {{reason}}",
+  "app.error.restoreConflict":
+    "同名のファイルが既に存在するため復元できません。",
+  "app.error.restoreUnavailable": "この画像はもう復元できません。",
   "app.error.reveal": "ファイルの場所を表示できませんでした。",
   "app.error.revealNotFound": "ファイルが見つかりませんでした。",
   "app.error.revealWithReason":
     "ファイルの場所を表示できませんでした: {{reason}}",
   "app.error.unknown": "不明なエラーが発生しました。",
+  "app.export.cancel": "キャンセル",
+  "app.export.cancelled": "途中で中止",
+  "app.export.done": "{{count}} 枚を書き出しました",
+  "app.export.exporting": "書き出し中… {{completed}} / {{total}}",
+  "app.export.failed": "{{count}} 枚失敗",
   "app.filter.all": "すべて ({{count}})",
+  "app.filter.capture.cameras": "カメラ",
+  "app.filter.capture.clear": "カメラの条件をクリア",
+  "app.filter.capture.empty": "このフォルダーには情報がありません",
+  "app.filter.capture.iso": "ISO 感度の範囲",
+  "app.filter.capture.isoAny": "指定なし",
+  "app.filter.capture.isoMax": "上限",
+  "app.filter.capture.isoMin": "下限",
+  "app.filter.capture.label": "撮影機材",
+  "app.filter.capture.lenses": "レンズ",
+  "app.filter.keywords.empty": "このフォルダにはまだキーワードがありません",
+  "app.filter.keywords.label": "キーワード",
   "app.filter.label": "表示フィルター",
+  "app.filter.labels.none": "ラベルなし",
   "app.filter.rated": "★あり ({{count}})",
   "app.filter.ratedDisabled": "星評価が付いた画像がありません",
   "app.filter.stars.label": "評価でフィルター",
   "app.filter.stars.none": "評価なし",
   "app.filter.unrated": "★なし ({{count}})",
   "app.filter.unratedDisabled": "星評価が付いていない画像がありません",
+  "app.findDuplicates": "重複を探す",
+  "app.history.delete": "ゴミ箱に移動 ({{count}})",
+  "app.history.deleteNotRestorable":
+    "ゴミ箱に移動しましたが、{{count}} 枚は取り消しで元に戻せません。",
+  "app.history.rating": "評価の変更 ({{count}})",
+  "app.history.redoFailed": "やり直せませんでした: {{action}}",
+  "app.history.redone": "やり直しました: {{action}}",
+  "app.history.rename": "「{{name}}」に名前を変更",
+  "app.history.undoFailed": "取り消せませんでした: {{action}}",
+  "app.history.undone": "取り消しました: {{action}}",
   "app.language.ariaLabel": "言語を選択",
   "app.language.label": "言語",
+  "app.metadataMode.description":
+    "評価を各ファイルに直接書き込むか、元ファイルに触れない .xmp サイドカーに書き込むかを選択します。",
+  "app.metadataMode.embedded": "ファイル内",
+  "app.metadataMode.label": "メタデータ",
+  "app.metadataMode.sidecar": "XMP サイドカー",
+  "app.scan.cancel": "キャンセル",
+  "app.scan.progress": "スキャン中… {{count}} 枚見つかりました",
   "app.preview.resizeHandle": "プレビュー幅の調整ハンドル",
   "app.shortcuts.actions": "操作",
   "app.shortcuts.actionsClose": "画像選択を解除",
   "app.shortcuts.actionsDelete": "選択中の画像を削除",
+  "app.shortcuts.actionsExport": "選択中の画像を書き出し",
   "app.shortcuts.actionsFilter":
     "表示フィルターを切り替え (すべて / 星あり / 星なし)",
   "app.shortcuts.actionsLoadFolder": "フォルダーを読み込み",
+  "app.shortcuts.actionsRedo": "やり直し",
+  "app.shortcuts.actionsUndo": "評価・名前の変更・削除を取り消し",
   "app.shortcuts.ariaLabel": "キーボードショートカット",
   "app.shortcuts.button": "ショートカット",
   "app.shortcuts.close": "閉じる",
   "app.shortcuts.display": "表示",
+  "app.shortcuts.displayCompare": "選択した 2〜4 枚を並べて比較",
+  "app.shortcuts.displayInfo": "全画面プレビューで撮影情報を表示 / 非表示",
   "app.shortcuts.displayToggleSort": "並び替えを切り替え",
+  "app.shortcuts.displayZoom":
+    "全画面プレビューで 全体 / 100% / 200% を切り替え",
   "app.shortcuts.navigation": "ナビゲーション",
   "app.shortcuts.navigationJump": "表示中リストの先頭 / 末尾へ移動",
   "app.shortcuts.navigationMove": "前 / 次の画像へ移動",
@@ -188,9 +500,13 @@ const ja: typeof en = {
   "app.shortcuts.rating": "評価",
   "app.shortcuts.ratingAdjust": "評価を 1 段階下げる / 上げる",
   "app.shortcuts.ratingClear": "評価をクリア",
+  "app.shortcuts.ratingFlag": "採用 / 除外 / フラグなし",
+  "app.shortcuts.ratingLabel": "赤 / 黄 / 緑 / 青のラベルを切り替え",
   "app.shortcuts.ratingSet": "星評価を設定",
   "app.shortcuts.title": "キーボードショートカット",
   "app.sort.ariaLabel": "画像の並び替え",
+  "app.sort.captureAsc": "撮影日時 (古い順)",
+  "app.sort.captureDesc": "撮影日時 (新しい順)",
   "app.sort.label": "並び替え",
   "app.sort.modifiedAsc": "更新日 (古い順)",
   "app.sort.modifiedDesc": "更新日 (新しい順)",
@@ -198,30 +514,202 @@ const ja: typeof en = {
   "app.sort.nameDesc": "名前 (降順)",
   "app.sort.ratingAsc": "評価 (低い順)",
   "app.sort.ratingDesc": "評価 (高い順)",
+  "app.tooltips.addFolder": "このワークスペースに別のフォルダーを追加",
+  "app.tooltips.settings": "設定",
   "app.tooltips.shortcuts": "キーボードショートカット (Shift + ?)",
+  "app.transfer.cancel": "キャンセル",
+  "app.transfer.cancelled": "途中で中止",
+  "app.transfer.copied": "{{count}} 枚をコピーしました",
+  "app.transfer.copying": "コピー中… {{completed}} / {{total}}",
+  "app.transfer.failed": "{{count}} 枚失敗",
+  "app.transfer.moved": "{{count}} 枚を移動しました",
+  "app.transfer.moving": "移動中… {{completed}} / {{total}}",
+  "app.transfer.sidecarsFailed":
+    "{{count}} 件のサイドカーを引き継げませんでした",
+  "app.transfer.skipped": "{{count}} 枚スキップ",
+  "colorLabel.blue": "青",
+  "colorLabel.green": "緑",
+  "colorLabel.picker": "カラーラベル",
+  "colorLabel.purple": "紫",
+  "colorLabel.red": "赤",
+  "colorLabel.yellow": "黄",
+  "compare.ariaLabel": "写真を比較",
+  "compare.close": "閉じる",
+  "compare.hint":
+    "0-5 で選択中の写真を評価 · ← / → で切り替え · K で残して他を除外 · スクロールでズーム、ドラッグで移動、ダブルクリックでリセット",
+  "compare.keep": "これを残す",
+  "duplicates.close": "閉じる",
+  "duplicates.cluster": "類似写真 {{count}} 枚",
+  "duplicates.empty": "このしきい値では類似写真は見つかりません。",
+  "duplicates.keep": "これを残す",
+  "duplicates.status.found": "{{count}} グループが見つかりました",
+  "duplicates.status.hashing": "写真を解析中… {{done}} / {{total}}",
+  "duplicates.status.loading": "読み込み中…",
+  "duplicates.threshold": "類似度のしきい値",
+  "duplicates.thresholdValue": "{{value}} ビット",
+  "duplicates.title": "重複を探す",
+  "duplicates.trash": "ゴミ箱へ",
+  "exportDialog.cancel": "キャンセル",
+  "exportDialog.choose": "選択…",
+  "exportDialog.convertToSrgb": "sRGB に変換",
+  "exportDialog.export": "書き出し",
+  "exportDialog.fileName": "ファイル名",
+  "exportDialog.fileNameHint":
+    "{name} 元の名前 · {index} 連番 · {date} 撮影日 · {rating} 星の数",
+  "exportDialog.fileNamePreview": "例: {{name}}",
+  "exportDialog.format": "形式",
+  "exportDialog.keepMetadata": "EXIF などのメタデータを残す",
+  "exportDialog.noDestination": "書き出し先が選択されていません",
+  "exportDialog.noWatermarkImage": "画像が選択されていません",
+  "exportDialog.opacity": "不透明度",
+  "exportDialog.position": "位置",
+  "exportDialog.positionBottomLeft": "左下",
+  "exportDialog.positionBottomRight": "右下",
+  "exportDialog.positionCenter": "中央",
+  "exportDialog.positionTopLeft": "左上",
+  "exportDialog.positionTopRight": "右上",
+  "exportDialog.quality": "画質",
+  "exportDialog.size": "サイズ",
+  "exportDialog.sizeLongEdge": "長辺 {{size}} px",
+  "exportDialog.sizeOriginal": "元のサイズ",
+  "exportDialog.title": "{{count}} 枚を書き出し",
+  "exportDialog.watermark": "透かし",
+  "exportDialog.watermarkFilter": "画像",
+  "exportDialog.watermarkImage": "画像",
+  "exportDialog.watermarkNone": "なし",
+  "exportDialog.watermarkText": "テキスト",
+  "exportDialog.watermarkTextPlaceholder": "© あなたの名前",
+  "folderTree.all": "すべてのフォルダー",
+  "folderTree.collapse": "フォルダーを折りたたむ",
+  "folderTree.expand": "フォルダーを展開",
+  "folderTree.hide": "フォルダー一覧を隠す",
+  "folderTree.includeSubfolders": "サブフォルダーを含める",
+  "folderTree.rated": "評価済み {{count}} 枚",
+  "folderTree.show": "フォルダー一覧を表示",
+  "folderTree.title": "フォルダー",
+  "keywordEditor.label": "キーワードを追加",
+  "keywordEditor.partial": "選択中の一部の画像にのみ付いています",
+  "keywordEditor.placeholder": "キーワードを追加…",
+  "keywordEditor.remove": "キーワード「{{keyword}}」を削除",
+  "loupe.close": "閉じる",
+  "loupe.fit": "全体",
+  "loupe.info": "情報",
+  "loupe.percent": "{{value}}%",
+  "loupe.zoom": "表示倍率",
   "main.sqliteError.message":
     "better-sqlite3 のネイティブモジュールが現在の Electron で利用できません。\n依存関係を再インストール後、`npm run rebuild-native` を実行して再起動してください。",
   "main.sqliteError.title": "SQLite 初期化エラー",
   "photoCard.error": "画像を読み込めませんでした。",
+  "photoCard.flag.picked": "採用",
+  "photoCard.flag.rejected": "除外",
   "photoCard.loading": "読み込み中",
+  "photoCard.pairFiles": "まとめて扱うファイル: {{files}}",
+  "photoCard.stack.collapse": "スタックを閉じる",
+  "photoCard.stack.expand": "{{count}} 枚のスタックを展開",
+  "photoCard.sync.failed": "評価をファイルに書き込めませんでした。",
+  "photoCard.sync.pending": "評価をファイルに書き込み中…",
+  "photoCard.sync.skippedDisabled":
+    "メタデータツールが利用できないため、評価は PickShot 内にのみ保存されています。",
+  "photoCard.sync.skippedSlowVolume":
+    "低速なボリュームのため書き込みをスキップしました。評価は PickShot 内にのみ保存されています。",
+  "photoCard.sync.written": "評価をファイルに保存しました。",
   "photoGrid.empty": "フォルダを読み込むと写真が表示されます。",
+  "photoInfo.aperture": "絞り",
+  "photoInfo.camera": "カメラ",
+  "photoInfo.captured": "撮影日時",
+  "photoInfo.dimensions": "画像サイズ",
+  "photoInfo.dimensionsValue": "{{width}} × {{height}} ({{megapixels}} MP)",
+  "photoInfo.empty": "このファイルには撮影情報がありません。",
+  "photoInfo.error": "この写真のメタデータを読み込めませんでした。",
+  "photoInfo.focalLength": "焦点距離",
+  "photoInfo.gps": "撮影場所",
+  "photoInfo.iso": "ISO 感度",
+  "photoInfo.lens": "レンズ",
+  "photoInfo.loading": "メタデータを読み込み中…",
+  "photoInfo.shutter": "シャッター速度",
+  "photoPreview.compare": "比較 ({{count}})",
   "photoPreview.delete": "画像を削除",
   "photoPreview.reveal": "ファイルの場所を表示",
   "photoPreview.empty": "プレビューする写真を選択してください。",
+  "photoPreview.info.title": "撮影情報",
   "photoPreview.multiTitle": "{{count}} 件選択中",
   "photoPreview.multiRatingLabel": "選択中の画像に評価を適用",
+  "photoPreview.multiColorLabel": "選択中の画像にカラーラベルを適用",
+  "photoPreview.multiKeywords": "選択中の画像のキーワード",
   "photoPreview.multiMixedRatings": "評価は混在しています",
   "photoPreview.multiUnifiedRating": "すべて ★{{rating}}",
   "photoPreview.multiUnifiedRatingNone": "すべて 評価なし",
   "photoPreview.multiMore": "さらに {{count}} 件",
   "photoPreview.multiDelete": "選択した画像を削除 ({{count}})",
+  "photoPreview.stack.collapse": "閉じる",
+  "photoPreview.stack.expand": "すべて表示",
+  "photoPreview.stack.keep": "これを残して他を除外",
+  "photoPreview.stack.rate": "スタック全体を評価",
+  "photoPreview.stack.title": "連写 {{count}} 枚",
+  "recentFolders.empty": "最近使ったフォルダーはまだありません。",
+  "recentFolders.forget": "{{name}} を最近使ったフォルダーから削除",
+  "recentFolders.missing": "フォルダーが見つかりません",
+  "recentFolders.title": "最近使ったフォルダー",
+  "recentFolders.unavailable":
+    "{{name}} を開けませんでした。移動または削除された可能性があります。",
   "renameDialog.ariaLabel": "ファイル名を変更",
   "renameDialog.cancel": "キャンセル",
   "renameDialog.description":
     "新しいファイル名を入力してください。拡張子も含めて指定すると確実です。",
+  "renameDialog.pairHint":
+    "この写真は {{formats}} で保存されています。すべてのファイル名がまとめて変更されます。",
   "renameDialog.save": "保存",
   "renameDialog.saving": "保存中…",
   "renameDialog.title": "ファイル名を変更",
+  "settingsDialog.ariaLabel": "設定",
+  "settingsDialog.burstGap": "連写のスタック",
+  "settingsDialog.burstGapDescription":
+    "同じカメラでこの間隔以内に撮影された写真を、グリッド上で 1 つのスタックにまとめます。",
+  "settingsDialog.burstGapOff": "オフ",
+  "settingsDialog.burstGapValue": "{{seconds}} 秒以内",
+  "settingsDialog.cache.clear": "キャッシュを削除",
+  "settingsDialog.cache.clearConfirm":
+    "キャッシュされたサムネイルとプレビューをすべて削除しますか？写真を再表示すると作り直されます。",
+  "settingsDialog.cache.clearError":
+    "キャッシュを削除できませんでした: {{reason}}",
+  "settingsDialog.cache.clearing": "削除中…",
+  "settingsDialog.cache.limit": "キャッシュの上限サイズ",
+  "settingsDialog.cache.limitDescription":
+    "上限を超えると、最後に表示してから時間が経ったファイルから順に削除します。",
+  "settingsDialog.cache.media": "プレビュー (RAW / HEIC)",
+  "settingsDialog.cache.thumbnails": "サムネイル",
+  "settingsDialog.cache.title": "キャッシュ",
+  "settingsDialog.cache.usage": "{{size}} · {{count}} ファイル",
+  "settingsDialog.close": "閉じる",
+  "settingsDialog.saveError": "設定を保存できませんでした: {{reason}}",
+  "settingsDialog.stats.active": "生成中",
+  "settingsDialog.stats.completed": "完了",
+  "settingsDialog.stats.failed": "失敗",
+  "settingsDialog.stats.queued": "待機中",
+  "settingsDialog.stats.restarted": "ワーカー再起動",
+  "settingsDialog.stats.throughput": "処理速度",
+  "settingsDialog.stats.throughputValue": "{{value}} 枚/秒",
+  "settingsDialog.stats.title": "サムネイル生成の状況",
+  "settingsDialog.stats.workers": "ワーカー数",
+  "settingsDialog.thumbnailWorkers": "サムネイル生成ワーカー",
+  "settingsDialog.thumbnailWorkersAuto": "自動 ({{count}})",
+  "settingsDialog.thumbnailWorkersDescription":
+    "指定した数の CPU コアで並列にサムネイルを生成します。少なくすると他のアプリの動作が軽くなります。",
+  "settingsDialog.title": "設定",
+  "transferDialog.cancel": "キャンセル",
+  "transferDialog.choose": "選択…",
+  "transferDialog.conflict": "同じ名前のファイルがある場合",
+  "transferDialog.conflictOverwrite": "上書きする",
+  "transferDialog.conflictRename": "両方残す (番号を付ける)",
+  "transferDialog.conflictSkip": "その写真をスキップ",
+  "transferDialog.copy": "コピー",
+  "transferDialog.copyTitle": "{{count}} 枚をコピー",
+  "transferDialog.includeRatings": "評価・ラベル・フラグ・キーワードも引き継ぐ",
+  "transferDialog.includeSidecars": "XMP サイドカーも含める",
+  "transferDialog.move": "移動",
+  "transferDialog.moveTitle": "{{count}} 枚を移動",
+  "transferDialog.noDestination": "コピー先が選択されていません",
+  "transferDialog.preserveStructure": "ルートからのサブフォルダー構成を保つ",
 } as const;
 
 const translations: Record<Locale, typeof en> = {
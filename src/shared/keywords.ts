@@ -0,0 +1,42 @@
+// Keywords compare case-insensitively; the first spelling seen is kept so
+// "Alice" and "alice" never end up as two tags on one photo.
+export function normalizeKeyword(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+function keywordKey(value: string): string {
+  return value.toLocaleLowerCase();
+}
+
+export function mergeKeywords(existing: string[], added: string[]): string[] {
+  const seen = new Set(existing.map(keywordKey));
+  const next = [...existing];
+  for (const value of added) {
+    const keyword = normalizeKeyword(value);
+    if (!keyword || seen.has(keywordKey(keyword))) {
+      continue;
+    }
+    seen.add(keywordKey(keyword));
+    next.push(keyword);
+  }
+  return next;
+}
+
+export function removeKeywords(
+  existing: string[],
+  removed: string[],
+): string[] {
+  const keys = new Set(removed.map((value) => keywordKey(value)));
+  return existing.filter((keyword) => !keys.has(keywordKey(keyword)));
+}
+
+export function hasKeyword(keywords: string[], value: string): boolean {
+  const key = keywordKey(value);
+  return keywords.some((keyword) => keywordKey(keyword) === key);
+}
+
+export function sameKeywords(a: string[], b: string[]): boolean {
+  return (
+    a.length === b.length && a.every((keyword, index) => keyword === b[index])
+  );
+}
@@ -0,0 +1,7 @@
+import type { PhotoFlag } from "./types";
+
+export const PHOTO_FLAGS: readonly PhotoFlag[] = ["picked", "rejected"];
+
+export function isPhotoFlag(value: unknown): value is PhotoFlag {
+  return typeof value === "string" && PHOTO_FLAGS.includes(value as PhotoFlag);
+}
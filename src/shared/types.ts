@@ -1,3 +1,43 @@
+export interface PhotoMemberFile {
+  filePath: string;
+  name: string;
+  format: string;
+  size: number;
+}
+
+// EXIF facts cached per file and read in the background after a scan; fields
+// stay null when the file lacks them.
+export interface PhotoCaptureInfo {
+  // DateTimeOriginal in epoch milliseconds, including sub-seconds if recorded
+  capturedAt: number | null;
+  // Make and model as one display string, e.g. "Canon EOS R5"
+  camera: string | null;
+  bodySerial: string | null;
+  lens: string | null;
+  // Millimetres
+  focalLength: number | null;
+  iso: number | null;
+}
+
+// Shooting details for the info panel, read on demand rather than during
+// the scan; fields stay null when the file lacks them.
+export interface PhotoExifInfo {
+  camera: string | null;
+  lens: string | null;
+  // Millimetres
+  focalLength: number | null;
+  // f-number
+  aperture: number | null;
+  // Seconds
+  exposureTime: number | null;
+  iso: number | null;
+  capturedAt: number | null;
+  // Pixels, already swapped for rotated orientations
+  width: number | null;
+  height: number | null;
+  gps: { latitude: number; longitude: number; altitude: number | null } | null;
+}
+
 export interface PhotoMeta {
   id: string;
   name: string;
@@ -7,12 +47,69 @@ export interface PhotoMeta {
   thumbnailRetinaUrl: string;
   size: number;
   modifiedAt: number;
+  // Present when several files (e.g. RAW+JPEG) form one photo; primary first.
+  members?: PhotoMemberFile[];
+  // Missing when the metadata tools are unavailable
+  capture?: PhotoCaptureInfo;
 }
 
+export type MetadataMode = "embedded" | "sidecar";
+
 export interface PhotoCollectionPayload {
   directory: string | null;
   photos: PhotoMeta[];
   ratings: Record<string, number>;
+  labels?: Record<string, ColorLabel>;
+  flags?: Record<string, PhotoFlag>;
+  keywords?: Record<string, string[]>;
+  metadataMode?: MetadataMode;
+  // Identifies the streaming scan that produced this payload.
+  scanId?: number;
+  cancelled?: boolean;
+  // Added next to the roots already loaded instead of replacing them
+  append?: boolean;
+  // Why the folder was not loaded, when there is more to say than nothing
+  message?: string;
+}
+
+export interface ScanProgressPayload {
+  scanId: number;
+  directory: string;
+  currentDirectory: string;
+  scannedDirectories: number;
+  scannedFiles: number;
+  photoCount: number;
+  photos: PhotoMeta[];
+  ratings: Record<string, number>;
+  labels?: Record<string, ColorLabel>;
+  flags?: Record<string, PhotoFlag>;
+  keywords?: Record<string, string[]>;
+  metadataMode: MetadataMode;
+  append: boolean;
+}
+
+export interface PhotosAddedPayload {
+  directory: string;
+  photos: PhotoMeta[];
+  ratings: Record<string, number>;
+  labels?: Record<string, ColorLabel>;
+  flags?: Record<string, PhotoFlag>;
+  keywords?: Record<string, string[]>;
+}
+
+export interface PhotosChangedPayload {
+  directory: string;
+  photos: PhotoMeta[];
+}
+
+export interface PhotosRemovedPayload {
+  directory: string;
+  ids: string[];
+}
+
+// Capture info read after the scan, keyed by photo id
+export interface CaptureInfoPayload {
+  captures: Record<string, PhotoCaptureInfo>;
 }
 
 export interface ThumbnailReadyPayload {
@@ -21,8 +118,29 @@ export interface ThumbnailReadyPayload {
   thumbnailRetinaUrl: string;
 }
 
+export interface PerceptualHashPayload {
+  photos: Array<{ id: string; modifiedAt: number }>;
+}
+
+export interface PerceptualHashResult {
+  // 64-bit dHash as 16 hex digits, keyed by photo id
+  hashes: Record<string, string>;
+  // Photos still queued for hashing; files that failed to decode are left out
+  pending: number;
+}
+
+export interface ThumbnailPriorityPayload {
+  visibleIds: string[];
+  nearbyIds: string[];
+}
+
 export interface RatingsSyncPayload {
   ratings: Record<string, number>;
+  // Only present for photos whose label changed; null clears it
+  labels?: Record<string, ColorLabel | null>;
+  flags?: Record<string, PhotoFlag | null>;
+  // Full keyword list for each photo whose keywords changed
+  keywords?: Record<string, string[]>;
 }
 
 export interface RatingUpdatePayload {
@@ -30,14 +148,90 @@ export interface RatingUpdatePayload {
   rating: number;
 }
 
+export type ColorLabel = "red" | "yellow" | "green" | "blue" | "purple";
+
+export interface LabelUpdatePayload {
+  id: string;
+  label: ColorLabel | null;
+}
+
+export interface LabelUpdateResult {
+  success: boolean;
+  message?: string;
+}
+
+// Unflagged photos carry null, like photos without a color label.
+export type PhotoFlag = "picked" | "rejected";
+
+export interface FlagUpdatePayload {
+  id: string;
+  flag: PhotoFlag | null;
+}
+
+export interface FlagUpdateResult {
+  success: boolean;
+  message?: string;
+}
+
+export interface KeywordUpdatePayload {
+  ids: string[];
+  keywords: string[];
+}
+
+export interface KeywordUpdateResult {
+  success: boolean;
+  message?: string;
+  // Resulting keyword list for each photo in the request
+  keywords?: Record<string, string[]>;
+}
+
+export type MetadataSyncStatus =
+  | "pending"
+  | "written"
+  | "failed"
+  | "skippedSlowVolume"
+  | "skippedDisabled";
+
+export interface MetadataSyncStatusPayload {
+  id: string;
+  status: MetadataSyncStatus;
+  message?: string;
+}
+
 export interface RatingUpdateResult {
   success: boolean;
   message?: string;
 }
 
+export interface MetadataModeUpdatePayload {
+  directory: string;
+  mode: MetadataMode;
+}
+
+export interface MetadataModeUpdateResult {
+  success: boolean;
+  message?: string;
+}
+
 export interface DeletePhotoResult {
   success: boolean;
   message?: string;
+  // Whether every file can be put back from the trash with `restorePhoto`
+  restorable?: boolean;
+  // Trashed on a platform that supports undo, but the file was not found in
+  // the trash again (e.g. a macOS volume's own trash)
+  lostInTrash?: boolean;
+}
+
+export interface RestorePhotoResult {
+  success: boolean;
+  message?: string;
+  photo?: PhotoMeta;
+  // Values the photo carried before it was moved to the trash
+  rating?: number;
+  label?: ColorLabel | null;
+  flag?: PhotoFlag | null;
+  keywords?: string[];
 }
 
 export interface RevealPhotoResult {
@@ -45,6 +239,17 @@ export interface RevealPhotoResult {
   message?: string;
 }
 
+export interface PhotoMetadataRequest {
+  path: string;
+  modifiedAt: number;
+}
+
+export interface PhotoMetadataResult {
+  success: boolean;
+  metadata?: PhotoExifInfo;
+  message?: string;
+}
+
 export interface OpenDirectoryResult {
   success: boolean;
   message?: string;
@@ -60,3 +265,172 @@ export interface RenamePhotoResult {
   message?: string;
   photo?: PhotoMeta;
 }
+
+export type TransferMode = "copy" | "move";
+
+// What to do when a file of the same name is already at the destination
+export type TransferConflictPolicy = "skip" | "rename" | "overwrite";
+
+export interface TransferOptions {
+  conflictPolicy: TransferConflictPolicy;
+  // Recreate each photo's folders below its workspace root at the destination
+  preserveStructure: boolean;
+  includeSidecars: boolean;
+  // Stored rating, label, flag and keywords follow the photo
+  includeRatings: boolean;
+}
+
+export interface TransferPayload {
+  paths: string[];
+  destination: string;
+  options: TransferOptions;
+}
+
+export interface TransferProgressPayload {
+  transferId: number;
+  mode: TransferMode;
+  completed: number;
+  total: number;
+  currentPath: string | null;
+}
+
+export interface TransferResult {
+  success: boolean;
+  message?: string;
+  // Source path -> the photo's primary path at the destination
+  transferred?: Record<string, string>;
+  skipped?: number;
+  failed?: number;
+  // Sidecars that could not be carried along with their transferred photo
+  sidecarsFailed?: number;
+  cancelled?: boolean;
+}
+
+export type ExportFormat = "jpeg" | "webp" | "avif" | "png";
+
+export type ExportWatermarkPosition =
+  | "topLeft"
+  | "topRight"
+  | "bottomLeft"
+  | "bottomRight"
+  | "center";
+
+export interface ExportWatermark {
+  kind: "text" | "image";
+  // The text itself, or the path of the image to overlay
+  value: string;
+  position: ExportWatermarkPosition;
+  // 0-1
+  opacity: number;
+}
+
+export interface ExportOptions {
+  destination: string;
+  format: ExportFormat;
+  // 1-100; PNG is lossless and ignores it
+  quality: number;
+  // Longest side in pixels; null keeps the full size
+  longEdge: number | null;
+  convertToSrgb: boolean;
+  keepMetadata: boolean;
+  watermark: ExportWatermark | null;
+  // See formatExportFileName for the tokens
+  fileNameTemplate: string;
+}
+
+export interface ExportPhoto {
+  path: string;
+  modifiedAt: number;
+  capturedAt: number | null;
+  rating: number;
+}
+
+export interface ExportRequest {
+  photos: ExportPhoto[];
+  options: ExportOptions;
+}
+
+export interface ExportStartResult {
+  success: boolean;
+  message?: string;
+  jobId?: number;
+}
+
+export interface ExportProgressPayload {
+  jobId: number;
+  destination: string;
+  completed: number;
+  total: number;
+  failed: number;
+  // Photo being rendered; null while queued and once the job has ended
+  currentPath: string | null;
+  done: boolean;
+  cancelled: boolean;
+}
+
+export interface ThumbnailStats {
+  workerCount: number;
+  activeJobs: number;
+  queuedJobs: number;
+  completedJobs: number;
+  failedJobs: number;
+  restartedWorkers: number;
+  throughputPerSecond: number;
+}
+
+export interface AppSettings {
+  // null lets the app pick a worker count from the CPU count
+  thumbnailWorkerCount: number | null;
+  cacheSizeLimitMb: number;
+  // Largest gap between frames of one burst stack; null turns stacking off
+  burstGapSeconds: number | null;
+}
+
+export interface AppSettingsPayload {
+  settings: AppSettings;
+  defaultThumbnailWorkerCount: number;
+  maxThumbnailWorkerCount: number;
+}
+
+export interface AppSettingsUpdateResult {
+  success: boolean;
+  message?: string;
+  settings?: AppSettings;
+}
+
+export interface RecentFolder {
+  path: string;
+  openedAt: number;
+  // False while the folder is missing, e.g. on an unplugged drive
+  exists: boolean;
+}
+
+// What the window showed when it was last used, restored on the next launch.
+// Filter and sort values are the renderer's own and are checked there.
+export interface SessionState {
+  // Workspace roots in the order they were added
+  directories: string[];
+  filterMode: string;
+  ratingFilter: number[];
+  sortKey: string;
+  selectedIds: string[];
+  focusId: string | null;
+  scrollTop: number;
+  previewPanelWidth: number;
+}
+
+export type CacheKind = "thumbnail" | "media";
+
+export interface CacheUsage {
+  thumbnailBytes: number;
+  thumbnailFiles: number;
+  mediaBytes: number;
+  mediaFiles: number;
+  limitBytes: number;
+}
+
+export interface CacheClearResult {
+  success: boolean;
+  message?: string;
+  usage?: CacheUsage;
+}